@@ -0,0 +1,44 @@
+// API route Keycloak redirects back to after the per-user login
+// Exchanges the authorization code for the user's tokens and opens a server-side session
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { getRequestIFSProfile, runWithIFSProfile } from '@/lib/api/ifs-profiles';
+import { LOGIN_STATE_COOKIE, SESSION_COOKIE, completeIFSLogin } from '@/lib/api/ifs-session';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const code = params.get('code');
+  const state = params.get('state');
+
+  if (params.get('error')) {
+    return NextResponse.json({
+      error: 'Sign-in failed',
+      details: params.get('error_description') || params.get('error'),
+    }, { status: 401 });
+  }
+  if (!code || !state || state !== request.cookies.get(LOGIN_STATE_COOKIE)?.value) {
+    return NextResponse.json({ error: 'Invalid sign-in response, please sign in again' }, { status: 400 });
+  }
+
+  try {
+    const { session, returnTo } = await runWithIFSProfile(getRequestIFSProfile(request), () => completeIFSLogin(code, state));
+
+    const response = NextResponse.redirect(new URL(returnTo, request.nextUrl.origin));
+    response.cookies.delete({ name: LOGIN_STATE_COOKIE, path: '/api/auth' });
+    response.cookies.set(SESSION_COOKIE, session.id, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: request.nextUrl.protocol === 'https:',
+      path: '/',
+    });
+    return response;
+  } catch (error) {
+    console.error('[API Route] Sign-in failed:', error);
+    return NextResponse.json({
+      error: 'Sign-in failed',
+      details: error instanceof Error ? error.message : String(error),
+    }, { status: 401 });
+  }
+}
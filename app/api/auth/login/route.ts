@@ -0,0 +1,31 @@
+// API route to start the per-user IFS Cloud login
+// GET /api/auth/login?returnTo=/path redirects to the Keycloak login page (authorization code + PKCE)
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { ifsCloudConfig } from '@/lib/api/ifs-config';
+import { getRequestIFSProfile, runWithIFSProfile } from '@/lib/api/ifs-profiles';
+import { LOGIN_STATE_COOKIE, LOGIN_TIMEOUT_MS, beginIFSLogin, getRedirectUri } from '@/lib/api/ifs-session';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  if (!ifsCloudConfig.userLogin) {
+    return NextResponse.json({ error: 'Per-user login is disabled (IFS_USER_LOGIN)' }, { status: 404 });
+  }
+
+  // Sign in to the realm of the profile the browser has picked
+  const { state, url } = runWithIFSProfile(getRequestIFSProfile(request), () =>
+    beginIFSLogin(getRedirectUri(request), request.nextUrl.searchParams.get('returnTo'))
+  );
+
+  // Ties the callback to this browser, so a login started elsewhere cannot be completed here
+  const response = NextResponse.redirect(url);
+  response.cookies.set(LOGIN_STATE_COOKIE, state, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: request.nextUrl.protocol === 'https:',
+    path: '/api/auth',
+    maxAge: LOGIN_TIMEOUT_MS / 1000,
+  });
+  return response;
+}
@@ -0,0 +1,18 @@
+// API route to sign the current user out
+// Ends the server-side session and returns the Keycloak URL that ends the IFS session too
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { getRequestIFSProfile, runWithIFSProfile } from '@/lib/api/ifs-profiles';
+import { SESSION_COOKIE, endIFSSession } from '@/lib/api/ifs-session';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  const logoutUrl = runWithIFSProfile(getRequestIFSProfile(request), () =>
+    endIFSSession(request.cookies.get(SESSION_COOKIE)?.value, request.nextUrl.origin)
+  );
+
+  const response = NextResponse.json({ logoutUrl });
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
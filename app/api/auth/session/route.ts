@@ -0,0 +1,18 @@
+// API route telling the browser whether per-user login is on and who is signed in
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { ifsCloudConfig } from '@/lib/api/ifs-config';
+import { getRequestIFSProfile, runWithIFSProfile } from '@/lib/api/ifs-profiles';
+import { SESSION_COOKIE, getIFSSession } from '@/lib/api/ifs-session';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const session = ifsCloudConfig.userLogin
+    ? await runWithIFSProfile(getRequestIFSProfile(request), () => getIFSSession(request.cookies.get(SESSION_COOKIE)?.value))
+    : null;
+  return NextResponse.json({
+    userLogin: ifsCloudConfig.userLogin,
+    user: session?.user ?? null,
+  });
+}
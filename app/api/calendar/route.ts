@@ -0,0 +1,50 @@
+// API route to load the working calendar from the IFS work time calendar
+// GET /api/calendar?from=yyyy-MM-dd&to=yyyy-MM-dd
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { getWorkingCalendarFromIFS } from '@/lib/api/ifs-calendar';
+import { authenticateIFSCloud, isIFSAuthenticated } from '@/lib/api/ifs-auth';
+import { ifsCloudConfig } from '@/lib/api/ifs-config';
+import { ifsAuthErrorResponse, withIFSSession } from '@/lib/api/ifs-session';
+
+export const dynamic = 'force-dynamic';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+async function handleGet(request: NextRequest) {
+  const useIFSCloud = process.env.NEXT_PUBLIC_USE_IFS_CLOUD === 'true';
+
+  if (!useIFSCloud) {
+    return NextResponse.json({ error: 'IFS Cloud integration is disabled' }, { status: 400 });
+  }
+  if (!ifsCloudConfig.calendarId) {
+    return NextResponse.json({ error: 'No IFS calendar is configured (NEXT_PUBLIC_IFS_CALENDAR_ID)' }, { status: 404 });
+  }
+
+  const from = request.nextUrl.searchParams.get('from') ?? '';
+  const to = request.nextUrl.searchParams.get('to') ?? '';
+  if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to)) {
+    return NextResponse.json({ error: 'from and to must be dates as yyyy-MM-dd' }, { status: 400 });
+  }
+
+  try {
+    if (!isIFSAuthenticated()) {
+      await authenticateIFSCloud();
+    }
+    return NextResponse.json(await getWorkingCalendarFromIFS(from, to));
+  } catch (error) {
+    console.error('[API Route] Error fetching calendar:', error);
+    const authResponse = ifsAuthErrorResponse(error);
+    if (authResponse) {
+      return authResponse;
+    }
+    return NextResponse.json({
+      error: 'Failed to fetch the calendar from IFS Cloud',
+      details: error instanceof Error ? error.message : String(error),
+    }, { status: 500 });
+  }
+}
+
+export async function GET(request: NextRequest) {
+  return withIFSSession(request, () => handleGet(request));
+}
@@ -1,10 +1,11 @@
 // API route to get crew leaders from IFS Cloud for manual verification
 
-import { NextResponse } from 'next/server';
+import { NextResponse, type NextRequest } from 'next/server';
 import { getCrewLeadersFromIFS } from '@/lib/api/ifs-crews';
 import { authenticateIFSCloud, isIFSAuthenticated } from '@/lib/api/ifs-auth';
+import { ifsAuthErrorResponse, withIFSSession } from '@/lib/api/ifs-session';
 
-export async function GET(
+async function handleGet(
   request: Request,
   { params }: { params: { resourceSeq: string } }
 ) {
@@ -28,9 +29,17 @@ export async function GET(
     return NextResponse.json(leaders);
   } catch (error) {
     console.error(`[API Route] Error fetching leaders for ${resourceSeq}:`, error);
+    const authResponse = ifsAuthErrorResponse(error);
+    if (authResponse) {
+      return authResponse;
+    }
     return NextResponse.json({ 
       error: 'Failed to fetch leaders',
       details: error instanceof Error ? error.message : String(error)
     }, { status: 500 });
   }
 }
+
+export async function GET(request: NextRequest, context: { params: { resourceSeq: string } }) {
+  return withIFSSession(request, () => handleGet(request, context));
+}
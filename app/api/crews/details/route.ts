@@ -0,0 +1,76 @@
+// API route to load all crews with their memberships and leaders in one request
+// Streams NDJSON (see src/lib/api/crew-load.ts): the crew count first, then one line per crew
+// as it completes, so the client can show progress; crews are loaded with bounded parallelism
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { getAllCrewDetailsFromIFS, getCrewsFromIFS, type IFSCrewItem } from '@/lib/api/ifs-crews';
+import { authenticateIFSCloud, isIFSAuthenticated } from '@/lib/api/ifs-auth';
+import { encodeCrewLoadEvent, type CrewLoadEvent } from '@/lib/api/crew-load';
+import { ifsAuthErrorResponse, withIFSSession } from '@/lib/api/ifs-session';
+
+export const dynamic = 'force-dynamic';
+
+async function handleGet() {
+  const useIFSCloud = process.env.NEXT_PUBLIC_USE_IFS_CLOUD === 'true';
+
+  if (!useIFSCloud) {
+    return NextResponse.json({ error: 'IFS Cloud integration is disabled' }, { status: 400 });
+  }
+
+  // Fail with a plain error response while nothing has been streamed yet
+  let crews: IFSCrewItem[];
+  try {
+    if (!isIFSAuthenticated()) {
+      await authenticateIFSCloud();
+    }
+    crews = await getCrewsFromIFS();
+  } catch (error) {
+    console.error('[API Route] Error fetching crews:', error);
+    const authResponse = ifsAuthErrorResponse(error);
+    if (authResponse) {
+      return authResponse;
+    }
+    return NextResponse.json({
+      error: 'Failed to fetch crews from IFS Cloud',
+      details: error instanceof Error ? error.message : String(error),
+    }, { status: 500 });
+  }
+
+  console.log(`[API Route] Loading memberships and leaders for ${crews.length} crews`);
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: CrewLoadEvent) => controller.enqueue(encoder.encode(encodeCrewLoadEvent(event)));
+
+      send({ type: 'crews', total: crews.length });
+      try {
+        let completed = 0;
+        await getAllCrewDetailsFromIFS(crews, (details, index) => {
+          completed++;
+          send({ type: 'crew', index, details, completed, total: crews.length });
+        });
+        send({ type: 'done' });
+      } catch (error) {
+        console.error('[API Route] Error loading crew details:', error);
+        send({
+          type: 'error',
+          error: 'Failed to load crew details',
+          details: error instanceof Error ? error.message : String(error),
+        });
+      }
+      controller.close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson',
+      'Cache-Control': 'no-cache',
+    },
+  });
+}
+
+export async function GET(request: NextRequest) {
+  return withIFSSession(request, handleGet);
+}
@@ -1,10 +1,11 @@
 // API route to get crews from IFS Cloud for manual verification
 
-import { NextResponse } from 'next/server';
+import { NextResponse, type NextRequest } from 'next/server';
 import { getCrewsFromIFS } from '@/lib/api/ifs-crews';
-import { authenticateIFSCloud, isIFSAuthenticated, getIFSBearerToken } from '@/lib/api/ifs-auth';
+import { authenticateIFSCloud, isIFSAuthenticated } from '@/lib/api/ifs-auth';
+import { ifsAuthErrorResponse, withIFSSession } from '@/lib/api/ifs-session';
 
-export async function GET() {
+async function handleGet() {
   const useIFSCloud = process.env.NEXT_PUBLIC_USE_IFS_CLOUD === 'true';
   
   console.log('[API Route] GET /api/crews, USE_IFS_CLOUD:', useIFSCloud);
@@ -14,10 +15,11 @@ export async function GET() {
   }
   
   try {
-    // Force fresh authentication for crews endpoint
-    console.log('[API Route] Authenticating with IFS Cloud...');
-    const token = await authenticateIFSCloud();
-    console.log('[API Route] Authentication successful, token length:', token?.length || 0);
+    // Authenticate if needed; a cached token is reused until it needs renewing
+    if (!isIFSAuthenticated()) {
+      console.log('[API Route] Authenticating with IFS Cloud...');
+      await authenticateIFSCloud();
+    }
     
     // Fetch crews from IFS Cloud
     console.log('[API Route] Fetching crews from IFS Cloud...');
@@ -30,13 +32,10 @@ export async function GET() {
     const errorMessage = error instanceof Error ? error.message : String(error);
     console.error('[API Route] Error details:', errorMessage);
     
-    // If it's a 401, provide more specific guidance
-    if (errorMessage.includes('401') || errorMessage.includes('Authorization')) {
-      return NextResponse.json({ 
-        error: 'Authentication failed - 401 Authorization Required',
-        details: errorMessage,
-        suggestion: 'Please verify your IFS Cloud credentials in .env.local (IFS_CLIENT_ID, IFS_CLIENT_SECRET, IFS_USERNAME, IFS_PASSWORD)'
-      }, { status: 401 });
+    // Say which setting to check when IFS did not let us in
+    const authResponse = ifsAuthErrorResponse(error);
+    if (authResponse) {
+      return authResponse;
     }
     
     return NextResponse.json({ 
@@ -45,3 +44,7 @@ export async function GET() {
     }, { status: 500 });
   }
 }
+
+export async function GET(request: NextRequest) {
+  return withIFSSession(request, handleGet);
+}
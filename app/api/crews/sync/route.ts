@@ -0,0 +1,71 @@
+// API route to write crew, membership and leader changes back to IFS Cloud
+// Each operation is applied individually and reported back with its own outcome
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { applyCrewSyncOperation } from '@/lib/api/ifs-crews';
+import { authenticateIFSCloud, isIFSAuthenticated } from '@/lib/api/ifs-auth';
+import { crewSyncRequestSchema, sortCrewSyncOperations, type CrewSyncOperationResult } from '@/lib/api/crew-sync';
+import { ifsAuthErrorResponse, withIFSSession } from '@/lib/api/ifs-session';
+
+async function handlePost(request: Request) {
+  const useIFSCloud = process.env.NEXT_PUBLIC_USE_IFS_CLOUD === 'true';
+
+  if (!useIFSCloud) {
+    return NextResponse.json({ error: 'IFS Cloud integration is disabled' }, { status: 400 });
+  }
+
+  const parsed = crewSyncRequestSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({
+      error: 'Invalid sync request',
+      details: parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; '),
+    }, { status: 400 });
+  }
+
+  try {
+    if (!isIFSAuthenticated()) {
+      await authenticateIFSCloud();
+    }
+  } catch (error) {
+    console.error('[API Route] Error signing in for crew sync:', error);
+    const authResponse = ifsAuthErrorResponse(error);
+    if (authResponse) {
+      return authResponse;
+    }
+    return NextResponse.json({
+      error: 'Failed to sign in to IFS Cloud',
+      details: error instanceof Error ? error.message : String(error),
+    }, { status: 500 });
+  }
+
+  const results: CrewSyncOperationResult[] = [];
+  const failedItems = new Set<string>();
+
+  // Apply sequentially: deletes, then updates, then creates
+  for (const operation of sortCrewSyncOperations(parsed.data.operations)) {
+    if (failedItems.has(operation.itemId)) {
+      results.push({
+        id: operation.id,
+        itemId: operation.itemId,
+        kind: operation.kind,
+        success: false,
+        error: 'Skipped: an earlier operation for this item failed',
+      });
+      continue;
+    }
+
+    const result = await applyCrewSyncOperation(operation);
+    if (!result.success) {
+      failedItems.add(operation.itemId);
+    }
+    results.push(result);
+  }
+
+  console.log(`[API Route] Crew sync: ${results.filter((r) => r.success).length}/${results.length} operations succeeded`);
+
+  return NextResponse.json({ results });
+}
+
+export async function POST(request: NextRequest) {
+  return withIFSSession(request, () => handlePost(request));
+}
@@ -0,0 +1,52 @@
+// API route to list the IFS connection profiles and pick the one this browser works with
+// GET /api/profiles returns { profiles, activeId }; POST /api/profiles { id } switches profile
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { PROFILE_COOKIE, getIFSProfiles, getRequestIFSProfile, toIFSProfileSummary } from '@/lib/api/ifs-profiles';
+
+export const dynamic = 'force-dynamic';
+
+// How long the browser keeps its pick
+const PROFILE_COOKIE_MAX_AGE_S = 365 * 24 * 60 * 60;
+
+function profilesErrorResponse(error: unknown): NextResponse {
+  console.error('[API Route] Error reading connection profiles:', error);
+  return NextResponse.json({
+    error: 'The IFS connection profiles are not valid',
+    details: error instanceof Error ? error.message : String(error),
+  }, { status: 500 });
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    return NextResponse.json({
+      profiles: getIFSProfiles().map(toIFSProfileSummary),
+      activeId: getRequestIFSProfile(request).id,
+    });
+  } catch (error) {
+    return profilesErrorResponse(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  try {
+    const profile = getIFSProfiles().find((p) => p.id === body?.id);
+    if (!profile) {
+      return NextResponse.json({ error: `Unknown connection profile: ${body?.id}` }, { status: 400 });
+    }
+
+    console.log(`[API Route] Switching to IFS connection profile ${profile.id}`);
+    const response = NextResponse.json({ profile: toIFSProfileSummary(profile) });
+    response.cookies.set(PROFILE_COOKIE, profile.id, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: request.nextUrl.protocol === 'https:',
+      path: '/',
+      maxAge: PROFILE_COOKIE_MAX_AGE_S,
+    });
+    return response;
+  } catch (error) {
+    return profilesErrorResponse(error);
+  }
+}
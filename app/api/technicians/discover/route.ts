@@ -1,9 +1,10 @@
 // API route to discover available resources in IFS Cloud (without filters)
 // Use this to find the correct ResourceParentSeq and ServiceOrganizationId for your environment
 
-import { NextResponse } from 'next/server';
+import { NextResponse, type NextRequest } from 'next/server';
 import { authenticateIFSCloud, isIFSAuthenticated, ifsGet } from '@/lib/api/ifs-auth';
 import { getIFSApiBaseUrl } from '@/lib/api/ifs-config';
+import { ifsAuthErrorResponse, withIFSSession } from '@/lib/api/ifs-session';
 
 interface IFSResourceItem {
   ResourceSeq: number;
@@ -19,7 +20,7 @@ interface IFSResourceResponse {
   value: IFSResourceItem[];
 }
 
-export async function GET() {
+async function handleGet() {
   try {
     // Authenticate if needed
     if (!isIFSAuthenticated()) {
@@ -45,6 +46,10 @@ export async function GET() {
     });
   } catch (error) {
     console.error('[Discover] Error:', error);
+    const authResponse = ifsAuthErrorResponse(error);
+    if (authResponse) {
+      return authResponse;
+    }
     return NextResponse.json({
       error: 'Failed to discover resources',
       details: error instanceof Error ? error.message : String(error),
@@ -52,3 +57,7 @@ export async function GET() {
     }, { status: 500 });
   }
 }
+
+export async function GET(request: NextRequest) {
+  return withIFSSession(request, handleGet);
+}
@@ -1,11 +1,12 @@
 // Server-side API route for fetching technicians from IFS Cloud
 // This route handles authentication securely on the server
 
-import { NextResponse } from 'next/server';
+import { NextResponse, type NextRequest } from 'next/server';
 import { getTechniciansFromIFS } from '@/lib/api/ifs-technicians';
 import { authenticateIFSCloud, isIFSAuthenticated } from '@/lib/api/ifs-auth';
+import { ifsAuthErrorResponse, withIFSSession } from '@/lib/api/ifs-session';
 
-// Mock data fallback
+// Mock data, served when IFS Cloud is disabled
 const mockTechnicians = [
   { id: 'tech-001', description: 'James Wilson', ResourceSeq: 1001, role: 'Technician', skills: [] },
   { id: 'tech-002', description: 'Sarah Mitchell', ResourceSeq: 1002, role: 'Technician', skills: [] },
@@ -17,7 +18,7 @@ const mockTechnicians = [
   { id: 'tech-008', description: 'Amelia Roberts', ResourceSeq: 1008, role: 'Technician', skills: [] },
 ];
 
-export async function GET() {
+async function handleGet() {
   const useIFSCloud = process.env.NEXT_PUBLIC_USE_IFS_CLOUD === 'true';
   
   console.log('[API Route] GET /api/technicians, USE_IFS_CLOUD:', useIFSCloud);
@@ -41,8 +42,19 @@ export async function GET() {
     
     return NextResponse.json(technicians);
   } catch (error) {
-    console.error('[API Route] Error fetching from IFS Cloud:', error);
-    console.log('[API Route] Falling back to mock data');
-    return NextResponse.json(mockTechnicians);
+    console.error('[API Route] Error fetching technicians:', error);
+    const authResponse = ifsAuthErrorResponse(error);
+    if (authResponse) {
+      return authResponse;
+    }
+    // Mock technicians, or part of the real ones, would pass for the whole resource group
+    return NextResponse.json({
+      error: 'Failed to fetch technicians from IFS Cloud',
+      details: error instanceof Error ? error.message : String(error),
+    }, { status: 500 });
   }
 }
+
+export async function GET(request: NextRequest) {
+  return withIFSSession(request, handleGet);
+}
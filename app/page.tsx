@@ -1,7 +1,23 @@
+import { cookies } from 'next/headers';
+import { redirect } from 'next/navigation';
 import { TopMenu } from '@/components/TopMenu';
 import { Scheduler } from '@/features/scheduler';
+import { ifsCloudConfig } from '@/lib/api/ifs-config';
+import { PROFILE_COOKIE, getIFSProfile, runWithIFSProfile } from '@/lib/api/ifs-profiles';
+import { SESSION_COOKIE, getIFSSession } from '@/lib/api/ifs-session';
+
+export const dynamic = 'force-dynamic';
+
+export default async function HomePage() {
+  // With per-user login nothing is loaded from IFS until the user has signed in to the realm
+  // of the active connection profile
+  if (ifsCloudConfig.userLogin) {
+    const profile = getIFSProfile(cookies().get(PROFILE_COOKIE)?.value);
+    if (!(await runWithIFSProfile(profile, () => getIFSSession(cookies().get(SESSION_COOKIE)?.value)))) {
+      redirect('/api/auth/login');
+    }
+  }
 
-export default function HomePage() {
   return (
     <main>
       <TopMenu />
@@ -1,3 +1,6 @@
+// Run in a time zone west of UTC with DST, so date handling that only works in UTC fails the tests
+process.env.TZ = 'America/New_York';
+
 /** @type {import('jest').Config} */
 const config = {
   preset: 'ts-jest',
@@ -0,0 +1,373 @@
+// End-to-end tests of the IFS Cloud client code (src/lib/api) against the mock IFS server
+
+import { startMockIFSServer, type MockIFSServer } from '../server';
+import type { MockIFSFixtures } from '../store';
+import fixtures from '../fixtures/default.json';
+import { ifsCloudConfig } from '@/lib/api/ifs-config';
+import { authenticateIFSCloud, clearIFSToken, ifsGet, runAsIFSUser } from '@/lib/api/ifs-auth';
+import { beginIFSLogin, completeIFSLogin, getIFSSession } from '@/lib/api/ifs-session';
+import { parseIFSProfiles, runWithIFSProfile } from '@/lib/api/ifs-profiles';
+import { getTechniciansFromIFS, getTechnicianByIdFromIFS } from '@/lib/api/ifs-technicians';
+import { applyCrewSyncOperation, getAllCrewDetailsFromIFS, getCrewsFromIFS } from '@/lib/api/ifs-crews';
+import { getWorkingCalendarFromIFS } from '@/lib/api/ifs-calendar';
+
+jest.spyOn(console, 'debug').mockImplementation();
+jest.spyOn(console, 'error').mockImplementation();
+jest.spyOn(console, 'warn').mockImplementation();
+
+describe('IFS Cloud client against the mock IFS server', () => {
+  let server: MockIFSServer;
+  const originalConfig = { ...ifsCloudConfig };
+
+  beforeAll(async () => {
+    // Two rows per page, so every collection read has to follow @odata.nextLink
+    server = await startMockIFSServer({ fixtures: fixtures as MockIFSFixtures, pageSize: 2 });
+    Object.assign(ifsCloudConfig, {
+      baseUrl: server.url,
+      environmentId: 'mock',
+      clientId: 'Postman-API',
+      clientSecret: 'mock-secret',
+      username: 'mock.user',
+      password: 'mock-password',
+      resourceGroupSeq: 1937,
+      resourceGroupSeqCrews: 1938,
+      serviceOrganizationId: '2501',
+      calendarId: 'MOCK',
+    });
+  });
+
+  afterAll(async () => {
+    Object.assign(ifsCloudConfig, originalConfig);
+    clearIFSToken();
+    await server.close();
+  });
+
+  beforeEach(() => {
+    server.reset();
+    clearIFSToken();
+  });
+
+  describe('authentication', () => {
+    it('should get a bearer token from the token endpoint', async () => {
+      const token = await authenticateIFSCloud();
+
+      expect(token).toMatch(/^Bearer .+/);
+      expect(server.requests).toEqual(['POST /auth/realms/mock/protocol/openid-connect/token']);
+    });
+
+    it('should keep the bearer token out of the logs', async () => {
+      const token = await authenticateIFSCloud();
+      const logged = [console.debug, console.error, console.warn] as jest.Mock[];
+      logged.forEach((log) => log.mockClear());
+
+      await getTechniciansFromIFS();
+      await expect(ifsGet(`${server.url}/main/ifsapplications/projection/v1/ResourceCrewHandling.svc/ResourceSet(ResourceSeq=9999)`)).rejects.toThrow();
+
+      const output = logged.flatMap((log) => log.mock.calls.flat()).map(String).join('\n');
+      expect(output).toContain('[redacted]');
+      expect(output).not.toContain(token.replace('Bearer ', ''));
+    });
+
+    it('should reject wrong user credentials', async () => {
+      ifsCloudConfig.password = 'wrong';
+      try {
+        await expect(authenticateIFSCloud()).rejects.toThrow('Authentication failed: 401');
+      } finally {
+        ifsCloudConfig.password = 'mock-password';
+      }
+    });
+
+    it('should sign in with the client_credentials grant and say what to check when the client is refused', async () => {
+      Object.assign(ifsCloudConfig, { grantType: 'client_credentials' });
+      try {
+        expect(await getCrewsFromIFS()).toHaveLength(3);
+
+        clearIFSToken();
+        ifsCloudConfig.clientSecret = 'wrong';
+        await expect(authenticateIFSCloud()).rejects.toThrow(
+          'Authentication failed: 401 - Invalid client or Invalid client credentials (unauthorized_client). Check IFS_CLIENT_ID and IFS_CLIENT_SECRET'
+        );
+      } finally {
+        Object.assign(ifsCloudConfig, { grantType: 'password', clientSecret: 'mock-secret' });
+      }
+    });
+
+    it('should re-authenticate once when the token is rejected with 401', async () => {
+      await authenticateIFSCloud();
+      server.revokeTokens();
+
+      const crews = await getCrewsFromIFS();
+
+      expect(crews).toHaveLength(3);
+      expect(server.requests.filter((r) => r.includes('/token'))).toHaveLength(2);
+    });
+  });
+
+  describe('per-user login', () => {
+    const redirectUri = 'http://localhost:3000/api/auth/callback';
+
+    // Follow the login page to the callback and return its query
+    const signIn = async (returnTo?: string) => {
+      const { state, url } = beginIFSLogin(redirectUri, returnTo);
+      const response = await fetch(url, { redirect: 'manual' });
+      const callback = new URL(response.headers.get('location') ?? '');
+      expect(callback.searchParams.get('state')).toBe(state);
+      return completeIFSLogin(callback.searchParams.get('code') ?? '', state);
+    };
+
+    it('should sign a user in with the authorization code and PKCE and call IFS with their token', async () => {
+      const { session, returnTo } = await signIn('/?view=month');
+
+      expect(returnTo).toBe('/?view=month');
+      expect(session.user).toEqual({ username: 'mock.user', name: 'mock.user', email: undefined });
+
+      const crews = await runAsIFSUser(session.accessToken, () => getCrewsFromIFS());
+
+      expect(crews).toHaveLength(3);
+      // The shared service account is never used
+      expect(server.requests.filter((r) => r.includes('/token'))).toHaveLength(1);
+    });
+
+    it('should not complete a login twice or with a state it did not start', async () => {
+      const { state, url } = beginIFSLogin(redirectUri);
+      const code = new URL((await fetch(url, { redirect: 'manual' })).headers.get('location') ?? '').searchParams.get('code') ?? '';
+
+      await expect(completeIFSLogin(code, 'forged')).rejects.toThrow('please sign in again');
+      await completeIFSLogin(code, state);
+      await expect(completeIFSLogin(code, state)).rejects.toThrow('please sign in again');
+    });
+
+    it('should renew an expired session with its refresh token, and end it when that is refused', async () => {
+      const { session } = await signIn();
+      const firstToken = session.accessToken;
+      session.accessTokenExpiresAt = 0;
+
+      const renewed = await getIFSSession(session.id);
+      expect(renewed?.accessToken).not.toBe(firstToken);
+
+      server.reset();
+      session.accessTokenExpiresAt = 0;
+      await expect(getIFSSession(session.id)).resolves.toBeNull();
+      await expect(getIFSSession(session.id)).resolves.toBeNull();
+    });
+
+    it('should share one refresh between requests that find the session expired together', async () => {
+      const { session } = await signIn();
+      session.accessTokenExpiresAt = 0;
+      server.requests.length = 0;
+
+      const [first, second] = await Promise.all([getIFSSession(session.id), getIFSSession(session.id)]);
+
+      expect(first).toBe(second);
+      expect(server.requests.filter((r) => r.includes('/token'))).toHaveLength(1);
+    });
+  });
+
+  describe('connection profiles', () => {
+    const [east, otherRealm] = parseIFSProfiles([
+      { id: 'east', name: 'East', resourceGroupSeqCrews: 1941, serviceOrganizationId: '2502' },
+      { id: 'other', name: 'Other realm', environmentId: 'other' },
+    ]);
+
+    it('should read the crews and technicians of the profile a request runs with', async () => {
+      const [crews, technicians] = await runWithIFSProfile(east, () => Promise.all([getCrewsFromIFS(), getTechniciansFromIFS()]));
+
+      expect(crews.map((c) => c.ResourceSeq)).toEqual([2004]);
+      expect(technicians.map((t) => t.id)).toEqual(['TECH007']);
+      expect(await getCrewsFromIFS()).toHaveLength(3);
+      // Same realm and account, so one token serves both
+      expect(server.requests.filter((r) => r.includes('/token'))).toHaveLength(1);
+    });
+
+    it('should sign in to the realm of each profile and not use a session of another realm', async () => {
+      await authenticateIFSCloud();
+      await runWithIFSProfile(otherRealm, () => authenticateIFSCloud());
+
+      expect(server.requests.filter((r) => r.includes('/token'))).toEqual([
+        'POST /auth/realms/mock/protocol/openid-connect/token',
+        'POST /auth/realms/other/protocol/openid-connect/token',
+      ]);
+
+      const { state, url } = beginIFSLogin('http://localhost:3000/api/auth/callback');
+      const callback = new URL((await fetch(url, { redirect: 'manual' })).headers.get('location') ?? '');
+      const { session } = await completeIFSLogin(callback.searchParams.get('code') ?? '', state);
+
+      expect(await getIFSSession(session.id)).toBe(session);
+      await expect(runWithIFSProfile(otherRealm, () => getIFSSession(session.id))).resolves.toBeNull();
+    });
+  });
+
+  describe('reads', () => {
+    it('should load every technician of the resource group and service organization across pages', async () => {
+      const technicians = await getTechniciansFromIFS();
+
+      expect(technicians.map((t) => t.id)).toEqual(['TECH001', 'TECH002', 'TECH003', 'TECH004', 'TECH005', 'TECH006']);
+      expect(technicians[1]).toEqual({ id: 'TECH002', description: 'Jane Doe', ResourceSeq: 1002, role: 'Technician', skills: [] });
+      expect(server.requests.filter((r) => r.includes('ServiceResourceDetailsHandling'))).toHaveLength(3);
+    });
+
+    it('should find a single technician by ResourceId', async () => {
+      expect(await getTechnicianByIdFromIFS('TECH004')).toMatchObject({ description: 'Maria Garcia' });
+      expect(await getTechnicianByIdFromIFS('NOBODY')).toBeUndefined();
+    });
+
+    it('should load the crews of the crews resource group with their memberships and leaders', async () => {
+      const crews = await getCrewsFromIFS();
+      const details = await getAllCrewDetailsFromIFS(crews);
+
+      expect(crews.map((c) => c.ResourceId)).toEqual(['CREW-NORTH', 'CREW-SOUTH', 'CREW-EAST']);
+      expect(crews[0]['@odata.etag']).toBe('W/"1"');
+      expect(details.map((d) => [d.crew.ResourceId, d.members.length, d.leaders.length])).toEqual([
+        ['CREW-NORTH', 3, 1],
+        ['CREW-SOUTH', 2, 1],
+        ['CREW-EAST', 1, 0],
+      ]);
+      expect(details[0].members[2]).toMatchObject({ ResourceMemberSeq: 5003, ResourceId: 'TECH003', '@odata.etag': 'W/"1"' });
+      expect(details.every((d) => d.error === undefined)).toBe(true);
+    });
+
+    it('should refuse collections with more rows than IFS_MAX_ROWS instead of cutting them off', async () => {
+      const crews = await getCrewsFromIFS();
+      Object.assign(ifsCloudConfig, { maxRows: 2 });
+      try {
+        await expect(getTechniciansFromIFS()).rejects.toThrow('More than 2 rows in');
+
+        // A crew with too many memberships is reported, the others load
+        const details = await getAllCrewDetailsFromIFS(crews);
+        expect(details.map((d) => [d.crew.ResourceId, d.members.length])).toEqual([['CREW-NORTH', 0], ['CREW-SOUTH', 2], ['CREW-EAST', 1]]);
+        expect(details[0].error).toMatch(/^Memberships could not be loaded: More than 2 rows in .*raise IFS_MAX_ROWS/);
+      } finally {
+        Object.assign(ifsCloudConfig, { maxRows: originalConfig.maxRows });
+      }
+    });
+
+    it('should read the non-working days of the work time calendar in the requested period', async () => {
+      const calendar = await getWorkingCalendarFromIFS('2026-12-21', '2026-12-31');
+
+      expect(calendar.workingWeekdays).toEqual([1, 2, 3, 4, 5]);
+      expect(calendar.holidays).toEqual([
+        { date: '2026-12-24', name: 'HOLIDAY' },
+        { date: '2026-12-25', name: 'HOLIDAY' },
+      ]);
+    });
+
+    it('should report an OData error for an unknown crew', async () => {
+      const url = `${server.url}/main/ifsapplications/projection/v1/ResourceCrewHandling.svc/ResourceSet(ResourceSeq=9999)/ResourceCrewMembersArray`;
+
+      await expect(ifsGet(url)).rejects.toMatchObject({ status: 404 });
+    });
+  });
+
+  describe('writes', () => {
+    it('should create a crew and a membership, then update the membership with its ETag', async () => {
+      const crew = await applyCrewSyncOperation({ id: 'team-1:createCrew', itemId: 'team-1', kind: 'createCrew', resourceId: 'CREW-WEST', description: 'West Crew' });
+      expect(crew).toMatchObject({ success: true, crewSeq: expect.any(Number) });
+
+      const created = await applyCrewSyncOperation({
+        id: 'assign-1:createMember',
+        itemId: 'assign-1',
+        kind: 'createMember',
+        crewSeq: crew.crewSeq!,
+        resourceId: 'TECH006',
+        start: '2026-02-01T00:00:00Z',
+        end: '2026-03-01T00:00:00Z',
+      });
+      expect(created).toMatchObject({ success: true, memberSeq: expect.any(Number), etag: 'W/"1"' });
+
+      const updated = await applyCrewSyncOperation({
+        id: 'assign-1:updateMember',
+        itemId: 'assign-1',
+        kind: 'updateMember',
+        crewSeq: crew.crewSeq!,
+        memberSeq: created.memberSeq!,
+        etag: created.etag!,
+        start: '2026-02-01T00:00:00Z',
+        end: '2026-04-01T00:00:00Z',
+      });
+      expect(updated).toMatchObject({ success: true, etag: 'W/"2"' });
+
+      const [details] = await getAllCrewDetailsFromIFS([{ ResourceSeq: crew.crewSeq!, ResourceId: 'CREW-WEST', Description: 'West Crew' }]);
+      expect(details.members).toEqual([expect.objectContaining({ ResourceId: 'TECH006', PeriodEnd: '2026-04-01T00:00:00Z' })]);
+    });
+
+    it('should read the new ETag of a row when IFS answers an update without it', async () => {
+      server.omitUpdateBodies();
+      const update = (etag: string) => applyCrewSyncOperation({
+        id: 'assign-1:updateMember',
+        itemId: 'assign-1',
+        kind: 'updateMember',
+        crewSeq: 2001,
+        memberSeq: 5001,
+        etag,
+        start: '2026-01-01T00:00:00Z',
+        end: '2026-06-30T00:00:00Z',
+      });
+
+      const first = await update('W/"1"');
+      expect(first).toMatchObject({ success: true, etag: 'W/"2"' });
+
+      // The next write is still checked against the version pushed last
+      expect(await update('W/"1"')).toMatchObject({ success: false, conflict: { serverVersion: { etag: 'W/"2"' } } });
+      expect(await update(first.etag!)).toMatchObject({ success: true, etag: 'W/"3"' });
+    });
+
+    it('should refuse to write a row whose ETag is not known', async () => {
+      const result = await applyCrewSyncOperation({
+        id: 'assign-1:deleteMember',
+        itemId: 'assign-1',
+        kind: 'deleteMember',
+        crewSeq: 2001,
+        memberSeq: 5001,
+        etag: '', // The sync route rejects this; the client refuses it as well
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('is not known; reload the data from IFS Cloud');
+      expect(server.requests.some((r) => r.startsWith('DELETE'))).toBe(false);
+    });
+
+    it('should report a conflict with the current IFS version when the ETag is stale', async () => {
+      const first = await applyCrewSyncOperation({
+        id: 'leader-1:updateLeader',
+        itemId: 'leader-1',
+        kind: 'updateLeader',
+        crewSeq: 2001,
+        leaderSeq: 6001,
+        etag: 'W/"1"',
+        start: '2026-01-01T00:00:00Z',
+        end: '2026-05-31T00:00:00Z',
+      });
+      expect(first.success).toBe(true);
+
+      const stale = await applyCrewSyncOperation({
+        id: 'leader-1:deleteLeader',
+        itemId: 'leader-1',
+        kind: 'deleteLeader',
+        crewSeq: 2001,
+        leaderSeq: 6001,
+        etag: 'W/"1"',
+      });
+
+      expect(stale).toMatchObject({
+        success: false,
+        error: 'Changed in IFS since you loaded it',
+        conflict: { serverVersion: { start: '2026-01-01T00:00:00Z', end: '2026-05-31T00:00:00Z', etag: 'W/"2"' } },
+      });
+    });
+
+    it('should reject a membership for an unknown resource with the IFS error message', async () => {
+      const result = await applyCrewSyncOperation({
+        id: 'assign-2:createMember',
+        itemId: 'assign-2',
+        kind: 'createMember',
+        crewSeq: 2001,
+        resourceId: 'NOBODY',
+        start: '2026-02-01T00:00:00Z',
+        end: '2026-03-01T00:00:00Z',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('The Resource NOBODY does not exist');
+    });
+  });
+});
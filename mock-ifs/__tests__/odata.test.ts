@@ -0,0 +1,54 @@
+import { ODataQueryError, parseFilter, queryCollection } from '../odata';
+
+const rows = [
+  { ResourceSeq: 1, ResourceId: 'TECH001', ServiceOrganizationId: '2501', PeriodStart: '2026-01-01T00:00:00Z', '@odata.etag': 'W/"1"' },
+  { ResourceSeq: 2, ResourceId: 'TECH002', ServiceOrganizationId: '2502', PeriodStart: '2026-03-01T00:00:00Z', '@odata.etag': 'W/"1"' },
+  { ResourceSeq: 3, ResourceId: "O'BRIEN", ServiceOrganizationId: '2501', PeriodStart: '2026-06-01T00:00:00Z', '@odata.etag': 'W/"3"' },
+];
+
+const url = (query: string) => new URL(`http://localhost/main/ifsapplications/projection/v1/ResourceSet?${query}`);
+
+describe('Mock IFS OData', () => {
+  describe('parseFilter', () => {
+    it('should evaluate comparisons combined with and, or, not and parentheses', () => {
+      const ids = (filter: string) => rows.filter(parseFilter(filter)).map((r) => r.ResourceSeq);
+
+      expect(ids("(ResourceSeq ge 2) and (ServiceOrganizationId eq '2501')")).toEqual([3]);
+      expect(ids("ResourceSeq eq 1 or not (ServiceOrganizationId eq '2501')")).toEqual([1, 2]);
+      expect(ids('PeriodStart lt 2026-04-01T00:00:00Z')).toEqual([1, 2]);
+      expect(ids("ResourceId eq 'O''BRIEN'")).toEqual([3]);
+      expect(ids("startswith(ResourceId,'TECH') and contains(ResourceId,'2')")).toEqual([2]);
+    });
+
+    it('should reject a malformed filter', () => {
+      expect(() => parseFilter('ResourceSeq 1')).toThrow(ODataQueryError);
+      expect(() => parseFilter("(ResourceId eq 'TECH001'")).toThrow("Expected ')' in $filter");
+    });
+  });
+
+  describe('queryCollection', () => {
+    it('should apply $select and $count and keep the ETag', () => {
+      const page = queryCollection(rows, url('$count=true&$select=ResourceId&$filter=ResourceSeq%20gt%201'), { context: 'ctx', pageSize: 10 });
+
+      expect(page).toEqual({
+        '@odata.context': 'ctx',
+        '@odata.count': 2,
+        value: [
+          { '@odata.etag': 'W/"1"', ResourceId: 'TECH002' },
+          { '@odata.etag': 'W/"3"', ResourceId: "O'BRIEN" },
+        ],
+      });
+    });
+
+    it('should page with a next link that advances $skip and respects $top', () => {
+      const first = queryCollection(rows, url('$count=true&$top=3'), { context: 'ctx', pageSize: 2 });
+
+      expect(first.value.map((r) => r.ResourceSeq)).toEqual([1, 2]);
+      expect(first['@odata.nextLink']).toBe('http://localhost/main/ifsapplications/projection/v1/ResourceSet?$count=true&$top=1&$skip=2');
+
+      const second = queryCollection(rows, new URL(first['@odata.nextLink']!), { context: 'ctx', pageSize: 2 });
+      expect(second.value.map((r) => r.ResourceSeq)).toEqual([3]);
+      expect(second['@odata.nextLink']).toBeUndefined();
+    });
+  });
+});
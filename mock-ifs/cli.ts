@@ -0,0 +1,36 @@
+// Mock IFS Cloud - command line entry point (npm run mock-ifs)
+// MOCK_IFS_PORT       Port to listen on (default 4010)
+// MOCK_IFS_FIXTURES   JSON fixtures file (default mock-ifs/fixtures/default.json)
+// MOCK_IFS_PAGE_SIZE  Rows per page before @odata.nextLink is used (default 100)
+
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { startMockIFSServer } from './server';
+import type { MockIFSFixtures } from './store';
+
+async function main() {
+  const fixturesPath = resolve(process.env.MOCK_IFS_FIXTURES || 'mock-ifs/fixtures/default.json');
+  const fixtures: MockIFSFixtures = JSON.parse(readFileSync(fixturesPath, 'utf8'));
+
+  const server = await startMockIFSServer({
+    fixtures,
+    port: parseInt(process.env.MOCK_IFS_PORT || '4010', 10),
+    host: 'localhost',
+    pageSize: parseInt(process.env.MOCK_IFS_PAGE_SIZE || '100', 10),
+  });
+
+  console.log(`[Mock IFS] Listening on ${server.url}`);
+  console.log(`[Mock IFS] Fixtures: ${fixturesPath}`);
+  console.log(`[Mock IFS] Set NEXT_PUBLIC_IFS_BASE_URL=${server.url} in .env.local to use it`);
+
+  const shutdown = () => {
+    server.close().finally(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch((error) => {
+  console.error('[Mock IFS] Failed to start:', error);
+  process.exit(1);
+});
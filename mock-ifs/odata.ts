@@ -0,0 +1,312 @@
+// Mock IFS Cloud - OData query options
+// Implements the subset of OData v4 the app sends to IFS Cloud projections:
+// $filter (eq/ne/gt/ge/lt/le, and/or/not, parentheses, contains/startswith/endswith),
+// $select, $count, $top, $skip and server-driven paging with @odata.nextLink
+
+export type ODataRow = Record<string, unknown>;
+
+/**
+ * Error raised for a query option the mock cannot parse (answered with 400)
+ */
+export class ODataQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ODataQueryError';
+  }
+}
+
+// ============================================================================
+// $filter
+// ============================================================================
+
+type Token =
+  | { kind: 'paren'; value: '(' | ')' }
+  | { kind: 'comma' }
+  | { kind: 'string'; value: string }
+  | { kind: 'word'; value: string };
+
+type Operand = (row: ODataRow) => unknown;
+type Predicate = (row: ODataRow) => boolean;
+
+const COMPARISONS = ['eq', 'ne', 'gt', 'ge', 'lt', 'le'] as const;
+type Comparison = (typeof COMPARISONS)[number];
+
+const STRING_FUNCTIONS = ['contains', 'startswith', 'endswith'] as const;
+type StringFunction = (typeof STRING_FUNCTIONS)[number];
+
+function tokenize(filter: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < filter.length) {
+    const char = filter[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: 'paren', value: char });
+      i++;
+    } else if (char === ',') {
+      tokens.push({ kind: 'comma' });
+      i++;
+    } else if (char === "'") {
+      // String literal, '' escapes a quote
+      let value = '';
+      i++;
+      for (;;) {
+        if (i >= filter.length) throw new ODataQueryError('Unterminated string literal in $filter');
+        if (filter[i] === "'") {
+          if (filter[i + 1] === "'") {
+            value += "'";
+            i += 2;
+            continue;
+          }
+          i++;
+          break;
+        }
+        value += filter[i++];
+      }
+      tokens.push({ kind: 'string', value });
+    } else {
+      const match = /^[^\s(),']+/.exec(filter.slice(i));
+      if (!match) throw new ODataQueryError(`Unexpected character '${char}' in $filter`);
+      tokens.push({ kind: 'word', value: match[0] });
+      i += match[0].length;
+    }
+  }
+
+  return tokens;
+}
+
+function compare(left: unknown, right: unknown, operator: Comparison): boolean {
+  if (operator === 'eq') return left === right;
+  if (operator === 'ne') return left !== right;
+  if (left === null || left === undefined || right === null || right === undefined) return false;
+
+  // Numbers compare numerically; ISO dates and other strings compare lexically
+  const a = typeof left === 'number' ? left : String(left);
+  const b = typeof right === 'number' ? right : String(right);
+  switch (operator) {
+    case 'gt': return a > b;
+    case 'ge': return a >= b;
+    case 'lt': return a < b;
+    case 'le': return a <= b;
+  }
+}
+
+class FilterParser {
+  private position = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): Predicate {
+    const predicate = this.parseOr();
+    if (this.position < this.tokens.length) {
+      throw new ODataQueryError(`Unexpected '${this.describe(this.tokens[this.position])}' in $filter`);
+    }
+    return predicate;
+  }
+
+  private parseOr(): Predicate {
+    let left = this.parseAnd();
+    while (this.isWord('or')) {
+      this.position++;
+      const right = this.parseAnd();
+      const previous = left;
+      left = (row) => previous(row) || right(row);
+    }
+    return left;
+  }
+
+  private parseAnd(): Predicate {
+    let left = this.parseUnary();
+    while (this.isWord('and')) {
+      this.position++;
+      const right = this.parseUnary();
+      const previous = left;
+      left = (row) => previous(row) && right(row);
+    }
+    return left;
+  }
+
+  private parseUnary(): Predicate {
+    if (this.isWord('not')) {
+      this.position++;
+      const inner = this.parseUnary();
+      return (row) => !inner(row);
+    }
+    if (this.isParen('(')) {
+      this.position++;
+      const inner = this.parseOr();
+      this.expectParen(')');
+      return inner;
+    }
+
+    const token = this.tokens[this.position];
+    if (token?.kind === 'word' && (STRING_FUNCTIONS as readonly string[]).includes(token.value.toLowerCase())) {
+      return this.parseStringFunction(token.value.toLowerCase() as StringFunction);
+    }
+    return this.parseComparison();
+  }
+
+  private parseStringFunction(name: StringFunction): Predicate {
+    this.position++;
+    this.expectParen('(');
+    const field = this.parseOperand();
+    if (this.tokens[this.position]?.kind !== 'comma') {
+      throw new ODataQueryError(`Expected ',' in ${name}()`);
+    }
+    this.position++;
+    const value = this.parseOperand();
+    this.expectParen(')');
+
+    return (row) => {
+      const haystack = field(row);
+      const needle = value(row);
+      if (typeof haystack !== 'string' || typeof needle !== 'string') return false;
+      if (name === 'contains') return haystack.includes(needle);
+      if (name === 'startswith') return haystack.startsWith(needle);
+      return haystack.endsWith(needle);
+    };
+  }
+
+  private parseComparison(): Predicate {
+    const left = this.parseOperand();
+    const operatorToken = this.tokens[this.position];
+    const operator = operatorToken?.kind === 'word' ? operatorToken.value.toLowerCase() : '';
+    if (!(COMPARISONS as readonly string[]).includes(operator)) {
+      throw new ODataQueryError(`Expected a comparison operator in $filter, got '${operatorToken ? this.describe(operatorToken) : 'end of filter'}'`);
+    }
+    this.position++;
+    const right = this.parseOperand();
+    return (row) => compare(left(row), right(row), operator as Comparison);
+  }
+
+  private parseOperand(): Operand {
+    const token = this.tokens[this.position++];
+    if (!token) throw new ODataQueryError('Unexpected end of $filter');
+    if (token.kind === 'string') {
+      const value = token.value;
+      return () => value;
+    }
+    if (token.kind !== 'word') {
+      throw new ODataQueryError(`Unexpected '${this.describe(token)}' in $filter`);
+    }
+
+    const word = token.value;
+    if (word === 'null') return () => null;
+    if (word === 'true' || word === 'false') return () => word === 'true';
+    if (/^-?\d+(\.\d+)?$/.test(word)) {
+      const value = Number(word);
+      return () => value;
+    }
+    // Unquoted date/time literals, e.g. 2026-01-01T00:00:00Z
+    if (/^\d{4}-\d{2}-\d{2}/.test(word)) return () => word;
+    if (/^[A-Za-z_][A-Za-z0-9_]*$/.test(word)) return (row) => row[word];
+
+    throw new ODataQueryError(`Unexpected '${word}' in $filter`);
+  }
+
+  private isWord(value: string): boolean {
+    const token = this.tokens[this.position];
+    return token?.kind === 'word' && token.value.toLowerCase() === value;
+  }
+
+  private isParen(value: '(' | ')'): boolean {
+    const token = this.tokens[this.position];
+    return token?.kind === 'paren' && token.value === value;
+  }
+
+  private expectParen(value: '(' | ')'): void {
+    if (!this.isParen(value)) throw new ODataQueryError(`Expected '${value}' in $filter`);
+    this.position++;
+  }
+
+  private describe(token: Token): string {
+    switch (token.kind) {
+      case 'paren': return token.value;
+      case 'comma': return ',';
+      case 'string': return `'${token.value}'`;
+      case 'word': return token.value;
+    }
+  }
+}
+
+/**
+ * Compile an OData $filter expression into a row predicate
+ */
+export function parseFilter(filter: string): Predicate {
+  return new FilterParser(tokenize(filter)).parse();
+}
+
+// ============================================================================
+// COLLECTION QUERIES
+// ============================================================================
+
+export interface ODataCollectionPage {
+  '@odata.context': string;
+  '@odata.count'?: number;
+  '@odata.nextLink'?: string;
+  value: ODataRow[];
+}
+
+function parseNonNegativeInteger(value: string | null, option: string): number | undefined {
+  if (value === null) return undefined;
+  if (!/^\d+$/.test(value)) throw new ODataQueryError(`Invalid ${option}: ${value}`);
+  return Number(value);
+}
+
+// Keep $-prefixed option names readable in generated links, like IFS does
+function buildQueryString(params: URLSearchParams): string {
+  return Array.from(params.entries())
+    .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
+    .join('&');
+}
+
+/**
+ * Apply $filter, $count, $skip, $top and $select to a collection and return one page.
+ * At most pageSize rows are returned; when more rows match, @odata.nextLink points at
+ * the same request with $skip advanced (and $top reduced), so clients must follow it.
+ * Each row is expected to carry its '@odata.etag', which $select always keeps.
+ */
+export function queryCollection(
+  collection: object[],
+  requestUrl: URL,
+  options: { context: string; pageSize: number }
+): ODataCollectionPage {
+  const rows = collection as ODataRow[];
+  const params = requestUrl.searchParams;
+  const filter = params.get('$filter');
+  const select = params.get('$select');
+  const skip = parseNonNegativeInteger(params.get('$skip'), '$skip') ?? 0;
+  const top = parseNonNegativeInteger(params.get('$top'), '$top');
+
+  const matching = filter ? rows.filter(parseFilter(filter)) : rows;
+  const limit = Math.min(options.pageSize, top ?? Infinity);
+  const pageRows = matching.slice(skip, skip + limit);
+
+  const fields = select?.split(',').map((field) => field.trim()).filter(Boolean);
+  const value = fields
+    ? pageRows.map((row) => {
+        const projected: ODataRow = { '@odata.etag': row['@odata.etag'] };
+        for (const field of fields) {
+          if (field in row) projected[field] = row[field];
+        }
+        return projected;
+      })
+    : pageRows;
+
+  const page: ODataCollectionPage = { '@odata.context': options.context, value };
+  if (params.get('$count') === 'true') {
+    page['@odata.count'] = matching.length;
+  }
+
+  const remaining = Math.min(matching.length - skip, top ?? Infinity) - pageRows.length;
+  if (remaining > 0) {
+    const next = new URLSearchParams(params);
+    next.set('$skip', String(skip + pageRows.length));
+    if (top !== undefined) next.set('$top', String(top - pageRows.length));
+    page['@odata.nextLink'] = `${requestUrl.origin}${requestUrl.pathname}?${buildQueryString(next)}`;
+  }
+
+  return page;
+}
@@ -0,0 +1,329 @@
+// Mock IFS Cloud - HTTP server
+// Serves the Keycloak login, token and logout endpoints and the ResourceCrewHandling / ServiceResourceDetailsHandling /
+// WorkTimeCalendarHandling projection endpoints used by src/lib/api, on plain http, so the IFS path
+// runs without network.
+// Point NEXT_PUBLIC_IFS_BASE_URL at the server origin (e.g. http://localhost:4010) to use it.
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { createHash, randomUUID } from 'node:crypto';
+import type { AddressInfo } from 'node:net';
+import { ODataQueryError, queryCollection } from './odata';
+import { MockIFSError, MockIFSStore, type MockIFSFixtures } from './store';
+
+export interface MockIFSServerOptions {
+  fixtures: MockIFSFixtures;
+  port?: number;             // 0 (default) picks a free port
+  host?: string;             // Defaults to 127.0.0.1
+  pageSize?: number;         // Rows per page before @odata.nextLink is used (default 100)
+  tokenLifetime?: number;    // Access token lifetime in seconds (default 300)
+}
+
+export interface MockIFSServer {
+  url: string;               // Origin to use as NEXT_PUBLIC_IFS_BASE_URL
+  store: MockIFSStore;
+  requests: string[];        // "METHOD /path?query" of every request, oldest first
+  revokeTokens(): void;      // Makes the next API call fail with 401 (refresh tokens stay valid)
+  omitUpdateBodies(): void;  // PATCH answers 204 even when return=representation is asked, until reset
+  reset(): void;             // Discard writes, issued tokens and the request log
+  close(): Promise<void>;
+}
+
+// An authorization code handed out by the login page, waiting to be exchanged
+interface PendingCode {
+  username: string;
+  redirectUri: string;
+  codeChallenge?: string;
+}
+
+const PROJECTION_PATH = '/main/ifsapplications/projection/v1';
+const TOKEN_PATH = /^\/auth\/realms\/[^/]+\/protocol\/openid-connect\/token$/;
+const AUTHORIZE_PATH = /^\/auth\/realms\/[^/]+\/protocol\/openid-connect\/auth$/;
+const LOGOUT_PATH = /^\/auth\/realms\/[^/]+\/protocol\/openid-connect\/logout$/;
+
+// Entity paths below the projection path
+const TECHNICIANS = /^\/ServiceResourceDetailsHandling\.svc\/ResourceSet$/;
+const CREWS = /^\/ResourceCrewHandling\.svc\/ResourceSet$/;
+const CREW = /^\/ResourceCrewHandling\.svc\/ResourceSet\(ResourceSeq=(\d+)\)$/;
+const MEMBERS = /^\/ResourceCrewHandling\.svc\/ResourceSet\(ResourceSeq=(\d+)\)\/ResourceCrewMembersArray$/;
+const MEMBER = /^\/ResourceCrewHandling\.svc\/ResourceSet\(ResourceSeq=(\d+)\)\/ResourceCrewMembersArray\(ResourceSeq=(\d+),ResourceMemberSeq=(\d+)\)$/;
+const LEADERS = /^\/ResourceCrewHandling\.svc\/ResourceCrewSet\(ResourceSeq=(\d+)\)\/ResourceCrewLeadersArray$/;
+const LEADER = /^\/ResourceCrewHandling\.svc\/ResourceCrewSet\(ResourceSeq=(\d+)\)\/ResourceCrewLeadersArray\(ResourceSeq=(\d+),ResourceCrewLeaderSeq=(\d+)\)$/;
+const CALENDAR_DAYS = /^\/WorkTimeCalendarHandling\.svc\/WorkTimeCounterSet$/;
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json;odata.metadata=minimal' });
+  res.end(JSON.stringify(body));
+}
+
+// IFS answers errors with an OData error body
+function sendError(res: ServerResponse, status: number, message: string): void {
+  sendJson(res, status, { error: { code: String(status), message } });
+}
+
+// Unsigned JWT, enough for clients that read the claims of the ID token
+function unsignedJwt(claims: object): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${encode({ alg: 'none', typ: 'JWT' })}.${encode(claims)}.`;
+}
+
+// PKCE S256 code challenge of a code verifier
+function codeChallenge(verifier: string): string {
+  return createHash('sha256').update(verifier).digest('base64url');
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+async function readJson<T>(req: IncomingMessage): Promise<Partial<T>> {
+  const body = await readBody(req);
+  try {
+    return body ? JSON.parse(body) : {};
+  } catch {
+    throw new MockIFSError('Request body is not valid JSON', 400);
+  }
+}
+
+/**
+ * Start a mock IFS Cloud server seeded with the given fixtures
+ */
+export async function startMockIFSServer(options: MockIFSServerOptions): Promise<MockIFSServer> {
+  const store = new MockIFSStore(options.fixtures);
+  const pageSize = options.pageSize ?? 100;
+  const tokenLifetime = options.tokenLifetime ?? 300;
+  const tokens = new Map<string, number>(); // access token -> expiry (ms)
+  const requests: string[] = [];
+
+  const codes = new Map<string, PendingCode>(); // authorization code -> login it completes
+  const refreshTokens = new Map<string, string>(); // refresh token -> username
+
+  // The login page signs in right away, as login_hint or the first fixture user
+  const handleAuthorize = (res: ServerResponse, url: URL) => {
+    const params = url.searchParams;
+    const redirectUri = params.get('redirect_uri');
+    const user = store.findLoginUser(params.get('login_hint'));
+
+    if (!store.isKnownClient(params.get('client_id') ?? '') || !redirectUri) {
+      sendError(res, 400, 'Invalid client or redirect_uri');
+      return;
+    }
+    const target = new URL(redirectUri);
+    if (params.get('state')) {
+      target.searchParams.set('state', params.get('state') as string);
+    }
+    if (!user) {
+      target.searchParams.set('error', 'access_denied');
+      target.searchParams.set('error_description', 'Unknown user');
+    } else {
+      const code = randomUUID();
+      codes.set(code, { username: user.username, redirectUri, codeChallenge: params.get('code_challenge') ?? undefined });
+      target.searchParams.set('code', code);
+    }
+    res.writeHead(302, { Location: target.toString() }).end();
+  };
+
+  const handleLogout = (res: ServerResponse, url: URL) => {
+    const redirectUri = url.searchParams.get('post_logout_redirect_uri');
+    if (redirectUri) {
+      res.writeHead(302, { Location: redirectUri }).end();
+    } else {
+      sendJson(res, 200, { loggedOut: true });
+    }
+  };
+
+  // Username the grant of a token request signs in as, or undefined after sending its error
+  const readGrant = (res: ServerResponse, form: URLSearchParams): string | undefined => {
+    const grantType = form.get('grant_type');
+
+    if (grantType === 'password') {
+      if (!store.isValidUser(form.get('username') ?? '', form.get('password') ?? '')) {
+        sendJson(res, 401, { error: 'invalid_grant', error_description: 'Invalid user credentials' });
+        return undefined;
+      }
+      return form.get('username') as string;
+    }
+    if (grantType === 'authorization_code') {
+      const code = codes.get(form.get('code') ?? '');
+      codes.delete(form.get('code') ?? '');
+      const verifier = form.get('code_verifier');
+      const isValid = code && code.redirectUri === form.get('redirect_uri') &&
+        (code.codeChallenge === undefined || (verifier !== null && code.codeChallenge === codeChallenge(verifier)));
+      if (!isValid) {
+        sendJson(res, 400, { error: 'invalid_grant', error_description: 'Code not valid' });
+        return undefined;
+      }
+      return code.username;
+    }
+    if (grantType === 'client_credentials') {
+      // Keycloak names the service account of a client like this
+      return `service-account-${(form.get('client_id') ?? '').toLowerCase()}`;
+    }
+    if (grantType === 'refresh_token') {
+      const username = refreshTokens.get(form.get('refresh_token') ?? '');
+      if (!username) {
+        sendJson(res, 400, { error: 'invalid_grant', error_description: 'Invalid refresh token' });
+      }
+      return username;
+    }
+
+    sendJson(res, 400, { error: 'unsupported_grant_type', error_description: `Unsupported grant_type ${grantType}` });
+    return undefined;
+  };
+
+  const handleToken = async (req: IncomingMessage, res: ServerResponse) => {
+    const form = new URLSearchParams(await readBody(req));
+
+    if (!store.isValidClient(form.get('client_id') ?? '', form.get('client_secret') ?? '')) {
+      sendJson(res, 401, { error: 'unauthorized_client', error_description: 'Invalid client or Invalid client credentials' });
+      return;
+    }
+    const username = readGrant(res, form);
+    if (username === undefined) return;
+
+    const accessToken = randomUUID();
+    const refreshToken = randomUUID();
+    tokens.set(accessToken, Date.now() + tokenLifetime * 1000);
+    refreshTokens.set(refreshToken, username);
+    sendJson(res, 200, {
+      access_token: accessToken,
+      expires_in: tokenLifetime,
+      refresh_expires_in: tokenLifetime * 6,
+      refresh_token: refreshToken,
+      token_type: 'Bearer',
+      id_token: unsignedJwt({ sub: username, preferred_username: username, name: username }),
+      'not-before-policy': 0,
+      session_state: randomUUID(),
+      scope: form.get('scope') ?? 'openid',
+    });
+  };
+
+  let updateBodies = true;
+
+  const isAuthorized = (req: IncomingMessage): boolean => {
+    const match = /^Bearer (.+)$/.exec(req.headers.authorization ?? '');
+    const expiresAt = match ? tokens.get(match[1]) : undefined;
+    return expiresAt !== undefined && Date.now() < expiresAt;
+  };
+
+  const handleProjection = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+    const path = url.pathname.slice(PROJECTION_PATH.length);
+    const method = req.method ?? 'GET';
+    const ifMatch = req.headers['if-match'];
+    const prefersRepresentation = updateBodies && /return=representation/.test(String(req.headers.prefer ?? ''));
+    const context = `${url.origin}${PROJECTION_PATH}/$metadata`;
+    let match: RegExpExecArray | null;
+
+    const sendCollection = (rows: object[]) => sendJson(res, 200, queryCollection(rows, url, { context, pageSize }));
+    const sendUpdated = (row: object) => (prefersRepresentation ? sendJson(res, 200, row) : res.writeHead(204).end());
+
+    if (TECHNICIANS.test(path) && method === 'GET') {
+      return sendCollection(store.listTechnicians());
+    }
+    if (CALENDAR_DAYS.test(path) && method === 'GET') {
+      return sendCollection(store.listCalendarDays());
+    }
+    if (CREWS.test(path)) {
+      if (method === 'GET') return sendCollection(store.listCrews());
+      if (method === 'POST') return sendJson(res, 201, store.createCrew(await readJson(req)));
+    }
+    if ((match = CREW.exec(path))) {
+      const resourceSeq = Number(match[1]);
+      if (method === 'GET') return sendJson(res, 200, store.getCrew(resourceSeq));
+      if (method === 'DELETE') {
+        store.deleteCrew(resourceSeq, ifMatch);
+        return res.writeHead(204).end();
+      }
+    }
+    if ((match = MEMBERS.exec(path))) {
+      const resourceSeq = Number(match[1]);
+      if (method === 'GET') return sendCollection(store.listMembers(resourceSeq));
+      if (method === 'POST') return sendJson(res, 201, store.createMember(resourceSeq, await readJson(req)));
+    }
+    if ((match = MEMBER.exec(path))) {
+      const [resourceSeq, memberSeq] = [Number(match[2]), Number(match[3])];
+      if (method === 'GET') return sendJson(res, 200, store.getMember(resourceSeq, memberSeq));
+      if (method === 'PATCH') return sendUpdated(store.updateMember(resourceSeq, memberSeq, await readJson(req), ifMatch));
+      if (method === 'DELETE') {
+        store.deleteMember(resourceSeq, memberSeq, ifMatch);
+        return res.writeHead(204).end();
+      }
+    }
+    if ((match = LEADERS.exec(path))) {
+      const resourceSeq = Number(match[1]);
+      if (method === 'GET') return sendCollection(store.listLeaders(resourceSeq));
+      if (method === 'POST') return sendJson(res, 201, store.createLeader(resourceSeq, await readJson(req)));
+    }
+    if ((match = LEADER.exec(path))) {
+      const [resourceSeq, leaderSeq] = [Number(match[2]), Number(match[3])];
+      if (method === 'GET') return sendJson(res, 200, store.getLeader(resourceSeq, leaderSeq));
+      if (method === 'PATCH') return sendUpdated(store.updateLeader(resourceSeq, leaderSeq, await readJson(req), ifMatch));
+      if (method === 'DELETE') {
+        store.deleteLeader(resourceSeq, leaderSeq, ifMatch);
+        return res.writeHead(204).end();
+      }
+    }
+
+    sendError(res, 404, `No resource for ${method} ${path}`);
+  };
+
+  const server: Server = createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+    requests.push(`${req.method} ${url.pathname}${url.search}`);
+
+    try {
+      if (TOKEN_PATH.test(url.pathname) && req.method === 'POST') {
+        await handleToken(req, res);
+      } else if (AUTHORIZE_PATH.test(url.pathname) && req.method === 'GET') {
+        handleAuthorize(res, url);
+      } else if (LOGOUT_PATH.test(url.pathname)) {
+        handleLogout(res, url);
+      } else if (url.pathname.startsWith(`${PROJECTION_PATH}/`)) {
+        if (!isAuthorized(req)) {
+          sendError(res, 401, 'Authorization Required');
+          return;
+        }
+        await handleProjection(req, res, url);
+      } else {
+        sendError(res, 404, `No resource for ${req.method} ${url.pathname}`);
+      }
+    } catch (error) {
+      if (error instanceof MockIFSError) {
+        sendError(res, error.status, error.message);
+      } else if (error instanceof ODataQueryError) {
+        sendError(res, 400, error.message);
+      } else {
+        console.error('[Mock IFS] Request failed:', error);
+        sendError(res, 500, error instanceof Error ? error.message : String(error));
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, options.host ?? '127.0.0.1', () => resolve());
+  });
+  const address = server.address() as AddressInfo;
+
+  return {
+    url: `http://${options.host ?? '127.0.0.1'}:${address.port}`,
+    store,
+    requests,
+    revokeTokens: () => tokens.clear(),
+    omitUpdateBodies: () => {
+      updateBodies = false;
+    },
+    reset: () => {
+      updateBodies = true;
+      store.reset();
+      tokens.clear();
+      codes.clear();
+      refreshTokens.clear();
+      requests.length = 0;
+    },
+    close: () => new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+  };
+}
@@ -0,0 +1,353 @@
+// Mock IFS Cloud - in-memory data seeded from JSON fixtures
+// Every row carries a version that is exposed as its OData ETag and bumped on each write
+
+export interface MockClient {
+  clientId: string;
+  clientSecret: string;
+}
+
+export interface MockUser {
+  username: string;
+  password: string;
+}
+
+// ServiceResourceDetailsHandling.svc/ResourceSet
+export interface MockTechnician {
+  ResourceSeq: number;
+  ResourceId: string;
+  Description: string;
+  ResourceParentSeq: number;
+  ServiceOrganizationId: string;
+}
+
+// ResourceCrewHandling.svc/ResourceSet
+export interface MockCrew {
+  ResourceSeq: number;
+  ResourceId: string;
+  Description: string;
+  ResourceParentSeq: number;
+}
+
+// ResourceCrewHandling.svc/ResourceSet(...)/ResourceCrewMembersArray
+export interface MockCrewMember {
+  ResourceSeq: number;
+  ResourceMemberSeq: number;
+  ResourceId: string;
+  PeriodStart: string;
+  PeriodEnd: string;
+}
+
+// ResourceCrewHandling.svc/ResourceCrewSet(...)/ResourceCrewLeadersArray
+export interface MockCrewLeader {
+  ResourceSeq: number;
+  ResourceCrewLeaderSeq: number;
+  ResourceId: string;
+  ValidFrom: string;
+  ValidTo: string;
+}
+
+// WorkTimeCalendarHandling.svc/WorkTimeCounterSet (read only)
+export interface MockWorkTimeDay {
+  CalendarId: string;
+  WorkDay: string;
+  WorkingTime: number;
+  DayType: string;
+}
+
+export interface MockIFSFixtures {
+  clients: MockClient[];
+  users: MockUser[];
+  technicians: MockTechnician[];
+  crews: MockCrew[];
+  members: MockCrewMember[];
+  leaders: MockCrewLeader[];
+  calendarDays?: MockWorkTimeDay[];
+}
+
+// A stored row and its version
+interface Versioned<T> {
+  row: T;
+  version: number;
+}
+
+export type WithETag<T> = T & { '@odata.etag': string };
+
+/**
+ * Error raised for a write the mock rejects; the server answers with its status
+ */
+export class MockIFSError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'MockIFSError';
+  }
+}
+
+function withETag<T>(entry: Versioned<T>): WithETag<T> {
+  return { ...entry.row, '@odata.etag': `W/"${entry.version}"` };
+}
+
+function nextSeq(values: number[]): number {
+  return values.reduce((max, value) => Math.max(max, value), 0) + 1;
+}
+
+export class MockIFSStore {
+  private technicians: Versioned<MockTechnician>[] = [];
+  private crews: Versioned<MockCrew>[] = [];
+  private members: Versioned<MockCrewMember>[] = [];
+  private leaders: Versioned<MockCrewLeader>[] = [];
+
+  constructor(private readonly fixtures: MockIFSFixtures) {
+    this.reset();
+  }
+
+  /**
+   * Discard all writes and reload the fixtures
+   */
+  reset(): void {
+    const seed = <T>(rows: T[]): Versioned<T>[] => structuredClone(rows).map((row) => ({ row, version: 1 }));
+    this.technicians = seed(this.fixtures.technicians);
+    this.crews = seed(this.fixtures.crews);
+    this.members = seed(this.fixtures.members);
+    this.leaders = seed(this.fixtures.leaders);
+  }
+
+  isValidClient(clientId: string, clientSecret: string): boolean {
+    return this.fixtures.clients.some((c) => c.clientId === clientId && c.clientSecret === clientSecret);
+  }
+
+  isValidUser(username: string, password: string): boolean {
+    return this.fixtures.users.some((u) => u.username === username && u.password === password);
+  }
+
+  isKnownClient(clientId: string): boolean {
+    return this.fixtures.clients.some((c) => c.clientId === clientId);
+  }
+
+  /**
+   * The user signing in on the login page: the one named, or the first fixture user
+   */
+  findLoginUser(username?: string | null): MockUser | undefined {
+    return username ? this.fixtures.users.find((u) => u.username === username) : this.fixtures.users[0];
+  }
+
+  // ==========================================================================
+  // READS
+  // ==========================================================================
+
+  listTechnicians(): WithETag<MockTechnician>[] {
+    return this.technicians.map(withETag);
+  }
+
+  listCalendarDays(): MockWorkTimeDay[] {
+    return this.fixtures.calendarDays ?? [];
+  }
+
+  listCrews(): WithETag<MockCrew>[] {
+    return this.crews.map(withETag);
+  }
+
+  getCrew(resourceSeq: number): WithETag<MockCrew> {
+    return withETag(this.findCrew(resourceSeq));
+  }
+
+  listMembers(resourceSeq: number): WithETag<MockCrewMember>[] {
+    this.findCrew(resourceSeq);
+    return this.members.filter((m) => m.row.ResourceSeq === resourceSeq).map(withETag);
+  }
+
+  getMember(resourceSeq: number, memberSeq: number): WithETag<MockCrewMember> {
+    return withETag(this.findMember(resourceSeq, memberSeq));
+  }
+
+  listLeaders(resourceSeq: number): WithETag<MockCrewLeader>[] {
+    this.findCrew(resourceSeq);
+    return this.leaders.filter((l) => l.row.ResourceSeq === resourceSeq).map(withETag);
+  }
+
+  getLeader(resourceSeq: number, leaderSeq: number): WithETag<MockCrewLeader> {
+    return withETag(this.findLeader(resourceSeq, leaderSeq));
+  }
+
+  // ==========================================================================
+  // WRITES - ifMatch is the If-Match header ('*' matches any version)
+  // ==========================================================================
+
+  createCrew(input: Partial<MockCrew>): WithETag<MockCrew> {
+    const resourceId = this.requireString(input.ResourceId, 'ResourceId');
+    const description = this.requireString(input.Description, 'Description');
+    if (typeof input.ResourceParentSeq !== 'number') {
+      throw new MockIFSError('ResourceParentSeq is mandatory', 400);
+    }
+    if (this.crews.some((c) => c.row.ResourceId === resourceId)) {
+      throw new MockIFSError(`The Resource ${resourceId} already exists`, 400);
+    }
+
+    const entry: Versioned<MockCrew> = {
+      row: {
+        ResourceSeq: nextSeq([...this.crews, ...this.technicians].map((r) => r.row.ResourceSeq)),
+        ResourceId: resourceId,
+        Description: description,
+        ResourceParentSeq: input.ResourceParentSeq,
+      },
+      version: 1,
+    };
+    this.crews.push(entry);
+    return withETag(entry);
+  }
+
+  deleteCrew(resourceSeq: number, ifMatch: string | undefined): void {
+    const crew = this.findCrew(resourceSeq);
+    this.checkETag(crew, ifMatch);
+    this.crews = this.crews.filter((c) => c !== crew);
+    this.members = this.members.filter((m) => m.row.ResourceSeq !== resourceSeq);
+    this.leaders = this.leaders.filter((l) => l.row.ResourceSeq !== resourceSeq);
+  }
+
+  createMember(resourceSeq: number, input: Partial<MockCrewMember>): WithETag<MockCrewMember> {
+    this.findCrew(resourceSeq);
+    const resourceId = this.requireTechnician(input.ResourceId);
+    const period = this.requirePeriod(input.PeriodStart, input.PeriodEnd, 'PeriodStart', 'PeriodEnd');
+
+    const entry: Versioned<MockCrewMember> = {
+      row: {
+        ResourceSeq: resourceSeq,
+        ResourceMemberSeq: nextSeq(this.members.map((m) => m.row.ResourceMemberSeq)),
+        ResourceId: resourceId,
+        PeriodStart: period.start,
+        PeriodEnd: period.end,
+      },
+      version: 1,
+    };
+    this.members.push(entry);
+    return withETag(entry);
+  }
+
+  updateMember(
+    resourceSeq: number,
+    memberSeq: number,
+    input: Partial<MockCrewMember>,
+    ifMatch: string | undefined
+  ): WithETag<MockCrewMember> {
+    const member = this.findMember(resourceSeq, memberSeq);
+    this.checkETag(member, ifMatch);
+    const period = this.requirePeriod(
+      input.PeriodStart ?? member.row.PeriodStart,
+      input.PeriodEnd ?? member.row.PeriodEnd,
+      'PeriodStart',
+      'PeriodEnd'
+    );
+
+    member.row = { ...member.row, PeriodStart: period.start, PeriodEnd: period.end };
+    member.version++;
+    return withETag(member);
+  }
+
+  deleteMember(resourceSeq: number, memberSeq: number, ifMatch: string | undefined): void {
+    const member = this.findMember(resourceSeq, memberSeq);
+    this.checkETag(member, ifMatch);
+    this.members = this.members.filter((m) => m !== member);
+  }
+
+  createLeader(resourceSeq: number, input: Partial<MockCrewLeader>): WithETag<MockCrewLeader> {
+    this.findCrew(resourceSeq);
+    const resourceId = this.requireTechnician(input.ResourceId);
+    const period = this.requirePeriod(input.ValidFrom, input.ValidTo, 'ValidFrom', 'ValidTo');
+
+    const entry: Versioned<MockCrewLeader> = {
+      row: {
+        ResourceSeq: resourceSeq,
+        ResourceCrewLeaderSeq: nextSeq(this.leaders.map((l) => l.row.ResourceCrewLeaderSeq)),
+        ResourceId: resourceId,
+        ValidFrom: period.start,
+        ValidTo: period.end,
+      },
+      version: 1,
+    };
+    this.leaders.push(entry);
+    return withETag(entry);
+  }
+
+  updateLeader(
+    resourceSeq: number,
+    leaderSeq: number,
+    input: Partial<MockCrewLeader>,
+    ifMatch: string | undefined
+  ): WithETag<MockCrewLeader> {
+    const leader = this.findLeader(resourceSeq, leaderSeq);
+    this.checkETag(leader, ifMatch);
+    const period = this.requirePeriod(
+      input.ValidFrom ?? leader.row.ValidFrom,
+      input.ValidTo ?? leader.row.ValidTo,
+      'ValidFrom',
+      'ValidTo'
+    );
+
+    leader.row = { ...leader.row, ValidFrom: period.start, ValidTo: period.end };
+    leader.version++;
+    return withETag(leader);
+  }
+
+  deleteLeader(resourceSeq: number, leaderSeq: number, ifMatch: string | undefined): void {
+    const leader = this.findLeader(resourceSeq, leaderSeq);
+    this.checkETag(leader, ifMatch);
+    this.leaders = this.leaders.filter((l) => l !== leader);
+  }
+
+  // ==========================================================================
+  // HELPERS
+  // ==========================================================================
+
+  private findCrew(resourceSeq: number): Versioned<MockCrew> {
+    const crew = this.crews.find((c) => c.row.ResourceSeq === resourceSeq);
+    if (!crew) throw new MockIFSError(`Crew ${resourceSeq} does not exist`, 404);
+    return crew;
+  }
+
+  private findMember(resourceSeq: number, memberSeq: number): Versioned<MockCrewMember> {
+    const member = this.members.find((m) => m.row.ResourceSeq === resourceSeq && m.row.ResourceMemberSeq === memberSeq);
+    if (!member) throw new MockIFSError(`Crew member ${resourceSeq}/${memberSeq} does not exist`, 404);
+    return member;
+  }
+
+  private findLeader(resourceSeq: number, leaderSeq: number): Versioned<MockCrewLeader> {
+    const leader = this.leaders.find((l) => l.row.ResourceSeq === resourceSeq && l.row.ResourceCrewLeaderSeq === leaderSeq);
+    if (!leader) throw new MockIFSError(`Crew leader ${resourceSeq}/${leaderSeq} does not exist`, 404);
+    return leader;
+  }
+
+  private checkETag(entry: Versioned<unknown>, ifMatch: string | undefined): void {
+    if (!ifMatch) {
+      throw new MockIFSError('If-Match header is required', 428);
+    }
+    if (ifMatch !== '*' && ifMatch !== `W/"${entry.version}"`) {
+      throw new MockIFSError('The record has been modified by another user', 412);
+    }
+  }
+
+  private requireString(value: unknown, field: string): string {
+    if (typeof value !== 'string' || value.trim() === '') {
+      throw new MockIFSError(`${field} is mandatory`, 400);
+    }
+    return value;
+  }
+
+  private requireTechnician(value: unknown): string {
+    const resourceId = this.requireString(value, 'ResourceId');
+    if (!this.technicians.some((t) => t.row.ResourceId === resourceId)) {
+      throw new MockIFSError(`The Resource ${resourceId} does not exist`, 400);
+    }
+    return resourceId;
+  }
+
+  private requirePeriod(start: unknown, end: unknown, startField: string, endField: string): { start: string; end: string } {
+    const from = this.requireString(start, startField);
+    const to = this.requireString(end, endField);
+    if (isNaN(Date.parse(from)) || isNaN(Date.parse(to))) {
+      throw new MockIFSError(`${startField} and ${endField} must be dates`, 400);
+    }
+    if (Date.parse(from) >= Date.parse(to)) {
+      throw new MockIFSError(`${startField} must be before ${endField}`, 400);
+    }
+    return { start: from, end: to };
+  }
+}
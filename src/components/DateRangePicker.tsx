@@ -0,0 +1,121 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { format, isValid, parse } from 'date-fns';
+import type { TimeRange } from '@/domain/types';
+import { VIEW_PRESETS, getDayCount, type ViewPreset } from '@/domain/viewRange';
+import styles from './DateRangePicker.module.css';
+
+interface DateRangePickerProps {
+  viewRange: TimeRange;
+  viewPreset: ViewPreset;
+  onPreset: (preset: Exclude<ViewPreset, 'custom'>) => void;
+  onCustomRange: (from: Date, to: Date) => void;
+}
+
+const INPUT_FORMAT = 'yyyy-MM-dd'; // Value format of <input type="date">
+
+// Local midnight of an input value, null while the input is incomplete
+function parseInputDate(value: string): Date | null {
+  const date = parse(value, INPUT_FORMAT, new Date());
+  return isValid(date) ? date : null;
+}
+
+/**
+ * The "Viewing" label of the top menu; opens presets and a from/to picker for the board range
+ */
+export function DateRangePicker({ viewRange, viewPreset, onPreset, onCustomRange }: DateRangePickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Start from the range on screen every time the picker opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setFrom(format(viewRange.start, INPUT_FORMAT));
+    setTo(format(viewRange.end, INPUT_FORMAT));
+  }, [isOpen, viewRange]);
+
+  // Close when clicking outside or pressing Escape
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleClick);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  const fromDate = parseInputDate(from);
+  const toDate = parseInputDate(to);
+
+  const handlePreset = (preset: Exclude<ViewPreset, 'custom'>) => {
+    onPreset(preset);
+    setIsOpen(false);
+  };
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!fromDate || !toDate) return;
+    onCustomRange(fromDate, toDate);
+    setIsOpen(false);
+  };
+
+  const presetLabel = VIEW_PRESETS.find((p) => p.id === viewPreset)?.label ?? `${getDayCount(viewRange)} days`;
+
+  return (
+    <div ref={containerRef} className={styles.container}>
+      <button
+        className={styles.trigger}
+        onClick={() => setIsOpen((open) => !open)}
+        aria-haspopup="dialog"
+        aria-expanded={isOpen}
+        title="Pick the dates to show"
+      >
+        <span className={styles.label}>Viewing · {presetLabel}</span>
+        <span className={styles.dates}>
+          {format(viewRange.start, 'MMM d')} — {format(viewRange.end, 'MMM d, yyyy')}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className={styles.popover} role="dialog" aria-label="View range">
+          <div className={styles.presets}>
+            {VIEW_PRESETS.map((preset) => (
+              <button
+                key={preset.id}
+                className={`${styles.presetButton} ${viewPreset === preset.id ? styles.active : ''}`}
+                onClick={() => handlePreset(preset.id)}
+              >
+                {preset.label}
+              </button>
+            ))}
+          </div>
+
+          <form className={styles.custom} onSubmit={handleApply}>
+            <span className={styles.customTitle}>Custom range</span>
+            <label className={styles.field}>
+              <span>From</span>
+              <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} required />
+            </label>
+            <label className={styles.field}>
+              <span>To</span>
+              <input type="date" value={to} onChange={(e) => setTo(e.target.value)} required />
+            </label>
+            <button type="submit" className={styles.applyButton} disabled={!fromDate || !toDate}>
+              Apply
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+'use client';
+
+import { format } from 'date-fns';
+import { countDraftChanges, type WorkingStateDraft } from '@/lib/api/draft-store';
+import styles from './DraftResumeDialog.module.css';
+
+interface DraftResumeDialogProps {
+  draft: WorkingStateDraft;
+  onResume: () => void;
+  onDiscard: () => void;
+}
+
+export function DraftResumeDialog({ draft, onResume, onDiscard }: DraftResumeDialogProps) {
+  const changeCount = countDraftChanges(draft);
+
+  return (
+    <div className={styles.overlay}>
+      <div
+        className={styles.dialog}
+        role="dialog"
+        aria-labelledby="draft-resume-title"
+        aria-modal="true"
+      >
+        <div className={styles.header}>
+          <h2 id="draft-resume-title">Resume your draft?</h2>
+        </div>
+
+        <div className={styles.body}>
+          <p>
+            You have {changeCount} unpushed {changeCount === 1 ? 'change' : 'changes'} from{' '}
+            <strong>{format(new Date(draft.savedAt), 'MMM d, yyyy HH:mm')}</strong>.
+          </p>
+          <dl className={styles.target}>
+            <dt>IFS environment</dt>
+            <dd>{draft.target.baseUrl === 'mock' ? 'Mock data' : `${draft.target.baseUrl} (${draft.target.environmentId})`}</dd>
+            <dt>Crew group</dt>
+            <dd>{draft.target.resourceGroupSeqCrews}</dd>
+          </dl>
+          <p className={styles.hint}>
+            Rows changed in IFS since the draft was saved are reported as conflicts when you push.
+          </p>
+        </div>
+
+        <div className={styles.actions}>
+          <button className={styles.discardButton} onClick={onDiscard}>
+            Discard and reload from IFS
+          </button>
+          <button className={styles.resumeButton} onClick={onResume}>
+            Resume draft
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
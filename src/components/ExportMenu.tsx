@@ -0,0 +1,111 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { format } from 'date-fns';
+import type { TimeRange } from '@/domain/types';
+import type { ExportFormat } from '@/lib/spreadsheet/schedule-export';
+import styles from './ExportMenu.module.css';
+
+export type ExportScope = 'all' | 'view';
+
+interface ExportMenuProps {
+  viewRange: TimeRange;
+  onExport: (format: ExportFormat, scope: ExportScope) => Promise<void>;
+}
+
+/**
+ * Top menu button to download the working state, unsaved changes included,
+ * as a CSV file or an Excel workbook with one sheet per team
+ */
+export function ExportMenu({ viewRange, onExport }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [scope, setScope] = useState<ExportScope>('all');
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking outside or pressing Escape
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleClick);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) setError(null);
+  }, [isOpen]);
+
+  const handleExport = async (exportFormat: ExportFormat) => {
+    setExporting(exportFormat);
+    setError(null);
+    try {
+      await onExport(exportFormat, scope);
+      setIsOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not export the schedule');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const viewLabel = `${format(viewRange.start, 'MMM d')} — ${format(viewRange.end, 'MMM d, yyyy')}`;
+
+  return (
+    <div ref={containerRef} className={styles.container}>
+      <button
+        className={styles.trigger}
+        onClick={() => setIsOpen((open) => !open)}
+        aria-haspopup="dialog"
+        aria-expanded={isOpen}
+        title="Export the schedule"
+      >
+        <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <path d="M12 3v12M7 10l5 5 5-5" />
+          <path d="M5 21h14" />
+        </svg>
+        <span>Export</span>
+      </button>
+
+      {isOpen && (
+        <div className={styles.popover} role="dialog" aria-label="Export the schedule">
+          <span className={styles.title}>Export</span>
+
+          <fieldset className={styles.scope}>
+            <label className={styles.option}>
+              <input type="radio" name="export-scope" checked={scope === 'all'} onChange={() => setScope('all')} />
+              <span>All data</span>
+            </label>
+            <label className={styles.option}>
+              <input type="radio" name="export-scope" checked={scope === 'view'} onChange={() => setScope('view')} />
+              <span>Current view <small>{viewLabel}</small></span>
+            </label>
+          </fieldset>
+
+          <div className={styles.formats}>
+            <button className={styles.formatButton} onClick={() => handleExport('xlsx')} disabled={exporting !== null}>
+              {exporting === 'xlsx' ? 'Exporting…' : 'Excel (.xlsx)'}
+            </button>
+            <button className={styles.formatButton} onClick={() => handleExport('csv')} disabled={exporting !== null}>
+              {exporting === 'csv' ? 'Exporting…' : 'CSV'}
+            </button>
+          </div>
+          <span className={styles.hint}>
+            Excel has a sheet per team next to the flat list; CSV holds the flat list. Unsaved changes are marked.
+          </span>
+
+          {error && <div className={styles.error}>{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
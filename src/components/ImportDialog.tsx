@@ -0,0 +1,157 @@
+'use client';
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { toLocalDate } from '@/domain/dateOnly';
+import type { CreateAssignmentInput } from '@/domain/types';
+import type { ImportPreview, ImportRowResult, ImportRowStatus } from '@/lib/spreadsheet/schedule-import';
+import styles from './ImportDialog.module.css';
+
+interface ImportDialogProps {
+  onPreview: (file: File) => Promise<ImportPreview>;
+  onImport: (inputs: CreateAssignmentInput[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const STATUS_SECTIONS: { status: ImportRowStatus; title: string }[] = [
+  { status: 'accepted', title: 'Accepted' },
+  { status: 'conflict', title: 'Conflicting' },
+  { status: 'unmatched', title: 'Unmatched' },
+];
+
+const formatDate = (date: string | null) => (date ? format(toLocalDate(date), 'MMM d, yyyy') : '—');
+
+/**
+ * Import crew plans from a CSV file or Excel workbook: pick a file, review how its rows
+ * were matched and checked, then add the accepted rows to the working state
+ */
+export function ImportDialog({ onPreview, onImport, onClose }: ImportDialogProps) {
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setIsBusy(true);
+    setError(null);
+    setPreview(null);
+    try {
+      setPreview(await onPreview(file));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the file');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const accepted = preview?.rows.filter((row) => row.status === 'accepted') ?? [];
+
+  const handleImport = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await onImport(accepted.map((row) => row.input).filter((input): input is CreateAssignmentInput => !!input));
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not import the rows');
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className={styles.overlay} onClick={onClose}>
+      <div
+        className={styles.dialog}
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-labelledby="import-title"
+        aria-modal="true"
+      >
+        <div className={styles.header}>
+          <h2 id="import-title">Import crew plan</h2>
+          <button className={styles.closeButton} onClick={onClose} aria-label="Close">
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M18 6L6 18M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className={styles.fileRow}>
+          <label className={styles.fileButton}>
+            <input
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              onChange={(e) => {
+                handleFile(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+              disabled={isBusy}
+            />
+            {preview ? 'Choose another file' : 'Choose file'}
+          </label>
+          <span className={styles.hint}>
+            {preview?.fileName ??
+              'CSV or Excel (first sheet) with the columns Resource ID or Resource, Team, Start, End and optionally Team Leader and Role'}
+          </span>
+        </div>
+
+        {error && <div className={styles.error}>{error}</div>}
+
+        {preview && (
+          <div className={styles.sections}>
+            {preview.rows.length === 0 && <p className={styles.empty}>The file has no rows to import</p>}
+            {STATUS_SECTIONS.map(({ status, title }) => {
+              const rows = preview.rows.filter((row) => row.status === status);
+              if (rows.length === 0) return null;
+              return (
+                <section key={status} className={styles.section}>
+                  <div className={styles.sectionHeader}>
+                    <span className={`${styles.status} ${styles[status]}`}>{title}</span>
+                    <span className={styles.sectionCount}>{rows.length}</span>
+                  </div>
+                  <ul className={styles.rows}>
+                    {rows.map((row) => <ImportRowItem key={row.rowNumber} row={row} />)}
+                  </ul>
+                </section>
+              );
+            })}
+          </div>
+        )}
+
+        <div className={styles.footer}>
+          <span className={styles.summary}>
+            {preview
+              ? `${accepted.length} of ${preview.rows.length} rows can be imported`
+              : isBusy ? 'Reading file…' : 'No file chosen'}
+          </span>
+          <div className={styles.footerActions}>
+            <button className={styles.cancelButton} onClick={onClose}>
+              Cancel
+            </button>
+            <button className={styles.confirmButton} onClick={handleImport} disabled={isBusy || accepted.length === 0}>
+              Import {accepted.length} {accepted.length === 1 ? 'row' : 'rows'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function ImportRowItem({ row }: { row: ImportRowResult }) {
+  return (
+    <li className={styles.row}>
+      <div className={styles.rowLine}>
+        <span className={styles.rowNumber}>Row {row.rowNumber}</span>
+        <span className={styles.rowLabel}>
+          {row.resourceLabel || '—'} in {row.teamLabel || '—'}
+          {row.isTeamLeader && <span className={styles.leaderBadge}>Team Leader</span>}
+        </span>
+        <span className={styles.rowDates}>{formatDate(row.start)} — {formatDate(row.end)}</span>
+      </div>
+      {row.messages.map((message) => (
+        <span key={message} className={row.status === 'accepted' ? styles.warning : styles.problem}>{message}</span>
+      ))}
+    </li>
+  );
+}
@@ -0,0 +1,116 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { IFSProfileSummary } from '@/lib/api/ifs-profiles';
+import styles from './ProfileSwitcher.module.css';
+
+interface ProfileSwitcherProps {
+  profiles: IFSProfileSummary[];
+  activeId: string | null;
+  hasUnsavedChanges: boolean;
+  onSwitch: (id: string) => Promise<void>;
+}
+
+// Where a profile connects to, to tell profiles with similar names apart
+function describeTarget(profile: IFSProfileSummary): string {
+  return `${profile.environmentId} · org ${profile.serviceOrganizationId} · crew group ${profile.resourceGroupSeqCrews}`;
+}
+
+/**
+ * Top menu button showing the IFS connection profile the planner works in, marked when it is
+ * production, with a popover to switch to another environment or organisation
+ */
+export function ProfileSwitcher({ profiles, activeId, hasUnsavedChanges, onSwitch }: ProfileSwitcherProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [switching, setSwitching] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking outside or pressing Escape
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleClick);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) setError(null);
+  }, [isOpen]);
+
+  const active = profiles.find((profile) => profile.id === activeId);
+  if (!active) return null;
+
+  const handleSwitch = async (id: string) => {
+    setSwitching(id);
+    setError(null);
+    try {
+      await onSwitch(id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not switch the connection profile');
+      setSwitching(null);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className={styles.container}>
+      <button
+        className={`${styles.trigger} ${active.production ? styles.production : ''}`}
+        onClick={() => setIsOpen((open) => !open)}
+        disabled={profiles.length < 2}
+        aria-haspopup="dialog"
+        aria-expanded={isOpen}
+        title={`Connected to ${active.name}: ${describeTarget(active)}`}
+      >
+        {active.production && <span className={styles.productionBadge}>Production</span>}
+        <span className={styles.name}>{active.name}</span>
+        {profiles.length > 1 && (
+          <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <path d="M6 9l6 6 6-6" />
+          </svg>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className={styles.popover} role="dialog" aria-label="Switch the IFS connection profile">
+          <span className={styles.title}>IFS environment</span>
+
+          <ul className={styles.profiles}>
+            {profiles.map((profile) => (
+              <li key={profile.id}>
+                <button
+                  className={`${styles.profile} ${profile.id === active.id ? styles.active : ''}`}
+                  onClick={() => handleSwitch(profile.id)}
+                  disabled={profile.id === active.id || switching !== null}
+                  aria-current={profile.id === active.id}
+                >
+                  <span className={styles.profileName}>
+                    {profile.name}
+                    {profile.production && <span className={styles.productionBadge}>Production</span>}
+                  </span>
+                  <small>{switching === profile.id ? 'Switching…' : describeTarget(profile)}</small>
+                </button>
+              </li>
+            ))}
+          </ul>
+          <span className={styles.hint}>
+            {hasUnsavedChanges
+              ? `Your unsaved changes stay in ${active.name} as a draft, to resume when you switch back.`
+              : 'Switching reloads the crews and technicians of the chosen environment.'}
+          </span>
+
+          {error && <div className={styles.error}>{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
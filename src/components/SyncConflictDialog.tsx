@@ -0,0 +1,86 @@
+'use client';
+
+import { format } from 'date-fns';
+import { toLocalDay } from '@/domain/dateOnly';
+import type { SyncConflict } from '@/lib/api/crew-sync';
+import styles from './SyncConflictDialog.module.css';
+
+interface SyncConflictDialogProps {
+  conflicts: (SyncConflict & { label: string })[];
+  onResolve: (conflict: SyncConflict, keep: 'local' | 'server') => void;
+  onClose: () => void;
+}
+
+export function SyncConflictDialog({ conflicts, onResolve, onClose }: SyncConflictDialogProps) {
+  if (conflicts.length === 0) return null;
+
+  return (
+    <div className={styles.overlay} onClick={onClose}>
+      <div
+        className={styles.dialog}
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-labelledby="sync-conflict-title"
+        aria-modal="true"
+      >
+        <div className={styles.header}>
+          <h2 id="sync-conflict-title">Changed in IFS since you loaded it</h2>
+          <button className={styles.closeButton} onClick={onClose} aria-label="Close">
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M18 6L6 18M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <p className={styles.intro}>
+          Someone else changed these rows in IFS Cloud. Choose which version to keep for each one.
+          Kept local versions are pushed again on the next sync.
+        </p>
+
+        <ul className={styles.list}>
+          {conflicts.map((conflict) => (
+            <li key={conflict.id} className={styles.conflict}>
+              <span className={styles.conflictLabel}>
+                {conflict.label}
+                {conflict.entity === 'leaderPeriod' && <span className={styles.versionLeader}> · Team Leader</span>}
+              </span>
+              <div className={styles.versions}>
+                <VersionCard title="Your version" period={conflict.local} emptyText="Deleted locally" />
+                <VersionCard title="IFS version" period={conflict.server} emptyText="Deleted in IFS" />
+              </div>
+              <div className={styles.actions}>
+                <button className={styles.keepLocalButton} onClick={() => onResolve(conflict, 'local')}>
+                  Keep mine
+                </button>
+                <button className={styles.keepServerButton} onClick={() => onResolve(conflict, 'server')}>
+                  Keep IFS version
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
+
+interface VersionCardProps {
+  title: string;
+  period: { start: string; end: string } | null;
+  emptyText: string;
+}
+
+function VersionCard({ title, period, emptyText }: VersionCardProps) {
+  return (
+    <div className={styles.version}>
+      <span className={styles.versionTitle}>{title}</span>
+      {period ? (
+        <span className={styles.versionDates}>
+          {format(toLocalDay(period.start), 'MMM d, yyyy')} — {format(toLocalDay(period.end), 'MMM d, yyyy')}
+        </span>
+      ) : (
+        <span className={styles.versionEmpty}>{emptyText}</span>
+      )}
+    </div>
+  );
+}
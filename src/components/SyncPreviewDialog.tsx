@@ -0,0 +1,204 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { toLocalDay } from '@/domain/dateOnly';
+import type { SyncPreviewChange, SyncPreviewGroup, SyncPreviewVersion, SyncSelection } from '@/lib/api/crew-sync';
+import type { IFSProfileSummary } from '@/lib/api/ifs-profiles';
+import styles from './SyncPreviewDialog.module.css';
+
+interface SyncPreviewDialogProps {
+  groups: SyncPreviewGroup[];
+  target?: IFSProfileSummary | null; // Connection profile the changes go to
+  onConfirm: (selection: SyncSelection) => void;
+  onClose: () => void;
+}
+
+const changeKey = (change: SyncPreviewChange) => `${change.entity}:${change.id}`;
+
+const ENTITY_PREFIXES: Record<SyncPreviewChange['entity'], string> = {
+  assignment: '',
+  leaderPeriod: 'Team Leader: ',
+  team: 'Team ',
+};
+
+const ACTION_LABELS: Record<SyncPreviewChange['action'], string> = {
+  create: 'New',
+  update: 'Changed',
+  delete: 'Removed',
+};
+
+export function SyncPreviewDialog({ groups, target, onConfirm, onClose }: SyncPreviewDialogProps) {
+  const allKeys = useMemo(
+    () => groups.flatMap((group) => group.changes.map(changeKey)),
+    [groups]
+  );
+  // Everything is selected when the dialog opens
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(allKeys));
+
+  const toggle = (keys: string[], checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      keys.forEach((key) => (checked ? next.add(key) : next.delete(key)));
+      return next;
+    });
+  };
+
+  const handleConfirm = () => {
+    const changes = groups.flatMap((group) => group.changes).filter((c) => selected.has(changeKey(c)));
+    onConfirm({
+      assignmentIds: changes.filter((c) => c.entity === 'assignment').map((c) => c.id),
+      leaderPeriodIds: changes.filter((c) => c.entity === 'leaderPeriod').map((c) => c.id),
+      teamIds: changes.filter((c) => c.entity === 'team').map((c) => c.id),
+    });
+  };
+
+  const allSelected = selected.size === allKeys.length;
+
+  return (
+    <div className={styles.overlay} onClick={onClose}>
+      <div
+        className={styles.dialog}
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-labelledby="sync-preview-title"
+        aria-modal="true"
+      >
+        <div className={styles.header}>
+          <h2 id="sync-preview-title">Review changes before pushing</h2>
+          <button className={styles.closeButton} onClick={onClose} aria-label="Close">
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M18 6L6 18M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {target && (
+          <div className={`${styles.target} ${target.production ? styles.productionTarget : ''}`}>
+            {target.production ? 'Pushing to PRODUCTION: ' : 'Pushing to '}
+            <strong>{target.name}</strong> ({target.environmentId}, crew group {target.resourceGroupSeqCrews})
+          </div>
+        )}
+
+        <label className={styles.selectAll}>
+          <input
+            type="checkbox"
+            checked={allSelected}
+            onChange={(e) => toggle(allKeys, e.target.checked)}
+          />
+          <span>Select all</span>
+        </label>
+
+        <div className={styles.groups}>
+          {groups.map((group) => {
+            const keys = group.changes.map(changeKey);
+            const groupSelected = keys.every((key) => selected.has(key));
+            return (
+              <section key={group.teamId} className={styles.group}>
+                <label className={styles.groupHeader}>
+                  <input
+                    type="checkbox"
+                    checked={groupSelected}
+                    onChange={(e) => toggle(keys, e.target.checked)}
+                  />
+                  <span className={styles.groupName}>{group.teamName}</span>
+                  <span className={styles.groupCount}>{group.changes.length}</span>
+                </label>
+                <ul className={styles.changes}>
+                  {group.changes.map((change) => (
+                    <li key={changeKey(change)} className={styles.change}>
+                      <label className={styles.changeRow}>
+                        <input
+                          type="checkbox"
+                          checked={selected.has(changeKey(change))}
+                          onChange={(e) => toggle([changeKey(change)], e.target.checked)}
+                        />
+                        <span className={`${styles.action} ${styles[change.action]}`}>
+                          {ACTION_LABELS[change.action]}
+                        </span>
+                        <span className={styles.changeLabel}>
+                          {ENTITY_PREFIXES[change.entity]}{change.label}
+                        </span>
+                      </label>
+                      <ChangeDiff change={change} />
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            );
+          })}
+        </div>
+
+        <div className={styles.footer}>
+          <span className={styles.selectionCount}>
+            {selected.size} of {allKeys.length} changes selected
+          </span>
+          <div className={styles.footerActions}>
+            <button className={styles.cancelButton} onClick={onClose}>
+              Cancel
+            </button>
+            <button
+              className={`${styles.confirmButton} ${target?.production ? styles.productionConfirm : ''}`}
+              onClick={handleConfirm}
+              disabled={selected.size === 0}
+            >
+              Push {selected.size} {selected.size === 1 ? 'change' : 'changes'}{target?.production ? ' to production' : ''}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const formatDates = (version: SyncPreviewVersion) =>
+  version.start && version.end
+    ? `${format(toLocalDay(version.start), 'MMM d, yyyy')} — ${format(toLocalDay(version.end), 'MMM d, yyyy')}`
+    : '';
+
+/**
+ * Show what the push will change: the full version for creates and deletes,
+ * and only the fields that differ from the IFS baseline for updates
+ */
+function ChangeDiff({ change }: { change: SyncPreviewChange }) {
+  const { before, after } = change;
+  if (change.entity === 'team') {
+    if (before && after && before.teamName !== after.teamName) {
+      return <DiffLine field="Name" before={before.teamName} after={after.teamName} />;
+    }
+    return null;
+  }
+
+  if (!before || !after) {
+    const version = (after || before)!;
+    return (
+      <div className={styles.diff}>
+        <span className={change.action === 'delete' ? styles.removedValue : styles.addedValue}>
+          {formatDates(version)}
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <div className={styles.diffLines}>
+      {before.teamName !== after.teamName && (
+        <DiffLine field="Team" before={before.teamName} after={after.teamName} />
+      )}
+      {formatDates(before) !== formatDates(after) && (
+        <DiffLine field="Dates" before={formatDates(before)} after={formatDates(after)} />
+      )}
+    </div>
+  );
+}
+
+function DiffLine({ field, before, after }: { field: string; before: string; after: string }) {
+  return (
+    <div className={styles.diff}>
+      <span className={styles.diffField}>{field}</span>
+      <span className={styles.removedValue}>{before}</span>
+      <span className={styles.diffArrow}>→</span>
+      <span className={styles.addedValue}>{after}</span>
+    </div>
+  );
+}
@@ -1,23 +1,72 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { format } from 'date-fns';
+import { useState, useEffect, useCallback } from 'react';
 import { useQueryClient } from '@tanstack/react-query';
+import { addYears, endOfYear, startOfYear } from 'date-fns';
 import { useUIStore, ZOOM_LEVELS } from '@/lib/store/ui-store';
 import { queryKeys } from '@/lib/query/keys';
+import type { SyncConflict, SyncPreviewGroup, SyncReport, SyncSelection } from '@/lib/api/crew-sync';
+import type { WorkingStateDraft } from '@/lib/api/draft-store';
+import type { CreateAssignmentInput } from '@/domain/types';
+import type { IFSUser } from '@/lib/api/ifs-session';
+import type { IFSProfileList } from '@/lib/api/ifs-profiles';
+import { buildScheduleExport, getExportFileName, type ExportFormat } from '@/lib/spreadsheet/schedule-export';
+import { readImportFile } from '@/lib/spreadsheet/schedule-import';
+import { CSV_BOM, CSV_MIME_TYPE } from '@/lib/spreadsheet/csv';
+import { XLSX_MIME_TYPE } from '@/lib/spreadsheet/xlsx';
+import { DateRangePicker } from './DateRangePicker';
+import { DraftResumeDialog } from './DraftResumeDialog';
+import { ExportMenu, type ExportScope } from './ExportMenu';
+import { ImportDialog } from './ImportDialog';
+import { ProfileSwitcher } from './ProfileSwitcher';
+import { SyncConflictDialog } from './SyncConflictDialog';
+import { SyncPreviewDialog } from './SyncPreviewDialog';
+import { WorkingCalendarMenu } from './WorkingCalendarMenu';
 import styles from './TopMenu.module.css';
 
+// Save a file through the browser's download
+function downloadFile(fileName: string, blob: Blob) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
 export function TopMenu() {
   const queryClient = useQueryClient();
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
+  const [syncPreview, setSyncPreview] = useState<SyncPreviewGroup[] | null>(null);
+  const [syncReport, setSyncReport] = useState<SyncReport | null>(null);
+  const [conflicts, setConflicts] = useState<(SyncConflict & { label: string })[]>([]);
+  const [draft, setDraft] = useState<WorkingStateDraft | null>(null);
+  const [history, setHistory] = useState<{ undo: string | null; redo: string | null }>({ undo: null, redo: null });
+  const [canLoadIFSCalendar, setCanLoadIFSCalendar] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [user, setUser] = useState<IFSUser | null>(null);
+  const [signOutError, setSignOutError] = useState<string | null>(null);
+  const [profileList, setProfileList] = useState<IFSProfileList>({ profiles: [], activeId: null });
   const { 
     viewRange, 
-    navigateWeeks, 
+    viewPreset,
+    setViewPreset,
+    setCustomRange,
+    navigateRange,
+    goToToday,
     zoomIndex, 
     zoomIn, 
     zoomOut, 
     resetZoom,
+    boardMode,
+    setBoardMode,
+    workingCalendar,
+    calendarSource,
+    ignoreNonWorkingGaps,
+    setWorkingCalendar,
+    setIgnoreNonWorkingGaps,
+    restoreWorkingCalendar,
     isSyncing,
     hasValidationWarnings,
     startSync,
@@ -29,6 +78,7 @@ export function TopMenu() {
     const checkChanges = async () => {
       const { api } = await import('@/lib/api/client');
       setHasUnsavedChanges(api.hasUnsavedChanges());
+      setHistory(api.getHistory());
     };
     
     checkChanges();
@@ -37,34 +87,181 @@ export function TopMenu() {
     return () => clearInterval(interval);
   }, []);
 
+  // Use the working calendar of the last session; the IFS calendar needs IFS Cloud and a calendar id
+  // in the active connection profile
+  useEffect(() => {
+    restoreWorkingCalendar();
+    import('@/lib/api/client').then(async ({ api }) => {
+      setProfileList(await api.getProfiles());
+      setCanLoadIFSCalendar(api.hasIFSCalendar());
+    });
+  }, [restoreWorkingCalendar]);
+
+  // A fresh page holds nothing of the previous profile: crews, technicians, caches and history
+  const handleSwitchProfile = async (id: string) => {
+    const { api } = await import('@/lib/api/client');
+    await api.switchProfile(id);
+    window.location.reload();
+  };
+
+  // Signed-in user when per-user login is on
+  useEffect(() => {
+    import('@/lib/api/client').then(({ api }) => api.getSession()).then(({ user }) => setUser(user));
+  }, []);
+
+  // Unsaved changes stay in this browser as a draft
+  const handleSignOut = async () => {
+    setSignOutError(null);
+    try {
+      const { api } = await import('@/lib/api/client');
+      window.location.href = await api.signOut();
+    } catch (error) {
+      console.error('[TopMenu] Error signing out:', error);
+      // Still signed in: say so, and let a reload pick up whatever session is left
+      setSignOutError(error instanceof Error ? error.message : 'Failed to sign out');
+    }
+  };
+
+  // Non-working days of this and next year, counted from the start of the view
+  const handleLoadIFSCalendar = useCallback(async () => {
+    const { api } = await import('@/lib/api/client');
+    const start = useUIStore.getState().viewRange.start;
+    setWorkingCalendar(await api.getIFSWorkingCalendar(startOfYear(start), endOfYear(addYears(start, 1))), 'ifs');
+  }, [setWorkingCalendar]);
+
+  // Download the working state, all of it or the memberships in the view range
+  const handleExport = useCallback(async (exportFormat: ExportFormat, scope: ExportScope) => {
+    const { api } = await import('@/lib/api/client');
+    const range = scope === 'view' ? useUIStore.getState().viewRange : null;
+    const content = buildScheduleExport(await api.getExportData(), range, exportFormat);
+    const blob = typeof content === 'string'
+      ? new Blob([CSV_BOM, content], { type: CSV_MIME_TYPE })
+      : new Blob([content], { type: XLSX_MIME_TYPE });
+    downloadFile(getExportFileName(exportFormat, range), blob);
+  }, []);
+
+  const handlePreviewImport = useCallback(async (file: File) => {
+    const rows = await readImportFile(file);
+    const { api } = await import('@/lib/api/client');
+    return api.previewImport(file.name, rows);
+  }, []);
+
+  // Accepted import rows become tracked creates, undone as one step
+  const handleImport = useCallback(async (inputs: CreateAssignmentInput[]) => {
+    const { api } = await import('@/lib/api/client');
+    await api.importAssignments(inputs);
+    setHasUnsavedChanges(api.hasUnsavedChanges());
+    setHistory(api.getHistory());
+    await queryClient.invalidateQueries({ queryKey: queryKeys.scheduler.all });
+  }, [queryClient]);
+
+  // Offer to resume a draft saved before the last page reload
+  useEffect(() => {
+    const checkDraft = async () => {
+      const { api } = await import('@/lib/api/client');
+      setDraft(await api.findDraft());
+    };
+
+    checkDraft();
+  }, []);
+
+  const handleResumeDraft = async () => {
+    if (!draft) return;
+    const { api } = await import('@/lib/api/client');
+    api.resumeDraft(draft);
+    setDraft(null);
+    setHasUnsavedChanges(api.hasUnsavedChanges());
+    await queryClient.invalidateQueries({ queryKey: queryKeys.scheduler.all });
+  };
+
+  const handleDiscardDraft = async () => {
+    const { api } = await import('@/lib/api/client');
+    await api.discardDraft();
+    setDraft(null);
+    await queryClient.invalidateQueries({ queryKey: queryKeys.scheduler.all });
+  };
+
+  const handleHistory = useCallback(async (direction: 'undo' | 'redo') => {
+    const { api } = await import('@/lib/api/client');
+    const label = direction === 'undo' ? api.undo() : api.redo();
+    if (!label) return;
+    // Undoing back to the IFS state leaves nothing to push
+    setHasUnsavedChanges(api.hasUnsavedChanges());
+    setHistory(api.getHistory());
+    await queryClient.invalidateQueries({ queryKey: queryKeys.scheduler.all });
+  }, [queryClient]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), unless the user is typing in a field
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z') {
+        e.preventDefault();
+        handleHistory(e.shiftKey ? 'redo' : 'undo');
+      } else if (key === 'y' && !e.shiftKey) {
+        e.preventDefault();
+        handleHistory('redo');
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleHistory]);
+
   const canZoomIn = zoomIndex < ZOOM_LEVELS.length - 1;
   const canZoomOut = zoomIndex > 0;
   const zoomPercent = Math.round((ZOOM_LEVELS[zoomIndex] / 48) * 100);
 
   const canPush = hasUnsavedChanges && !isSyncing && !hasValidationWarnings;
+  const activeProfile = profileList.profiles.find((profile) => profile.id === profileList.activeId) ?? null;
 
+  // Open the sync preview so the user can review and pick what to push
   const handlePushToCloud = async () => {
     if (!canPush) return;
-    
+
+    const { api } = await import('@/lib/api/client');
+    setSyncReport(null);
+    setSyncPreview(api.getSyncPreview());
+  };
+
+  const handleConfirmPush = async (selection: SyncSelection) => {
+    setSyncPreview(null);
     startSync();
     
     try {
-      // TODO: Implement actual IFS Cloud sync
-      // For now, simulate a network request
-      await new Promise((resolve) => setTimeout(resolve, 1500));
-      
-      // After successful sync, clear change tracking
       const { api } = await import('@/lib/api/client');
-      api.clearChangeTracking();
+      const report = await api.pushChangesToIFS(selection);
       
-      finishSync();
-      setHasUnsavedChanges(false);
+      // Only the items that failed or were not selected remain tracked
+      setHasUnsavedChanges(api.hasUnsavedChanges());
+      if (report.failed > 0) {
+        setSyncReport(report);
+      }
+      setConflicts(
+        report.items.flatMap((item) => (item.conflict ? [{ ...item.conflict, label: item.label }] : []))
+      );
+      
+      // Pick up the IFS keys assigned to newly created rows
+      await queryClient.invalidateQueries({ queryKey: queryKeys.scheduler.all });
     } catch (error) {
       console.error('[TopMenu] Sync failed:', error);
+    } finally {
       finishSync();
     }
   };
 
+  const handleResolveConflict = async (conflict: SyncConflict, keep: 'local' | 'server') => {
+    const { api } = await import('@/lib/api/client');
+    api.resolveSyncConflict(conflict, keep);
+    setConflicts((prev) => prev.filter((c) => c.id !== conflict.id));
+    setHasUnsavedChanges(api.hasUnsavedChanges());
+    await queryClient.invalidateQueries({ queryKey: queryKeys.scheduler.all });
+  };
+
   const handleRefresh = async () => {
     if (isRefreshing) return; // Prevent multiple simultaneous refreshes
     
@@ -106,23 +303,31 @@ export function TopMenu() {
           <h1>TeamsViewer</h1>
           <span>Crews Scheduler</span>
         </div>
+        {(profileList.profiles.length > 1 || activeProfile?.production) && (
+          <ProfileSwitcher
+            profiles={profileList.profiles}
+            activeId={profileList.activeId}
+            hasUnsavedChanges={hasUnsavedChanges}
+            onSwitch={handleSwitchProfile}
+          />
+        )}
       </div>
 
       <nav className={styles.navigation}>
-        <button className={styles.navButton} onClick={() => navigateWeeks('prev')}>
+        <button className={styles.navButton} onClick={() => navigateRange('prev')} title="Previous period">
           <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
             <path d="M15 18l-6-6 6-6" />
           </svg>
         </button>
         
-        <div className={styles.dateRange}>
-          <span className={styles.dateLabel}>Viewing</span>
-          <span className={styles.dates}>
-            {format(viewRange.start, 'MMM d')} — {format(viewRange.end, 'MMM d, yyyy')}
-          </span>
-        </div>
+        <DateRangePicker
+          viewRange={viewRange}
+          viewPreset={viewPreset}
+          onPreset={setViewPreset}
+          onCustomRange={setCustomRange}
+        />
 
-        <button className={styles.navButton} onClick={() => navigateWeeks('next')}>
+        <button className={styles.navButton} onClick={() => navigateRange('next')} title="Next period">
           <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
             <path d="M9 18l6-6-6-6" />
           </svg>
@@ -130,6 +335,38 @@ export function TopMenu() {
       </nav>
 
       <div className={styles.actions}>
+        {/* Board Mode - teams with their members, or one row per technician */}
+        <div className={styles.boardModeToggle} role="group" aria-label="Board layout">
+          <button
+            className={`${styles.boardModeButton} ${boardMode === 'teams' ? styles.active : ''}`}
+            onClick={() => setBoardMode('teams')}
+            aria-pressed={boardMode === 'teams'}
+            title="One section per team"
+          >
+            Teams
+          </button>
+          <button
+            className={`${styles.boardModeButton} ${boardMode === 'resources' ? styles.active : ''}`}
+            onClick={() => setBoardMode('resources')}
+            aria-pressed={boardMode === 'resources'}
+            title="One row per technician, bars coloured by team"
+          >
+            Technicians
+          </button>
+        </div>
+
+        <WorkingCalendarMenu
+          calendar={workingCalendar}
+          source={calendarSource}
+          ignoreNonWorkingGaps={ignoreNonWorkingGaps}
+          canLoadFromIFS={canLoadIFSCalendar}
+          onCalendar={setWorkingCalendar}
+          onLoadFromIFS={handleLoadIFSCalendar}
+          onIgnoreNonWorkingGaps={setIgnoreNonWorkingGaps}
+        />
+
+        <div className={styles.divider} />
+
         {/* Zoom Controls */}
         <div className={styles.zoomControls}>
           <button 
@@ -169,15 +406,55 @@ export function TopMenu() {
 
         <div className={styles.divider} />
 
-        <button className={styles.todayButton} onClick={() => useUIStore.getState().setViewRange({
-          start: new Date(),
-          end: new Date(Date.now() + 42 * 24 * 60 * 60 * 1000),
-        })}>
+        <button className={styles.todayButton} onClick={goToToday} title="Show the current period">
           Today
         </button>
 
         <div className={styles.divider} />
 
+        {/* Undo / Redo */}
+        <div className={styles.historyControls}>
+          <button
+            className={styles.historyButton}
+            onClick={() => handleHistory('undo')}
+            disabled={!history.undo || isSyncing}
+            title={history.undo ? `Undo: ${history.undo} (Ctrl+Z)` : 'Nothing to undo'}
+            aria-label="Undo"
+          >
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M9 14L4 9l5-5" />
+              <path d="M4 9h10.5a5.5 5.5 0 010 11H11" />
+            </svg>
+          </button>
+          <button
+            className={styles.historyButton}
+            onClick={() => handleHistory('redo')}
+            disabled={!history.redo || isSyncing}
+            title={history.redo ? `Redo: ${history.redo} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+            aria-label="Redo"
+          >
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M15 14l5-5-5-5" />
+              <path d="M20 9H9.5a5.5 5.5 0 000 11H13" />
+            </svg>
+          </button>
+        </div>
+
+        <button
+          className={styles.refreshButton}
+          onClick={() => setIsImportOpen(true)}
+          disabled={isSyncing}
+          title="Import a crew plan from CSV or Excel"
+        >
+          <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <path d="M12 15V3M7 8l5-5 5 5" />
+            <path d="M5 21h14" />
+          </svg>
+          <span>Import</span>
+        </button>
+
+        <ExportMenu viewRange={viewRange} onExport={handleExport} />
+
         {/* Refresh Button */}
         <button 
           className={`${styles.refreshButton} ${isRefreshing ? styles.refreshing : ''}`}
@@ -206,9 +483,9 @@ export function TopMenu() {
           disabled={!canPush}
           title={
             hasValidationWarnings 
-              ? 'Cannot push: Fix team leader warnings first' 
+              ? 'Cannot push: Fix the problems listed in the problems panel first' 
               : hasUnsavedChanges 
-                ? 'Push changes to IFS Cloud' 
+                ? `Review and push changes to ${activeProfile ? activeProfile.name : 'IFS Cloud'}` 
                 : 'No changes to push'
           }
         >
@@ -230,7 +507,88 @@ export function TopMenu() {
             </>
           )}
         </button>
+
+        {user && (
+          <div className={styles.userMenu}>
+            <span className={styles.userName} title={user.email ?? user.username}>{user.name}</span>
+            <button className={styles.refreshButton} onClick={handleSignOut} title="Sign out of IFS Cloud">
+              Sign out
+            </button>
+            {signOutError && (
+              <>
+                <span className={styles.signOutError} role="alert">{signOutError}</span>
+                <button className={styles.refreshButton} onClick={() => window.location.reload()} title="Reload the page">
+                  Reload
+                </button>
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Sync Report - per-item outcome of the last push */}
+        {syncReport && (
+          <div className={styles.syncReport} role="status">
+            <div className={styles.syncReportHeader}>
+              <strong>
+                {syncReport.succeeded} synced, {syncReport.failed} failed
+              </strong>
+              <button
+                className={styles.syncReportClose}
+                onClick={() => setSyncReport(null)}
+                aria-label="Dismiss sync report"
+              >
+                <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <path d="M18 6L6 18M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+            <ul className={styles.syncReportList}>
+              {syncReport.items.map((item) => (
+                <li
+                  key={`${item.entity}-${item.id}`}
+                  className={item.success ? styles.syncItemSuccess : styles.syncItemFailed}
+                >
+                  <span className={styles.syncItemLabel}>
+                    {item.success ? '✓' : '✕'} {item.action} {item.entity}: {item.label}
+                  </span>
+                  {item.error && <span className={styles.syncItemError}>{item.error}</span>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </div>
+
+      {syncPreview && (
+        <SyncPreviewDialog
+          groups={syncPreview}
+          target={activeProfile}
+          onConfirm={handleConfirmPush}
+          onClose={() => setSyncPreview(null)}
+        />
+      )}
+
+      {isImportOpen && (
+        <ImportDialog
+          onPreview={handlePreviewImport}
+          onImport={handleImport}
+          onClose={() => setIsImportOpen(false)}
+        />
+      )}
+
+      <SyncConflictDialog
+        conflicts={conflicts}
+        onResolve={handleResolveConflict}
+        onClose={() => setConflicts([])}
+      />
+
+      {draft && (
+        <DraftResumeDialog
+          draft={draft}
+          onResume={handleResumeDraft}
+          onDiscard={handleDiscardDraft}
+        />
+      )}
     </header>
   );
 }
@@ -0,0 +1,181 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  CalendarFileError,
+  DEFAULT_WORKING_CALENDAR,
+  getCalendarRegions,
+  parseCalendarFile,
+  type WorkingCalendar,
+} from '@/domain/workingCalendar';
+import type { CalendarSource } from '@/lib/store/calendar-storage';
+import styles from './WorkingCalendarMenu.module.css';
+
+interface WorkingCalendarMenuProps {
+  calendar: WorkingCalendar;
+  source: CalendarSource;
+  ignoreNonWorkingGaps: boolean;
+  canLoadFromIFS: boolean;
+  onCalendar: (calendar: WorkingCalendar, source: CalendarSource) => void;
+  onLoadFromIFS: () => Promise<void>;
+  onIgnoreNonWorkingGaps: (ignore: boolean) => void;
+}
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const SOURCE_LABELS: Record<CalendarSource, string> = {
+  default: 'Built in',
+  file: 'From file',
+  ifs: 'From IFS Cloud',
+};
+
+/**
+ * Top menu button for the working calendar: load it from a JSON/ICS file or IFS Cloud,
+ * pick the holiday region, and choose whether leader gaps on days off are warned about
+ */
+export function WorkingCalendarMenu({
+  calendar,
+  source,
+  ignoreNonWorkingGaps,
+  canLoadFromIFS,
+  onCalendar,
+  onLoadFromIFS,
+  onIgnoreNonWorkingGaps,
+}: WorkingCalendarMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Close when clicking outside or pressing Escape
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleClick);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) setError(null);
+  }, [isOpen]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Picking the same file again loads it again
+    if (!file) return;
+    try {
+      onCalendar(parseCalendarFile(file.name, await file.text()), 'file');
+      setError(null);
+    } catch (err) {
+      setError(err instanceof CalendarFileError ? `${file.name}: ${err.message}` : `Could not read ${file.name}`);
+    }
+  };
+
+  const handleLoadFromIFS = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await onLoadFromIFS();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not load the IFS calendar');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const regions = getCalendarRegions(calendar);
+  const workingWeek = calendar.workingWeekdays.map((day) => WEEKDAY_NAMES[day]).join(', ') || 'None';
+
+  return (
+    <div ref={containerRef} className={styles.container}>
+      <button
+        className={`${styles.trigger} ${source !== 'default' ? styles.active : ''}`}
+        onClick={() => setIsOpen((open) => !open)}
+        aria-haspopup="dialog"
+        aria-expanded={isOpen}
+        title={`Working calendar: ${calendar.name}`}
+      >
+        <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <rect x="3" y="4" width="18" height="17" rx="2" />
+          <path d="M3 9h18M8 2v4M16 2v4" />
+          <path d="M8 14h2M14 14h2M8 18h2" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className={styles.popover} role="dialog" aria-label="Working calendar">
+          <div className={styles.summary}>
+            <span className={styles.title}>Working calendar</span>
+            <strong className={styles.name}>{calendar.name}</strong>
+            <span className={styles.detail}>{SOURCE_LABELS[source]} · Works {workingWeek}</span>
+            <span className={styles.detail}>
+              {calendar.holidays.length} holidays · {calendar.shutdowns.length} shutdowns
+            </span>
+          </div>
+
+          {regions.length > 0 && (
+            <label className={styles.field}>
+              <span>Region</span>
+              <select
+                value={calendar.region ?? ''}
+                onChange={(e) => onCalendar({ ...calendar, region: e.target.value || null }, source)}
+              >
+                <option value="">Holidays without a region only</option>
+                {regions.map((region) => (
+                  <option key={region} value={region}>{region}</option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          <div className={styles.sources}>
+            <button className={styles.sourceButton} onClick={() => fileInputRef.current?.click()}>
+              Load file…
+            </button>
+            {canLoadFromIFS && (
+              <button className={styles.sourceButton} onClick={handleLoadFromIFS} disabled={isLoading}>
+                {isLoading ? 'Loading…' : 'Load from IFS'}
+              </button>
+            )}
+            <button
+              className={styles.sourceButton}
+              onClick={() => onCalendar(DEFAULT_WORKING_CALENDAR, 'default')}
+              disabled={source === 'default'}
+            >
+              Reset
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,.ics,application/json,text/calendar"
+              className={styles.fileInput}
+              onChange={handleFile}
+            />
+          </div>
+          <span className={styles.hint}>JSON with workingDays, holidays and shutdowns, or an iCalendar (.ics) file</span>
+
+          {error && <div className={styles.error}>{error}</div>}
+
+          <label className={styles.checkbox}>
+            <input
+              type="checkbox"
+              checked={ignoreNonWorkingGaps}
+              onChange={(e) => onIgnoreNonWorkingGaps(e.target.checked)}
+            />
+            <span>Ignore Team Leader gaps that fall only on non-working days</span>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { getAvailabilityByResource } from '../availability';
+import type { Assignment } from '../types';
+
+// Local dates, as the board lays out days in local time
+const day = (d: number) => new Date(2026, 0, d);
+
+const range = { start: day(5), end: new Date(2026, 0, 11, 23, 59, 59, 999) }; // Mon 5 – Sun 11 January
+
+const assignment = (id: string, resourceId: string, start: Date, end: Date): Assignment => ({
+  id,
+  resourceId,
+  teamId: 'team-1',
+  start: start.toISOString(),
+  end: end.toISOString(),
+});
+
+describe('getAvailabilityByResource', () => {
+  it('should mark the days a resource is in a crew and count the free ones', () => {
+    const availability = getAvailabilityByResource(
+      ['res-1'],
+      [
+        assignment('a-1', 'res-1', day(1), day(7)), // Ends at the start of the 7th
+        assignment('a-2', 'res-1', day(10), day(20)),
+      ],
+      range
+    );
+
+    expect(availability.get('res-1')).toEqual({
+      busyDays: [true, true, false, false, false, true, true],
+      freeDays: 3,
+      status: 'partial',
+    });
+  });
+
+  it('should report resources without memberships in the range as available', () => {
+    const availability = getAvailabilityByResource(
+      ['res-1', 'res-2'],
+      [assignment('a-1', 'res-2', day(12), day(20))],
+      range
+    );
+
+    expect(availability.get('res-1')).toMatchObject({ freeDays: 7, status: 'available' });
+    expect(availability.get('res-2')).toMatchObject({ freeDays: 7, status: 'available' });
+  });
+
+  it('should report a resource that is busy every day as booked, across memberships in several teams', () => {
+    const availability = getAvailabilityByResource(
+      ['res-1'],
+      [
+        assignment('a-1', 'res-1', day(1), day(8)),
+        { ...assignment('a-2', 'res-1', day(8), day(15)), teamId: 'team-2' },
+      ],
+      range
+    );
+
+    expect(availability.get('res-1')).toMatchObject({ freeDays: 0, status: 'booked' });
+  });
+});
@@ -0,0 +1,91 @@
+import {
+  addDaysToDate,
+  daysBetween,
+  fromDateOnly,
+  fromLocalDate,
+  fromLocalDay,
+  normalizeDateTime,
+  toDateOnly,
+  toLocalDay,
+} from '../dateOnly';
+import { getAvailabilityByResource } from '../availability';
+import { periodsOverlap } from '../overlap';
+import { createAssignmentSchema } from '../validation';
+import type { Assignment } from '../types';
+
+const assignment = (id: string, start: string, end: string): Assignment => ({
+  id,
+  resourceId: 'res-1',
+  teamId: 'team-1',
+  start: fromDateOnly(start),
+  end: fromDateOnly(end),
+});
+
+describe('date-only periods', () => {
+  it('should store dates as midnight UTC and read them back unchanged', () => {
+    expect(fromDateOnly('2026-03-29')).toBe('2026-03-29T00:00:00.000Z');
+    expect(toDateOnly('2026-03-29T00:00:00.000Z')).toBe('2026-03-29');
+    expect(toDateOnly('2026-03-29')).toBe('2026-03-29');
+    expect(normalizeDateTime('2024-12-31T23:59:59Z')).toBe('2024-12-31T00:00:00.000Z');
+  });
+
+  it('should count and add whole days across DST changes', () => {
+    // Europe: summer time starts 29 March and ends 25 October 2026
+    expect(daysBetween('2026-03-28', '2026-03-30')).toBe(2);
+    expect(daysBetween('2026-10-30', '2026-10-24')).toBe(-6);
+    expect(addDaysToDate('2026-03-28', 2)).toBe('2026-03-30');
+    expect(addDaysToDate('2026-10-24', 7)).toBe('2026-10-31');
+    expect(addDaysToDate('2026-03-01', -1)).toBe('2026-02-28');
+  });
+
+  it('should read IFS timestamps as dates in the site time zone, on both sides of a DST change', () => {
+    // Midnight in Oslo is 23:00 UTC the day before in winter and 22:00 in summer
+    expect(toDateOnly('2026-03-28T23:00:00Z', 'Europe/Oslo')).toBe('2026-03-29');
+    expect(toDateOnly('2026-03-29T22:00:00Z', 'Europe/Oslo')).toBe('2026-03-30');
+    expect(normalizeDateTime('2026-10-24T22:00:00Z', 'Europe/Oslo')).toBe('2026-10-25T00:00:00.000Z');
+    expect(toDateOnly('2026-03-08T05:00:00Z', 'America/New_York')).toBe('2026-03-08');
+  });
+
+  it('should write midnight in the site time zone, on both sides of a DST change', () => {
+    expect(fromDateOnly('2026-03-29', 'Europe/Oslo')).toBe('2026-03-28T23:00:00.000Z');
+    expect(fromDateOnly('2026-03-30', 'Europe/Oslo')).toBe('2026-03-29T22:00:00.000Z');
+    expect(fromDateOnly('2026-10-25', 'Europe/Oslo')).toBe('2026-10-24T22:00:00.000Z');
+    expect(fromDateOnly('2026-10-26', 'Europe/Oslo')).toBe('2026-10-25T23:00:00.000Z');
+    expect(fromDateOnly('2026-03-09', 'America/New_York')).toBe('2026-03-09T04:00:00.000Z');
+
+    const dates = ['2026-03-28', '2026-03-29', '2026-03-30', '2026-10-25', '2026-10-26'];
+    for (const date of dates) {
+      expect(toDateOnly(fromDateOnly(date, 'Europe/Oslo'), 'Europe/Oslo')).toBe(date);
+    }
+  });
+
+  // The tests run in America/New_York (see jest.config.js), where midnight UTC is the evening before
+  it('should put stored dates on their own local day west of UTC', () => {
+    const day = toLocalDay('2026-03-09T00:00:00.000Z');
+
+    expect([day.getFullYear(), day.getMonth(), day.getDate(), day.getHours()]).toEqual([2026, 2, 9, 0]);
+    expect(fromLocalDate(new Date(2026, 2, 8))).toBe('2026-03-08');
+    expect(fromLocalDay(new Date(2026, 10, 1))).toBe('2026-11-01T00:00:00.000Z');
+  });
+
+  it('should mark the busy days of a period starting on a DST change', () => {
+    // US summer time starts 8 March 2026; the membership covers 9 and 10 March
+    const range = { start: new Date(2026, 2, 7), end: new Date(2026, 2, 11, 23, 59, 59, 999) };
+    const availability = getAvailabilityByResource(['res-1'], [assignment('a-1', '2026-03-09', '2026-03-11')], range);
+
+    expect(availability.get('res-1')?.busyDays).toEqual([false, false, true, true, false]);
+  });
+
+  it('should compare periods by date', () => {
+    const endOfDay = { start: '2026-01-01T00:00:00Z', end: '2026-01-05T23:59:59Z' };
+
+    expect(periodsOverlap(endOfDay, { start: '2026-01-05T00:00:00Z', end: '2026-01-09T00:00:00Z' })).toBe(false);
+    expect(periodsOverlap(endOfDay, { start: '2026-01-04T00:00:00Z', end: '2026-01-09T00:00:00Z' })).toBe(true);
+    expect(createAssignmentSchema.safeParse({
+      resourceId: 'res-1',
+      teamId: 'team-1',
+      start: '2026-01-05T08:00:00Z',
+      end: '2026-01-05T16:00:00Z',
+    }).success).toBe(false);
+  });
+});
@@ -0,0 +1,67 @@
+import { getResourceTimelines } from '../resourceTimeline';
+import type { Assignment } from '../types';
+
+const day = (d: number) => new Date(2026, 0, d);
+
+const range = { start: day(5), end: day(19) }; // Mon 5 – Sun 18 January
+
+const assignment = (id: string, teamId: string, start: Date, end: Date, resourceId = 'res-1'): Assignment => ({
+  id,
+  resourceId,
+  teamId,
+  start: start.toISOString(),
+  end: end.toISOString(),
+});
+
+describe('getResourceTimelines', () => {
+  it('should list the memberships of a resource across teams by start date, with the gaps between them', () => {
+    const timeline = getResourceTimelines(
+      ['res-1'],
+      [
+        assignment('a-2', 'team-2', day(12), day(15)),
+        assignment('a-1', 'team-1', day(1), day(8)),
+        assignment('a-3', 'team-1', day(15), day(17)), // Touches a-2: no gap between them
+        assignment('a-4', 'team-1', day(20), day(25)), // After the range
+      ],
+      range
+    ).get('res-1')!;
+
+    expect(timeline.assignments.map((a) => a.id)).toEqual(['a-1', 'a-2', 'a-3']);
+    expect(timeline.gaps).toEqual([
+      { start: day(8), end: day(12) },
+      { start: day(17), end: day(19) },
+    ]);
+    expect(timeline.overlaps).toEqual([]);
+  });
+
+  it('should report overlapping memberships once per overlapping period, clipped to the range', () => {
+    const timeline = getResourceTimelines(
+      ['res-1'],
+      [
+        assignment('a-1', 'team-1', day(1), day(10)),
+        assignment('a-2', 'team-2', day(3), day(7)),
+        assignment('a-3', 'team-3', day(6), day(9)),
+        assignment('a-4', 'team-2', day(14), day(30)),
+        assignment('a-5', 'team-1', day(16), day(17)),
+      ],
+      range
+    ).get('res-1')!;
+
+    expect(timeline.overlaps).toEqual([
+      { start: day(5), end: day(9) },
+      { start: day(16), end: day(17) },
+    ]);
+    expect(timeline.gaps).toEqual([{ start: day(10), end: day(14) }]);
+  });
+
+  it('should give a resource without memberships one gap covering the whole range', () => {
+    const timelines = getResourceTimelines(
+      ['res-1', 'res-2'],
+      [assignment('a-1', 'team-1', day(5), day(19), 'res-2')],
+      range
+    );
+
+    expect(timelines.get('res-1')).toEqual({ resourceId: 'res-1', assignments: [], gaps: [range], overlaps: [] });
+    expect(timelines.get('res-2')).toMatchObject({ gaps: [], overlaps: [] });
+  });
+});
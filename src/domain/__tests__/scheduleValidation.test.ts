@@ -0,0 +1,291 @@
+import {
+  findScheduleProblems,
+  NEW_ASSIGNMENT_ID,
+  NEW_LEADER_PERIOD_ID,
+  ScheduleValidationError,
+  hasErrors,
+  validateSchedule,
+  type ScheduleState,
+} from '../scheduleValidation';
+
+const day = (d: number) => new Date(Date.UTC(2025, 0, d)).toISOString();
+
+function makeState(overrides: Partial<ScheduleState> = {}): ScheduleState {
+  return {
+    teams: [
+      { id: 'team-1', name: 'CREW1', color: '#3b82f6', createdAt: day(1) },
+      { id: 'team-2', name: 'CREW2', color: '#10b981', createdAt: day(1) },
+    ],
+    resources: [
+      { id: 'res-1', description: 'Jane Doe', ResourceSeq: 1, role: 'Technician', skills: [] },
+      { id: 'res-2', description: 'John Smith', ResourceSeq: 2, role: 'Technician', skills: [] },
+    ],
+    assignments: [
+      { id: 'a-1', resourceId: 'res-1', teamId: 'team-1', start: day(1), end: day(15) },
+      { id: 'a-2', resourceId: 'res-2', teamId: 'team-1', start: day(1), end: day(15) },
+    ],
+    leaderPeriods: [
+      { id: 'l-1', resourceId: 'res-1', teamId: 'team-1', start: day(1), end: day(15) },
+    ],
+    ...overrides,
+  };
+}
+
+describe('validateSchedule', () => {
+  describe('input', () => {
+    it('should reject an assignment whose start is not before its end', () => {
+      const violations = validateSchedule(makeState(), {
+        kind: 'createAssignment',
+        input: { resourceId: 'res-2', teamId: 'team-2', start: day(20), end: day(18) },
+      });
+
+      expect(violations).toHaveLength(1);
+      expect(violations[0]).toMatchObject({ ruleId: 'invalid-input', severity: 'error' });
+    });
+
+    it('should reject a partial update that reverses the period', () => {
+      const violations = validateSchedule(makeState(), {
+        kind: 'updateAssignment',
+        input: { id: 'a-2', start: day(16) },
+      });
+
+      expect(violations[0]).toMatchObject({ ruleId: 'invalid-input', entities: expect.objectContaining({ assignmentIds: ['a-2'] }) });
+    });
+
+    it('should report an unknown assignment', () => {
+      const violations = validateSchedule(makeState(), {
+        kind: 'updateAssignment',
+        input: { id: 'missing', start: day(2), end: day(3) },
+      });
+
+      expect(violations[0]).toMatchObject({ ruleId: 'not-found', severity: 'error' });
+    });
+  });
+
+  describe('cross-team overlap', () => {
+    it('should reject a membership that overlaps one in another team', () => {
+      const violations = validateSchedule(makeState(), {
+        kind: 'createAssignment',
+        input: { resourceId: 'res-2', teamId: 'team-2', start: day(10), end: day(20) },
+      });
+
+      expect(violations).toHaveLength(1);
+      expect(violations[0]).toMatchObject({
+        ruleId: 'cross-team-overlap',
+        severity: 'error',
+        message: 'John Smith is already working in CREW1 during this period',
+        entities: {
+          assignmentIds: [NEW_ASSIGNMENT_ID, 'a-2'],
+          leaderPeriodIds: [],
+          teamIds: ['team-2', 'team-1'],
+          resourceIds: ['res-2'],
+        },
+      });
+    });
+
+    it('should check resizes, which the dialog used to skip', () => {
+      const state = makeState({
+        assignments: [
+          ...makeState().assignments,
+          { id: 'a-3', resourceId: 'res-2', teamId: 'team-2', start: day(20), end: day(25) },
+        ],
+      });
+
+      const violations = validateSchedule(state, { kind: 'updateAssignment', input: { id: 'a-3', start: day(14) } });
+
+      expect(violations.map((v) => v.ruleId)).toEqual(['cross-team-overlap']);
+    });
+
+    it('should allow back-to-back memberships in different teams', () => {
+      const violations = validateSchedule(makeState(), {
+        kind: 'createAssignment',
+        input: { resourceId: 'res-2', teamId: 'team-2', start: day(15), end: day(20) },
+      });
+
+      expect(hasErrors(violations)).toBe(false);
+    });
+  });
+
+  describe('leaders', () => {
+    it('should reject a second leader at the same time', () => {
+      const violations = validateSchedule(makeState(), {
+        kind: 'createLeaderPeriod',
+        input: { resourceId: 'res-2', teamId: 'team-1', start: day(5), end: day(10) },
+      });
+
+      expect(violations).toEqual([
+        expect.objectContaining({
+          ruleId: 'leader-overlap',
+          message: 'Jane Doe is already Team Leader during this period',
+          entities: expect.objectContaining({ leaderPeriodIds: [NEW_LEADER_PERIOD_ID, 'l-1'] }),
+        }),
+      ]);
+    });
+
+    it('should reject a leader who is not a member for the whole period', () => {
+      const violations = validateSchedule(makeState(), {
+        kind: 'updateLeaderPeriod',
+        input: { id: 'l-1', end: day(20) },
+      });
+
+      expect(violations.map((v) => v.ruleId)).toEqual(['leader-outside-membership']);
+    });
+
+    it('should check the leader period created with a membership', () => {
+      const violations = validateSchedule(makeState(), {
+        kind: 'createAssignment',
+        input: { resourceId: 'res-2', teamId: 'team-1', start: day(15), end: day(20), isTeamLeader: true },
+      });
+
+      expect(hasErrors(violations)).toBe(false);
+
+      const conflicting = validateSchedule(makeState(), {
+        kind: 'createAssignment',
+        input: { resourceId: 'res-2', teamId: 'team-1', start: day(10), end: day(20), isTeamLeader: true },
+      });
+      expect(conflicting.map((v) => v.ruleId)).toContain('leader-overlap');
+    });
+
+    it('should reject moving a leader out of the membership that covers the leader period', () => {
+      const violations = validateSchedule(makeState(), {
+        kind: 'updateAssignment',
+        input: { id: 'a-1', teamId: 'team-2' },
+      });
+
+      expect(violations).toEqual([
+        expect.objectContaining({ ruleId: 'leader-outside-membership', severity: 'error' }),
+      ]);
+      expect(violations[0].message).toContain('Jane Doe is Team Leader of CREW1');
+    });
+
+    it('should remove the leader periods of a deleted membership instead of reporting them', () => {
+      const violations = validateSchedule(makeState(), { kind: 'deleteAssignment', id: 'a-1' });
+
+      expect(hasErrors(violations)).toBe(false);
+      expect(violations).toEqual([
+        expect.objectContaining({ ruleId: 'leader-gap', severity: 'warning', entities: expect.objectContaining({ teamIds: ['team-1'] }) }),
+      ]);
+    });
+
+    it('should warn about a leader gap opened by the change only', () => {
+      const violations = validateSchedule(makeState(), {
+        kind: 'updateLeaderPeriod',
+        input: { id: 'l-1', end: day(10) },
+      });
+
+      expect(violations).toEqual([
+        expect.objectContaining({ ruleId: 'leader-gap', severity: 'warning' }),
+      ]);
+
+      // A gap the team already has is not reported again
+      const state = makeState({
+        leaderPeriods: [{ id: 'l-1', resourceId: 'res-1', teamId: 'team-1', start: day(1), end: day(10) }],
+      });
+      expect(validateSchedule(state, { kind: 'updateLeaderPeriod', input: { id: 'l-1', start: day(2) } }))
+        .toEqual([expect.objectContaining({ ruleId: 'leader-gap' })]);
+      expect(validateSchedule(state, { kind: 'deleteAssignment', id: 'a-2' })).toEqual([]);
+    });
+  });
+
+  describe('read-only teams', () => {
+    const state = makeState({
+      teams: [
+        { id: 'team-1', name: 'CREW1', color: '#3b82f6', createdAt: day(1), loadError: 'Leaders could not be loaded: 500' },
+        makeState().teams[1],
+      ],
+      leaderPeriods: [],
+    });
+
+    it('should reject any change to a team that could not be loaded completely', () => {
+      const changes = [
+        { kind: 'createAssignment', input: { resourceId: 'res-2', teamId: 'team-1', start: day(20), end: day(25) } },
+        { kind: 'updateAssignment', input: { id: 'a-1', end: day(10) } },
+        { kind: 'deleteAssignment', id: 'a-2' },
+        { kind: 'createLeaderPeriod', input: { resourceId: 'res-1', teamId: 'team-1', start: day(1), end: day(15) } },
+      ] as const;
+
+      for (const change of changes) {
+        expect(validateSchedule(state, change)).toEqual([expect.objectContaining({
+          ruleId: 'team-read-only',
+          severity: 'error',
+          message: 'CREW1 is read-only because it could not be loaded completely from IFS Cloud: Leaders could not be loaded: 500',
+        })]);
+      }
+      // Moving a membership out of the team changes it as well
+      expect(validateSchedule(state, { kind: 'updateAssignment', input: { id: 'a-2', teamId: 'team-2' } })[0].ruleId).toBe('team-read-only');
+    });
+
+    it('should not report leader gaps of its incomplete rows as problems', () => {
+      expect(findScheduleProblems(state)).toEqual([]);
+    });
+  });
+});
+
+describe('findScheduleProblems', () => {
+  it('should report nothing for a consistent schedule', () => {
+    expect(findScheduleProblems(makeState())).toEqual([]);
+  });
+
+  it('should list problems across all teams and dates, sorted by period', () => {
+    const state = makeState({
+      assignments: [
+        ...makeState().assignments,
+        // Far outside any view range, in a team without a leader
+        { id: 'a-3', resourceId: 'res-1', teamId: 'team-2', start: new Date(Date.UTC(2026, 5, 1)).toISOString(), end: new Date(Date.UTC(2026, 5, 10)).toISOString() },
+        // John Smith in both teams
+        { id: 'a-4', resourceId: 'res-2', teamId: 'team-2', start: day(10), end: day(20) },
+      ],
+      leaderPeriods: [
+        ...makeState().leaderPeriods,
+        { id: 'l-2', resourceId: 'res-2', teamId: 'team-1', start: day(5), end: day(8) },
+      ],
+    });
+
+    const problems = findScheduleProblems(state);
+
+    expect(problems.map((p) => p.ruleId)).toEqual([
+      'leader-overlap',
+      'leader-gap',
+      'cross-team-overlap',
+    ]);
+    expect(problems[0]).toMatchObject({
+      severity: 'error',
+      entities: expect.objectContaining({ leaderPeriodIds: ['l-1', 'l-2'], teamIds: ['team-1'] }),
+      period: { start: day(5), end: day(8) },
+    });
+    // The gap covers the whole time CREW2 has members, not just the weeks on screen
+    expect(problems[1]).toMatchObject({
+      entities: expect.objectContaining({ teamIds: ['team-2'] }),
+      period: { start: day(10), end: new Date(Date.UTC(2026, 5, 10)).toISOString() },
+    });
+    expect(problems[2]).toMatchObject({
+      message: 'John Smith is in CREW1 and CREW2 at the same time',
+      entities: expect.objectContaining({ assignmentIds: ['a-2', 'a-4'] }),
+      period: { start: day(10), end: day(15) },
+    });
+  });
+
+  it('should report memberships of resources that are not loaded', () => {
+    const problems = findScheduleProblems(makeState({ resources: [makeState().resources[1]] }));
+
+    expect(problems).toEqual([
+      expect.objectContaining({ ruleId: 'orphaned-resource', severity: 'warning', entities: expect.objectContaining({ assignmentIds: ['a-1'] }) }),
+      expect.objectContaining({ ruleId: 'orphaned-resource', entities: expect.objectContaining({ leaderPeriodIds: ['l-1'] }) }),
+    ]);
+  });
+});
+
+describe('ScheduleValidationError', () => {
+  it('should use the first error as its message', () => {
+    const violations = validateSchedule(makeState(), {
+      kind: 'createLeaderPeriod',
+      input: { resourceId: 'res-2', teamId: 'team-1', start: day(5), end: day(10) },
+    });
+    const error = new ScheduleValidationError(violations);
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('ScheduleValidationError');
+    expect(error.message).toBe('Jane Doe is already Team Leader during this period');
+    expect(error.violations).toBe(violations);
+  });
+});
@@ -0,0 +1,47 @@
+import { getCustomRange, getDayCount, getFitZoomIndex, getPresetRange, shiftViewRange } from '../viewRange';
+
+// Local dates, as the board lays out days in local time
+const day = (month: number, d: number, year = 2026) => new Date(year, month - 1, d);
+const endOf = (month: number, d: number, year = 2026) => new Date(year, month - 1, d, 23, 59, 59, 999);
+
+describe('view range presets', () => {
+  it('should give the two weeks, calendar month or quarter containing the anchor', () => {
+    const anchor = day(2, 18); // Wednesday 18 February
+
+    expect(getPresetRange('2weeks', anchor)).toEqual({ start: day(2, 16), end: endOf(3, 1) });
+    expect(getPresetRange('month', anchor)).toEqual({ start: day(2, 1), end: endOf(2, 28) });
+    expect(getPresetRange('quarter', anchor)).toEqual({ start: day(1, 1), end: endOf(3, 31) });
+  });
+
+  it('should move presets by their own length, across the year boundary', () => {
+    const month = getPresetRange('month', day(1, 31));
+
+    expect(shiftViewRange(month, 'month', 'next')).toEqual({ start: day(2, 1), end: endOf(2, 28) });
+    expect(shiftViewRange(month, 'month', 'prev')).toEqual({ start: day(12, 1, 2025), end: endOf(12, 31, 2025) });
+    expect(shiftViewRange(getPresetRange('quarter', day(11, 5)), 'quarter', 'next')).toEqual({
+      start: day(1, 1, 2027),
+      end: endOf(3, 31, 2027),
+    });
+    expect(shiftViewRange(getPresetRange('2weeks', day(2, 18)), '2weeks', 'prev')).toEqual({
+      start: day(2, 2),
+      end: endOf(2, 15),
+    });
+  });
+
+  it('should cover whole days of a custom range picked in either order, and move it by its length', () => {
+    const range = getCustomRange(day(3, 20), day(3, 11));
+
+    expect(range).toEqual({ start: day(3, 11), end: endOf(3, 20) });
+    expect(getDayCount(range)).toBe(10);
+    expect(shiftViewRange(range, 'custom', 'next')).toEqual({ start: day(3, 21), end: endOf(3, 30) });
+  });
+
+  it('should pick the widest zoom level at which the range fits', () => {
+    const levels = [8, 12, 16, 24, 32, 48];
+    const quarter = getPresetRange('quarter', day(1, 1)); // 90 days
+
+    expect(getFitZoomIndex(levels, quarter, 1200)).toBe(1); // 90 × 12 = 1080
+    expect(getFitZoomIndex(levels, getPresetRange('2weeks', day(1, 1)), 1200)).toBe(5);
+    expect(getFitZoomIndex(levels, quarter, 300)).toBe(0);
+  });
+});
@@ -0,0 +1,139 @@
+import {
+  CalendarFileError,
+  DEFAULT_WORKING_CALENDAR,
+  countWorkingDays,
+  getNonWorkingDay,
+  parseCalendarFile,
+  parseCalendarIcs,
+  parseCalendarJson,
+  type WorkingCalendar,
+} from '../workingCalendar';
+import { findTeamLeaderGaps } from '../teamLeaderValidation';
+import type { Assignment, LeaderPeriod } from '../types';
+
+// Local dates, as the board lays out days in local time. 1 January 2026 is a Thursday.
+const day = (d: number) => new Date(2026, 0, d);
+
+const calendar: WorkingCalendar = {
+  ...DEFAULT_WORKING_CALENDAR,
+  holidays: [
+    { date: '2026-01-01', name: "New Year's Day" },
+    { date: '2026-01-06', name: 'Epiphany', regions: ['SE', 'DE-BY'] },
+  ],
+  shutdowns: [{ start: '2026-01-19', end: '2026-01-23', name: 'Stocktaking' }],
+  region: 'SE',
+};
+
+describe('working calendar', () => {
+  it('should tell weekends, holidays of the region and shutdowns apart', () => {
+    expect(getNonWorkingDay(calendar, day(1))).toEqual({ kind: 'holiday', name: "New Year's Day" });
+    expect(getNonWorkingDay(calendar, day(3))).toEqual({ kind: 'weekend', name: 'Saturday' });
+    expect(getNonWorkingDay(calendar, day(6))).toEqual({ kind: 'holiday', name: 'Epiphany' });
+    expect(getNonWorkingDay(calendar, day(21))).toEqual({ kind: 'shutdown', name: 'Stocktaking' });
+    expect(getNonWorkingDay(calendar, day(7))).toBeNull();
+
+    // Tagged holidays apply in their regions and the subdivisions of a tagged country
+    expect(getNonWorkingDay({ ...calendar, region: 'DE-BY' }, day(6))).not.toBeNull();
+    expect(getNonWorkingDay({ ...calendar, region: 'DE' }, day(6))).toBeNull();
+    expect(getNonWorkingDay({ ...calendar, region: null }, day(6))).toBeNull();
+  });
+
+  it('should count the working days a period touches, its end excluded', () => {
+    // Thursday 1 to Monday 12 January: 11 days, without two weekends and two holidays
+    expect(countWorkingDays(calendar, { start: day(1), end: day(12) })).toEqual({ calendarDays: 11, workingDays: 5 });
+    // A period ending during a day still counts that day
+    expect(countWorkingDays(calendar, { start: day(7), end: new Date(2026, 0, 8, 12) })).toEqual({
+      calendarDays: 2,
+      workingDays: 2,
+    });
+  });
+
+  it('should read a JSON calendar and pick the first region of tagged holidays', () => {
+    const parsed = parseCalendarJson(
+      JSON.stringify({
+        workingDays: ['Monday', 'tue', 'wed', 'thu'],
+        holidays: [{ date: '2026-01-06', name: 'Epiphany', regions: ['SE'] }],
+        shutdowns: [{ start: '2026-07-06', end: '2026-07-31', name: 'Summer' }],
+      }),
+      'nordic'
+    );
+
+    expect(parsed).toEqual({
+      name: 'nordic',
+      workingWeekdays: [1, 2, 3, 4],
+      holidays: [{ date: '2026-01-06', name: 'Epiphany', regions: ['SE'] }],
+      shutdowns: [{ start: '2026-07-06', end: '2026-07-31', name: 'Summer' }],
+      region: 'SE',
+    });
+  });
+
+  it('should report where a JSON calendar is wrong', () => {
+    expect(() => parseCalendarJson('{', 'x')).toThrow(CalendarFileError);
+    expect(() => parseCalendarJson('{"holidays":[{"date":"06/01/2026","name":"Epiphany"}]}', 'x')).toThrow(
+      'holidays.0.date: Expected a date as yyyy-MM-dd'
+    );
+    expect(() => parseCalendarJson('{"workingDays":["funday"]}', 'x')).toThrow('workingDays: Unknown weekday');
+  });
+
+  it('should read one-day iCalendar events as holidays and longer ones as shutdowns', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'X-WR-CALNAME:Company days',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20261225',
+      'DTEND;VALUE=DATE:20261226',
+      'SUMMARY:Christmas Day',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20261228',
+      'DTEND;VALUE=DATE:20270102',
+      'SUMMARY:Year-end shutdown\\, all ',
+      ' sites',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART:20261231T080000',
+      'SUMMARY:Inventory',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n');
+
+    expect(parseCalendarIcs(ics, 'file')).toEqual({
+      ...DEFAULT_WORKING_CALENDAR,
+      name: 'Company days',
+      holidays: [
+        { date: '2026-12-25', name: 'Christmas Day' },
+        { date: '2026-12-31', name: 'Inventory' },
+      ],
+      shutdowns: [{ start: '2026-12-28', end: '2027-01-01', name: 'Year-end shutdown, all sites' }],
+    });
+  });
+
+  it('should pick the parser by file extension', () => {
+    expect(parseCalendarFile('days.json', '{}').name).toBe('days');
+    expect(() => parseCalendarFile('days.csv', '')).toThrow('Pick a .json or .ics calendar file');
+    expect(() => parseCalendarFile('days.ics', 'not a calendar')).toThrow('The file is not an iCalendar file');
+  });
+});
+
+describe('findTeamLeaderGaps with a working calendar', () => {
+  const assignments: Assignment[] = [
+    { id: 'a-1', resourceId: 'res-1', teamId: 'team-1', start: day(5).toISOString(), end: day(28).toISOString() },
+  ];
+  const leaderPeriods: LeaderPeriod[] = [
+    // Leader on Monday 5 – Friday 9, and from Monday 12; the weekend between has no leader
+    { id: 'l-1', resourceId: 'res-1', teamId: 'team-1', start: day(5).toISOString(), end: day(10).toISOString() },
+    { id: 'l-2', resourceId: 'res-1', teamId: 'team-1', start: day(12).toISOString(), end: day(19).toISOString() },
+  ];
+  const range = { start: day(1), end: day(31) };
+
+  it('should ignore gaps that fall only on non-working days', () => {
+    expect(findTeamLeaderGaps('team-1', assignments, leaderPeriods, range)).toHaveLength(2);
+    // The weekend gap goes; the gap from the 19th runs past the shutdown and the weekend after it
+    expect(findTeamLeaderGaps('team-1', assignments, leaderPeriods, range, { calendar })).toEqual([
+      { start: day(19), end: day(28) },
+    ]);
+    expect(
+      findTeamLeaderGaps('team-1', assignments, leaderPeriods, { start: day(1), end: day(26) }, { calendar })
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,55 @@
+import { addDays, eachDayOfInterval } from 'date-fns';
+import { rangesOverlap } from './overlap';
+import { toLocalDay } from './dateOnly';
+import type { Assignment, TimeRange } from './types';
+
+// 'available': free for the whole range, 'booked': in a crew every day of it
+export type AvailabilityStatus = 'available' | 'partial' | 'booked';
+
+export interface ResourceAvailability {
+  busyDays: boolean[]; // One entry per day of the range, true when the resource is in a crew that day
+  freeDays: number;
+  status: AvailabilityStatus;
+}
+
+/**
+ * Work out, per resource, on which days of a range it is already in a crew.
+ * A day counts as busy when any membership overlaps it, however briefly.
+ * Every resource in resourceIds gets an entry, also those without memberships.
+ */
+export function getAvailabilityByResource(
+  resourceIds: string[],
+  assignments: Assignment[],
+  range: TimeRange
+): Map<string, ResourceAvailability> {
+  const days = range.start < range.end ? eachDayOfInterval({ start: range.start, end: range.end }) : [];
+
+  const assignmentsByResource = new Map<string, Assignment[]>();
+  for (const assignment of assignments) {
+    const list = assignmentsByResource.get(assignment.resourceId) ?? [];
+    list.push(assignment);
+    assignmentsByResource.set(assignment.resourceId, list);
+  }
+
+  const availability = new Map<string, ResourceAvailability>();
+  for (const resourceId of resourceIds) {
+    const periods = (assignmentsByResource.get(resourceId) ?? []).map((a) => ({
+      start: toLocalDay(a.start),
+      end: toLocalDay(a.end),
+    }));
+
+    const busyDays = days.map((day) => {
+      const dayEnd = addDays(day, 1);
+      return periods.some((period) => rangesOverlap(day, dayEnd, period.start, period.end));
+    });
+    const freeDays = busyDays.filter((busy) => !busy).length;
+
+    availability.set(resourceId, {
+      busyDays,
+      freeDays,
+      status: freeDays === busyDays.length ? 'available' : freeDays === 0 ? 'booked' : 'partial',
+    });
+  }
+
+  return availability;
+}
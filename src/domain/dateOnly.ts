@@ -0,0 +1,121 @@
+import { format } from 'date-fns';
+
+// Date-only handling for assignment and leader periods.
+//
+// Periods are whole days. Their start and end are stored as midnight UTC of the day
+// (yyyy-MM-ddT00:00:00.000Z) and the board lays them out on local calendar days, so a bar
+// sits on the same days whatever time zone the browser is in. Timestamps written by
+// IFS are read as dates in the site's time zone, see fromIFSDateTime in ifs-config.
+
+// A calendar date as yyyy-MM-dd
+export type DateOnly = string;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_ONLY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+function parseParts(date: DateOnly): [number, number, number] {
+  const match = DATE_ONLY_PATTERN.exec(date);
+  if (!match) throw new RangeError(`Not a date (yyyy-MM-dd): ${date}`);
+  return [Number(match[1]), Number(match[2]), Number(match[3])];
+}
+
+function utcTime(date: DateOnly): number {
+  const [year, month, day] = parseParts(date);
+  return Date.UTC(year, month - 1, day);
+}
+
+// Calendar date and wall clock time of an instant in a time zone
+function zonedParts(time: number, timeZone: string): { date: DateOnly; time: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(time));
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? '00';
+  const date = `${part('year')}-${part('month')}-${part('day')}`;
+  return {
+    date,
+    time: utcTime(date) + ((Number(part('hour')) * 60 + Number(part('minute'))) * 60 + Number(part('second'))) * 1000,
+  };
+}
+
+export function isDateOnly(value: string): boolean {
+  return DATE_ONLY_PATTERN.test(value);
+}
+
+/**
+ * The calendar date of a timestamp in a time zone (UTC by default, which is how periods are stored).
+ * A value that already is a yyyy-MM-dd date is returned as is.
+ */
+export function toDateOnly(value: string | Date, timeZone = 'UTC'): DateOnly {
+  if (typeof value === 'string' && isDateOnly(value)) return value;
+  const time = new Date(value).getTime();
+  if (Number.isNaN(time)) throw new RangeError(`Not a valid date: ${String(value)}`);
+  return timeZone === 'UTC' ? new Date(time).toISOString().slice(0, 10) : zonedParts(time, timeZone).date;
+}
+
+/**
+ * The timestamp of midnight at the start of a date in a time zone. With the default
+ * UTC this is the stored form of a period date.
+ */
+export function fromDateOnly(date: DateOnly, timeZone = 'UTC'): string {
+  const midnight = utcTime(date);
+  if (timeZone === 'UTC') return new Date(midnight).toISOString();
+
+  // Correct by the zone's offset, then once more when that lands across a DST change
+  let time = midnight - (zonedParts(midnight, timeZone).time - midnight);
+  time -= zonedParts(time, timeZone).time - midnight;
+  return new Date(time).toISOString();
+}
+
+/**
+ * A timestamp in the stored form: midnight UTC of its date in the given time zone
+ */
+export function normalizeDateTime(value: string, timeZone = 'UTC'): string {
+  return fromDateOnly(toDateOnly(value, timeZone));
+}
+
+export function addDaysToDate(date: DateOnly, days: number): DateOnly {
+  return new Date(utcTime(date) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Whole days from one date to another, negative when `to` comes first. Independent of DST.
+ */
+export function daysBetween(from: DateOnly, to: DateOnly): number {
+  return Math.round((utcTime(to) - utcTime(from)) / DAY_MS);
+}
+
+/**
+ * Local midnight of a date, the form the board's day columns use
+ */
+export function toLocalDate(date: DateOnly): Date {
+  const [year, month, day] = parseParts(date);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * The local calendar date of a Date, e.g. a day column or a date picked in the browser
+ */
+export function fromLocalDate(date: Date): DateOnly {
+  return format(date, 'yyyy-MM-dd');
+}
+
+/**
+ * Local midnight of the day a stored period timestamp falls on
+ */
+export function toLocalDay(value: string): Date {
+  return toLocalDate(toDateOnly(value));
+}
+
+/**
+ * The stored form of a local day, e.g. the start of a leader gap
+ */
+export function fromLocalDay(date: Date): string {
+  return fromDateOnly(fromLocalDate(date));
+}
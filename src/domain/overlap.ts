@@ -1,4 +1,5 @@
 import type { Assignment } from './types';
+import { toDateOnly } from './dateOnly';
 
 /**
  * Check if two time ranges overlap
@@ -12,13 +13,24 @@ export function rangesOverlap(
   return aStart < bEnd && bStart < aEnd;
 }
 
+/**
+ * Check if two stored periods share a day. Compares dates rather than instants,
+ * so a period ending at 23:59 does not overlap one starting the next day.
+ */
+export function periodsOverlap(
+  a: { start: string; end: string },
+  b: { start: string; end: string }
+): boolean {
+  return toDateOnly(a.start) < toDateOnly(b.end) && toDateOnly(b.start) < toDateOnly(a.end);
+}
+
 /**
  * Find overlapping assignments for a resource
  */
 export function findOverlappingAssignments(
   resourceId: string,
-  start: Date,
-  end: Date,
+  start: string,
+  end: string,
   existingAssignments: Assignment[],
   excludeAssignmentId?: string
 ): Assignment[] {
@@ -26,10 +38,7 @@ export function findOverlappingAssignments(
     if (assignment.resourceId !== resourceId) return false;
     if (excludeAssignmentId && assignment.id === excludeAssignmentId) return false;
     
-    const assignmentStart = new Date(assignment.start);
-    const assignmentEnd = new Date(assignment.end);
-    
-    return rangesOverlap(start, end, assignmentStart, assignmentEnd);
+    return periodsOverlap({ start, end }, assignment);
   });
 }
 
@@ -38,8 +47,8 @@ export function findOverlappingAssignments(
  */
 export function canCreateAssignment(
   resourceId: string,
-  start: Date,
-  end: Date,
+  start: string,
+  end: string,
   existingAssignments: Assignment[],
   allowOverlap = false
 ): { valid: boolean; conflicts: Assignment[] } {
@@ -66,8 +75,8 @@ export function canCreateAssignment(
 export function findCrossTeamOverlaps(
   resourceId: string,
   teamId: string,
-  start: Date,
-  end: Date,
+  start: string,
+  end: string,
   existingAssignments: Assignment[],
   excludeAssignmentId?: string
 ): Assignment[] {
@@ -76,9 +85,6 @@ export function findCrossTeamOverlaps(
     if (assignment.teamId === teamId) return false; // Same team is OK
     if (excludeAssignmentId && assignment.id === excludeAssignmentId) return false;
     
-    const assignmentStart = new Date(assignment.start);
-    const assignmentEnd = new Date(assignment.end);
-    
-    return rangesOverlap(start, end, assignmentStart, assignmentEnd);
+    return periodsOverlap({ start, end }, assignment);
   });
 }
@@ -0,0 +1,92 @@
+import { rangesOverlap } from './overlap';
+import { toLocalDay } from './dateOnly';
+import type { Assignment, TimeRange } from './types';
+
+export interface ResourceTimeline {
+  resourceId: string;
+  assignments: Assignment[]; // Memberships overlapping the range, in every team, by start date
+  gaps: TimeRange[];         // Parts of the range in which the resource is in no crew
+  overlaps: TimeRange[];     // Parts of the range in which the resource is in two or more crews at once
+}
+
+/**
+ * Lay out the memberships of each resource over a range, for the per-technician board.
+ * Gaps and overlaps are clipped to the range; touching periods leave no gap.
+ * Every resource in resourceIds gets a timeline, also those without memberships.
+ */
+export function getResourceTimelines(
+  resourceIds: string[],
+  assignments: Assignment[],
+  range: TimeRange
+): Map<string, ResourceTimeline> {
+  const assignmentsByResource = new Map<string, Assignment[]>();
+  for (const assignment of assignments) {
+    if (!rangesOverlap(toLocalDay(assignment.start), toLocalDay(assignment.end), range.start, range.end)) continue;
+    const list = assignmentsByResource.get(assignment.resourceId) ?? [];
+    list.push(assignment);
+    assignmentsByResource.set(assignment.resourceId, list);
+  }
+
+  const timelines = new Map<string, ResourceTimeline>();
+  for (const resourceId of resourceIds) {
+    const resourceAssignments = (assignmentsByResource.get(resourceId) ?? []).sort(
+      (a, b) => new Date(a.start).getTime() - new Date(b.start).getTime()
+    );
+    const periods = resourceAssignments.map((a) => ({
+      start: maxDate(toLocalDay(a.start), range.start),
+      end: minDate(toLocalDay(a.end), range.end),
+    }));
+
+    timelines.set(resourceId, {
+      resourceId,
+      assignments: resourceAssignments,
+      gaps: findGaps(periods, range),
+      overlaps: findOverlaps(periods),
+    });
+  }
+
+  return timelines;
+}
+
+// Periods must be sorted by start
+function findGaps(periods: TimeRange[], range: TimeRange): TimeRange[] {
+  const gaps: TimeRange[] = [];
+  let coveredUntil = range.start;
+  for (const period of periods) {
+    if (period.start > coveredUntil) {
+      gaps.push({ start: coveredUntil, end: period.start });
+    }
+    coveredUntil = maxDate(coveredUntil, period.end);
+  }
+  if (coveredUntil < range.end) {
+    gaps.push({ start: coveredUntil, end: range.end });
+  }
+  return gaps;
+}
+
+// Periods must be sorted by start; overlapping overlaps are merged
+function findOverlaps(periods: TimeRange[]): TimeRange[] {
+  const overlaps: TimeRange[] = [];
+  let furthestEnd: Date | null = null;
+  for (const period of periods) {
+    if (furthestEnd && period.start < furthestEnd) {
+      const overlap = { start: period.start, end: minDate(period.end, furthestEnd) };
+      const last = overlaps[overlaps.length - 1];
+      if (last && overlap.start <= last.end) {
+        last.end = maxDate(last.end, overlap.end);
+      } else {
+        overlaps.push(overlap);
+      }
+    }
+    furthestEnd = furthestEnd ? maxDate(furthestEnd, period.end) : period.end;
+  }
+  return overlaps;
+}
+
+function maxDate(a: Date, b: Date): Date {
+  return a > b ? a : b;
+}
+
+function minDate(a: Date, b: Date): Date {
+  return a < b ? a : b;
+}
@@ -0,0 +1,529 @@
+import type {
+  Assignment,
+  CreateAssignmentInput,
+  CreateLeaderPeriodInput,
+  LeaderPeriod,
+  Resource,
+  Team,
+  UpdateAssignmentInput,
+  UpdateLeaderPeriodInput,
+} from './types';
+import { findCrossTeamOverlaps, periodsOverlap } from './overlap';
+import { fromLocalDay, normalizeDateTime, toDateOnly, toLocalDay } from './dateOnly';
+import {
+  findLeaderPeriodsOutsideMembership,
+  findOverlappingLeaderPeriods,
+  findTeamLeaderGaps,
+  formatGapPeriod,
+  isLeaderPeriodWithinMembership,
+} from './teamLeaderValidation';
+import {
+  createAssignmentSchema,
+  createLeaderPeriodSchema,
+  updateAssignmentSchema,
+  updateLeaderPeriodSchema,
+} from './validation';
+import type { WorkingCalendar } from './workingCalendar';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ScheduleRuleId =
+  | 'invalid-input'             // Input fails its schema, or start is not before end
+  | 'not-found'                 // The changed assignment or leader period does not exist
+  | 'cross-team-overlap'        // A resource belongs to two teams at the same time
+  | 'leader-overlap'            // A team has two leaders at the same time
+  | 'leader-outside-membership' // A leader is not a member of the team for the whole leader period
+  | 'leader-gap'                // A team has members but no leader for a while
+  | 'team-read-only'            // The team could not be loaded completely from IFS Cloud, so it cannot be changed
+  | 'orphaned-resource';        // A membership or leader period refers to a resource that is not loaded
+
+// Errors block the change, warnings are allowed but must be fixed before pushing to IFS Cloud
+export type ViolationSeverity = 'error' | 'warning';
+
+export interface ScheduleViolation {
+  ruleId: ScheduleRuleId;
+  severity: ViolationSeverity;
+  message: string;
+  // Entities involved; new entities use NEW_ASSIGNMENT_ID / NEW_LEADER_PERIOD_ID
+  entities: {
+    assignmentIds: string[];
+    leaderPeriodIds: string[];
+    teamIds: string[];
+    resourceIds: string[];
+  };
+  period?: { start: string; end: string }; // When the problem occurs, if it is tied to one
+}
+
+export interface ScheduleState {
+  teams: Team[];
+  assignments: Assignment[];
+  leaderPeriods: LeaderPeriod[];
+  resources: Resource[]; // Only used for names in messages
+  calendar?: WorkingCalendar | null; // When set, leader gaps on non-working days only are not reported
+}
+
+export type ScheduleChange =
+  | { kind: 'createAssignment'; input: CreateAssignmentInput }
+  | { kind: 'updateAssignment'; input: UpdateAssignmentInput }
+  | { kind: 'deleteAssignment'; id: string }
+  | { kind: 'createLeaderPeriod'; input: CreateLeaderPeriodInput }
+  | { kind: 'updateLeaderPeriod'; input: UpdateLeaderPeriodInput }
+  | { kind: 'deleteLeaderPeriod'; id: string };
+
+export const NEW_ASSIGNMENT_ID = 'new-assignment';
+export const NEW_LEADER_PERIOD_ID = 'new-leader-period';
+
+/**
+ * Thrown by mutations when a change has error violations
+ * The message is the first error, so it can be shown as is
+ */
+export class ScheduleValidationError extends Error {
+  constructor(public readonly violations: ScheduleViolation[]) {
+    super(violations.find((v) => v.severity === 'error')?.message || 'Invalid schedule change');
+    this.name = 'ScheduleValidationError';
+  }
+}
+
+// ============================================================================
+// Applying a change
+// ============================================================================
+
+// The schedule after a change, plus the entities it touched (before and after)
+interface AppliedChange {
+  assignments: Assignment[];
+  leaderPeriods: LeaderPeriod[];
+  assignment?: Assignment;
+  previousAssignment?: Assignment;
+  leaderPeriod?: LeaderPeriod;
+  previousLeaderPeriod?: LeaderPeriod;
+}
+
+function applyChange(state: ScheduleState, change: ScheduleChange): AppliedChange | null {
+  const { assignments, leaderPeriods } = state;
+
+  switch (change.kind) {
+    case 'createAssignment': {
+      const { isTeamLeader, ...input } = change.input;
+      const assignment: Assignment = { ...input, id: NEW_ASSIGNMENT_ID };
+      // With isTeamLeader a leader period for the same dates is created as well
+      const leaderPeriod: LeaderPeriod | undefined = isTeamLeader
+        ? { id: NEW_LEADER_PERIOD_ID, resourceId: input.resourceId, teamId: input.teamId, start: input.start, end: input.end }
+        : undefined;
+      return {
+        assignments: [...assignments, assignment],
+        leaderPeriods: leaderPeriod ? [...leaderPeriods, leaderPeriod] : leaderPeriods,
+        assignment,
+        leaderPeriod,
+      };
+    }
+    case 'updateAssignment': {
+      const previousAssignment = assignments.find((a) => a.id === change.input.id);
+      if (!previousAssignment) return null;
+      const assignment: Assignment = { ...previousAssignment, ...change.input };
+      return {
+        assignments: assignments.map((a) => (a.id === assignment.id ? assignment : a)),
+        leaderPeriods,
+        assignment,
+        previousAssignment,
+      };
+    }
+    case 'deleteAssignment': {
+      const previousAssignment = assignments.find((a) => a.id === change.id);
+      return {
+        assignments: assignments.filter((a) => a.id !== change.id),
+        // A resource can only lead while being a member: its leader periods within the membership go with it
+        leaderPeriods: previousAssignment
+          ? leaderPeriods.filter((l) => !(
+            l.teamId === previousAssignment.teamId &&
+            l.resourceId === previousAssignment.resourceId &&
+            periodsOverlap(l, previousAssignment)
+          ))
+          : leaderPeriods,
+        previousAssignment,
+      };
+    }
+    case 'createLeaderPeriod': {
+      const leaderPeriod: LeaderPeriod = { ...change.input, id: NEW_LEADER_PERIOD_ID };
+      return { assignments, leaderPeriods: [...leaderPeriods, leaderPeriod], leaderPeriod };
+    }
+    case 'updateLeaderPeriod': {
+      const previousLeaderPeriod = leaderPeriods.find((l) => l.id === change.input.id);
+      if (!previousLeaderPeriod) return null;
+      const leaderPeriod: LeaderPeriod = { ...previousLeaderPeriod, ...change.input };
+      return {
+        assignments,
+        leaderPeriods: leaderPeriods.map((l) => (l.id === leaderPeriod.id ? leaderPeriod : l)),
+        leaderPeriod,
+        previousLeaderPeriod,
+      };
+    }
+    case 'deleteLeaderPeriod': {
+      const previousLeaderPeriod = leaderPeriods.find((l) => l.id === change.id);
+      return {
+        assignments,
+        leaderPeriods: leaderPeriods.filter((l) => l.id !== change.id),
+        previousLeaderPeriod,
+      };
+    }
+  }
+}
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+function violation(
+  ruleId: ScheduleRuleId,
+  severity: ViolationSeverity,
+  message: string,
+  entities: Partial<ScheduleViolation['entities']> = {},
+  period?: { start: Date | string; end: Date | string }
+): ScheduleViolation {
+  return {
+    ruleId,
+    severity,
+    message,
+    entities: {
+      assignmentIds: entities.assignmentIds ?? [],
+      leaderPeriodIds: entities.leaderPeriodIds ?? [],
+      teamIds: entities.teamIds ?? [],
+      resourceIds: entities.resourceIds ?? [],
+    },
+    ...(period && { period: { start: toStoredDate(period.start), end: toStoredDate(period.end) } }),
+  };
+}
+
+// Periods are reported in the stored form, whether they come from data or from local days such as gaps
+function toStoredDate(value: Date | string): string {
+  return typeof value === 'string' ? normalizeDateTime(value) : fromLocalDay(value);
+}
+
+// The part two periods have in common
+function intersection(a: { start: string; end: string }, b: { start: string; end: string }) {
+  return {
+    start: new Date(Math.max(toLocalDay(a.start).getTime(), toLocalDay(b.start).getTime())),
+    end: new Date(Math.min(toLocalDay(a.end).getTime(), toLocalDay(b.end).getTime())),
+  };
+}
+
+function checkInput(change: ScheduleChange): ScheduleViolation | null {
+  const result = (() => {
+    switch (change.kind) {
+      case 'createAssignment': return createAssignmentSchema.safeParse(change.input);
+      case 'updateAssignment': return updateAssignmentSchema.safeParse(change.input);
+      case 'createLeaderPeriod': return createLeaderPeriodSchema.safeParse(change.input);
+      case 'updateLeaderPeriod': return updateLeaderPeriodSchema.safeParse(change.input);
+      default: return null;
+    }
+  })();
+  if (!result || result.success) return null;
+  return violation('invalid-input', 'error', result.error.issues[0]?.message || 'Invalid input');
+}
+
+// A partial update can still leave the period reversed (e.g. moving only the start past the end)
+function checkPeriod(item: { id: string; start: string; end: string }, isLeader: boolean): ScheduleViolation | null {
+  if (toDateOnly(item.start) < toDateOnly(item.end)) return null;
+  return violation('invalid-input', 'error', 'Start date must be before end date', isLeader
+    ? { leaderPeriodIds: [item.id] }
+    : { assignmentIds: [item.id] });
+}
+
+function checkCrossTeamOverlap(state: ScheduleState, applied: AppliedChange, assignment: Assignment): ScheduleViolation | null {
+  const overlaps = findCrossTeamOverlaps(
+    assignment.resourceId,
+    assignment.teamId,
+    assignment.start,
+    assignment.end,
+    applied.assignments,
+    assignment.id
+  );
+  if (overlaps.length === 0) return null;
+
+  const otherTeamIds = Array.from(new Set(overlaps.map((o) => o.teamId)));
+  const teamNames = otherTeamIds.map((id) => teamName(state, id));
+  return violation(
+    'cross-team-overlap',
+    'error',
+    `${resourceName(state, assignment.resourceId)} is already working in ${teamNames.join(', ')} during this period`,
+    {
+      assignmentIds: [assignment.id, ...overlaps.map((o) => o.id)],
+      teamIds: [assignment.teamId, ...otherTeamIds],
+      resourceIds: [assignment.resourceId],
+    },
+    assignment
+  );
+}
+
+function checkLeaderOverlap(state: ScheduleState, applied: AppliedChange, leaderPeriod: LeaderPeriod): ScheduleViolation | null {
+  const [conflict] = findOverlappingLeaderPeriods(
+    leaderPeriod.teamId,
+    toLocalDay(leaderPeriod.start),
+    toLocalDay(leaderPeriod.end),
+    applied.leaderPeriods,
+    leaderPeriod.id
+  );
+  if (!conflict) return null;
+  return violation(
+    'leader-overlap',
+    'error',
+    `${resourceName(state, conflict.resourceId)} is already Team Leader during this period`,
+    {
+      leaderPeriodIds: [leaderPeriod.id, conflict.id],
+      teamIds: [leaderPeriod.teamId],
+      resourceIds: Array.from(new Set([leaderPeriod.resourceId, conflict.resourceId])),
+    },
+    intersection(leaderPeriod, conflict)
+  );
+}
+
+function checkLeaderWithinMembership(state: ScheduleState, applied: AppliedChange, leaderPeriod: LeaderPeriod): ScheduleViolation | null {
+  if (isLeaderPeriodWithinMembership(
+    leaderPeriod.resourceId,
+    leaderPeriod.teamId,
+    toLocalDay(leaderPeriod.start),
+    toLocalDay(leaderPeriod.end),
+    applied.assignments
+  )) {
+    return null;
+  }
+  return violation(
+    'leader-outside-membership',
+    'error',
+    `${resourceName(state, leaderPeriod.resourceId)} is not a member of the team for the whole leader period`,
+    { leaderPeriodIds: [leaderPeriod.id], teamIds: [leaderPeriod.teamId], resourceIds: [leaderPeriod.resourceId] },
+    leaderPeriod
+  );
+}
+
+// Changing a membership must not leave a leader period of the resource uncovered that was covered before
+function checkLeadersKeepMembership(state: ScheduleState, applied: AppliedChange, previous: Assignment): ScheduleViolation[] {
+  return applied.leaderPeriods
+    .filter((l) => {
+      if (l.resourceId !== previous.resourceId || l.teamId !== previous.teamId) return false;
+      const start = toLocalDay(l.start);
+      const end = toLocalDay(l.end);
+      return (
+        isLeaderPeriodWithinMembership(l.resourceId, l.teamId, start, end, state.assignments) &&
+        !isLeaderPeriodWithinMembership(l.resourceId, l.teamId, start, end, applied.assignments)
+      );
+    })
+    .map((l) => violation(
+      'leader-outside-membership',
+      'error',
+      `${resourceName(state, l.resourceId)} is Team Leader of ${teamName(state, l.teamId)} from ${formatGapPeriod({ start: toLocalDay(l.start), end: toLocalDay(l.end) })}. Move or remove that leader period first.`,
+      { assignmentIds: [previous.id], leaderPeriodIds: [l.id], teamIds: [l.teamId], resourceIds: [l.resourceId] },
+      l
+    ));
+}
+
+// Leader gaps the change opens within the periods it touched; gaps that already existed are not reported
+function checkNewLeaderGaps(state: ScheduleState, applied: AppliedChange): ScheduleViolation[] {
+  const touched = [applied.assignment, applied.previousAssignment, applied.leaderPeriod, applied.previousLeaderPeriod]
+    .filter((item): item is Assignment | LeaderPeriod => item !== undefined);
+
+  const violations: ScheduleViolation[] = [];
+  for (const teamId of Array.from(new Set(touched.map((item) => item.teamId)))) {
+    const periods = touched.filter((item) => item.teamId === teamId);
+    const range = {
+      start: new Date(Math.min(...periods.map((p) => toLocalDay(p.start).getTime()))),
+      end: new Date(Math.max(...periods.map((p) => toLocalDay(p.end).getTime()))),
+    };
+    const gapKey = (gap: { start: Date; end: Date }) => `${gap.start.getTime()}-${gap.end.getTime()}`;
+    const existingGaps = new Set(
+      findTeamLeaderGaps(teamId, state.assignments, state.leaderPeriods, range, { calendar: state.calendar }).map(gapKey)
+    );
+    findTeamLeaderGaps(teamId, applied.assignments, applied.leaderPeriods, range, { calendar: state.calendar })
+      .filter((gap) => !existingGaps.has(gapKey(gap)))
+      .forEach((gap) => violations.push(violation(
+        'leader-gap',
+        'warning',
+        `${teamName(state, teamId)} has no Team Leader from ${formatGapPeriod(gap)}`,
+        { teamIds: [teamId] },
+        gap
+      )));
+  }
+  return violations;
+}
+
+// A team with rows missing from the load would be checked, and pushed, against an incomplete picture
+function checkTeamsWritable(state: ScheduleState, applied: AppliedChange): ScheduleViolation | null {
+  const teamIds = [applied.assignment, applied.previousAssignment, applied.leaderPeriod, applied.previousLeaderPeriod]
+    .flatMap((item) => (item ? [item.teamId] : []));
+  const team = state.teams.find((t) => teamIds.includes(t.id) && t.loadError);
+  if (!team) return null;
+  return violation(
+    'team-read-only',
+    'error',
+    `${team.name} is read-only because it could not be loaded completely from IFS Cloud: ${team.loadError}`,
+    { teamIds: [team.id] }
+  );
+}
+
+function resourceName(state: ScheduleState, resourceId: string): string {
+  return state.resources.find((r) => r.id === resourceId)?.description || resourceId;
+}
+
+function teamName(state: ScheduleState, teamId: string): string {
+  return state.teams.find((t) => t.id === teamId)?.name || teamId;
+}
+
+// ============================================================================
+// Entry points
+// ============================================================================
+
+/**
+ * Validate a change against the current schedule
+ * Every mutation path (dialogs, resize, move, delete, import) goes through here,
+ * so the same rules apply everywhere. Returns an empty array when the change is fine.
+ */
+export function validateSchedule(state: ScheduleState, change: ScheduleChange): ScheduleViolation[] {
+  const inputViolation = checkInput(change);
+  if (inputViolation) return [inputViolation];
+
+  const applied = applyChange(state, change);
+  if (!applied) {
+    const id = change.kind === 'updateAssignment' || change.kind === 'updateLeaderPeriod' ? change.input.id : '';
+    return [violation(
+      'not-found',
+      'error',
+      change.kind === 'updateAssignment' ? `Assignment not found: ${id}` : `Leader period not found: ${id}`,
+      change.kind === 'updateAssignment' ? { assignmentIds: [id] } : { leaderPeriodIds: [id] }
+    )];
+  }
+
+  const readOnly = checkTeamsWritable(state, applied);
+  if (readOnly) return [readOnly];
+
+  const violations: ScheduleViolation[] = [];
+  const push = (v: ScheduleViolation | null) => {
+    if (v) violations.push(v);
+  };
+
+  if (applied.assignment) {
+    push(checkPeriod(applied.assignment, false));
+    push(checkCrossTeamOverlap(state, applied, applied.assignment));
+  }
+  if (applied.previousAssignment && applied.assignment) {
+    violations.push(...checkLeadersKeepMembership(state, applied, applied.previousAssignment));
+  }
+  if (applied.leaderPeriod) {
+    push(checkPeriod(applied.leaderPeriod, true));
+    push(checkLeaderOverlap(state, applied, applied.leaderPeriod));
+    push(checkLeaderWithinMembership(state, applied, applied.leaderPeriod));
+  }
+
+  // Gaps are only meaningful for a valid result
+  if (!hasErrors(violations)) {
+    violations.push(...checkNewLeaderGaps(state, applied));
+  }
+  return violations;
+}
+
+/**
+ * Whether any violation blocks the change
+ */
+export function hasErrors(violations: ScheduleViolation[]): boolean {
+  return violations.some((v) => v.severity === 'error');
+}
+
+/**
+ * List every rule violation in the whole schedule, not just a change or the weeks on screen
+ * Sorted by when the problem occurs; problems without a period come last
+ */
+export function findScheduleProblems(state: ScheduleState): ScheduleViolation[] {
+  const problems: ScheduleViolation[] = [];
+  // Leaders missing from the load of a read-only team would show up as gaps
+  const completeTeams = state.teams.filter((team) => !team.loadError);
+
+  // Leader gaps over the whole time each team has members
+  for (const team of completeTeams) {
+    const memberships = state.assignments.filter((a) => a.teamId === team.id);
+    if (memberships.length === 0) continue;
+    const range = {
+      start: new Date(Math.min(...memberships.map((a) => toLocalDay(a.start).getTime()))),
+      end: new Date(Math.max(...memberships.map((a) => toLocalDay(a.end).getTime()))),
+    };
+    findTeamLeaderGaps(team.id, state.assignments, state.leaderPeriods, range, { calendar: state.calendar }).forEach((gap) =>
+      problems.push(violation(
+        'leader-gap',
+        'warning',
+        `${team.name} has no Team Leader from ${formatGapPeriod(gap)}`,
+        { teamIds: [team.id] },
+        gap
+      ))
+    );
+  }
+
+  // Two leaders of the same team at the same time (each pair once)
+  state.leaderPeriods.forEach((leader, index) => {
+    state.leaderPeriods.slice(index + 1)
+      .filter((other) => other.teamId === leader.teamId &&
+        periodsOverlap(leader, other))
+      .forEach((other) => problems.push(violation(
+        'leader-overlap',
+        'error',
+        `${resourceName(state, leader.resourceId)} and ${resourceName(state, other.resourceId)} both lead ${teamName(state, leader.teamId)}`,
+        {
+          leaderPeriodIds: [leader.id, other.id],
+          teamIds: [leader.teamId],
+          resourceIds: Array.from(new Set([leader.resourceId, other.resourceId])),
+        },
+        intersection(leader, other)
+      )));
+  });
+
+  // Leaders that are not members for their whole leader period
+  for (const team of completeTeams) {
+    findLeaderPeriodsOutsideMembership(team.id, state.assignments, state.leaderPeriods).forEach((leader) =>
+      problems.push(violation(
+        'leader-outside-membership',
+        'error',
+        `${resourceName(state, leader.resourceId)} leads ${team.name} without being a member for the whole period`,
+        { leaderPeriodIds: [leader.id], teamIds: [team.id], resourceIds: [leader.resourceId] },
+        leader
+      ))
+    );
+  }
+
+  // One resource in two teams at the same time (each pair once)
+  state.assignments.forEach((assignment, index) => {
+    state.assignments.slice(index + 1)
+      .filter((other) => other.resourceId === assignment.resourceId && other.teamId !== assignment.teamId &&
+        periodsOverlap(assignment, other))
+      .forEach((other) => problems.push(violation(
+        'cross-team-overlap',
+        'error',
+        `${resourceName(state, assignment.resourceId)} is in ${teamName(state, assignment.teamId)} and ${teamName(state, other.teamId)} at the same time`,
+        {
+          assignmentIds: [assignment.id, other.id],
+          teamIds: [assignment.teamId, other.teamId],
+          resourceIds: [assignment.resourceId],
+        },
+        intersection(assignment, other)
+      )));
+  });
+
+  // Memberships and leader periods of resources that are not loaded (e.g. no longer in the resource group)
+  const resourceIds = new Set(state.resources.map((r) => r.id));
+  [...state.assignments, ...state.leaderPeriods]
+    .filter((item) => !resourceIds.has(item.resourceId))
+    .forEach((item) => {
+      const isLeader = state.leaderPeriods.includes(item as LeaderPeriod);
+      problems.push(violation(
+        'orphaned-resource',
+        'warning',
+        `Unknown resource ${item.resourceId} ${isLeader ? 'leads' : 'is a member of'} ${teamName(state, item.teamId)}`,
+        {
+          assignmentIds: isLeader ? [] : [item.id],
+          leaderPeriodIds: isLeader ? [item.id] : [],
+          teamIds: [item.teamId],
+          resourceIds: [item.resourceId],
+        },
+        item
+      ));
+    });
+
+  return problems.sort((a, b) => (a.period?.start ?? '\uffff').localeCompare(b.period?.start ?? '\uffff'));
+}
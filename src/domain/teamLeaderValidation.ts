@@ -1,22 +1,41 @@
-import type { Assignment, TimeRange } from './types';
+import type { Assignment, LeaderPeriod, TimeRange } from './types';
+import { hasWorkingDay, type WorkingCalendar } from './workingCalendar';
+import { toLocalDay } from './dateOnly';
 
 export interface LeaderGap {
   start: Date;
   end: Date;
 }
 
+export interface LeaderGapOptions {
+  calendar?: WorkingCalendar | null; // When set, gaps that fall only on non-working days are ignored
+}
+
 /**
  * Find periods within the view range where a team has no team leader assigned
  */
 export function findTeamLeaderGaps(
   teamId: string,
   assignments: Assignment[],
+  leaderPeriods: LeaderPeriod[],
+  viewRange: TimeRange,
+  options: LeaderGapOptions = {}
+): LeaderGap[] {
+  const gaps = findAllTeamLeaderGaps(teamId, assignments, leaderPeriods, viewRange);
+  const { calendar } = options;
+  return calendar ? gaps.filter((gap) => hasWorkingDay(calendar, gap)) : gaps;
+}
+
+function findAllTeamLeaderGaps(
+  teamId: string,
+  assignments: Assignment[],
+  leaderPeriods: LeaderPeriod[],
   viewRange: TimeRange
 ): LeaderGap[] {
-  // Get all team leader assignments for this team, sorted by start date
-  const leaderAssignments = assignments
-    .filter((a) => a.teamId === teamId && a.isTeamLeader)
-    .map((a) => ({ start: new Date(a.start), end: new Date(a.end) }))
+  // Get all leader periods for this team, sorted by start date
+  const leaderAssignments = leaderPeriods
+    .filter((l) => l.teamId === teamId)
+    .map((l) => ({ start: toLocalDay(l.start), end: toLocalDay(l.end) }))
     .sort((a, b) => a.start.getTime() - b.start.getTime());
 
   const gaps: LeaderGap[] = [];
@@ -26,8 +45,8 @@ export function findTeamLeaderGaps(
   // Check if there are any team members at all in this period
   const anyTeamMembers = assignments.some((a) => {
     if (a.teamId !== teamId) return false;
-    const aStart = new Date(a.start);
-    const aEnd = new Date(a.end);
+    const aStart = toLocalDay(a.start);
+    const aEnd = toLocalDay(a.end);
     return aStart < viewEnd && aEnd > viewStart;
   });
 
@@ -41,7 +60,7 @@ export function findTeamLeaderGaps(
     // Find the actual coverage period of team members
     const memberAssignments = assignments
       .filter((a) => a.teamId === teamId)
-      .map((a) => ({ start: new Date(a.start), end: new Date(a.end) }));
+      .map((a) => ({ start: toLocalDay(a.start), end: toLocalDay(a.end) }));
     
     if (memberAssignments.length > 0) {
       const earliestStart = memberAssignments.reduce(
@@ -82,7 +101,7 @@ export function findTeamLeaderGaps(
   // Find gaps where team members exist but no leader
   const memberAssignments = assignments
     .filter((a) => a.teamId === teamId)
-    .map((a) => ({ start: new Date(a.start), end: new Date(a.end) }));
+    .map((a) => ({ start: toLocalDay(a.start), end: toLocalDay(a.end) }));
 
   // Get the overall team coverage period (when any member is assigned)
   const teamCoverageStart = memberAssignments.reduce(
@@ -136,6 +155,71 @@ export function findTeamLeaderGaps(
   return gaps;
 }
 
+/**
+ * Find leader periods of a team that overlap with the given period
+ * (a team can only have one leader at a time)
+ */
+export function findOverlappingLeaderPeriods(
+  teamId: string,
+  start: Date,
+  end: Date,
+  leaderPeriods: LeaderPeriod[],
+  excludeLeaderPeriodId?: string
+): LeaderPeriod[] {
+  return leaderPeriods.filter((leader) => {
+    if (leader.teamId !== teamId) return false;
+    if (excludeLeaderPeriodId && leader.id === excludeLeaderPeriodId) return false;
+    return toLocalDay(leader.start) < end && start < toLocalDay(leader.end);
+  });
+}
+
+/**
+ * Check that a resource is a member of the team for the whole leader period.
+ * Adjacent or overlapping memberships of the same resource count as one.
+ */
+export function isLeaderPeriodWithinMembership(
+  resourceId: string,
+  teamId: string,
+  start: Date,
+  end: Date,
+  assignments: Assignment[]
+): boolean {
+  const memberships = assignments
+    .filter((a) => a.resourceId === resourceId && a.teamId === teamId)
+    .map((a) => ({ start: toLocalDay(a.start), end: toLocalDay(a.end) }))
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  // Walk the memberships and extend the covered range until the leader period is covered
+  let coveredUntil = start;
+  for (const membership of memberships) {
+    if (membership.start > coveredUntil) break;
+    if (membership.end > coveredUntil) coveredUntil = membership.end;
+    if (coveredUntil >= end) return true;
+  }
+  return false;
+}
+
+/**
+ * Find leader periods of a team where the leader is not a member for the whole period
+ */
+export function findLeaderPeriodsOutsideMembership(
+  teamId: string,
+  assignments: Assignment[],
+  leaderPeriods: LeaderPeriod[]
+): LeaderPeriod[] {
+  return leaderPeriods.filter(
+    (leader) =>
+      leader.teamId === teamId &&
+      !isLeaderPeriodWithinMembership(
+        leader.resourceId,
+        teamId,
+        toLocalDay(leader.start),
+        toLocalDay(leader.end),
+        assignments
+      )
+  );
+}
+
 /**
  * Format a gap period for display
  */
@@ -15,6 +15,9 @@ export interface Team {
   description?: string;
   color: string;
   createdAt: string; // ISO string
+  ResourceSeq?: number; // Crew sequence number in IFS Cloud (undefined until created there)
+  etag?: string; // @odata.etag of the crew row, sent as If-Match when deleting it
+  loadError?: string; // Set when its memberships or leaders could not be loaded from IFS Cloud; the team is then read-only
 }
 
 export interface Assignment {
@@ -24,7 +27,20 @@ export interface Assignment {
   start: string; // ISO string UTC
   end: string;   // ISO string UTC
   role?: string;
-  isTeamLeader: boolean;
+  ResourceMemberSeq?: number; // Membership row key in IFS Cloud (undefined until created there)
+  etag?: string; // OData ETag of the membership row, sent as If-Match on writes
+}
+
+// Period in which a resource leads a team (IFS ResourceCrewLeadersArray row)
+// Independent of memberships: one membership can contain several leader periods
+export interface LeaderPeriod {
+  id: string;
+  resourceId: string;
+  teamId: string;
+  start: string; // ISO string UTC
+  end: string;   // ISO string UTC
+  ResourceCrewLeaderSeq?: number; // Leader row key in IFS Cloud (undefined until created there)
+  etag?: string; // OData ETag of the leader row, sent as If-Match on writes
 }
 
 // Team composition returned by getTeam(teamId)
@@ -61,7 +77,7 @@ export interface CreateAssignmentInput {
   start: string;
   end: string;
   role?: string;
-  isTeamLeader?: boolean;
+  isTeamLeader?: boolean; // Also create a leader period for the same dates
 }
 
 export interface UpdateAssignmentInput {
@@ -69,7 +85,19 @@ export interface UpdateAssignmentInput {
   start?: string;
   end?: string;
   teamId?: string;
-  isTeamLeader?: boolean;
+}
+
+export interface CreateLeaderPeriodInput {
+  resourceId: string;
+  teamId: string;
+  start: string;
+  end: string;
+}
+
+export interface UpdateLeaderPeriodInput {
+  id: string;
+  start?: string;
+  end?: string;
 }
 
 // Time range for the scheduler view
@@ -88,6 +116,6 @@ export interface DragContext {
 // Validation error for team leader conflicts
 export interface TeamLeaderValidation {
   hasLeader: boolean;
-  conflictingAssignment?: Assignment;
+  conflictingLeaderPeriod?: LeaderPeriod;
   gapPeriods?: { start: Date; end: Date }[];
 }
@@ -1,4 +1,7 @@
 import { z } from 'zod';
+import { toDateOnly } from './dateOnly';
+
+// Periods are whole days: the end must fall on a later date than the start
 
 export const createAssignmentSchema = z.object({
   resourceId: z.string().min(1, 'Resource is required'),
@@ -6,8 +9,9 @@ export const createAssignmentSchema = z.object({
   start: z.string().datetime({ message: 'Invalid start date' }),
   end: z.string().datetime({ message: 'Invalid end date' }),
   role: z.string().optional(),
+  isTeamLeader: z.boolean().optional(),
 }).refine(
-  (data) => new Date(data.start) < new Date(data.end),
+  (data) => toDateOnly(data.start) < toDateOnly(data.end),
   { message: 'Start date must be before end date', path: ['end'] }
 );
 
@@ -19,12 +23,54 @@ export const updateAssignmentSchema = z.object({
 }).refine(
   (data) => {
     if (data.start && data.end) {
-      return new Date(data.start) < new Date(data.end);
+      return toDateOnly(data.start) < toDateOnly(data.end);
+    }
+    return true;
+  },
+  { message: 'Start date must be before end date', path: ['end'] }
+);
+
+export const createLeaderPeriodSchema = z.object({
+  resourceId: z.string().min(1, 'Team Leader is required'),
+  teamId: z.string().min(1, 'Team is required'),
+  start: z.string().datetime({ message: 'Invalid start date' }),
+  end: z.string().datetime({ message: 'Invalid end date' }),
+}).refine(
+  (data) => toDateOnly(data.start) < toDateOnly(data.end),
+  { message: 'Start date must be before end date', path: ['end'] }
+);
+
+export const updateLeaderPeriodSchema = z.object({
+  id: z.string().min(1),
+  start: z.string().datetime().optional(),
+  end: z.string().datetime().optional(),
+}).refine(
+  (data) => {
+    if (data.start && data.end) {
+      return toDateOnly(data.start) < toDateOnly(data.end);
     }
     return true;
   },
   { message: 'Start date must be before end date', path: ['end'] }
 );
 
+// IFS Cloud naming rules for crews (ResourceSet): the crew ID becomes the team name
+export const CREW_ID_MAX_LENGTH = 20;
+export const CREW_DESCRIPTION_MAX_LENGTH = 200;
+
+export const createTeamSchema = z.object({
+  name: z.string()
+    .min(1, 'Crew ID is required')
+    .max(CREW_ID_MAX_LENGTH, `Crew ID can be at most ${CREW_ID_MAX_LENGTH} characters`)
+    .regex(/^[A-Z0-9_-]+$/, 'Crew ID can only contain upper case letters, digits, "-" and "_"'),
+  description: z.string()
+    .min(1, 'Description is required')
+    .max(CREW_DESCRIPTION_MAX_LENGTH, `Description can be at most ${CREW_DESCRIPTION_MAX_LENGTH} characters`),
+  color: z.string().min(1),
+});
+
 export type CreateAssignmentInput = z.infer<typeof createAssignmentSchema>;
 export type UpdateAssignmentInput = z.infer<typeof updateAssignmentSchema>;
+export type CreateLeaderPeriodInput = z.infer<typeof createLeaderPeriodSchema>;
+export type UpdateLeaderPeriodInput = z.infer<typeof updateLeaderPeriodSchema>;
+export type CreateTeamInput = z.infer<typeof createTeamSchema>;
@@ -0,0 +1,89 @@
+import {
+  addDays,
+  addMonths,
+  addQuarters,
+  addWeeks,
+  differenceInCalendarDays,
+  endOfDay,
+  endOfMonth,
+  endOfQuarter,
+  endOfWeek,
+  startOfDay,
+  startOfMonth,
+  startOfQuarter,
+  startOfWeek,
+} from 'date-fns';
+import type { TimeRange } from './types';
+
+// Length of the board's view range. 'custom' is any range picked by date.
+export type ViewPreset = '2weeks' | 'month' | 'quarter' | 'custom';
+
+export const VIEW_PRESETS: { id: Exclude<ViewPreset, 'custom'>; label: string }[] = [
+  { id: '2weeks', label: '2 weeks' },
+  { id: 'month', label: 'Month' },
+  { id: 'quarter', label: 'Quarter' },
+];
+
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+/**
+ * The range of a preset that contains the anchor date, e.g. the calendar month for 'month'
+ */
+export function getPresetRange(preset: Exclude<ViewPreset, 'custom'>, anchor: Date): TimeRange {
+  switch (preset) {
+    case '2weeks': {
+      const start = startOfWeek(anchor, WEEK_OPTIONS);
+      return { start, end: endOfWeek(addWeeks(start, 1), WEEK_OPTIONS) };
+    }
+    case 'month':
+      return { start: startOfMonth(anchor), end: endOfMonth(anchor) };
+    case 'quarter':
+      return { start: startOfQuarter(anchor), end: endOfQuarter(anchor) };
+  }
+}
+
+/**
+ * A range from the first to the last whole day picked, in either order
+ */
+export function getCustomRange(from: Date, to: Date): TimeRange {
+  const [first, last] = from <= to ? [from, to] : [to, from];
+  return { start: startOfDay(first), end: endOfDay(last) };
+}
+
+/**
+ * The previous or next range of the same preset. A custom range moves by its own length.
+ */
+export function shiftViewRange(range: TimeRange, preset: ViewPreset, direction: 'prev' | 'next'): TimeRange {
+  const step = direction === 'next' ? 1 : -1;
+  switch (preset) {
+    case '2weeks':
+      return getPresetRange(preset, addWeeks(range.start, 2 * step));
+    case 'month':
+      return getPresetRange(preset, addMonths(range.start, step));
+    case 'quarter':
+      return getPresetRange(preset, addQuarters(range.start, step));
+    case 'custom': {
+      const days = getDayCount(range) * step;
+      return { start: addDays(range.start, days), end: addDays(range.end, days) };
+    }
+  }
+}
+
+/**
+ * Number of calendar days shown for a range, the first and last included
+ */
+export function getDayCount(range: TimeRange): number {
+  return differenceInCalendarDays(range.end, range.start) + 1;
+}
+
+/**
+ * Index of the widest zoom level at which the range fits in the available width,
+ * or the narrowest level when it does not fit at all
+ */
+export function getFitZoomIndex(zoomLevels: readonly number[], range: TimeRange, availableWidth: number): number {
+  const days = getDayCount(range);
+  for (let index = zoomLevels.length - 1; index >= 0; index--) {
+    if (zoomLevels[index] * days <= availableWidth) return index;
+  }
+  return 0;
+}
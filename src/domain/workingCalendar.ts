@@ -0,0 +1,258 @@
+import { addDays, format, getDay, isValid, parse, startOfDay } from 'date-fns';
+import { z } from 'zod';
+import type { TimeRange } from './types';
+
+// Dates in a calendar are local calendar days as 'yyyy-MM-dd', like the board's day columns
+const DATE_FORMAT = 'yyyy-MM-dd';
+
+export interface Holiday {
+  date: string;
+  name: string;
+  regions?: string[]; // Country or region codes, e.g. 'SE' or 'DE-BY'; none means everywhere
+}
+
+// Company shutdown, first and last day included
+export interface Shutdown {
+  start: string;
+  end: string;
+  name: string;
+}
+
+export interface WorkingCalendar {
+  name: string;
+  workingWeekdays: number[]; // 0 = Sunday, as date-fns getDay()
+  holidays: Holiday[];
+  shutdowns: Shutdown[];
+  region: string | null; // Holidays tagged with other regions do not apply
+}
+
+export type NonWorkingKind = 'weekend' | 'holiday' | 'shutdown';
+
+export interface NonWorkingDay {
+  kind: NonWorkingKind;
+  name: string;
+}
+
+export const DEFAULT_WORKING_CALENDAR: WorkingCalendar = {
+  name: 'Monday to Friday',
+  workingWeekdays: [1, 2, 3, 4, 5],
+  holidays: [],
+  shutdowns: [],
+  region: null,
+};
+
+/**
+ * Thrown when a calendar file cannot be read
+ */
+export class CalendarFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CalendarFileError';
+  }
+}
+
+// ============================================================================
+// Working days
+// ============================================================================
+
+/**
+ * Whether a holiday applies in the calendar's region. A country holiday ('DE')
+ * also applies in its regions ('DE-BY').
+ */
+function appliesInRegion(holiday: Holiday, region: string | null): boolean {
+  if (!holiday.regions || holiday.regions.length === 0) return true;
+  if (!region) return false;
+  return holiday.regions.some((code) => code === region || region.startsWith(`${code}-`));
+}
+
+/**
+ * Why a day is not worked, or null for a working day. Holidays and shutdowns
+ * win over the weekly pattern, so their name is shown on weekends too.
+ */
+export function getNonWorkingDay(calendar: WorkingCalendar, date: Date): NonWorkingDay | null {
+  const key = format(date, DATE_FORMAT);
+  const holiday = calendar.holidays.find((h) => h.date === key && appliesInRegion(h, calendar.region));
+  if (holiday) return { kind: 'holiday', name: holiday.name };
+  const shutdown = calendar.shutdowns.find((s) => s.start <= key && key <= s.end);
+  if (shutdown) return { kind: 'shutdown', name: shutdown.name };
+  if (!calendar.workingWeekdays.includes(getDay(date))) return { kind: 'weekend', name: format(date, 'EEEE') };
+  return null;
+}
+
+export function isWorkingDay(calendar: WorkingCalendar, date: Date): boolean {
+  return getNonWorkingDay(calendar, date) === null;
+}
+
+/**
+ * Non-working days for a list of board days, by index
+ */
+export function getNonWorkingDays(calendar: WorkingCalendar, days: Date[]): (NonWorkingDay | null)[] {
+  return days.map((day) => getNonWorkingDay(calendar, day));
+}
+
+/**
+ * Calendar days a period touches; the end is exclusive, as for assignment bars
+ */
+function eachTouchedDay(range: TimeRange): Date[] {
+  const days: Date[] = [];
+  for (let day = startOfDay(range.start); day < range.end; day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return days;
+}
+
+/**
+ * Number of calendar days and working days a period touches
+ */
+export function countWorkingDays(calendar: WorkingCalendar, range: TimeRange): { calendarDays: number; workingDays: number } {
+  const days = eachTouchedDay(range);
+  return {
+    calendarDays: days.length,
+    workingDays: days.filter((day) => isWorkingDay(calendar, day)).length,
+  };
+}
+
+/**
+ * Whether a period touches at least one working day
+ */
+export function hasWorkingDay(calendar: WorkingCalendar, range: TimeRange): boolean {
+  return eachTouchedDay(range).some((day) => isWorkingDay(calendar, day));
+}
+
+/**
+ * Country and region codes the calendar's holidays are tagged with
+ */
+export function getCalendarRegions(calendar: WorkingCalendar): string[] {
+  return Array.from(new Set(calendar.holidays.flatMap((h) => h.regions ?? []))).sort();
+}
+
+// ============================================================================
+// Calendar files
+// ============================================================================
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const dateString = z.string().refine((value) => isValid(parse(value, DATE_FORMAT, new Date())), {
+  message: 'Expected a date as yyyy-MM-dd',
+});
+
+const calendarFileSchema = z.object({
+  name: z.string().optional(),
+  region: z.string().optional(),
+  workingDays: z
+    .array(z.string().transform((day) => day.slice(0, 3).toLowerCase()))
+    .refine((days) => days.every((day) => WEEKDAYS.includes(day)), { message: 'Unknown weekday' })
+    .optional(),
+  holidays: z
+    .array(z.object({ date: dateString, name: z.string(), regions: z.array(z.string()).optional() }))
+    .default([]),
+  shutdowns: z
+    .array(z.object({ start: dateString, end: dateString, name: z.string() }))
+    .refine((shutdowns) => shutdowns.every((s) => s.start <= s.end), { message: 'Shutdown ends before it starts' })
+    .default([]),
+});
+
+/**
+ * Read a calendar from JSON:
+ * { name, region, workingDays: ['mon', ...], holidays: [{ date, name, regions }], shutdowns: [{ start, end, name }] }
+ */
+export function parseCalendarJson(text: string, fallbackName: string): WorkingCalendar {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new CalendarFileError('The file is not valid JSON');
+  }
+
+  const result = calendarFileSchema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new CalendarFileError(`${issue.path.join('.') || 'Calendar'}: ${issue.message}`);
+  }
+
+  const file = result.data;
+  const calendar: WorkingCalendar = {
+    name: file.name || fallbackName,
+    workingWeekdays: file.workingDays
+      ? file.workingDays.map((day) => WEEKDAYS.indexOf(day)).sort()
+      : DEFAULT_WORKING_CALENDAR.workingWeekdays,
+    holidays: file.holidays,
+    shutdowns: file.shutdowns,
+    region: file.region ?? null,
+  };
+  // A file with tagged holidays only would otherwise show none of them
+  return { ...calendar, region: calendar.region ?? getCalendarRegions(calendar)[0] ?? null };
+}
+
+// Date part of an iCalendar DATE or DATE-TIME value, and whether it had a time
+function parseIcsDate(value: string): { date: Date; hasTime: boolean } | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(T(\d{2})(\d{2})(\d{2}))?/.exec(value);
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  const hasTime = match[4] !== undefined && `${match[5]}${match[6]}${match[7]}` !== '000000';
+  return { date, hasTime };
+}
+
+function unescapeIcsText(value: string): string {
+  return value.replace(/\\n/gi, ' ').replace(/\\([,;\\])/g, '$1').trim();
+}
+
+/**
+ * Read a calendar from iCalendar (.ics). Every event is a non-working period:
+ * one-day events are holidays, longer ones shutdowns. The week pattern stays Monday to Friday.
+ */
+export function parseCalendarIcs(text: string, fallbackName: string): WorkingCalendar {
+  // Long lines are folded onto continuation lines starting with a space or tab
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  if (!lines.some((line) => line.trim() === 'BEGIN:VCALENDAR')) {
+    throw new CalendarFileError('The file is not an iCalendar file');
+  }
+
+  let name = fallbackName;
+  const holidays: Holiday[] = [];
+  const shutdowns: Shutdown[] = [];
+  let event: Record<string, string> | null = null;
+
+  for (const line of lines) {
+    const separator = line.indexOf(':');
+    if (separator < 0) continue;
+    const property = line.slice(0, separator).split(';')[0].toUpperCase();
+    const value = line.slice(separator + 1);
+
+    if (property === 'BEGIN' && value === 'VEVENT') {
+      event = {};
+    } else if (property === 'END' && value === 'VEVENT' && event) {
+      const start = parseIcsDate(event.DTSTART ?? '');
+      if (!start) throw new CalendarFileError(`Event "${event.SUMMARY ?? ''}" has no start date`);
+      // DTEND is exclusive, unless it carries a time within the last day
+      const end = event.DTEND ? parseIcsDate(event.DTEND) : null;
+      const last = end ? (end.hasTime ? end.date : addDays(end.date, -1)) : start.date;
+      const summary = unescapeIcsText(event.SUMMARY ?? 'Non-working day');
+
+      const first = format(start.date, DATE_FORMAT);
+      const lastKey = format(last > start.date ? last : start.date, DATE_FORMAT);
+      if (first === lastKey) {
+        holidays.push({ date: first, name: summary });
+      } else {
+        shutdowns.push({ start: first, end: lastKey, name: summary });
+      }
+      event = null;
+    } else if (event) {
+      event[property] = value;
+    } else if (property === 'X-WR-CALNAME') {
+      name = unescapeIcsText(value) || fallbackName;
+    }
+  }
+
+  return { ...DEFAULT_WORKING_CALENDAR, name, holidays, shutdowns };
+}
+
+/**
+ * Read a calendar file picked by the user, by its extension
+ */
+export function parseCalendarFile(fileName: string, text: string): WorkingCalendar {
+  const baseName = fileName.replace(/\.[^.]+$/, '');
+  if (/\.json$/i.test(fileName)) return parseCalendarJson(text, baseName);
+  if (/\.(ics|ical)$/i.test(fileName)) return parseCalendarIcs(text, baseName);
+  throw new CalendarFileError('Pick a .json or .ics calendar file');
+}
@@ -1,36 +1,82 @@
 'use client';
 
-import { useCallback, useState, useMemo } from 'react';
+import { useCallback, useEffect, useRef, useState, useMemo } from 'react';
 import {
   DndContext,
   DragEndEvent,
+  DragMoveEvent,
   DragOverlay,
   DragStartEvent,
+  Modifier,
   PointerSensor,
   useSensor,
   useSensors,
 } from '@dnd-kit/core';
-import { useSchedulerData, useCreateAssignment, useUpdateAssignment, useDeleteAssignment } from '@/lib/query/hooks';
-import { useUIStore } from '@/lib/store/ui-store';
-import { findCrossTeamOverlaps } from '@/domain/overlap';
+import { format } from 'date-fns';
+import { addDaysToDate, fromDateOnly, fromLocalDay, toDateOnly, toLocalDay } from '@/domain/dateOnly';
+import {
+  useSchedulerData,
+  useCreateAssignment,
+  useUpdateAssignment,
+  useDeleteAssignment,
+  useCreateLeaderPeriod,
+  useUpdateLeaderPeriod,
+  useDeleteLeaderPeriod,
+  useDeleteTeam,
+} from '@/lib/query/hooks';
+import { selectGapCalendar, useUIStore } from '@/lib/store/ui-store';
+import {
+  findScheduleProblems,
+  validateSchedule,
+  type ScheduleChange,
+  type ScheduleViolation,
+} from '@/domain/scheduleValidation';
 
 const { markAsChanged } = useUIStore.getState();
-import { ResourcePanel, SchedulerBoard, AssignmentDialog, NewTeamFab } from './components';
-import type { Resource, Team, Assignment } from '@/domain/types';
+import {
+  ResourcePanel,
+  SchedulerBoard,
+  ResourceBoard,
+  AssignmentDialog,
+  LeaderPeriodDialog,
+  DeleteTeamDialog,
+  NewTeamFab,
+  ProblemsPanel,
+  LoadingProgress,
+  LoadError,
+} from './components';
+import type { Resource, Team, Assignment, LeaderPeriod } from '@/domain/types';
 import styles from './Scheduler.module.css';
 
 interface OverlapWarning {
   overlappingTeams: string[];
 }
 
+// Where a dragged membership bar would land
+interface MovePreview {
+  assignment: Assignment;
+  teamId: string;
+  start: string;
+  end: string;
+  error: string | null;
+}
+
 export function Scheduler() {
-  const { data, isLoading } = useSchedulerData();
+  const { data, isLoading, error: loadError, refetch } = useSchedulerData();
   const createAssignment = useCreateAssignment();
   const updateAssignment = useUpdateAssignment();
   const deleteAssignment = useDeleteAssignment();
+  const createLeaderPeriod = useCreateLeaderPeriod();
+  const updateLeaderPeriod = useUpdateLeaderPeriod();
+  const deleteLeaderPeriod = useDeleteLeaderPeriod();
+  const deleteTeam = useDeleteTeam();
   const [validationError, setValidationError] = useState<string | null>(null);
+  const [leaderValidationError, setLeaderValidationError] = useState<string | null>(null);
   const [overlapWarning, setOverlapWarning] = useState<OverlapWarning | null>(null);
   const [autoExpandTeamId, setAutoExpandTeamId] = useState<string | null>(null);
+  const [deletingTeamId, setDeletingTeamId] = useState<string | null>(null);
+  const [movePreview, setMovePreview] = useState<MovePreview | null>(null);
+  const [blockedChange, setBlockedChange] = useState<{ title: string; message: string } | null>(null);
 
   // Create a map of team IDs to team names for overlap warnings
   const teamNameMap = useMemo(() => {
@@ -42,6 +88,9 @@ export function Scheduler() {
   const {
     viewRange,
     dayWidth,
+    boardMode,
+    workingCalendar,
+    ignoreNonWorkingGaps,
     isAssignmentDialogOpen,
     dialogMode,
     pendingAssignment,
@@ -49,6 +98,13 @@ export function Scheduler() {
     openAssignmentDialog,
     openEditAssignmentDialog,
     closeAssignmentDialog,
+    isLeaderPeriodDialogOpen,
+    leaderPeriodTeamId,
+    editingLeaderPeriod,
+    openLeaderPeriodDialog,
+    openEditLeaderPeriodDialog,
+    closeLeaderPeriodDialog,
+    focusOn,
   } = useUIStore();
 
   const sensors = useSensors(
@@ -59,15 +115,192 @@ export function Scheduler() {
     })
   );
 
+  // ==========================================================================
+  // Schedule Rules
+  // ==========================================================================
+
+  // The API checks changes against the same calendar
+  const gapCalendar = selectGapCalendar({ workingCalendar, ignoreNonWorkingGaps });
+
+  // The API runs the same rules; checking up front lets the UI explain a rejected change
+  const checkChange = useCallback(
+    (change: ScheduleChange): ScheduleViolation[] =>
+      data
+        ? validateSchedule(
+          {
+            teams: data.teams,
+            assignments: data.assignments,
+            leaderPeriods: data.leaderPeriods,
+            resources: data.resources,
+            calendar: gapCalendar,
+          },
+          change
+        )
+        : [],
+    [data, gapCalendar]
+  );
+
+  // Report the first error of a change; returns false when the change must not be applied
+  const allowChange = useCallback(
+    (violations: ScheduleViolation[], showError: (message: string) => void): boolean => {
+      const overlap = violations.find((v) => v.ruleId === 'cross-team-overlap');
+      if (overlap) {
+        // The first team is the one the resource is being assigned to
+        setOverlapWarning({
+          overlappingTeams: overlap.entities.teamIds.slice(1).map((id) => teamNameMap.get(id) || 'Unknown Team'),
+        });
+        return false;
+      }
+      const error = violations.find((v) => v.severity === 'error');
+      if (error) {
+        showError(error.message);
+        return false;
+      }
+      return true;
+    },
+    [teamNameMap]
+  );
+
+  // Every problem in the dataset, not just the weeks on screen
+  const problems = useMemo(
+    () => (data ? findScheduleProblems({ ...data, calendar: gapCalendar }) : []),
+    [data, gapCalendar]
+  );
+
+  // Push stays blocked while the problems panel lists anything. Done here rather than on the board,
+  // so the push stays blocked whichever board mode is shown.
+  const hasAnyWarnings = problems.length > 0;
+
+  // Update store when warning state changes
+  const prevWarningsRef = useRef<boolean | null>(null);
+  useEffect(() => {
+    if (prevWarningsRef.current !== hasAnyWarnings) {
+      prevWarningsRef.current = hasAnyWarnings;
+      useUIStore.getState().setValidationWarnings(hasAnyWarnings);
+    }
+  }, [hasAnyWarnings]);
+
+  const handleProblemSelect = useCallback(
+    (problem: ScheduleViolation) => {
+      const [teamId] = problem.entities.teamIds;
+      if (!teamId) return;
+      const [assignmentId] = problem.entities.assignmentIds;
+      const [leaderPeriodId] = problem.entities.leaderPeriodIds;
+      focusOn({
+        teamId,
+        date: problem.period?.start ?? fromLocalDay(new Date()),
+        bar: assignmentId
+          ? { kind: 'assignment', id: assignmentId }
+          : leaderPeriodId
+            ? { kind: 'leaderPeriod', id: leaderPeriodId }
+            : null,
+      });
+    },
+    [focusOn]
+  );
+
+  const blockChange = useCallback(
+    (title: string) => (message: string) => setBlockedChange({ title, message }),
+    []
+  );
+
+  // The API refuses changes too (while a saved draft awaits a decision, or by its own rule check);
+  // those are reported like the ones refused up front
+  const reportRefusal = useCallback(
+    (title: string) => ({
+      onSuccess: () => markAsChanged(),
+      onError: (error: Error) => blockChange(title)(error.message),
+    }),
+    [blockChange]
+  );
+
+  // ==========================================================================
+  // Moving Assignments
+  // ==========================================================================
+
+  // Moved bars snap to whole days
+  const snapToDays: Modifier = useCallback(
+    ({ transform, active }) =>
+      active?.data.current?.type === 'assignment'
+        ? { ...transform, x: Math.round(transform.x / dayWidth) * dayWidth }
+        : transform,
+    [dayWidth]
+  );
+
+  const getMovePreview = useCallback(
+    (event: DragMoveEvent | DragEndEvent): MovePreview | null => {
+      const { active, over, delta } = event;
+      const assignment = data?.assignments.find((a) => a.id === active.data.current?.assignmentId);
+      if (!assignment) return null;
+
+      // Dropped outside any team: the bar keeps its team
+      const teamId = over?.data.current?.type === 'team' ? (over.data.current.team as Team).id : assignment.teamId;
+      const daysDelta = Math.round(delta.x / dayWidth);
+      const start = fromDateOnly(addDaysToDate(toDateOnly(assignment.start), daysDelta));
+      const end = fromDateOnly(addDaysToDate(toDateOnly(assignment.end), daysDelta));
+
+      const violations = checkChange({ kind: 'updateAssignment', input: { id: assignment.id, teamId, start, end } });
+      const error = violations.find((v) => v.severity === 'error')?.message ?? null;
+
+      return { assignment, teamId, start, end, error };
+    },
+    [data?.assignments, dayWidth, checkChange]
+  );
+
   const handleDragStart = useCallback((event: DragStartEvent) => {
     const { active } = event;
     console.debug('Drag started:', active.id);
-  }, []);
+
+    if (active.data.current?.type === 'assignment') {
+      const assignment = data?.assignments.find((a) => a.id === active.data.current?.assignmentId);
+      if (assignment) {
+        setMovePreview({ assignment, teamId: assignment.teamId, start: assignment.start, end: assignment.end, error: null });
+      }
+    }
+  }, [data?.assignments]);
+
+  const handleDragMove = useCallback(
+    (event: DragMoveEvent) => {
+      if (event.active.data.current?.type !== 'assignment') return;
+      const next = getMovePreview(event);
+      // Only re-render when the bar lands on another day or team
+      setMovePreview((prev) =>
+        prev && next && prev.teamId === next.teamId && prev.start === next.start ? prev : next
+      );
+    },
+    [getMovePreview]
+  );
+
+  const handleAssignmentMove = useCallback(
+    (event: DragEndEvent) => {
+      setMovePreview(null);
+      const preview = getMovePreview(event);
+      if (!preview) return;
+
+      const { assignment, teamId, start, end } = preview;
+      if (teamId === assignment.teamId && start === assignment.start) return;
+
+      const input = { id: assignment.id, teamId, start, end };
+      if (!allowChange(checkChange({ kind: 'updateAssignment', input }), blockChange('Cannot Move'))) return;
+
+      // Keeps the assignment id, so an IFS row is moved rather than deleted and re-created locally
+      updateAssignment.mutate(input, reportRefusal('Cannot Move'));
+      if (teamId !== assignment.teamId) {
+        setAutoExpandTeamId(teamId);
+      }
+    },
+    [getMovePreview, allowChange, checkChange, blockChange, reportRefusal, updateAssignment]
+  );
 
   const handleDragEnd = useCallback(
     (event: DragEndEvent) => {
       const { active, over } = event;
 
+      if (active.data.current?.type === 'assignment') {
+        handleAssignmentMove(event);
+        return;
+      }
+
       if (!over) return;
 
       const activeData = active.data.current;
@@ -83,7 +316,7 @@ export function Scheduler() {
         openAssignmentDialog(resource.id, team.id);
       }
     },
-    [openAssignmentDialog]
+    [openAssignmentDialog, handleAssignmentMove]
   );
 
   const handleCloseDialog = useCallback(() => {
@@ -102,7 +335,6 @@ export function Scheduler() {
             id: editingAssignment.id,
             start,
             end,
-            isTeamLeader,
           });
         } else {
           // Create new assignment
@@ -137,37 +369,22 @@ export function Scheduler() {
 
       setValidationError(null);
 
-      // Check for cross-team overlaps
-      const overlaps = findCrossTeamOverlaps(
-        pendingAssignment.resourceId,
-        pendingAssignment.teamId,
-        new Date(start),
-        new Date(end),
-        data.assignments,
-        editingAssignment?.id
+      // Cross-team overlaps open the "Cannot Assign" dialog, other errors show in the form
+      const violations = checkChange(
+        dialogMode === 'edit' && editingAssignment
+          ? { kind: 'updateAssignment', input: { id: editingAssignment.id, start, end } }
+          : { kind: 'createAssignment', input: { ...pendingAssignment, start, end, role, isTeamLeader } }
       );
+      if (!allowChange(violations, setValidationError)) return;
 
-      if (overlaps.length > 0) {
-        // Get unique team names
-        const overlappingTeamNames = [...new Set(overlaps.map((o) => teamNameMap.get(o.teamId) || 'Unknown Team'))];
-        
-        // Show error - technician cannot belong to multiple teams at the same time
-        setOverlapWarning({
-          overlappingTeams: overlappingTeamNames,
-        });
-        return;
-      }
-
-      // No overlaps, proceed directly
       await executeAssignment(start, end, isTeamLeader, role);
     },
-    [pendingAssignment, data?.assignments, editingAssignment, teamNameMap, executeAssignment]
+    [pendingAssignment, data?.assignments, dialogMode, editingAssignment, checkChange, allowChange, executeAssignment]
   );
 
   const handleAssignmentResize = useCallback(
     (id: string, newStart: string, newEnd: string) => {
       console.log('[Scheduler] handleAssignmentResize called:', { id, newStart, newEnd });
-      // Find the assignment to preserve isTeamLeader
       const assignment = data?.assignments.find((a) => a.id === id);
       if (!assignment) {
         console.error('[Scheduler] Assignment not found for resize:', id);
@@ -179,17 +396,12 @@ export function Scheduler() {
         oldEnd: assignment.end,
         newStart,
         newEnd,
-        isTeamLeader: assignment.isTeamLeader,
       });
-      updateAssignment.mutate({
-        id,
-        start: newStart,
-        end: newEnd,
-        isTeamLeader: assignment.isTeamLeader,
-      });
-      markAsChanged();
+      const input = { id, start: newStart, end: newEnd };
+      if (!allowChange(checkChange({ kind: 'updateAssignment', input }), blockChange('Cannot Resize'))) return;
+      updateAssignment.mutate(input, reportRefusal('Cannot Resize'));
     },
-    [updateAssignment, data?.assignments]
+    [updateAssignment, data?.assignments, allowChange, checkChange, blockChange, reportRefusal]
   );
 
   const handleAssignmentDoubleClick = useCallback(
@@ -202,12 +414,101 @@ export function Scheduler() {
 
   const handleAssignmentDelete = useCallback(
     (assignmentId: string) => {
-      deleteAssignment.mutate(assignmentId);
-      markAsChanged();
+      if (!allowChange(checkChange({ kind: 'deleteAssignment', id: assignmentId }), blockChange('Cannot Delete'))) return;
+      deleteAssignment.mutate(assignmentId, reportRefusal('Cannot Delete'));
+    },
+    [deleteAssignment, allowChange, checkChange, blockChange, reportRefusal]
+  );
+
+  // ==========================================================================
+  // Leader Periods
+  // ==========================================================================
+
+  const handleAddLeaderPeriod = useCallback(
+    (teamId: string) => {
+      setLeaderValidationError(null);
+      openLeaderPeriodDialog(teamId);
+    },
+    [openLeaderPeriodDialog]
+  );
+
+  const handleLeaderPeriodDoubleClick = useCallback(
+    (leaderPeriod: LeaderPeriod) => {
+      setLeaderValidationError(null);
+      openEditLeaderPeriodDialog(leaderPeriod);
+    },
+    [openEditLeaderPeriodDialog]
+  );
+
+  const handleCloseLeaderDialog = useCallback(() => {
+    setLeaderValidationError(null);
+    closeLeaderPeriodDialog();
+  }, [closeLeaderPeriodDialog]);
+
+  const handleConfirmLeaderPeriod = useCallback(
+    async (resourceId: string, start: string, end: string) => {
+      if (!leaderPeriodTeamId) return;
+
+      setLeaderValidationError(null);
+      const violations = checkChange(
+        editingLeaderPeriod
+          ? { kind: 'updateLeaderPeriod', input: { id: editingLeaderPeriod.id, start, end } }
+          : { kind: 'createLeaderPeriod', input: { resourceId, teamId: leaderPeriodTeamId, start, end } }
+      );
+      if (!allowChange(violations, setLeaderValidationError)) return;
+
+      try {
+        if (editingLeaderPeriod) {
+          await updateLeaderPeriod.mutateAsync({ id: editingLeaderPeriod.id, start, end });
+        } else {
+          await createLeaderPeriod.mutateAsync({ resourceId, teamId: leaderPeriodTeamId, start, end });
+        }
+        markAsChanged();
+        closeLeaderPeriodDialog();
+      } catch (error) {
+        setLeaderValidationError(
+          error instanceof Error ? error.message : 'An error occurred while saving the leader period'
+        );
+      }
     },
-    [deleteAssignment]
+    [leaderPeriodTeamId, editingLeaderPeriod, checkChange, allowChange, createLeaderPeriod, updateLeaderPeriod, closeLeaderPeriodDialog]
   );
 
+  const handleLeaderPeriodResize = useCallback(
+    (id: string, newStart: string, newEnd: string) => {
+      const input = { id, start: newStart, end: newEnd };
+      if (!allowChange(checkChange({ kind: 'updateLeaderPeriod', input }), blockChange('Cannot Resize'))) return;
+      updateLeaderPeriod.mutate(input, reportRefusal('Cannot Resize'));
+    },
+    [updateLeaderPeriod, allowChange, checkChange, blockChange, reportRefusal]
+  );
+
+  const handleLeaderPeriodDelete = useCallback(
+    (leaderPeriodId: string) => {
+      if (!allowChange(checkChange({ kind: 'deleteLeaderPeriod', id: leaderPeriodId }), blockChange('Cannot Delete'))) return;
+      deleteLeaderPeriod.mutate(leaderPeriodId, reportRefusal('Cannot Delete'));
+    },
+    [deleteLeaderPeriod, allowChange, checkChange, blockChange, reportRefusal]
+  );
+
+  const leaderTeam = data?.teams.find((t) => t.id === leaderPeriodTeamId);
+  // Only resources with a membership in the team can lead it. The leader of an
+  // edited period stays listed even if their membership has since been removed.
+  const leaderCandidates = useMemo(() => {
+    if (!data || !leaderPeriodTeamId) return [];
+    const memberIds = new Set(
+      data.assignments.filter((a) => a.teamId === leaderPeriodTeamId).map((a) => a.resourceId)
+    );
+    if (editingLeaderPeriod) memberIds.add(editingLeaderPeriod.resourceId);
+    return data.resources.filter((r) => memberIds.has(r.id));
+  }, [data, leaderPeriodTeamId, editingLeaderPeriod]);
+
+  const handleConfirmTeamDelete = useCallback(() => {
+    if (!deletingTeamId) return;
+    deleteTeam.mutate(deletingTeamId, reportRefusal('Cannot Delete Team'));
+    setDeletingTeamId(null);
+  }, [deletingTeamId, deleteTeam, reportRefusal]);
+
   const pendingResource = data?.resources.find(
     (r) => r.id === pendingAssignment?.resourceId
   );
@@ -219,25 +520,56 @@ export function Scheduler() {
     <DndContext
       sensors={sensors}
       onDragStart={handleDragStart}
+      onDragMove={handleDragMove}
       onDragEnd={handleDragEnd}
+      onDragCancel={() => setMovePreview(null)}
     >
       <div className={styles.container}>
         <ResourcePanel
           resources={data?.resources || []}
-          isLoading={isLoading}
-        />
-
-        <SchedulerBoard
-          teams={data?.teams || []}
           assignments={data?.assignments || []}
-          resources={data?.resources || []}
           viewRange={viewRange}
-          dayWidth={dayWidth}
-          onAssignmentDoubleClick={handleAssignmentDoubleClick}
-          onAssignmentResize={handleAssignmentResize}
-          onAssignmentDelete={handleAssignmentDelete}
-          autoExpandTeamId={autoExpandTeamId}
+          isLoading={isLoading}
         />
+
+        <div className={styles.main}>
+          {isLoading ? (
+            <LoadingProgress />
+          ) : loadError ? (
+            <LoadError message={loadError.message} onRetry={() => refetch()} />
+          ) : boardMode === 'resources' ? (
+            <ResourceBoard
+              teams={data?.teams || []}
+              assignments={data?.assignments || []}
+              resources={data?.resources || []}
+              viewRange={viewRange}
+              dayWidth={dayWidth}
+              onAssignmentDoubleClick={handleAssignmentDoubleClick}
+              onAssignmentResize={handleAssignmentResize}
+              onAssignmentDelete={handleAssignmentDelete}
+            />
+          ) : (
+            <SchedulerBoard
+              teams={data?.teams || []}
+              assignments={data?.assignments || []}
+              leaderPeriods={data?.leaderPeriods || []}
+              resources={data?.resources || []}
+              viewRange={viewRange}
+              dayWidth={dayWidth}
+              onAssignmentDoubleClick={handleAssignmentDoubleClick}
+              onAssignmentResize={handleAssignmentResize}
+              onAssignmentDelete={handleAssignmentDelete}
+              onLeaderPeriodDoubleClick={handleLeaderPeriodDoubleClick}
+              onLeaderPeriodResize={handleLeaderPeriodResize}
+              onLeaderPeriodDelete={handleLeaderPeriodDelete}
+              onAddLeaderPeriod={handleAddLeaderPeriod}
+              onTeamDelete={setDeletingTeamId}
+              autoExpandTeamId={autoExpandTeamId}
+            />
+          )}
+
+          <ProblemsPanel problems={problems} onSelect={handleProblemSelect} />
+        </div>
       </div>
 
       <AssignmentDialog
@@ -249,8 +581,30 @@ export function Scheduler() {
         team={pendingTeam}
         existingAssignment={editingAssignment}
         validationError={validationError}
+        workingCalendar={workingCalendar}
+      />
+
+      <LeaderPeriodDialog
+        isOpen={isLeaderPeriodDialogOpen}
+        onClose={handleCloseLeaderDialog}
+        onConfirm={handleConfirmLeaderPeriod}
+        team={leaderTeam}
+        members={leaderCandidates}
+        existingLeaderPeriod={editingLeaderPeriod}
+        validationError={leaderValidationError}
       />
 
+      {deletingTeamId && (
+        <DeleteTeamDialog
+          team={data?.teams.find((t) => t.id === deletingTeamId)}
+          assignments={data?.assignments.filter((a) => a.teamId === deletingTeamId) || []}
+          leaderPeriods={data?.leaderPeriods.filter((l) => l.teamId === deletingTeamId) || []}
+          resources={data?.resources || []}
+          onConfirm={handleConfirmTeamDelete}
+          onClose={() => setDeletingTeamId(null)}
+        />
+      )}
+
       {/* Overlap Error Dialog */}
       {overlapWarning && (
         <div className={styles.warningOverlay} onClick={() => setOverlapWarning(null)}>
@@ -279,8 +633,44 @@ export function Scheduler() {
         </div>
       )}
 
-      <DragOverlay>
-        {/* Could render a preview of the dragged item here */}
+      {/* Rejected Change Dialog */}
+      {blockedChange && (
+        <div className={styles.warningOverlay} onClick={() => setBlockedChange(null)}>
+          <div className={styles.warningDialog} onClick={(e) => e.stopPropagation()}>
+            <div className={styles.errorIcon}>
+              <svg viewBox="0 0 24 24" fill="currentColor">
+                <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm1 15h-2v-2h2v2zm0-4h-2V7h2v6z"/>
+              </svg>
+            </div>
+            <h3>{blockedChange.title}</h3>
+            <p>{blockedChange.message}</p>
+            <div className={styles.warningActions}>
+              <button className={styles.okButton} onClick={() => setBlockedChange(null)}>
+                OK
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <DragOverlay modifiers={[snapToDays]} dropAnimation={null}>
+        {movePreview && (() => {
+          const targetTeam = data?.teams.find((t) => t.id === movePreview.teamId);
+          const color = targetTeam?.color || '#71717a';
+          return (
+            <div
+              className={`${styles.movePreview} ${movePreview.error ? styles.movePreviewInvalid : ''}`}
+              style={{ background: `${color}40`, borderColor: movePreview.error ? undefined : color }}
+            >
+              <div className={styles.movePreviewInfo}>
+                <span>
+                  {targetTeam?.name || 'Unknown'} · {format(toLocalDay(movePreview.start), 'MMM d')} — {format(toLocalDay(movePreview.end), 'MMM d')}
+                </span>
+                {movePreview.error && <span className={styles.movePreviewError}>{movePreview.error}</span>}
+              </div>
+            </div>
+          );
+        })()}
       </DragOverlay>
 
       <NewTeamFab />
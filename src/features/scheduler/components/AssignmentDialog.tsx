@@ -1,8 +1,9 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { format, addDays } from 'date-fns';
 import type { Resource, Team, Assignment } from '@/domain/types';
+import { addDaysToDate, fromDateOnly, fromLocalDate, isDateOnly, toDateOnly, toLocalDate } from '@/domain/dateOnly';
+import { countWorkingDays, type WorkingCalendar } from '@/domain/workingCalendar';
 import styles from './AssignmentDialog.module.css';
 
 interface AssignmentDialogProps {
@@ -14,6 +15,7 @@ interface AssignmentDialogProps {
   team: Team | undefined;
   existingAssignment?: Assignment | null;
   validationError?: string | null;
+  workingCalendar: WorkingCalendar;
 }
 
 export function AssignmentDialog({
@@ -25,6 +27,7 @@ export function AssignmentDialog({
   team,
   existingAssignment,
   validationError,
+  workingCalendar,
 }: AssignmentDialogProps) {
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
@@ -35,15 +38,15 @@ export function AssignmentDialog({
     if (isOpen) {
       if (mode === 'edit' && existingAssignment) {
         // Pre-fill with existing assignment values
-        setStartDate(format(new Date(existingAssignment.start), 'yyyy-MM-dd'));
-        setEndDate(format(new Date(existingAssignment.end), 'yyyy-MM-dd'));
+        setStartDate(toDateOnly(existingAssignment.start));
+        setEndDate(toDateOnly(existingAssignment.end));
         setRole(existingAssignment.role || '');
-        setIsTeamLeader(existingAssignment.isTeamLeader || false);
+        setIsTeamLeader(false);
       } else {
         // Default values for new assignment
-        const today = new Date();
-        setStartDate(format(today, 'yyyy-MM-dd'));
-        setEndDate(format(addDays(today, 14), 'yyyy-MM-dd'));
+        const today = fromLocalDate(new Date());
+        setStartDate(today);
+        setEndDate(addDaysToDate(today, 14));
         setRole('');
         setIsTeamLeader(false);
       }
@@ -54,12 +57,17 @@ export function AssignmentDialog({
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    const startISO = new Date(startDate).toISOString();
-    const endISO = new Date(endDate).toISOString();
-    onConfirm(startISO, endISO, isTeamLeader, role || undefined);
+    // Date inputs give calendar dates, stored as midnight UTC whatever the browser's time zone
+    onConfirm(fromDateOnly(startDate), fromDateOnly(endDate), isTeamLeader, role || undefined);
   };
 
-  const isValid = startDate && endDate && new Date(startDate) < new Date(endDate);
+  // Both inputs complete (yyyy-MM-dd compares as text) and the end after the start
+  const isValid = isDateOnly(startDate) && isDateOnly(endDate) && startDate < endDate;
+
+  // Days the bar covers, from the start date up to the end date
+  const dayCounts = isValid
+    ? countWorkingDays(workingCalendar, { start: toLocalDate(startDate), end: toLocalDate(endDate) })
+    : null;
 
   const isEditMode = mode === 'edit';
   const title = isEditMode ? 'Edit Assignment' : 'Create Assignment';
@@ -140,6 +148,13 @@ export function AssignmentDialog({
             </div>
           </div>
 
+          {dayCounts && (
+            <div className={styles.dayCount} title={`Working calendar: ${workingCalendar.name}`}>
+              <strong>{dayCounts.workingDays}</strong> working day{dayCounts.workingDays !== 1 ? 's' : ''}
+              <span> of {dayCounts.calendarDays} calendar day{dayCounts.calendarDays !== 1 ? 's' : ''}</span>
+            </div>
+          )}
+
           <div className={styles.field}>
             <label htmlFor="role">Role (optional)</label>
             <input
@@ -151,28 +166,31 @@ export function AssignmentDialog({
             />
           </div>
 
-          <div className={styles.checkboxField}>
-            <label className={styles.checkboxLabel}>
-              <input
-                type="checkbox"
-                checked={isTeamLeader}
-                onChange={(e) => setIsTeamLeader(e.target.checked)}
-                className={styles.checkbox}
-              />
-              <span className={styles.checkboxIcon}>
-                <svg viewBox="0 0 24 24" fill="currentColor">
-                  {/* Person with crown - Team Leader */}
-                  <circle cx="12" cy="7" r="4" />
-                  <path d="M12 14c-4 0-8 2-8 4v2h16v-2c0-2-4-4-8-4z" />
-                  <path d="M12 1l1.5 2.5L16 4l-1.5 1L16 6H8l1.5-1L8 4l2.5-.5L12 1z" />
-                </svg>
-              </span>
-              <span className={styles.checkboxText}>
-                <strong>Team Leader</strong>
-                <small>This person will lead the team during this period</small>
-              </span>
-            </label>
-          </div>
+          {/* Leader periods are edited on the team's leader track once created */}
+          {!isEditMode && (
+            <div className={styles.checkboxField}>
+              <label className={styles.checkboxLabel}>
+                <input
+                  type="checkbox"
+                  checked={isTeamLeader}
+                  onChange={(e) => setIsTeamLeader(e.target.checked)}
+                  className={styles.checkbox}
+                />
+                <span className={styles.checkboxIcon}>
+                  <svg viewBox="0 0 24 24" fill="currentColor">
+                    {/* Person with crown - Team Leader */}
+                    <circle cx="12" cy="7" r="4" />
+                    <path d="M12 14c-4 0-8 2-8 4v2h16v-2c0-2-4-4-8-4z" />
+                    <path d="M12 1l1.5 2.5L16 4l-1.5 1L16 6H8l1.5-1L8 4l2.5-.5L12 1z" />
+                  </svg>
+                </span>
+                <span className={styles.checkboxText}>
+                  <strong>Team Leader</strong>
+                  <small>Also lead the team for this whole period</small>
+                </span>
+              </label>
+            </div>
+          )}
 
           <div className={styles.actions}>
             <button type="button" className={styles.cancelButton} onClick={onClose}>
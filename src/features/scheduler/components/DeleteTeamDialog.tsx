@@ -0,0 +1,90 @@
+'use client';
+
+import { format } from 'date-fns';
+import { toLocalDay } from '@/domain/dateOnly';
+import type { Assignment, LeaderPeriod, Resource, Team } from '@/domain/types';
+import styles from './DeleteTeamDialog.module.css';
+
+interface DeleteTeamDialogProps {
+  team: Team | undefined;
+  assignments: Assignment[]; // Memberships of the team, deleted together with it
+  leaderPeriods: LeaderPeriod[];
+  resources: Resource[];
+  onConfirm: () => void;
+  onClose: () => void;
+}
+
+const formatPeriod = (item: { start: string; end: string }) =>
+  `${format(toLocalDay(item.start), 'MMM d, yyyy')} — ${format(toLocalDay(item.end), 'MMM d, yyyy')}`;
+
+export function DeleteTeamDialog({
+  team,
+  assignments,
+  leaderPeriods,
+  resources,
+  onConfirm,
+  onClose,
+}: DeleteTeamDialogProps) {
+  if (!team) return null;
+
+  const resourceName = (resourceId: string) =>
+    resources.find((r) => r.id === resourceId)?.description || resourceId;
+
+  const rows = [
+    ...assignments.map((a) => ({ id: a.id, resourceId: a.resourceId, start: a.start, end: a.end, isLeader: false })),
+    ...leaderPeriods.map((l) => ({ id: l.id, resourceId: l.resourceId, start: l.start, end: l.end, isLeader: true })),
+  ].sort((a, b) => resourceName(a.resourceId).localeCompare(resourceName(b.resourceId)) || a.start.localeCompare(b.start));
+
+  return (
+    <div className={styles.overlay} onClick={onClose}>
+      <div
+        className={styles.dialog}
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-labelledby="delete-team-title"
+        aria-modal="true"
+      >
+        <div className={styles.header}>
+          <h2 id="delete-team-title">Delete {team.name}?</h2>
+          <button className={styles.closeButton} onClick={onClose} aria-label="Close">
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M18 6L6 18M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <p className={styles.intro}>
+          {team.ResourceSeq !== undefined
+            ? 'The crew is deleted in IFS Cloud on the next push.'
+            : 'The crew has not been pushed to IFS Cloud yet and is discarded.'}
+          {rows.length > 0
+            ? ` These ${assignments.length} membership${assignments.length !== 1 ? 's' : ''} and ${leaderPeriods.length} leader period${leaderPeriods.length !== 1 ? 's' : ''} go with it:`
+            : ' It has no memberships.'}
+        </p>
+
+        {rows.length > 0 && (
+          <ul className={styles.list}>
+            {rows.map((row) => (
+              <li key={row.id} className={styles.row}>
+                <span className={styles.rowName}>
+                  {resourceName(row.resourceId)}
+                  {row.isLeader && <span className={styles.leaderTag}>Team Leader</span>}
+                </span>
+                <span className={styles.rowDates}>{formatPeriod(row)}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className={styles.actions}>
+          <button className={styles.cancelButton} onClick={onClose}>
+            Cancel
+          </button>
+          <button className={styles.deleteButton} onClick={onConfirm}>
+            Delete Team
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
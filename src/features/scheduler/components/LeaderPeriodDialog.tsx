@@ -0,0 +1,155 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { Resource, Team, LeaderPeriod } from '@/domain/types';
+import { addDaysToDate, fromDateOnly, fromLocalDate, isDateOnly, toDateOnly } from '@/domain/dateOnly';
+import styles from './AssignmentDialog.module.css';
+
+interface LeaderPeriodDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (resourceId: string, start: string, end: string) => void;
+  team: Team | undefined;
+  members: Resource[]; // Resources with a membership in the team
+  existingLeaderPeriod?: LeaderPeriod | null;
+  validationError?: string | null;
+}
+
+export function LeaderPeriodDialog({
+  isOpen,
+  onClose,
+  onConfirm,
+  team,
+  members,
+  existingLeaderPeriod,
+  validationError,
+}: LeaderPeriodDialogProps) {
+  const [resourceId, setResourceId] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+
+  useEffect(() => {
+    if (isOpen) {
+      if (existingLeaderPeriod) {
+        setResourceId(existingLeaderPeriod.resourceId);
+        setStartDate(toDateOnly(existingLeaderPeriod.start));
+        setEndDate(toDateOnly(existingLeaderPeriod.end));
+      } else {
+        const today = fromLocalDate(new Date());
+        setResourceId(members[0]?.id || '');
+        setStartDate(today);
+        setEndDate(addDaysToDate(today, 14));
+      }
+    }
+  }, [isOpen, existingLeaderPeriod, members]);
+
+  if (!isOpen) return null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onConfirm(resourceId, fromDateOnly(startDate), fromDateOnly(endDate));
+  };
+
+  const isValid = resourceId && isDateOnly(startDate) && isDateOnly(endDate) && startDate < endDate;
+
+  const isEditMode = !!existingLeaderPeriod;
+  const title = isEditMode ? 'Edit Leader Period' : 'Add Leader Period';
+
+  return (
+    <div className={styles.overlay} onClick={onClose}>
+      <div
+        className={styles.dialog}
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-labelledby="leader-dialog-title"
+        aria-modal="true"
+      >
+        <div className={styles.header}>
+          <h2 id="leader-dialog-title">{title}</h2>
+          <button className={styles.closeButton} onClick={onClose} aria-label="Close">
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M18 6L6 18M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className={styles.preview}>
+          <div className={styles.previewTeam}>
+            <div
+              className={styles.previewTeamColor}
+              style={{ background: team?.color || '#71717a' }}
+            />
+            <div>
+              <span className={styles.previewLabel}>Team</span>
+              <span className={styles.previewValue}>{team?.name || 'Unknown'}</span>
+            </div>
+          </div>
+        </div>
+
+        {validationError && (
+          <div className={styles.errorBanner}>
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <circle cx="12" cy="12" r="10" />
+              <path d="M12 8v4M12 16h.01" />
+            </svg>
+            <span>{validationError}</span>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className={styles.form}>
+          <div className={styles.field}>
+            <label htmlFor="leaderResource">Team Leader</label>
+            {/* A leader row belongs to one resource: change the leader by adding a new period */}
+            <select
+              id="leaderResource"
+              value={resourceId}
+              onChange={(e) => setResourceId(e.target.value)}
+              disabled={isEditMode}
+              required
+            >
+              {members.length === 0 && <option value="">No members in this team</option>}
+              {members.map((member) => (
+                <option key={member.id} value={member.id}>
+                  {member.description}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className={styles.dateFields}>
+            <div className={styles.field}>
+              <label htmlFor="leaderStartDate">Valid From</label>
+              <input
+                type="date"
+                id="leaderStartDate"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                required
+              />
+            </div>
+            <div className={styles.field}>
+              <label htmlFor="leaderEndDate">Valid To</label>
+              <input
+                type="date"
+                id="leaderEndDate"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                min={startDate}
+                required
+              />
+            </div>
+          </div>
+
+          <div className={styles.actions}>
+            <button type="button" className={styles.cancelButton} onClick={onClose}>
+              Cancel
+            </button>
+            <button type="submit" className={styles.confirmButton} disabled={!isValid}>
+              {isEditMode ? 'Save Changes' : 'Add Leader Period'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
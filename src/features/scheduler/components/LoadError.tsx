@@ -0,0 +1,21 @@
+'use client';
+
+import styles from './LoadError.module.css';
+
+interface LoadErrorProps {
+  message: string;
+  onRetry: () => void;
+}
+
+// Shown in place of the board when the scheduler data could not be loaded from IFS Cloud
+export function LoadError({ message, onRetry }: LoadErrorProps) {
+  return (
+    <div className={styles.container} role="alert">
+      <p className={styles.title}>Could not load the schedule from IFS Cloud</p>
+      <p className={styles.message}>{message}</p>
+      <button className={styles.retryButton} onClick={onRetry}>
+        Try again
+      </button>
+    </div>
+  );
+}
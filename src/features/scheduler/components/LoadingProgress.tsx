@@ -0,0 +1,44 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { CrewLoadProgress } from '@/lib/api/crew-load';
+import styles from './LoadingProgress.module.css';
+
+// Shown in place of the board while the scheduler data loads
+export function LoadingProgress() {
+  const [progress, setProgress] = useState<CrewLoadProgress | null>(null);
+
+  // Poll the crew load progress while mounted
+  useEffect(() => {
+    const checkProgress = async () => {
+      const { api } = await import('@/lib/api/client');
+      setProgress(api.getCrewLoadProgress());
+    };
+
+    checkProgress();
+    const interval = setInterval(checkProgress, 200);
+    return () => clearInterval(interval);
+  }, []);
+
+  const total = progress?.total ?? null;
+  const percent = total ? Math.round((progress!.completed / total) * 100) : 0;
+
+  return (
+    <div className={styles.container} role="status" aria-live="polite">
+      <div className={styles.spinner} />
+      {!progress && <p className={styles.title}>Loading schedule…</p>}
+      {progress && total === null && <p className={styles.title}>Loading crews from IFS Cloud…</p>}
+      {progress && total !== null && (
+        <>
+          <p className={styles.title}>
+            Loading crews from IFS Cloud: {progress.completed} of {total}
+          </p>
+          <div className={styles.track}>
+            <div className={styles.bar} style={{ width: `${percent}%` }} />
+          </div>
+          <p className={styles.detail}>{progress.lastCrew ? `Loaded ${progress.lastCrew}` : 'Loading memberships and leaders…'}</p>
+        </>
+      )}
+    </div>
+  );
+}
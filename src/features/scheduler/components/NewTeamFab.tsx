@@ -3,6 +3,7 @@
 import { useState } from 'react';
 import { useCreateTeam } from '@/lib/query/hooks';
 import { useUIStore } from '@/lib/store/ui-store';
+import { createTeamSchema, CREW_ID_MAX_LENGTH, CREW_DESCRIPTION_MAX_LENGTH } from '@/domain/validation';
 import styles from './NewTeamFab.module.css';
 
 const TEAM_COLORS = [
@@ -21,6 +22,7 @@ export function NewTeamFab() {
   const [teamName, setTeamName] = useState('');
   const [teamDescription, setTeamDescription] = useState('');
   const [teamColor, setTeamColor] = useState(TEAM_COLORS[0]);
+  const [submitError, setSubmitError] = useState<string | null>(null);
   const createTeam = useCreateTeam();
   const { markAsChanged } = useUIStore.getState();
 
@@ -28,6 +30,7 @@ export function NewTeamFab() {
     setTeamName('');
     setTeamDescription('');
     setTeamColor(TEAM_COLORS[Math.floor(Math.random() * TEAM_COLORS.length)]);
+    setSubmitError(null);
     setIsDialogOpen(true);
   };
 
@@ -35,21 +38,34 @@ export function NewTeamFab() {
     setIsDialogOpen(false);
   };
 
+  // The team name is the crew's ResourceId in IFS Cloud
+  const validation = createTeamSchema.safeParse({
+    name: teamName.trim(),
+    description: teamDescription.trim(),
+    color: teamColor,
+  });
+  const fieldError = (field: 'name' | 'description') =>
+    validation.success ? undefined : validation.error.issues.find((issue) => issue.path[0] === field)?.message;
+  const nameError = teamName ? fieldError('name') : undefined;
+  const descriptionError = teamDescription ? fieldError('description') : undefined;
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!teamName.trim()) return;
+    if (!validation.success) return;
 
-    await createTeam.mutateAsync({
-      name: teamName.trim(),
-      description: teamDescription.trim() || undefined,
-      color: teamColor,
-    });
+    setSubmitError(null);
+    try {
+      await createTeam.mutateAsync(validation.data);
+    } catch (error) {
+      setSubmitError(error instanceof Error ? error.message : 'An error occurred while creating the team');
+      return;
+    }
 
     markAsChanged();
     setIsDialogOpen(false);
   };
 
-  const isValid = teamName.trim().length > 0;
+  const isValid = validation.success;
 
   return (
     <>
@@ -84,29 +100,44 @@ export function NewTeamFab() {
               </button>
             </div>
 
+            {submitError && (
+              <div className={styles.errorBanner}>
+                <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <circle cx="12" cy="12" r="10" />
+                  <path d="M12 8v4M12 16h.01" />
+                </svg>
+                <span>{submitError}</span>
+              </div>
+            )}
+
             <form onSubmit={handleSubmit} className={styles.form}>
               <div className={styles.field}>
-                <label htmlFor="teamName">Team Name *</label>
+                <label htmlFor="teamName">Crew ID *</label>
                 <input
                   type="text"
                   id="teamName"
                   value={teamName}
-                  onChange={(e) => setTeamName(e.target.value)}
-                  placeholder="e.g., Alpha Team"
+                  onChange={(e) => setTeamName(e.target.value.toUpperCase())}
+                  placeholder="e.g., ALPHA_TEAM"
+                  maxLength={CREW_ID_MAX_LENGTH}
                   autoFocus
                   required
                 />
+                {nameError && <span className={styles.fieldError}>{nameError}</span>}
               </div>
 
               <div className={styles.field}>
-                <label htmlFor="teamDescription">Description (optional)</label>
+                <label htmlFor="teamDescription">Description *</label>
                 <input
                   type="text"
                   id="teamDescription"
                   value={teamDescription}
                   onChange={(e) => setTeamDescription(e.target.value)}
                   placeholder="e.g., Field service team for north region"
+                  maxLength={CREW_DESCRIPTION_MAX_LENGTH}
+                  required
                 />
+                {descriptionError && <span className={styles.fieldError}>{descriptionError}</span>}
               </div>
 
               <div className={styles.field}>
@@ -135,7 +166,7 @@ export function NewTeamFab() {
                 <span className={styles.previewLabel}>Preview</span>
                 <div className={styles.previewTeam}>
                   <div className={styles.previewColor} style={{ background: teamColor }} />
-                  <span>{teamName || 'Team Name'}</span>
+                  <span>{teamName || 'CREW_ID'}</span>
                 </div>
               </div>
 
@@ -0,0 +1,75 @@
+'use client';
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { toLocalDay } from '@/domain/dateOnly';
+import type { ScheduleRuleId, ScheduleViolation } from '@/domain/scheduleValidation';
+import styles from './ProblemsPanel.module.css';
+
+interface ProblemsPanelProps {
+  problems: ScheduleViolation[];
+  onSelect: (problem: ScheduleViolation) => void;
+}
+
+const RULE_LABELS: Record<ScheduleRuleId, string> = {
+  'invalid-input': 'Invalid input',
+  'not-found': 'Not found',
+  'cross-team-overlap': 'Cross-team overlap',
+  'leader-overlap': 'Double leader',
+  'leader-outside-membership': 'Leader not a member',
+  'leader-gap': 'No leader',
+  'team-read-only': 'Read-only team',
+  'orphaned-resource': 'Unknown resource',
+};
+
+const formatPeriod = (period: { start: string; end: string }) =>
+  `${format(toLocalDay(period.start), 'MMM d, yyyy')} — ${format(toLocalDay(period.end), 'MMM d, yyyy')}`;
+
+export function ProblemsPanel({ problems, onSelect }: ProblemsPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const errorCount = problems.filter((p) => p.severity === 'error').length;
+  const warningCount = problems.length - errorCount;
+
+  return (
+    <section className={`${styles.panel} ${isOpen ? styles.open : ''}`} aria-label="Problems">
+      <button
+        className={styles.header}
+        onClick={() => setIsOpen((open) => !open)}
+        aria-expanded={isOpen}
+      >
+        <svg className={styles.chevron} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <path d="M6 15l6-6 6 6" />
+        </svg>
+        <h2>Problems</h2>
+        {problems.length === 0 ? (
+          <span className={styles.clean}>No problems</span>
+        ) : (
+          <>
+            {errorCount > 0 && <span className={styles.errorCount}>{errorCount} error{errorCount !== 1 ? 's' : ''}</span>}
+            {warningCount > 0 && <span className={styles.warningCount}>{warningCount} warning{warningCount !== 1 ? 's' : ''}</span>}
+          </>
+        )}
+        <span className={styles.scope}>All teams, all dates</span>
+      </button>
+
+      {isOpen && (
+        <ul className={styles.list}>
+          {problems.length === 0 && (
+            <li className={styles.empty}>Every team has one leader at a time and nobody is in two teams at once.</li>
+          )}
+          {problems.map((problem, index) => (
+            <li key={`${problem.ruleId}-${index}`}>
+              <button className={styles.item} onClick={() => onSelect(problem)}>
+                <span className={problem.severity === 'error' ? styles.errorDot : styles.warningDot} />
+                <span className={styles.rule}>{RULE_LABELS[problem.ruleId]}</span>
+                <span className={styles.message}>{problem.message}</span>
+                {problem.period && <span className={styles.period}>{formatPeriod(problem.period)}</span>}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,341 @@
+'use client';
+
+import { useMemo, useCallback, useState, useRef, useEffect } from 'react';
+import { format, eachDayOfInterval, differenceInCalendarDays, startOfDay } from 'date-fns';
+import type { Team, Assignment, Resource, TimeRange } from '@/domain/types';
+import { getResourceTimelines, type ResourceTimeline } from '@/domain/resourceTimeline';
+import { getNonWorkingDays, type NonWorkingDay } from '@/domain/workingCalendar';
+import { daysBetween, fromLocalDate, toDateOnly, toLocalDay } from '@/domain/dateOnly';
+import { useUIStore } from '@/lib/store/ui-store';
+import { DayCells, DaysHeader, ResizableAssignmentBar, type BarLane } from './SchedulerBoard';
+import {
+  MEMBER_ROW_HEIGHT,
+  ROW_OVERSCAN,
+  getRowOffsets,
+  getVisibleDays,
+  getVisibleRows,
+  useBoardViewport,
+  useReportTimelineWidth,
+  type IndexRange,
+} from './boardVirtualization';
+import styles from './SchedulerBoard.module.css';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LANE_HEIGHT = 36; // Row height per stacked bar when memberships overlap
+
+interface ResourceBoardProps {
+  teams: Team[];
+  assignments: Assignment[];
+  resources: Resource[];
+  viewRange: TimeRange;
+  dayWidth: number;
+  onAssignmentDoubleClick?: (assignment: Assignment) => void;
+  onAssignmentResize?: (id: string, newStart: string, newEnd: string) => void;
+  onAssignmentDelete?: (assignmentId: string) => void;
+}
+
+// Context menu state
+interface ContextMenu {
+  x: number;
+  y: number;
+  id: string;
+}
+
+interface ResourceRow {
+  resourceId: string;
+  resource: Resource | undefined;
+  timeline: ResourceTimeline;
+  lanes: Map<string, number>; // Lane of each membership bar
+  laneCount: number;
+}
+
+/**
+ * Utilisation board: one row per technician with their memberships in every team,
+ * free periods and periods in more than one crew. Takes the same callbacks as SchedulerBoard.
+ */
+export function ResourceBoard({
+  teams,
+  assignments,
+  resources,
+  viewRange,
+  dayWidth,
+  onAssignmentDoubleClick,
+  onAssignmentResize,
+  onAssignmentDelete,
+}: ResourceBoardProps) {
+  const [contextMenu, setContextMenu] = useState<ContextMenu | null>(null);
+  const boardRef = useRef<HTMLDivElement>(null);
+  const focusTarget = useUIStore((state) => state.focusTarget);
+  const selectedBarId = useUIStore((state) => state.selectedAssignmentId);
+  const workingCalendar = useUIStore((state) => state.workingCalendar);
+
+  const days = useMemo(
+    () => eachDayOfInterval({ start: viewRange.start, end: viewRange.end }),
+    [viewRange]
+  );
+
+  const nonWorkingDays = useMemo(() => getNonWorkingDays(workingCalendar, days), [workingCalendar, days]);
+
+  const teamsById = useMemo(() => new Map(teams.map((t) => [t.id, t])), [teams]);
+
+  // Every technician by name, then memberships of resources missing from the list
+  const rows = useMemo((): ResourceRow[] => {
+    const sorted = [...resources].sort((a, b) => a.description.localeCompare(b.description));
+    const known = new Set(sorted.map((r) => r.id));
+    const unknownIds = Array.from(new Set(assignments.map((a) => a.resourceId))).filter((id) => !known.has(id));
+    const resourceIds = [...sorted.map((r) => r.id), ...unknownIds];
+    const timelines = getResourceTimelines(resourceIds, assignments, viewRange);
+    return resourceIds.map((resourceId, index) => {
+      const timeline = timelines.get(resourceId)!;
+      const lanes = assignLanes(timeline.assignments);
+      return {
+        resourceId,
+        resource: sorted[index],
+        timeline,
+        lanes,
+        laneCount: Math.max(1, ...Array.from(lanes.values()).map((lane) => lane + 1)),
+      };
+    });
+  }, [resources, assignments, viewRange]);
+
+  // Rows have a fixed height, unless overlapping bars are stacked
+  const offsets = useMemo(
+    () => getRowOffsets(rows.map((row) => (row.laneCount > 1 ? row.laneCount * LANE_HEIGHT + 8 + 1 : MEMBER_ROW_HEIGHT))),
+    [rows]
+  );
+
+  const viewport = useBoardViewport(boardRef);
+  useReportTimelineWidth(viewport);
+  const visibleRows = getVisibleRows(offsets, viewport.top - ROW_OVERSCAN, viewport.top + viewport.height + ROW_OVERSCAN);
+  const visibleDays = getVisibleDays(viewport, days.length, dayWidth);
+
+  // Focus requested from the problems panel; the row may not be rendered, so scroll by the layout
+  useEffect(() => {
+    const board = boardRef.current;
+    if (!board || focusTarget?.bar?.kind !== 'assignment') return;
+    const barId = focusTarget.bar.id;
+    const index = rows.findIndex((row) => row.timeline.assignments.some((a) => a.id === barId));
+    if (index === -1) return;
+    const dayOffset = daysBetween(fromLocalDate(viewRange.start), toDateOnly(focusTarget.date));
+    board.scrollTo({
+      top: Math.max(0, offsets[index] - board.clientHeight / 2),
+      left: Math.max(0, (dayOffset - 2) * dayWidth),
+      behavior: 'smooth',
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [focusTarget]);
+
+  // Close context menu when clicking outside
+  useEffect(() => {
+    const handleClickOutside = () => setContextMenu(null);
+    if (contextMenu) {
+      document.addEventListener('click', handleClickOutside);
+      return () => document.removeEventListener('click', handleClickOutside);
+    }
+  }, [contextMenu]);
+
+  const handleContextMenu = useCallback((e: React.MouseEvent, id: string) => {
+    e.preventDefault();
+    setContextMenu({ x: e.clientX, y: e.clientY, id });
+  }, []);
+
+  const handleDeleteFromContext = useCallback(() => {
+    if (contextMenu) {
+      onAssignmentDelete?.(contextMenu.id);
+    }
+    setContextMenu(null);
+  }, [contextMenu, onAssignmentDelete]);
+
+  return (
+    <div ref={boardRef} className={styles.board}>
+      <div className={styles.timeline} style={{ width: days.length * dayWidth }}>
+        <DaysHeader days={days} nonWorkingDays={nonWorkingDays} visibleDays={visibleDays} dayWidth={dayWidth} />
+
+        {/* Technician rows, with spacers for the rows that are scrolled out of view */}
+        <div className={styles.teamsContainer}>
+          <div style={{ height: offsets[visibleRows.start] }} />
+          {rows.slice(visibleRows.start, visibleRows.end).map((row) => (
+            <ResourceTimelineRow
+              key={row.resourceId}
+              row={row}
+              teamsById={teamsById}
+              days={days}
+              nonWorkingDays={nonWorkingDays}
+              visibleDays={visibleDays}
+              dayWidth={dayWidth}
+              viewRange={viewRange}
+              onAssignmentDoubleClick={onAssignmentDoubleClick}
+              onAssignmentResize={onAssignmentResize}
+              onAssignmentDelete={onAssignmentDelete}
+              onContextMenu={handleContextMenu}
+              selectedBarId={selectedBarId}
+            />
+          ))}
+          <div style={{ height: offsets[rows.length] - offsets[visibleRows.end] }} />
+        </div>
+
+        <div className={styles.boardLegend}>
+          <span className={styles.legendItem}>
+            <span className={`${styles.gapSegment} ${styles.legendSwatch}`} /> Not in a crew
+          </span>
+          <span className={styles.legendItem}>
+            <span className={`${styles.overlapSegment} ${styles.legendSwatch}`} /> In several crews at once
+          </span>
+        </div>
+      </div>
+
+      {/* Context Menu */}
+      {contextMenu && (
+        <div
+          className={styles.contextMenu}
+          style={{ left: contextMenu.x, top: contextMenu.y }}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <button className={styles.contextMenuItem} onClick={handleDeleteFromContext}>
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M3 6h18M19 6v14a2 2 0 01-2 2H7a2 2 0 01-2-2V6m3 0V4a2 2 0 012-2h4a2 2 0 012 2v2" />
+              <path d="M10 11v6M14 11v6" />
+            </svg>
+            Delete Assignment
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface ResourceTimelineRowProps {
+  row: ResourceRow;
+  teamsById: Map<string, Team>;
+  days: Date[];
+  nonWorkingDays: (NonWorkingDay | null)[];
+  visibleDays: IndexRange;
+  dayWidth: number;
+  viewRange: TimeRange;
+  onAssignmentDoubleClick?: (assignment: Assignment) => void;
+  onAssignmentResize?: (id: string, newStart: string, newEnd: string) => void;
+  onAssignmentDelete?: (assignmentId: string) => void;
+  onContextMenu: (e: React.MouseEvent, id: string) => void;
+  selectedBarId: string | null;
+}
+
+function ResourceTimelineRow({
+  row,
+  teamsById,
+  days,
+  nonWorkingDays,
+  visibleDays,
+  dayWidth,
+  viewRange,
+  onAssignmentDoubleClick,
+  onAssignmentResize,
+  onAssignmentDelete,
+  onContextMenu,
+  selectedBarId,
+}: ResourceTimelineRowProps) {
+  const { resource, timeline, lanes, laneCount } = row;
+  const totalWidth = days.length * dayWidth;
+  const viewStart = startOfDay(viewRange.start);
+
+  // Fractional days from the start of the view, so gaps line up with the bars
+  const toX = (date: Date) =>
+    (differenceInCalendarDays(date, viewStart) + (date.getTime() - startOfDay(date).getTime()) / DAY_MS) * dayWidth;
+
+  const initials = resource
+    ? (() => {
+      const words = resource.description.split(' ');
+      return words.length >= 2
+        ? `${words[0][0]}${words[words.length - 1][0]}`.toUpperCase()
+        : resource.description.substring(0, 2).toUpperCase();
+    })()
+    : '??';
+
+  const teamCount = new Set(timeline.assignments.map((a) => a.teamId)).size;
+  const summary = teamCount === 0
+    ? 'Not in a crew'
+    : `${teamCount} team${teamCount !== 1 ? 's' : ''} · ${timeline.assignments.length} period${timeline.assignments.length !== 1 ? 's' : ''}`;
+
+  return (
+    <div className={styles.memberRow} data-resource-id={row.resourceId}>
+      <div className={`${styles.memberLabel} ${styles.resourceLabel}`}>
+        <div className={styles.memberAvatar} style={{ background: 'var(--bg-tertiary)', color: 'var(--text-secondary)' }}>
+          {initials}
+        </div>
+        <div className={styles.memberInfo}>
+          <span className={styles.memberName}>{resource ? resource.description : row.resourceId}</span>
+          <span className={styles.memberDates}>{resource ? summary : 'Unknown resource'}</span>
+        </div>
+        {timeline.overlaps.length > 0 && (
+          <span className={styles.overlapBadge} title="In more than one crew at the same time">
+            <svg viewBox="0 0 24 24" fill="currentColor">
+              <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm1 15h-2v-2h2v2zm0-4h-2V7h2v6z"/>
+            </svg>
+          </span>
+        )}
+      </div>
+
+      <div
+        className={styles.memberTimeline}
+        style={{ width: totalWidth, minHeight: laneCount > 1 ? laneCount * LANE_HEIGHT + 8 : undefined }}
+      >
+        <DayCells days={days} nonWorkingDays={nonWorkingDays} visibleDays={visibleDays} dayWidth={dayWidth} className={styles.memberCell} />
+
+        {timeline.gaps.map((gap) => (
+          <div
+            key={`gap-${gap.start.toISOString()}`}
+            className={styles.gapSegment}
+            style={{ left: toX(gap.start), width: Math.max(0, toX(gap.end) - toX(gap.start)) }}
+            title={`Not in a crew: ${format(gap.start, 'MMM d')} — ${format(gap.end, 'MMM d')}`}
+          />
+        ))}
+
+        {timeline.overlaps.map((overlap) => (
+          <div
+            key={`overlap-${overlap.start.toISOString()}`}
+            className={styles.overlapSegment}
+            style={{ left: toX(overlap.start), width: Math.max(0, toX(overlap.end) - toX(overlap.start)) }}
+            title={`In several crews: ${format(overlap.start, 'MMM d')} — ${format(overlap.end, 'MMM d')}`}
+          />
+        ))}
+
+        {timeline.assignments.map((assignment) => {
+          const team = teamsById.get(assignment.teamId);
+          const lane: BarLane = { index: lanes.get(assignment.id) ?? 0, count: laneCount };
+          return (
+            <ResizableAssignmentBar
+              key={assignment.id}
+              assignment={assignment}
+              teamColor={team?.color || '#71717a'}
+              viewRange={viewRange}
+              dayWidth={dayWidth}
+              isDraggable
+              isSelected={assignment.id === selectedBarId}
+              label={team?.name || 'Unknown team'}
+              showLabel
+              lane={lane}
+              onDoubleClick={() => onAssignmentDoubleClick?.(assignment)}
+              onResize={onAssignmentResize}
+              onDelete={() => onAssignmentDelete?.(assignment.id)}
+              onContextMenu={(e) => onContextMenu(e, assignment.id)}
+            />
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+// First free lane per bar, so overlapping memberships are stacked instead of hidden.
+// Assignments must be sorted by start.
+function assignLanes(assignments: Assignment[]): Map<string, number> {
+  const laneEnds: number[] = [];
+  const lanes = new Map<string, number>();
+  for (const assignment of assignments) {
+    const start = toLocalDay(assignment.start).getTime();
+    let lane = laneEnds.findIndex((end) => end <= start);
+    if (lane === -1) lane = laneEnds.length;
+    laneEnds[lane] = toLocalDay(assignment.end).getTime();
+    lanes.set(assignment.id, lane);
+  }
+  return lanes;
+}
@@ -2,18 +2,36 @@
 
 import { useState, useMemo } from 'react';
 import { useDraggable } from '@dnd-kit/core';
-import type { Resource } from '@/domain/types';
+import { getAvailabilityByResource, type AvailabilityStatus, type ResourceAvailability } from '@/domain/availability';
+import type { Assignment, Resource, TimeRange } from '@/domain/types';
 import styles from './ResourcePanel.module.css';
 
 interface ResourcePanelProps {
   resources: Resource[];
+  assignments: Assignment[];
+  viewRange: TimeRange;
   isLoading?: boolean;
 }
 
-export function ResourcePanel({ resources, isLoading }: ResourcePanelProps) {
+type AvailabilityFilter = 'all' | AvailabilityStatus;
+
+const AVAILABILITY_FILTERS: { value: AvailabilityFilter; label: string; title: string }[] = [
+  { value: 'all', label: 'All', title: 'All technicians' },
+  { value: 'available', label: 'Free', title: 'Available for the whole range' },
+  { value: 'partial', label: 'Partly', title: 'Partially available' },
+  { value: 'booked', label: 'Booked', title: 'In a crew for the whole range' },
+];
+
+export function ResourcePanel({ resources, assignments, viewRange, isLoading }: ResourcePanelProps) {
   const [searchQuery, setSearchQuery] = useState('');
+  const [availabilityFilter, setAvailabilityFilter] = useState<AvailabilityFilter>('all');
+
+  const availability = useMemo(
+    () => getAvailabilityByResource(resources.map((r) => r.id), assignments, viewRange),
+    [resources, assignments, viewRange]
+  );
 
-  const filteredResources = useMemo(() => {
+  const searchedResources = useMemo(() => {
     if (!searchQuery.trim()) {
       return resources;
     }
@@ -26,6 +44,28 @@ export function ResourcePanel({ resources, isLoading }: ResourcePanelProps) {
     });
   }, [resources, searchQuery]);
 
+  // Counts per filter, within the search results
+  const statusCounts = useMemo(() => {
+    const counts: Record<AvailabilityFilter, number> = { all: searchedResources.length, available: 0, partial: 0, booked: 0 };
+    for (const resource of searchedResources) {
+      const status = availability.get(resource.id)?.status;
+      if (status) counts[status]++;
+    }
+    return counts;
+  }, [searchedResources, availability]);
+
+  const filteredResources = useMemo(
+    () => availabilityFilter === 'all'
+      ? searchedResources
+      : searchedResources.filter((resource) => availability.get(resource.id)?.status === availabilityFilter),
+    [searchedResources, availability, availabilityFilter]
+  );
+
+  const clearFilters = () => {
+    setSearchQuery('');
+    setAvailabilityFilter('all');
+  };
+
   if (isLoading) {
     return (
       <aside className={styles.panel}>
@@ -42,7 +82,7 @@ export function ResourcePanel({ resources, isLoading }: ResourcePanelProps) {
     );
   }
 
-  const showingFiltered = searchQuery.trim() && filteredResources.length !== resources.length;
+  const showingFiltered = filteredResources.length !== resources.length;
 
   return (
     <aside className={styles.panel}>
@@ -78,6 +118,22 @@ export function ResourcePanel({ resources, isLoading }: ResourcePanelProps) {
         )}
       </div>
 
+      <div className={styles.availabilityFilters} role="group" aria-label="Filter by availability">
+        {AVAILABILITY_FILTERS.map((filter) => (
+          <button
+            key={filter.value}
+            className={`${styles.availabilityFilter} ${availabilityFilter === filter.value ? styles.active : ''}`}
+            onClick={() => setAvailabilityFilter(filter.value)}
+            aria-pressed={availabilityFilter === filter.value}
+            title={filter.title}
+          >
+            {filter.value !== 'all' && <span className={`${styles.statusDot} ${styles[filter.value]}`} />}
+            {filter.label}
+            <span className={styles.filterCount}>{statusCounts[filter.value]}</span>
+          </button>
+        ))}
+      </div>
+
       <div className={styles.list}>
         {filteredResources.length === 0 ? (
           <div className={styles.emptyState}>
@@ -87,13 +143,18 @@ export function ResourcePanel({ resources, isLoading }: ResourcePanelProps) {
               <path d="M8 11h6" />
             </svg>
             <span>No technicians found</span>
-            <button className={styles.clearSearch} onClick={() => setSearchQuery('')}>
-              Clear search
+            <button className={styles.clearSearch} onClick={clearFilters}>
+              Clear filters
             </button>
           </div>
         ) : (
           filteredResources.map((resource, index) => (
-            <DraggableResource key={resource.id} resource={resource} index={index} />
+            <DraggableResource
+              key={resource.id}
+              resource={resource}
+              availability={availability.get(resource.id)}
+              index={index}
+            />
           ))
         )}
       </div>
@@ -103,10 +164,11 @@ export function ResourcePanel({ resources, isLoading }: ResourcePanelProps) {
 
 interface DraggableResourceProps {
   resource: Resource;
+  availability: ResourceAvailability | undefined;
   index: number;
 }
 
-function DraggableResource({ resource, index }: DraggableResourceProps) {
+function DraggableResource({ resource, availability, index }: DraggableResourceProps) {
   const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
     id: `resource-${resource.id}`,
     data: {
@@ -154,6 +216,7 @@ function DraggableResource({ resource, index }: DraggableResourceProps) {
         <span className={styles.role} style={{ color: roleColor }}>
           {resource.role}
         </span>
+        {availability && <AvailabilityStrip availability={availability} />}
       </div>
       <div className={styles.dragHandle}>
         <svg viewBox="0 0 24 24" fill="currentColor">
@@ -168,3 +231,39 @@ function DraggableResource({ resource, index }: DraggableResourceProps) {
     </div>
   );
 }
+
+// Runs of consecutive free or busy days, so the strip renders a few segments instead of one per day
+function toSegments(busyDays: boolean[]): { busy: boolean; days: number }[] {
+  const segments: { busy: boolean; days: number }[] = [];
+  for (const busy of busyDays) {
+    const last = segments[segments.length - 1];
+    if (last && last.busy === busy) {
+      last.days++;
+    } else {
+      segments.push({ busy, days: 1 });
+    }
+  }
+  return segments;
+}
+
+function AvailabilityStrip({ availability }: { availability: ResourceAvailability }) {
+  const { busyDays, freeDays, status } = availability;
+  const label = `${freeDays} of ${busyDays.length} days free`;
+
+  return (
+    <div className={styles.availability} title={label}>
+      <div className={styles.strip} role="img" aria-label={label}>
+        {toSegments(busyDays).map((segment, i) => (
+          <span
+            key={i}
+            className={segment.busy ? styles.busySegment : styles.freeSegment}
+            style={{ flexGrow: segment.days }}
+          />
+        ))}
+      </div>
+      <span className={`${styles.freeDays} ${styles[status]}`}>
+        {freeDays === busyDays.length ? 'Free' : `${freeDays}d free`}
+      </span>
+    </div>
+  );
+}
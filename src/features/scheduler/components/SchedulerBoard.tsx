@@ -1,45 +1,86 @@
 'use client';
 
 import { useMemo, useCallback, useState, useRef, useEffect } from 'react';
-import { useDroppable } from '@dnd-kit/core';
-import { format, eachDayOfInterval, isWeekend, isToday, differenceInDays, startOfDay, addDays } from 'date-fns';
-import type { Team, Assignment, Resource, TimeRange } from '@/domain/types';
-import { findTeamLeaderGaps, formatGapPeriod } from '@/domain/teamLeaderValidation';
-import { useUIStore } from '@/lib/store/ui-store';
+import { useDraggable, useDroppable } from '@dnd-kit/core';
+import { format, eachDayOfInterval, isToday, getISOWeek, startOfWeek } from 'date-fns';
+import type { Team, Assignment, LeaderPeriod, Resource, TimeRange } from '@/domain/types';
+import {
+  findTeamLeaderGaps,
+  findLeaderPeriodsOutsideMembership,
+  formatGapPeriod,
+} from '@/domain/teamLeaderValidation';
+import { getNonWorkingDays, type NonWorkingDay, type WorkingCalendar } from '@/domain/workingCalendar';
+import { addDaysToDate, daysBetween, fromDateOnly, fromLocalDate, toDateOnly, toLocalDay } from '@/domain/dateOnly';
+import { getDayCount } from '@/domain/viewRange';
+import { selectGapCalendar, useUIStore } from '@/lib/store/ui-store';
+import {
+  MEMBER_ROW_HEIGHT,
+  ROW_OVERSCAN,
+  getRowOffsets,
+  getVisibleDays,
+  getVisibleFixedRows,
+  getVisibleRows,
+  useBoardViewport,
+  useMeasuredHeights,
+  useReportTimelineWidth,
+  type IndexRange,
+} from './boardVirtualization';
 import styles from './SchedulerBoard.module.css';
 
 interface SchedulerBoardProps {
   teams: Team[];
   assignments: Assignment[];
+  leaderPeriods: LeaderPeriod[];
   resources: Resource[];
   viewRange: TimeRange;
   dayWidth: number;
   onAssignmentDoubleClick?: (assignment: Assignment) => void;
   onAssignmentResize?: (id: string, newStart: string, newEnd: string) => void;
   onAssignmentDelete?: (assignmentId: string) => void;
+  onLeaderPeriodDoubleClick?: (leaderPeriod: LeaderPeriod) => void;
+  onLeaderPeriodResize?: (id: string, newStart: string, newEnd: string) => void;
+  onLeaderPeriodDelete?: (leaderPeriodId: string) => void;
+  onAddLeaderPeriod?: (teamId: string) => void;
+  onTeamDelete?: (teamId: string) => void;
   autoExpandTeamId?: string | null;
 }
 
+// Height of a collapsed team section until it has been measured (.teamRow plus border)
+const TEAM_ROW_ESTIMATE = 67;
+const HEADER_HEIGHT = 53; // .daysHeader plus border
+
 // Context menu state
 interface ContextMenu {
   x: number;
   y: number;
-  assignmentId: string;
+  kind: 'assignment' | 'leaderPeriod';
+  id: string;
 }
 
 export function SchedulerBoard({
   teams,
   assignments,
+  leaderPeriods,
   resources,
   viewRange,
   dayWidth,
   onAssignmentDoubleClick,
   onAssignmentResize,
   onAssignmentDelete,
+  onLeaderPeriodDoubleClick,
+  onLeaderPeriodResize,
+  onLeaderPeriodDelete,
+  onAddLeaderPeriod,
+  onTeamDelete,
   autoExpandTeamId,
 }: SchedulerBoardProps) {
   const [expandedTeams, setExpandedTeams] = useState<Set<string>>(new Set());
   const [contextMenu, setContextMenu] = useState<ContextMenu | null>(null);
+  const boardRef = useRef<HTMLDivElement>(null);
+  const focusTarget = useUIStore((state) => state.focusTarget);
+  const selectedBarId = useUIStore((state) => state.selectedAssignmentId ?? state.selectedLeaderPeriodId);
+  const workingCalendar = useUIStore((state) => state.workingCalendar);
+  const ignoreNonWorkingGaps = useUIStore((state) => state.ignoreNonWorkingGaps);
 
   // Auto-expand team when autoExpandTeamId changes
   const prevAutoExpandRef = useRef<string | null>(null);
@@ -54,6 +95,14 @@ export function SchedulerBoard({
     }
   }, [autoExpandTeamId]);
 
+  // Focus requested from the problems panel: expand the team, then scroll to it (see below)
+  const pendingFocusRef = useRef<number | null>(null);
+  useEffect(() => {
+    if (!focusTarget) return;
+    pendingFocusRef.current = focusTarget.requestedAt;
+    setExpandedTeams((prev) => (prev.has(focusTarget.teamId) ? prev : new Set(prev).add(focusTarget.teamId)));
+  }, [focusTarget]);
+
   // Close context menu when clicking outside
   useEffect(() => {
     const handleClickOutside = () => setContextMenu(null);
@@ -63,44 +112,19 @@ export function SchedulerBoard({
     }
   }, [contextMenu]);
 
-  const handleContextMenu = useCallback((e: React.MouseEvent, assignmentId: string) => {
+  const handleContextMenu = useCallback((e: React.MouseEvent, kind: ContextMenu['kind'], id: string) => {
     e.preventDefault();
-    setContextMenu({ x: e.clientX, y: e.clientY, assignmentId });
+    setContextMenu({ x: e.clientX, y: e.clientY, kind, id });
   }, []);
 
   const handleDeleteFromContext = useCallback(() => {
-    if (contextMenu && onAssignmentDelete) {
-      onAssignmentDelete(contextMenu.assignmentId);
+    if (contextMenu?.kind === 'assignment') {
+      onAssignmentDelete?.(contextMenu.id);
+    } else if (contextMenu?.kind === 'leaderPeriod') {
+      onLeaderPeriodDelete?.(contextMenu.id);
     }
     setContextMenu(null);
-  }, [contextMenu, onAssignmentDelete]);
-
-  // Check for team leader gaps across all teams
-  // Memoize based on stringified keys to prevent unnecessary recalculations
-  const teamIds = teams.map(t => t.id).join(',');
-  const assignmentKeys = assignments.map(a => `${a.id}:${a.start}:${a.end}:${a.isTeamLeader}`).join(',');
-  const viewRangeKey = `${viewRange.start.getTime()}-${viewRange.end.getTime()}`;
-
-  const hasAnyWarnings = useMemo(() => {
-    if (teams.length === 0) return false;
-    for (const team of teams) {
-      const gaps = findTeamLeaderGaps(team.id, assignments, viewRange);
-      if (gaps.length > 0) {
-        return true;
-      }
-    }
-    return false;
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [teamIds, assignmentKeys, viewRangeKey]);
-
-  // Update store when warning state changes
-  const prevWarningsRef = useRef<boolean | null>(null);
-  useEffect(() => {
-    if (prevWarningsRef.current !== hasAnyWarnings) {
-      prevWarningsRef.current = hasAnyWarnings;
-      useUIStore.getState().setValidationWarnings(hasAnyWarnings);
-    }
-  }, [hasAnyWarnings]);
+  }, [contextMenu, onAssignmentDelete, onLeaderPeriodDelete]);
 
   const days = useMemo(
     () => eachDayOfInterval({ start: viewRange.start, end: viewRange.end }),
@@ -109,41 +133,115 @@ export function SchedulerBoard({
 
   const totalDays = days.length;
 
+  const nonWorkingDays = useMemo(() => getNonWorkingDays(workingCalendar, days), [workingCalendar, days]);
+  const gapCalendar = selectGapCalendar({ workingCalendar, ignoreNonWorkingGaps });
+
+  const resourcesById = useMemo(() => new Map(resources.map((r) => [r.id, r])), [resources]);
+
   const getResourceById = useCallback(
-    (id: string) => resources.find((r) => r.id === id),
-    [resources]
+    (id: string) => resourcesById.get(id),
+    [resourcesById]
   );
 
+  // Assignments without a matching resource are listed in the problems panel
   const assignmentsByTeam = useMemo(() => {
     const map = new Map<string, (Assignment & { resource: Resource | undefined })[]>();
-    teams.forEach((team) => {
-      const teamAssignments = assignments
-        .filter((a) => a.teamId === team.id)
-        .map((a) => {
-          const resource = getResourceById(a.resourceId);
-          if (!resource) {
-            console.warn(`[SchedulerBoard] Assignment ${a.id} has resourceId "${a.resourceId}" but no matching resource found in resources list`);
-            console.warn(`[SchedulerBoard] Available resource IDs:`, resources.map(r => r.id).slice(0, 10));
-          }
-          return {
-            ...a,
-            resource,
-          };
-        });
-      map.set(team.id, teamAssignments);
-      
-      // Diagnostic logging for specific team
-      if (team.name === 'CR2501-02' || team.id.includes('CR2501-02')) {
-        console.log(`[SchedulerBoard] Team ${team.name} (${team.id}):`, {
-          totalAssignments: teamAssignments.length,
-          assignmentsWithResources: teamAssignments.filter(a => a.resource).length,
-          assignmentsWithoutResources: teamAssignments.filter(a => !a.resource).length,
-          resourceIds: teamAssignments.map(a => a.resourceId),
-        });
-      }
+    assignments.forEach((a) => {
+      const teamAssignments = map.get(a.teamId) || [];
+      teamAssignments.push({ ...a, resource: getResourceById(a.resourceId) });
+      map.set(a.teamId, teamAssignments);
+    });
+    return map;
+  }, [assignments, getResourceById]);
+
+  // Resources with a membership in view, in the order TeamSection lists their rows
+  const memberRowsByTeam = useMemo(() => {
+    const map = new Map<string, string[]>();
+    assignmentsByTeam.forEach((teamAssignments, teamId) => {
+      const resourceIds = new Set<string>();
+      teamAssignments.forEach((a) => {
+        if (toLocalDay(a.start) < viewRange.end && toLocalDay(a.end) > viewRange.start) {
+          resourceIds.add(a.resourceId);
+        }
+      });
+      map.set(teamId, Array.from(resourceIds));
     });
     return map;
-  }, [teams, assignments, getResourceById, resources]);
+  }, [assignmentsByTeam, viewRange]);
+
+  const leaderPeriodsByTeam = useMemo(() => {
+    const map = new Map<string, (LeaderPeriod & { resource: Resource | undefined })[]>();
+    leaderPeriods.forEach((l) => {
+      const teamLeaderPeriods = map.get(l.teamId) || [];
+      teamLeaderPeriods.push({ ...l, resource: getResourceById(l.resourceId) });
+      map.set(l.teamId, teamLeaderPeriods);
+    });
+    return map;
+  }, [leaderPeriods, getResourceById]);
+
+  // ==========================================================================
+  // Virtualisation - only the teams, member rows and days near the viewport are rendered
+  // ==========================================================================
+
+  const viewport = useBoardViewport(boardRef);
+  useReportTimelineWidth(viewport);
+  const { heights: measuredHeights, version: measuredVersion, measureRef } = useMeasuredHeights();
+
+  // Sections are measured once rendered; the key changes whenever the rows inside change
+  const layout = useMemo(() => {
+    const sections = teams.map((team) => {
+      const isExpanded = expandedTeams.has(team.id);
+      const memberRows = isExpanded ? (memberRowsByTeam.get(team.id)?.length ?? 0) : 0;
+      const key = `${team.id}:${isExpanded ? memberRows : 'collapsed'}`;
+      // Leader track plus member rows, or the empty state
+      const estimate = TEAM_ROW_ESTIMATE + (isExpanded ? (1 + Math.max(memberRows, 1)) * MEMBER_ROW_HEIGHT : 0);
+      return { key, memberRows, height: measuredHeights.get(key) ?? estimate };
+    });
+    return { sections, offsets: getRowOffsets(sections.map((s) => s.height)) };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [teams, expandedTeams, memberRowsByTeam, measuredVersion]);
+
+  // Rows start below the sticky header; the overscan also covers the header height
+  const viewTop = viewport.top - ROW_OVERSCAN;
+  const viewBottom = viewport.top + viewport.height + ROW_OVERSCAN;
+  const visibleTeams = getVisibleRows(layout.offsets, viewTop, viewBottom);
+  const visibleDays = getVisibleDays(viewport, totalDays, dayWidth);
+
+  // Member rows of a team that are near the viewport
+  const getVisibleMembers = (index: number): IndexRange => {
+    const { memberRows } = layout.sections[index];
+    const membersTop = layout.offsets[index + 1] - 1 - memberRows * MEMBER_ROW_HEIGHT;
+    return getVisibleFixedRows(memberRows, MEMBER_ROW_HEIGHT, viewTop - membersTop, viewBottom - membersTop);
+  };
+
+  // The bar may not be rendered yet, so the scroll position comes from the row layout
+  useEffect(() => {
+    const board = boardRef.current;
+    if (!board || !focusTarget || pendingFocusRef.current !== focusTarget.requestedAt) return;
+    const index = teams.findIndex((t) => t.id === focusTarget.teamId);
+    if (index === -1 || !expandedTeams.has(focusTarget.teamId)) return;
+    pendingFocusRef.current = null;
+
+    const { sections, offsets } = layout;
+    let top = offsets[index];
+    if (focusTarget.bar) {
+      // Member rows are the last rows of the section, the leader track is right above them
+      const membersTop = offsets[index + 1] - 1 - sections[index].memberRows * MEMBER_ROW_HEIGHT;
+      const assignment = focusTarget.bar.kind === 'assignment'
+        ? assignments.find((a) => a.id === focusTarget.bar?.id)
+        : undefined;
+      const row = assignment ? (memberRowsByTeam.get(focusTarget.teamId) ?? []).indexOf(assignment.resourceId) : -1;
+      top = membersTop + row * MEMBER_ROW_HEIGHT;
+    }
+    // Scroll to the row and the start of the period
+    const dayOffset = daysBetween(fromLocalDate(viewRange.start), toDateOnly(focusTarget.date));
+    board.scrollTo({
+      top: Math.max(0, top + HEADER_HEIGHT - board.clientHeight / 2),
+      left: Math.max(0, (dayOffset - 2) * dayWidth),
+      behavior: 'smooth',
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [focusTarget, expandedTeams, viewRange, dayWidth]);
 
   const toggleTeamExpanded = useCallback((teamId: string) => {
     setExpandedTeams((prev) => {
@@ -158,44 +256,44 @@ export function SchedulerBoard({
   }, []);
 
   return (
-    <div className={styles.board}>
+    <div ref={boardRef} className={styles.board}>
       {/* Timeline header */}
       <div className={styles.timeline} style={{ width: totalDays * dayWidth }}>
-        <div className={styles.timelineHeader}>
-          <div className={styles.teamLabelSpacer} />
-          <div className={styles.daysHeader}>
-            {days.map((day) => (
-              <div
-                key={day.toISOString()}
-                className={`${styles.dayHeader} ${isWeekend(day) ? styles.weekend : ''} ${isToday(day) ? styles.today : ''}`}
-                style={{ width: dayWidth }}
-              >
-                <span className={styles.dayName}>{format(day, 'EEE')}</span>
-                <span className={styles.dayNumber}>{format(day, 'd')}</span>
-              </div>
-            ))}
-          </div>
-        </div>
+        <DaysHeader days={days} nonWorkingDays={nonWorkingDays} visibleDays={visibleDays} dayWidth={dayWidth} />
 
-        {/* Teams rows */}
+        {/* Teams rows, with spacers for the teams that are scrolled out of view */}
         <div className={styles.teamsContainer}>
-          {teams.map((team) => (
+          <div style={{ height: layout.offsets[visibleTeams.start] }} />
+          {teams.slice(visibleTeams.start, visibleTeams.end).map((team, i) => (
             <TeamSection
               key={team.id}
               team={team}
               assignments={assignmentsByTeam.get(team.id) || []}
-              allAssignments={assignments}
+              leaderPeriods={leaderPeriodsByTeam.get(team.id) || []}
               days={days}
+              nonWorkingDays={nonWorkingDays}
+              gapCalendar={gapCalendar}
+              visibleDays={visibleDays}
+              visibleMembers={getVisibleMembers(visibleTeams.start + i)}
+              measureKey={layout.sections[visibleTeams.start + i].key}
+              measureRef={measureRef}
               dayWidth={dayWidth}
               viewRange={viewRange}
               onAssignmentDoubleClick={onAssignmentDoubleClick}
               onAssignmentResize={onAssignmentResize}
               onAssignmentDelete={onAssignmentDelete}
+              onLeaderPeriodDoubleClick={onLeaderPeriodDoubleClick}
+              onLeaderPeriodResize={onLeaderPeriodResize}
+              onLeaderPeriodDelete={onLeaderPeriodDelete}
+              onAddLeaderPeriod={onAddLeaderPeriod}
+              onDelete={onTeamDelete && !team.loadError ? () => onTeamDelete(team.id) : undefined}
               onContextMenu={handleContextMenu}
+              selectedBarId={selectedBarId}
               isExpanded={expandedTeams.has(team.id)}
               onToggleExpand={() => toggleTeamExpanded(team.id)}
             />
           ))}
+          <div style={{ height: layout.offsets[teams.length] - layout.offsets[visibleTeams.end] }} />
         </div>
       </div>
 
@@ -211,7 +309,7 @@ export function SchedulerBoard({
               <path d="M3 6h18M19 6v14a2 2 0 01-2 2H7a2 2 0 01-2-2V6m3 0V4a2 2 0 012-2h4a2 2 0 012 2v2" />
               <path d="M10 11v6M14 11v6" />
             </svg>
-            Delete Assignment
+            {contextMenu.kind === 'leaderPeriod' ? 'Delete Leader Period' : 'Delete Assignment'}
           </button>
         </div>
       )}
@@ -222,14 +320,26 @@ export function SchedulerBoard({
 interface TeamSectionProps {
   team: Team;
   assignments: (Assignment & { resource: Resource | undefined })[];
-  allAssignments: Assignment[];
+  leaderPeriods: (LeaderPeriod & { resource: Resource | undefined })[];
   days: Date[];
+  nonWorkingDays: (NonWorkingDay | null)[]; // By day index
+  gapCalendar: WorkingCalendar | null; // Set when leader gaps on non-working days only are ignored
+  visibleDays: IndexRange;
+  visibleMembers: IndexRange;
+  measureKey: string;
+  measureRef: (node: HTMLElement | null) => void;
   dayWidth: number;
   viewRange: TimeRange;
   onAssignmentDoubleClick?: (assignment: Assignment) => void;
   onAssignmentResize?: (id: string, newStart: string, newEnd: string) => void;
   onAssignmentDelete?: (assignmentId: string) => void;
-  onContextMenu?: (e: React.MouseEvent, assignmentId: string) => void;
+  onLeaderPeriodDoubleClick?: (leaderPeriod: LeaderPeriod) => void;
+  onLeaderPeriodResize?: (id: string, newStart: string, newEnd: string) => void;
+  onLeaderPeriodDelete?: (leaderPeriodId: string) => void;
+  onAddLeaderPeriod?: (teamId: string) => void;
+  onDelete?: () => void;
+  onContextMenu?: (e: React.MouseEvent, kind: ContextMenu['kind'], id: string) => void;
+  selectedBarId: string | null;
   isExpanded: boolean;
   onToggleExpand: () => void;
 }
@@ -237,23 +347,37 @@ interface TeamSectionProps {
 function TeamSection({
   team,
   assignments,
-  allAssignments,
+  leaderPeriods,
   days,
+  nonWorkingDays,
+  gapCalendar,
+  visibleDays,
+  visibleMembers,
+  measureKey,
+  measureRef,
   dayWidth,
   viewRange,
   onAssignmentDoubleClick,
   onAssignmentResize,
   onAssignmentDelete,
+  onLeaderPeriodDoubleClick,
+  onLeaderPeriodResize,
+  onLeaderPeriodDelete,
+  onAddLeaderPeriod,
+  onDelete,
   onContextMenu,
+  selectedBarId,
   isExpanded,
   onToggleExpand,
 }: TeamSectionProps) {
+  // A team that could not be loaded completely is read-only, so nothing can be dropped on it
   const { setNodeRef, isOver } = useDroppable({
     id: `team-${team.id}`,
     data: {
       type: 'team',
       team,
     },
+    disabled: Boolean(team.loadError),
   });
 
   const totalWidth = days.length * dayWidth;
@@ -261,8 +385,8 @@ function TeamSection({
   // Filter assignments that overlap with the current view range
   const visibleAssignments = useMemo(() => {
     return assignments.filter((assignment) => {
-      const assignmentStart = new Date(assignment.start);
-      const assignmentEnd = new Date(assignment.end);
+      const assignmentStart = toLocalDay(assignment.start);
+      const assignmentEnd = toLocalDay(assignment.end);
       // Check if assignment overlaps with view range
       return assignmentStart < viewRange.end && assignmentEnd > viewRange.start;
     });
@@ -274,15 +398,31 @@ function TeamSection({
     return uniqueResourceIds.size;
   }, [visibleAssignments]);
 
-  // Check for team leader gaps
+  // Check for team leader gaps (not for a team whose leaders may be missing from the load)
   const leaderGaps = useMemo(() => {
-    return findTeamLeaderGaps(team.id, allAssignments, viewRange);
-  }, [team.id, allAssignments, viewRange]);
+    if (team.loadError) return [];
+    return findTeamLeaderGaps(team.id, assignments, leaderPeriods, viewRange, { calendar: gapCalendar });
+  }, [team.id, team.loadError, assignments, leaderPeriods, viewRange, gapCalendar]);
+
+  // Leader periods where the leader is not a member of the team
+  const leadersOutsideMembership = useMemo(() => {
+    if (team.loadError) return [];
+    return findLeaderPeriodsOutsideMembership(team.id, assignments, leaderPeriods);
+  }, [team.id, team.loadError, assignments, leaderPeriods]);
 
-  const hasLeaderWarning = leaderGaps.length > 0;
+  const hasLeaderWarning = leaderGaps.length > 0 || leadersOutsideMembership.length > 0;
 
   return (
-    <div className={`${styles.teamSection} ${hasLeaderWarning ? styles.hasWarning : ''}`}>
+    // The whole section is the drop zone, so a bar can be dragged along its own member row
+    <div
+      ref={(node) => {
+        setNodeRef(node);
+        measureRef(node);
+      }}
+      data-team-id={team.id}
+      data-measure-key={measureKey}
+      className={`${styles.teamSection} ${hasLeaderWarning ? styles.hasWarning : ''}`}
+    >
       {/* Team Header Row */}
       <div className={styles.teamRow}>
         {/* Team label */}
@@ -310,27 +450,39 @@ function TeamSection({
             </div>
             <span className={styles.memberCount}>{uniqueMemberCount} member{uniqueMemberCount !== 1 ? 's' : ''}</span>
           </div>
+          {onDelete && (
+            <button className={styles.deleteTeamButton} onClick={onDelete} title="Delete team" aria-label="Delete team">
+              <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M3 6h18M8 6V4h8v2M19 6l-1 14H6L5 6M10 11v6M14 11v6" />
+              </svg>
+            </button>
+          )}
         </div>
 
-        {/* Drop zone for the team */}
+        {/* Team timeline, highlighted while something is dragged over the team */}
         <div
-          ref={setNodeRef}
           className={`${styles.teamTimeline} ${isOver ? styles.dropTarget : ''}`}
           style={{ width: totalWidth }}
         >
-          {/* Grid lines */}
-          {days.map((day) => (
-            <div
-              key={day.toISOString()}
-              className={`${styles.dayCell} ${isWeekend(day) ? styles.weekend : ''} ${isToday(day) ? styles.today : ''}`}
-              style={{ width: dayWidth }}
-            />
-          ))}
+          <DayCells days={days} nonWorkingDays={nonWorkingDays} visibleDays={visibleDays} dayWidth={dayWidth} />
         </div>
       </div>
 
+      {/* Load Error Banner - the crew's memberships or leaders are missing, so the team is read-only */}
+      {team.loadError && (
+        <div className={styles.loadError}>
+          <svg viewBox="0 0 24 24" fill="currentColor">
+            <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm1 15h-2v-2h2v2zm0-4h-2V7h2v6z"/>
+          </svg>
+          <div className={styles.warningContent}>
+            <strong>Could not be loaded from IFS Cloud - read-only</strong>
+            <span>{team.loadError}</span>
+          </div>
+        </div>
+      )}
+
       {/* Team Leader Warning Banner */}
-      {hasLeaderWarning && (
+      {leaderGaps.length > 0 && (
         <div className={styles.leaderWarning}>
           <svg viewBox="0 0 24 24" fill="currentColor">
             <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm1 15h-2v-2h2v2zm0-4h-2V7h2v6z"/>
@@ -347,9 +499,47 @@ function TeamSection({
         </div>
       )}
 
-      {/* Expanded Member Rows - grouped by resource */}
+      {/* Leader Outside Membership Warning Banner */}
+      {leadersOutsideMembership.length > 0 && (
+        <div className={styles.leaderWarning}>
+          <svg viewBox="0 0 24 24" fill="currentColor">
+            <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm1 15h-2v-2h2v2zm0-4h-2V7h2v6z"/>
+          </svg>
+          <div className={styles.warningContent}>
+            <strong>Team Leader is not a member</strong>
+            <span>
+              {leadersOutsideMembership
+                .map((l) => `${leaderPeriods.find((p) => p.id === l.id)?.resource?.description || l.resourceId}: ${formatGapPeriod({ start: toLocalDay(l.start), end: toLocalDay(l.end) })}`)
+                .join(', ')}
+            </span>
+          </div>
+        </div>
+      )}
+
+      {/* Leader track - leader periods are separate from memberships, as in IFS */}
+      {isExpanded && (
+        <LeaderTrackRow
+          team={team}
+          leaderPeriods={leaderPeriods}
+          invalidLeaderPeriodIds={leadersOutsideMembership.map((l) => l.id)}
+          days={days}
+          nonWorkingDays={nonWorkingDays}
+          visibleDays={visibleDays}
+          dayWidth={dayWidth}
+          viewRange={viewRange}
+          onDoubleClick={onLeaderPeriodDoubleClick}
+          onResize={onLeaderPeriodResize}
+          onDelete={onLeaderPeriodDelete}
+          onAdd={() => onAddLeaderPeriod?.(team.id)}
+          onContextMenu={onContextMenu}
+          selectedBarId={selectedBarId}
+        />
+      )}
+
+      {/* Expanded Member Rows - grouped by resource, spacers for the rows out of view */}
       {isExpanded && visibleAssignments.length > 0 && (
         <div className={styles.membersContainer}>
+          <div style={{ height: visibleMembers.start * MEMBER_ROW_HEIGHT }} />
           {(() => {
             // Group assignments by resourceId
             const groupedByResource = new Map<string, (Assignment & { resource: Resource | undefined })[]>();
@@ -361,21 +551,26 @@ function TeamSection({
               groupedByResource.get(resourceId)!.push(assignment);
             });
 
-            return Array.from(groupedByResource.entries()).map(([resourceId, resourceAssignments]) => (
+            const rows = Array.from(groupedByResource.entries());
+            return rows.slice(visibleMembers.start, visibleMembers.end).map(([resourceId, resourceAssignments]) => (
               <MemberRow
                 key={resourceId}
                 assignments={resourceAssignments}
                 team={team}
                 days={days}
+                nonWorkingDays={nonWorkingDays}
+                visibleDays={visibleDays}
                 dayWidth={dayWidth}
                 viewRange={viewRange}
                 onAssignmentDoubleClick={onAssignmentDoubleClick}
                 onAssignmentResize={onAssignmentResize}
                 onAssignmentDelete={onAssignmentDelete}
                 onContextMenu={onContextMenu}
+                selectedBarId={selectedBarId}
               />
             ));
           })()}
+          <div style={{ height: Math.max(0, uniqueMemberCount - visibleMembers.end) * MEMBER_ROW_HEIGHT }} />
         </div>
       )}
 
@@ -393,24 +588,30 @@ interface MemberRowProps {
   assignments: (Assignment & { resource: Resource | undefined })[];
   team: Team;
   days: Date[];
+  nonWorkingDays: (NonWorkingDay | null)[];
+  visibleDays: IndexRange;
   dayWidth: number;
   viewRange: TimeRange;
   onAssignmentDoubleClick?: (assignment: Assignment) => void;
   onAssignmentResize?: (id: string, newStart: string, newEnd: string) => void;
   onAssignmentDelete?: (assignmentId: string) => void;
-  onContextMenu?: (e: React.MouseEvent, assignmentId: string) => void;
+  onContextMenu?: (e: React.MouseEvent, kind: ContextMenu['kind'], id: string) => void;
+  selectedBarId: string | null;
 }
 
 function MemberRow({
   assignments,
   team,
   days,
+  nonWorkingDays,
+  visibleDays,
   dayWidth,
   viewRange,
   onAssignmentDoubleClick,
   onAssignmentResize,
   onAssignmentDelete,
   onContextMenu,
+  selectedBarId,
 }: MemberRowProps) {
   const totalWidth = days.length * dayWidth;
   const resource = assignments[0]?.resource;
@@ -426,12 +627,12 @@ function MemberRow({
 
   // Sort assignments by start date for display
   const sortedAssignments = [...assignments].sort(
-    (a, b) => new Date(a.start).getTime() - new Date(b.start).getTime()
+    (a, b) => toLocalDay(a.start).getTime() - toLocalDay(b.start).getTime()
   );
 
   // Format date ranges for display
   const dateRangesText = sortedAssignments.length === 1
-    ? `${format(new Date(sortedAssignments[0].start), 'MMM d')} — ${format(new Date(sortedAssignments[0].end), 'MMM d')}`
+    ? `${format(toLocalDay(sortedAssignments[0].start), 'MMM d')} — ${format(toLocalDay(sortedAssignments[0].end), 'MMM d')}`
     : `${sortedAssignments.length} periods`;
 
   return (
@@ -453,14 +654,7 @@ function MemberRow({
 
       {/* Member timeline */}
       <div className={styles.memberTimeline} style={{ width: totalWidth }}>
-        {/* Grid lines */}
-        {days.map((day) => (
-          <div
-            key={day.toISOString()}
-            className={`${styles.dayCell} ${styles.memberCell} ${isWeekend(day) ? styles.weekend : ''} ${isToday(day) ? styles.today : ''}`}
-            style={{ width: dayWidth }}
-          />
-        ))}
+        <DayCells days={days} nonWorkingDays={nonWorkingDays} visibleDays={visibleDays} dayWidth={dayWidth} className={styles.memberCell} />
 
         {/* Assignment bars - one for each period */}
         {sortedAssignments.map((assignment) => (
@@ -470,10 +664,97 @@ function MemberRow({
             teamColor={team.color}
             viewRange={viewRange}
             dayWidth={dayWidth}
+            isDraggable
+            isSelected={assignment.id === selectedBarId}
             onDoubleClick={() => onAssignmentDoubleClick?.(assignment)}
             onResize={onAssignmentResize}
             onDelete={() => onAssignmentDelete?.(assignment.id)}
-            onContextMenu={(e) => onContextMenu?.(e, assignment.id)}
+            onContextMenu={(e) => onContextMenu?.(e, 'assignment', assignment.id)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+interface LeaderTrackRowProps {
+  team: Team;
+  leaderPeriods: (LeaderPeriod & { resource: Resource | undefined })[];
+  invalidLeaderPeriodIds: string[];
+  days: Date[];
+  nonWorkingDays: (NonWorkingDay | null)[];
+  visibleDays: IndexRange;
+  dayWidth: number;
+  viewRange: TimeRange;
+  onDoubleClick?: (leaderPeriod: LeaderPeriod) => void;
+  onResize?: (id: string, newStart: string, newEnd: string) => void;
+  onDelete?: (leaderPeriodId: string) => void;
+  onAdd?: () => void;
+  onContextMenu?: (e: React.MouseEvent, kind: ContextMenu['kind'], id: string) => void;
+  selectedBarId: string | null;
+}
+
+function LeaderTrackRow({
+  team,
+  leaderPeriods,
+  invalidLeaderPeriodIds,
+  days,
+  nonWorkingDays,
+  visibleDays,
+  dayWidth,
+  viewRange,
+  onDoubleClick,
+  onResize,
+  onDelete,
+  onAdd,
+  onContextMenu,
+  selectedBarId,
+}: LeaderTrackRowProps) {
+  const totalWidth = days.length * dayWidth;
+
+  return (
+    <div className={`${styles.memberRow} ${styles.leaderRow}`}>
+      {/* Leader track label */}
+      <div className={styles.memberLabel}>
+        <div className={styles.memberAvatar} style={{ background: '#f59e0b30', color: '#f59e0b' }}>
+          <svg className={styles.leaderTrackIcon} viewBox="0 0 24 24" fill="currentColor">
+            <circle cx="12" cy="7" r="4" />
+            <path d="M12 14c-4 0-8 2-8 4v2h16v-2c0-2-4-4-8-4z" />
+            <path d="M12 1l1.5 2.5L16 4l-1.5 1L16 6H8l1.5-1L8 4l2.5-.5L12 1z" />
+          </svg>
+        </div>
+        <div className={styles.memberInfo}>
+          <span className={styles.memberName}>Team Leaders</span>
+          <span className={styles.memberDates}>
+            {leaderPeriods.length} period{leaderPeriods.length !== 1 ? 's' : ''}
+          </span>
+        </div>
+        <button className={styles.addLeaderButton} onClick={onAdd} title="Add leader period">
+          <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <path d="M12 5v14M5 12h14" />
+          </svg>
+        </button>
+      </div>
+
+      {/* Leader timeline */}
+      <div className={styles.memberTimeline} style={{ width: totalWidth }}>
+        <DayCells days={days} nonWorkingDays={nonWorkingDays} visibleDays={visibleDays} dayWidth={dayWidth} className={styles.memberCell} />
+
+        {leaderPeriods.map((leaderPeriod) => (
+          <ResizableAssignmentBar
+            key={leaderPeriod.id}
+            assignment={leaderPeriod}
+            teamColor={team.color}
+            viewRange={viewRange}
+            dayWidth={dayWidth}
+            isLeader
+            isInvalid={invalidLeaderPeriodIds.includes(leaderPeriod.id)}
+            isSelected={leaderPeriod.id === selectedBarId}
+            label={leaderPeriod.resource?.description || leaderPeriod.resourceId}
+            onDoubleClick={() => onDoubleClick?.(leaderPeriod)}
+            onResize={onResize}
+            onDelete={() => onDelete?.(leaderPeriod.id)}
+            onContextMenu={(e) => onContextMenu?.(e, 'leaderPeriod', leaderPeriod.id)}
           />
         ))}
       </div>
@@ -481,46 +762,205 @@ function MemberRow({
   );
 }
 
+interface DaysHeaderProps {
+  days: Date[];
+  nonWorkingDays: (NonWorkingDay | null)[]; // By day index
+  visibleDays: IndexRange;
+  dayWidth: number;
+}
+
+// Below this day width the header shows month and week bands instead of days
+const BANDS_BELOW_DAY_WIDTH = 24;
+
+interface DateBand {
+  key: string;
+  label: string;
+  lastDay: Date;
+  start: number; // Index of the first day
+  length: number; // Days
+  isCurrent: boolean;
+}
+
+// Consecutive days with the same key form one band
+function getDateBands(days: Date[], getKey: (day: Date) => string, getLabel: (day: Date) => string): DateBand[] {
+  const bands: DateBand[] = [];
+  days.forEach((day, index) => {
+    const key = getKey(day);
+    const last = bands[bands.length - 1];
+    if (last?.key === key) {
+      last.length++;
+      last.lastDay = day;
+      last.isCurrent ||= isToday(day);
+    } else {
+      bands.push({ key, label: getLabel(day), lastDay: day, start: index, length: 1, isCurrent: isToday(day) });
+    }
+  });
+  return bands;
+}
+
+// Day columns of the timeline header; only the visible days are rendered.
+// Zoomed far out, the days are too narrow to label and month and week bands are shown instead.
+export function DaysHeader({ days, nonWorkingDays, visibleDays, dayWidth }: DaysHeaderProps) {
+  const showBands = dayWidth < BANDS_BELOW_DAY_WIDTH;
+
+  const bandRows = useMemo(
+    () =>
+      showBands
+        ? [
+          getDateBands(days, (day) => format(day, 'yyyy-MM'), (day) => format(day, 'MMMM yyyy')),
+          getDateBands(
+            days,
+            (day) => startOfWeek(day, { weekStartsOn: 1 }).toISOString(),
+            (day) => `W${getISOWeek(day)}`
+          ),
+        ]
+        : [],
+    [days, showBands]
+  );
+
+  if (showBands) {
+    return (
+      <div className={styles.timelineHeader}>
+        <div className={styles.teamLabelSpacer} />
+        <div className={styles.daysHeader} style={{ width: days.length * dayWidth }}>
+          {bandRows.map((bands, row) => (
+            <div key={row} className={styles.bandRow}>
+              {bands.map((band) => (
+                <div
+                  key={band.key}
+                  className={`${styles.band} ${band.isCurrent ? styles.today : ''}`}
+                  style={{ left: band.start * dayWidth, width: band.length * dayWidth }}
+                  title={`${format(days[band.start], 'MMM d')} — ${format(band.lastDay, 'MMM d, yyyy')}`}
+                >
+                  {band.label}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={styles.timelineHeader}>
+      <div className={styles.teamLabelSpacer} />
+      <div className={styles.daysHeader} style={{ width: days.length * dayWidth }}>
+        {days.slice(visibleDays.start, visibleDays.end).map((day, i) => {
+          const nonWorking = nonWorkingDays[visibleDays.start + i];
+          return (
+            <div
+              key={day.toISOString()}
+              className={`${styles.dayHeader} ${nonWorkingClass(nonWorking)} ${isToday(day) ? styles.today : ''}`}
+              style={{ left: (visibleDays.start + i) * dayWidth, width: dayWidth }}
+              title={nonWorking && nonWorking.kind !== 'weekend' ? `${format(day, 'EEE, MMM d')}: ${nonWorking.name}` : undefined}
+            >
+              <span className={styles.dayName}>{format(day, 'EEE')}</span>
+              <span className={styles.dayNumber}>{format(day, 'd')}</span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+interface DayCellsProps {
+  days: Date[];
+  nonWorkingDays: (NonWorkingDay | null)[]; // By day index
+  visibleDays: IndexRange;
+  dayWidth: number;
+  className?: string;
+}
+
+// Weekends are shaded; holidays and shutdowns are also hatched, so they stand out on weekdays
+function nonWorkingClass(nonWorking: NonWorkingDay | null): string {
+  if (!nonWorking) return '';
+  return nonWorking.kind === 'weekend' ? styles.nonWorking : `${styles.nonWorking} ${styles.holiday}`;
+}
+
+// Grid lines of a timeline row, positioned by day so the hidden days need no elements
+export function DayCells({ days, nonWorkingDays, visibleDays, dayWidth, className = '' }: DayCellsProps) {
+  return (
+    <>
+      {days.slice(visibleDays.start, visibleDays.end).map((day, i) => (
+        <div
+          key={day.toISOString()}
+          className={`${styles.dayCell} ${className} ${nonWorkingClass(nonWorkingDays[visibleDays.start + i])} ${isToday(day) ? styles.today : ''}`}
+          style={{ left: (visibleDays.start + i) * dayWidth, width: dayWidth }}
+        />
+      ))}
+    </>
+  );
+}
+
+// One of several bars stacked in the height of a row, see ResourceBoard
+export interface BarLane {
+  index: number;
+  count: number;
+}
+
 interface ResizableAssignmentBarProps {
-  assignment: Assignment & { resource: Resource | undefined };
+  assignment: { id: string; start: string; end: string };
   teamColor: string;
   viewRange: TimeRange;
   dayWidth: number;
+  isLeader?: boolean; // Leader period bar on the leader track
+  isInvalid?: boolean;
+  isDraggable?: boolean; // Membership bars can be moved in time or to another team
+  isSelected?: boolean;
+  label?: string;
+  showLabel?: boolean; // Print the label on a membership bar (leader bars always show it)
+  lane?: BarLane;
   onDoubleClick?: () => void;
   onResize?: (id: string, newStart: string, newEnd: string) => void;
   onDelete?: () => void;
   onContextMenu?: (e: React.MouseEvent) => void;
 }
 
-function ResizableAssignmentBar({
+export function ResizableAssignmentBar({
   assignment,
   teamColor,
   viewRange,
   dayWidth,
+  isLeader = false,
+  isInvalid = false,
+  isDraggable = false,
+  isSelected = false,
+  label,
+  showLabel = false,
+  lane,
   onDoubleClick,
   onResize,
   onDelete,
   onContextMenu,
 }: ResizableAssignmentBarProps) {
   const [isResizing, setIsResizing] = useState<'left' | 'right' | null>(null);
+  // The moved bar is previewed in the scheduler's DragOverlay, this one stays in place
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
+    id: `assignment-${assignment.id}`,
+    data: {
+      type: 'assignment',
+      assignmentId: assignment.id,
+    },
+    disabled: !isDraggable || isResizing !== null,
+  });
   const [resizeOffset, setResizeOffset] = useState(0);
-  const barRef = useRef<HTMLDivElement>(null);
   const startXRef = useRef(0);
   const originalStartRef = useRef(assignment.start);
   const originalEndRef = useRef(assignment.end);
 
-  const startDate = new Date(assignment.start);
-  const endDate = new Date(assignment.end);
+  const startDate = toDateOnly(assignment.start);
+  const endDate = toDateOnly(assignment.end);
   
-  // Calculate position and width
-  const viewStart = startOfDay(viewRange.start);
-  const offsetDays = differenceInDays(startOfDay(startDate), viewStart);
-  const durationDays = differenceInDays(endDate, startDate);
+  // Calculate position and width in whole days, so DST changes in the view do not shift the bar
+  const offsetDays = daysBetween(fromLocalDate(viewRange.start), startDate);
+  const durationDays = daysBetween(startDate, endDate);
   
   // Clamp to visible range
   const visibleStartDays = Math.max(0, offsetDays);
   const visibleEndDays = Math.min(
-    differenceInDays(viewRange.end, viewStart),
+    getDayCount(viewRange),
     offsetDays + durationDays
   );
   const visibleWidthDays = Math.max(0, visibleEndDays - visibleStartDays);
@@ -565,27 +1005,27 @@ function ResizableAssignmentBar({
         const daysDelta = Math.round(resizeOffset / dayWidth);
         
         if (daysDelta !== 0) {
-          const originalStart = new Date(originalStartRef.current);
-          const originalEnd = new Date(originalEndRef.current);
+          const originalStart = toDateOnly(originalStartRef.current);
+          const originalEnd = toDateOnly(originalEndRef.current);
           
           let newStart = originalStart;
           let newEnd = originalEnd;
 
           if (isResizing === 'left') {
-            newStart = addDays(originalStart, daysDelta);
+            newStart = addDaysToDate(originalStart, daysDelta);
             // Ensure start doesn't go past end - 1 day
             if (newStart >= newEnd) {
-              newStart = addDays(newEnd, -1);
+              newStart = addDaysToDate(newEnd, -1);
             }
           } else {
-            newEnd = addDays(originalEnd, daysDelta);
+            newEnd = addDaysToDate(originalEnd, daysDelta);
             // Ensure end doesn't go before start + 1 day
             if (newEnd <= newStart) {
-              newEnd = addDays(newStart, 1);
+              newEnd = addDaysToDate(newStart, 1);
             }
           }
 
-          onResize(assignment.id, newStart.toISOString(), newEnd.toISOString());
+          onResize(assignment.id, fromDateOnly(newStart), fromDateOnly(newEnd));
         }
       }
       
@@ -614,22 +1054,29 @@ function ResizableAssignmentBar({
 
   return (
     <div
-      ref={barRef}
-      className={`${styles.assignmentBar} ${isResizing ? styles.resizing : ''} ${assignment.isTeamLeader ? styles.teamLeaderBar : ''}`}
+      ref={setNodeRef}
+      data-bar-id={assignment.id}
+      {...attributes}
+      {...listeners}
+      className={`${styles.assignmentBar} ${isResizing ? styles.resizing : ''} ${isDragging ? styles.dragging : ''} ${isDraggable ? styles.draggable : ''} ${isSelected ? styles.selected : ''} ${isLeader ? styles.teamLeaderBar : ''} ${isInvalid ? styles.invalidLeaderBar : ''}`}
       style={{
         left: adjustedLeft,
         width: adjustedWidth,
-        background: assignment.isTeamLeader ? `${teamColor}40` : `${teamColor}25`,
-        borderColor: teamColor,
+        background: isLeader ? `${teamColor}40` : `${teamColor}25`,
+        borderColor: isInvalid ? undefined : teamColor,
+        ...(lane && lane.count > 1
+          ? { top: `calc(${(lane.index / lane.count) * 100}% + 4px)`, bottom: 'auto', height: `calc(${100 / lane.count}% - 8px)` }
+          : {}),
       }}
+      title={isInvalid ? 'Team Leader is not a member of the team for this whole period' : label}
       onDoubleClick={isResizing ? undefined : onDoubleClick}
       onContextMenu={onContextMenu}
       role="button"
       tabIndex={0}
       onKeyDown={handleKeyDown}
     >
-      {/* Team Leader Icon */}
-      {assignment.isTeamLeader && (
+      {/* Team Leader Icon and name */}
+      {isLeader && (
         <div className={styles.teamLeaderIcon} style={{ color: teamColor }}>
           <svg viewBox="0 0 24 24" fill="currentColor">
             {/* Person with crown - Team Leader */}
@@ -637,16 +1084,23 @@ function ResizableAssignmentBar({
             <path d="M12 14c-4 0-8 2-8 4v2h16v-2c0-2-4-4-8-4z" />
             <path d="M12 1l1.5 2.5L16 4l-1.5 1L16 6H8l1.5-1L8 4l2.5-.5L12 1z" />
           </svg>
+          {label && <span className={styles.teamLeaderName}>{label}</span>}
         </div>
       )}
       
-      {/* Resize handles */}
+      {!isLeader && showLabel && label && (
+        <span className={styles.assignmentLabel} style={{ color: teamColor }}>{label}</span>
+      )}
+
+      {/* Resize handles - keep the pointer down from starting a move */}
       <div
         className={styles.resizeHandleLeft}
+        onPointerDown={(e) => e.stopPropagation()}
         onMouseDown={(e) => handleMouseDown(e, 'left')}
       />
       <div
         className={styles.resizeHandleRight}
+        onPointerDown={(e) => e.stopPropagation()}
         onMouseDown={(e) => handleMouseDown(e, 'right')}
       />
     </div>
@@ -0,0 +1,181 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState, type RefObject } from 'react';
+import { useUIStore } from '@/lib/store/ui-store';
+
+// Row and column windowing for the boards: only rows and days near the visible
+// part of the scroll container are rendered, the rest is replaced by spacers.
+
+export const LABEL_WIDTH = 220;      // Sticky label column, .teamLabel / .memberLabel width
+export const MEMBER_ROW_HEIGHT = 52; // .memberRow min-height, border included
+export const ROW_OVERSCAN = 600;     // Pixels rendered above and below the visible area
+export const COLUMN_OVERSCAN = 7;    // Days rendered left and right of the visible area
+
+// Scroll positions are snapped to these steps, so scrolling re-renders the board
+// only every few rows or days. Both are smaller than the overscan.
+const SCROLL_STEP_Y = 200;
+const SCROLL_STEP_X = 100;
+
+export interface BoardViewport {
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+  clientWidth: number; // Unpadded width of the scroll container
+}
+
+// Half-open range of item indexes: start included, end excluded
+export interface IndexRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Track the scroll position and size of a scroll container
+ */
+export function useBoardViewport(ref: RefObject<HTMLElement>): BoardViewport {
+  const [viewport, setViewport] = useState<BoardViewport>({ top: 0, left: 0, width: 0, height: 0, clientWidth: 0 });
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+
+    let frame = 0;
+    const read = () => {
+      frame = 0;
+      const next = {
+        top: Math.floor(element.scrollTop / SCROLL_STEP_Y) * SCROLL_STEP_Y,
+        left: Math.floor(element.scrollLeft / SCROLL_STEP_X) * SCROLL_STEP_X,
+        width: element.clientWidth + SCROLL_STEP_X,
+        height: element.clientHeight + SCROLL_STEP_Y,
+        clientWidth: element.clientWidth,
+      };
+      setViewport((prev) =>
+        prev.top === next.top && prev.left === next.left && prev.height === next.height && prev.clientWidth === next.clientWidth
+          ? prev
+          : next
+      );
+    };
+    const schedule = () => {
+      if (!frame) frame = requestAnimationFrame(read);
+    };
+
+    read();
+    element.addEventListener('scroll', schedule, { passive: true });
+    const observer = new ResizeObserver(schedule);
+    observer.observe(element);
+
+    return () => {
+      element.removeEventListener('scroll', schedule);
+      observer.disconnect();
+      if (frame) cancelAnimationFrame(frame);
+    };
+  }, [ref]);
+
+  return viewport;
+}
+
+/**
+ * Tell the store how wide the day columns are on screen, so picked ranges can be zoomed to fit
+ */
+export function useReportTimelineWidth(viewport: BoardViewport): void {
+  useEffect(() => {
+    if (viewport.clientWidth > 0) {
+      useUIStore.getState().setTimelineWidth(viewport.clientWidth - LABEL_WIDTH);
+    }
+  }, [viewport.clientWidth]);
+}
+
+/**
+ * Days of the timeline that are on screen, plus overscan
+ */
+export function getVisibleDays(viewport: BoardViewport, dayCount: number, dayWidth: number): IndexRange {
+  const first = Math.floor((viewport.left - LABEL_WIDTH) / dayWidth) - COLUMN_OVERSCAN;
+  const last = Math.ceil((viewport.left + viewport.width - LABEL_WIDTH) / dayWidth) + COLUMN_OVERSCAN;
+  return { start: clamp(first, 0, dayCount), end: clamp(last, 0, dayCount) };
+}
+
+/**
+ * Top offset of every row, plus the total height as the last entry
+ */
+export function getRowOffsets(heights: number[]): number[] {
+  const offsets = [0];
+  for (const height of heights) {
+    offsets.push(offsets[offsets.length - 1] + height);
+  }
+  return offsets;
+}
+
+/**
+ * Rows of variable height that overlap the pixel range [from, to)
+ */
+export function getVisibleRows(offsets: number[], from: number, to: number): IndexRange {
+  const count = offsets.length - 1;
+  // First row whose bottom edge is below `from`
+  let low = 0;
+  let high = count;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (offsets[mid + 1] <= from) low = mid + 1;
+    else high = mid;
+  }
+  let end = low;
+  while (end < count && offsets[end] < to) end++;
+  return { start: low, end };
+}
+
+/**
+ * Rows of a fixed height, starting at offset 0, that overlap the pixel range [from, to)
+ */
+export function getVisibleFixedRows(count: number, rowHeight: number, from: number, to: number): IndexRange {
+  return {
+    start: clamp(Math.floor(from / rowHeight), 0, count),
+    end: clamp(Math.ceil(to / rowHeight), 0, count),
+  };
+}
+
+/**
+ * Measure rendered rows by key. A row element carries its key in data-measure-key;
+ * heights are kept after the row leaves the DOM, so scrolling back does not jump.
+ */
+export function useMeasuredHeights(): { heights: Map<string, number>; version: number; measureRef: (node: HTMLElement | null) => void } {
+  const heightsRef = useRef(new Map<string, number>());
+  const nodesRef = useRef(new Set<HTMLElement>());
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const [version, setVersion] = useState(0);
+
+  const record = useCallback((node: HTMLElement) => {
+    const key = node.dataset.measureKey;
+    const height = node.offsetHeight;
+    if (!key || heightsRef.current.get(key) === height) return;
+    heightsRef.current.set(key, height);
+    setVersion((v) => v + 1);
+  }, []);
+
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  const measureRef = useCallback((node: HTMLElement | null) => {
+    if (!observerRef.current) {
+      observerRef.current = new ResizeObserver((entries) => entries.forEach((entry) => record(entry.target as HTMLElement)));
+    }
+    const observer = observerRef.current;
+    if (node) {
+      nodesRef.current.add(node);
+      observer.observe(node);
+      return;
+    }
+    // React passes null on unmount without saying which node left
+    nodesRef.current.forEach((observed) => {
+      if (!observed.isConnected) {
+        observer.unobserve(observed);
+        nodesRef.current.delete(observed);
+      }
+    });
+  }, [record]);
+
+  return { heights: heightsRef.current, version, measureRef };
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
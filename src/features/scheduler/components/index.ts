@@ -1,4 +1,10 @@
 export { ResourcePanel } from './ResourcePanel';
 export { SchedulerBoard } from './SchedulerBoard';
+export { ResourceBoard } from './ResourceBoard';
 export { AssignmentDialog } from './AssignmentDialog';
 export { NewTeamFab } from './NewTeamFab';
+export { LeaderPeriodDialog } from './LeaderPeriodDialog';
+export { DeleteTeamDialog } from './DeleteTeamDialog';
+export { ProblemsPanel } from './ProblemsPanel';
+export { LoadingProgress } from './LoadingProgress';
+export { LoadError } from './LoadError';
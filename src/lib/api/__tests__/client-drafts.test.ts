@@ -0,0 +1,117 @@
+import type { Assignment, CreateAssignmentInput } from '@/domain/types';
+import type { WorkingStateDraft } from '../draft-store';
+import { ifsCloudConfig } from '../ifs-config';
+
+// Mock the IndexedDB side of the draft store
+jest.mock('../draft-store', () => ({
+  ...jest.requireActual('../draft-store'),
+  loadDraft: jest.fn(),
+  saveDraft: jest.fn(),
+  clearDraft: jest.fn(),
+}));
+
+jest.spyOn(console, 'log').mockImplementation();
+jest.spyOn(console, 'warn').mockImplementation();
+jest.spyOn(console, 'error').mockImplementation();
+
+type Client = typeof import('../client')['api'];
+type DraftStore = jest.Mocked<typeof import('../draft-store')>;
+
+// Drafts are saved this long after the last change
+const waitForDraftSave = () => new Promise((resolve) => setTimeout(resolve, 600));
+
+const draftAssignment: Assignment = {
+  id: 'assign-draft',
+  resourceId: 'tech-007',
+  teamId: 'team-2',
+  start: '2026-04-01T00:00:00Z',
+  end: '2026-04-15T00:00:00Z',
+};
+
+const newAssignment: CreateAssignmentInput = {
+  resourceId: 'tech-004',
+  teamId: 'team-1',
+  start: '2026-03-02T00:00:00Z',
+  end: '2026-03-20T00:00:00Z',
+};
+
+describe('Working state drafts', () => {
+  let api: Client;
+  let draftStore: DraftStore;
+  let draft: WorkingStateDraft;
+
+  beforeEach(async () => {
+    // The client keeps its working state in module variables, so every test starts from a fresh module
+    jest.resetModules();
+    api = (await import('../client')).api;
+    draftStore = (await import('../draft-store')) as DraftStore;
+
+    const { teams, assignments, leaderPeriods } = await api.getSchedulerData();
+    draft = {
+      target: { baseUrl: 'mock', environmentId: ifsCloudConfig.environmentId, resourceGroupSeqCrews: ifsCloudConfig.resourceGroupSeqCrews },
+      savedAt: '2026-03-01T09:00:00Z',
+      workingTeams: teams,
+      workingAssignments: [...assignments, draftAssignment],
+      workingLeaderPeriods: leaderPeriods,
+      originalTeams: teams,
+      originalAssignments: assignments,
+      originalLeaderPeriods: leaderPeriods,
+      changedTeams: [],
+      deletedTeams: [],
+      changedAssignments: [draftAssignment.id],
+      deletedAssignments: [],
+      changedLeaderPeriods: [],
+      deletedLeaderPeriods: [],
+    };
+  });
+
+  it('should refuse edits while the saved draft is waiting to be resumed or discarded', async () => {
+    draftStore.loadDraft.mockResolvedValueOnce(draft);
+
+    expect(await api.findDraft()).toBe(draft);
+    await expect(api.createAssignment(newAssignment)).rejects.toThrow('Resume or discard your saved draft before making changes');
+    await expect(api.deleteAssignment('assign-001')).rejects.toThrow('Resume or discard');
+    await expect(api.importAssignments([newAssignment])).rejects.toThrow('Resume or discard');
+
+    expect(api.hasUnsavedChanges()).toBe(false);
+    expect(draftStore.saveDraft).not.toHaveBeenCalled();
+  });
+
+  it('should save edits made after resuming a draft together with the draft', async () => {
+    draftStore.loadDraft.mockResolvedValueOnce(draft);
+    await api.findDraft();
+
+    api.resumeDraft(draft);
+    const created = await api.createAssignment(newAssignment);
+    await waitForDraftSave();
+
+    expect(draftStore.saveDraft).toHaveBeenCalledTimes(1);
+    const saved = draftStore.saveDraft.mock.calls[0][0];
+    expect(saved.changedAssignments).toEqual([draftAssignment.id, created.id]);
+    expect(saved.workingAssignments).toEqual(expect.arrayContaining([draftAssignment, created]));
+  });
+
+  it('should save edits made after discarding a draft, without the draft', async () => {
+    draftStore.loadDraft.mockResolvedValueOnce(draft);
+    await api.findDraft();
+
+    await api.discardDraft();
+    expect(draftStore.clearDraft).toHaveBeenCalled();
+    await api.getSchedulerData();
+    const created = await api.createAssignment(newAssignment);
+    await waitForDraftSave();
+
+    const saved = draftStore.saveDraft.mock.calls[0][0];
+    expect(saved.changedAssignments).toEqual([created.id]);
+    expect(saved.workingAssignments.map((assignment) => assignment.id)).not.toContain(draftAssignment.id);
+  });
+
+  it('should accept edits once there is no draft to resume', async () => {
+    draftStore.loadDraft.mockResolvedValueOnce(null);
+
+    expect(await api.findDraft()).toBeNull();
+    await api.createAssignment(newAssignment);
+
+    expect(api.hasUnsavedChanges()).toBe(true);
+  });
+});
@@ -0,0 +1,106 @@
+import type { Assignment, LeaderPeriod, Team } from '@/domain/types';
+import { buildCrewSyncOperations, crewSyncRequestSchema } from '../crew-sync';
+
+const team: Team = { id: 'crew-2589', name: 'CREW1', color: '#3B82F6', createdAt: '2026-01-01T00:00:00Z', ResourceSeq: 2589, etag: 'W/"1"' };
+
+const membership: Assignment = {
+  id: 'assign-2589-7001',
+  resourceId: 'TECH001',
+  teamId: team.id,
+  start: '2026-01-05T00:00:00Z',
+  end: '2026-02-01T00:00:00Z',
+  ResourceMemberSeq: 7001,
+  etag: 'W/"1"',
+};
+
+const leader: LeaderPeriod = {
+  id: 'leader-2589-6001',
+  resourceId: 'TECH001',
+  teamId: team.id,
+  start: '2026-01-05T00:00:00Z',
+  end: '2026-02-01T00:00:00Z',
+  ResourceCrewLeaderSeq: 6001,
+  etag: 'W/"1"',
+};
+
+const noChanges = {
+  createdAssignments: [],
+  updatedAssignments: [],
+  deletedAssignments: [],
+  originalAssignments: [],
+  createdLeaderPeriods: [],
+  updatedLeaderPeriods: [],
+  deletedLeaderPeriods: [],
+  originalLeaderPeriods: [],
+  deletedTeams: [],
+  teams: [team],
+};
+
+describe('Crew sync', () => {
+  describe('crewSyncRequestSchema', () => {
+    it('should reject updates and deletes without the ETag of their row', () => {
+      const operations = [
+        { id: 'a:updateMember', itemId: 'a', crewSeq: 2589, kind: 'updateMember', memberSeq: 7001, start: '2026-01-05', end: '2026-02-01' },
+        { id: 'a:deleteMember', itemId: 'a', crewSeq: 2589, kind: 'deleteMember', memberSeq: 7001, etag: '' },
+        { id: 'l:deleteLeader', itemId: 'l', crewSeq: 2589, kind: 'deleteLeader', leaderSeq: 6001 },
+        { id: 'c:deleteCrew', itemId: 'c', crewSeq: 2589, kind: 'deleteCrew' },
+      ];
+
+      for (const operation of operations) {
+        expect(crewSyncRequestSchema.safeParse({ operations: [operation] }).success).toBe(false);
+      }
+      expect(crewSyncRequestSchema.safeParse({ operations: [{ ...operations[1], etag: 'W/"1"' }] }).success).toBe(true);
+    });
+  });
+
+  describe('buildCrewSyncOperations', () => {
+    it('should send the ETag each row was loaded with', () => {
+      const { operations, rejected } = buildCrewSyncOperations({
+        ...noChanges,
+        updatedAssignments: [{ ...membership, end: '2026-03-01T00:00:00Z' }],
+        originalAssignments: [membership],
+        deletedLeaderPeriods: [leader],
+      });
+
+      expect(rejected).toEqual([]);
+      expect(operations).toEqual([
+        expect.objectContaining({ kind: 'updateMember', memberSeq: 7001, etag: 'W/"1"' }),
+        expect.objectContaining({ kind: 'deleteLeader', leaderSeq: 6001, etag: 'W/"1"' }),
+      ]);
+    });
+
+    it('should not update or delete a row whose ETag is not known', () => {
+      const { etag: _memberETag, ...unversionedMembership } = membership;
+      const { etag: _leaderETag, ...unversionedLeader } = leader;
+      const { etag: _teamETag, ...unversionedTeam } = team;
+
+      const { operations, rejected } = buildCrewSyncOperations({
+        ...noChanges,
+        updatedAssignments: [{ ...membership, end: '2026-03-01T00:00:00Z' }],
+        originalAssignments: [unversionedMembership],
+        deletedLeaderPeriods: [unversionedLeader],
+        deletedTeams: [unversionedTeam],
+      });
+
+      expect(operations).toEqual([]);
+      expect(rejected.map((r) => r.itemId)).toEqual([membership.id, leader.id, team.id]);
+      expect(rejected[0].error).toContain('version (ETag) of this row is not known');
+    });
+
+    it('should not move a membership to another crew when its ETag is not known', () => {
+      const otherTeam: Team = { ...team, id: 'crew-2590', ResourceSeq: 2590 };
+      const { etag: _etag, ...unversionedMembership } = membership;
+
+      const { operations, rejected } = buildCrewSyncOperations({
+        ...noChanges,
+        teams: [team, otherTeam],
+        updatedAssignments: [{ ...membership, teamId: otherTeam.id }],
+        originalAssignments: [unversionedMembership],
+      });
+
+      // Neither the delete in the old crew nor the create in the new one
+      expect(operations).toEqual([]);
+      expect(rejected).toHaveLength(1);
+    });
+  });
+});
@@ -5,6 +5,7 @@ import {
   isIFSAuthenticated,
   getIFSRequestHeaders,
 } from '../ifs-auth';
+import { getIFSAuthConfigError, ifsCloudConfig } from '../ifs-config';
 
 // Mock fetch globally
 const mockFetch = jest.fn();
@@ -46,8 +47,8 @@ describe('IFS Cloud Authentication', () => {
 
       const token = await authenticateIFSCloud();
 
-      // Verify token format
-      expect(token).toBe('Bearer id-token-789');
+      // Verify token format: the access token authorizes projection requests
+      expect(token).toBe('Bearer access-token-123');
 
       // Verify fetch was called with correct parameters
       expect(mockFetch).toHaveBeenCalledTimes(1);
@@ -80,14 +81,14 @@ describe('IFS Cloud Authentication', () => {
       expect(mockConsoleError).toHaveBeenCalled();
     });
 
-    it('should throw error when id_token is missing', async () => {
-      // Mock response without id_token
+    it('should throw error when access_token is missing', async () => {
+      // Mock response without access_token
       mockFetch.mockResolvedValueOnce({
         ok: true,
-        json: async () => ({ ...mockTokenResponse, id_token: undefined }),
+        json: async () => ({ ...mockTokenResponse, access_token: undefined }),
       });
 
-      await expect(authenticateIFSCloud()).rejects.toThrow('No id_token in authentication response');
+      await expect(authenticateIFSCloud()).rejects.toThrow('No access_token in authentication response');
     });
 
     it('should throw error on network failure', async () => {
@@ -173,7 +174,8 @@ describe('IFS Cloud Authentication', () => {
 
       expect(headers).toEqual({
         'Content-Type': 'application/json; charset=utf-8',
-        'Authorization': 'Bearer id-token-789',
+        'Accept': 'application/json;odata.metadata=full;IEEE754Compatible=true',
+        'Authorization': 'Bearer access-token-123',
       });
     });
   });
@@ -193,4 +195,34 @@ describe('IFS Cloud Authentication', () => {
       expect(mockConsoleDebug).toHaveBeenCalledWith('IFS Cloud token cleared');
     });
   });
+
+  describe('getIFSAuthConfigError', () => {
+    const originalConfig = { ...ifsCloudConfig };
+
+    afterEach(() => {
+      Object.assign(ifsCloudConfig, originalConfig);
+    });
+
+    it('should name the settings each grant type is missing', () => {
+      Object.assign(ifsCloudConfig, { grantType: 'password', username: 'planner', password: '', clientSecret: '' });
+      expect(getIFSAuthConfigError()).toBe('The password grant needs IFS_PASSWORD');
+
+      ifsCloudConfig.grantType = 'client_credentials';
+      expect(getIFSAuthConfigError()).toBe('The client_credentials grant needs IFS_CLIENT_SECRET');
+
+      ifsCloudConfig.clientSecret = 'secret';
+      expect(getIFSAuthConfigError()).toBeNull();
+
+      ifsCloudConfig.grantType = 'proxy';
+      expect(getIFSAuthConfigError()).toBeNull();
+    });
+
+    it('should reject an unknown grant type and per-user login behind a login proxy', () => {
+      Object.assign(ifsCloudConfig, { grantType: 'implicit' });
+      expect(getIFSAuthConfigError()).toBe('IFS_GRANT_TYPE must be password, client_credentials, proxy, not "implicit"');
+
+      Object.assign(ifsCloudConfig, { grantType: 'proxy', userLogin: true });
+      expect(getIFSAuthConfigError()).toContain('cannot be combined with IFS_GRANT_TYPE=proxy');
+    });
+  });
 });
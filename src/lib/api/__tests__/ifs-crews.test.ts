@@ -1,11 +1,30 @@
-import { getCrewsFromIFS, getCrewMembershipsFromIFS, getCrewLeadersFromIFS } from '../ifs-crews';
+import {
+  getCrewsFromIFS,
+  getCrewMembershipsFromIFS,
+  getCrewLeadersFromIFS,
+  createCrewMemberInIFS,
+  updateCrewMemberInIFS,
+  deleteCrewLeaderInIFS,
+  createCrewInIFS,
+  deleteCrewInIFS,
+  applyCrewSyncOperation,
+  getAllCrewDetailsFromIFS,
+} from '../ifs-crews';
 import * as ifsAuth from '../ifs-auth';
+import { ifsCloudConfig } from '../ifs-config';
 
 // Mock the ifs-auth module
 jest.mock('../ifs-auth', () => ({
+  IFSApiError: jest.requireActual('../ifs-auth').IFSApiError,
   ifsGet: jest.fn(),
+  ifsPost: jest.fn(),
+  ifsPatch: jest.fn(),
+  ifsDelete: jest.fn(),
 }));
 
+jest.spyOn(console, 'debug').mockImplementation();
+jest.spyOn(console, 'error').mockImplementation();
+
 describe('IFS Cloud Crews API', () => {
   beforeEach(() => {
     jest.clearAllMocks();
@@ -74,4 +93,272 @@ describe('IFS Cloud Crews API', () => {
       expect(leaders).toEqual(mockResponse.value);
     });
   });
+
+  describe('4) Crew membership and leader writes', () => {
+    it('should POST a new membership under the crew', async () => {
+      const created = { ResourceSeq: 2589, ResourceMemberSeq: 7001, ResourceId: 'TECH1', PeriodStart: '2026-01-01T00:00:00Z', PeriodEnd: '2026-01-31T00:00:00Z' };
+      (ifsAuth.ifsPost as jest.Mock).mockResolvedValueOnce(created);
+
+      const result = await createCrewMemberInIFS(2589, {
+        ResourceId: 'TECH1',
+        PeriodStart: '2026-01-01T00:00:00Z',
+        PeriodEnd: '2026-01-31T00:00:00Z',
+      });
+
+      const [url, body] = (ifsAuth.ifsPost as jest.Mock).mock.calls[0];
+      expect(url).toContain('ResourceSet(ResourceSeq=2589)/ResourceCrewMembersArray');
+      expect(body).toEqual({
+        ResourceSeq: 2589,
+        ResourceId: 'TECH1',
+        PeriodStart: '2026-01-01T00:00:00Z',
+        PeriodEnd: '2026-01-31T00:00:00Z',
+      });
+      expect(result).toEqual(created);
+    });
+
+    it('should PATCH a membership row by its keys with its ETag', async () => {
+      const updated = { ResourceSeq: 2589, ResourceMemberSeq: 7001, '@odata.etag': 'W/"2"' };
+      (ifsAuth.ifsPatch as jest.Mock).mockResolvedValueOnce(updated);
+
+      const result = await updateCrewMemberInIFS(2589, 7001, { PeriodStart: '2026-01-05T00:00:00Z', PeriodEnd: '2026-02-01T00:00:00Z' }, 'W/"1"');
+
+      const [url, body, etag] = (ifsAuth.ifsPatch as jest.Mock).mock.calls[0];
+      expect(url).toContain('ResourceCrewMembersArray(ResourceSeq=2589,ResourceMemberSeq=7001)');
+      expect(body).toEqual({ PeriodStart: '2026-01-05T00:00:00Z', PeriodEnd: '2026-02-01T00:00:00Z' });
+      expect(etag).toBe('W/"1"');
+      expect(result).toEqual(updated);
+      expect(ifsAuth.ifsGet).not.toHaveBeenCalled();
+    });
+
+    it('should read a membership row again when the PATCH answers 204 without it', async () => {
+      (ifsAuth.ifsPatch as jest.Mock).mockResolvedValueOnce(undefined);
+      (ifsAuth.ifsGet as jest.Mock).mockResolvedValueOnce({ ResourceSeq: 2589, ResourceMemberSeq: 7001, '@odata.etag': 'W/"2"' });
+
+      const result = await updateCrewMemberInIFS(2589, 7001, { PeriodStart: '2026-01-05T00:00:00Z', PeriodEnd: '2026-02-01T00:00:00Z' }, 'W/"1"');
+
+      expect(ifsAuth.ifsGet).toHaveBeenCalledWith(expect.stringContaining('ResourceCrewMembersArray(ResourceSeq=2589,ResourceMemberSeq=7001)'));
+      expect(result['@odata.etag']).toBe('W/"2"');
+    });
+
+    it('should DELETE a leader row by its keys', async () => {
+      (ifsAuth.ifsDelete as jest.Mock).mockResolvedValueOnce(undefined);
+
+      await deleteCrewLeaderInIFS(2589, 6001, 'W/"1"');
+
+      const [url] = (ifsAuth.ifsDelete as jest.Mock).mock.calls[0];
+      expect(url).toContain('ResourceCrewSet(ResourceSeq=2589)/ResourceCrewLeadersArray(ResourceSeq=2589,ResourceCrewLeaderSeq=6001)');
+    });
+
+    it('should POST a new crew under the crews resource group', async () => {
+      (ifsAuth.ifsPost as jest.Mock).mockResolvedValueOnce({ ResourceSeq: 2600, ResourceId: 'ALPHA', Description: 'Alpha crew' });
+
+      const result = await createCrewInIFS({ ResourceId: 'ALPHA', Description: 'Alpha crew' });
+
+      const [url, body] = (ifsAuth.ifsPost as jest.Mock).mock.calls[0];
+      expect(url).toMatch(/ResourceCrewHandling\.svc\/ResourceSet$/);
+      expect(body).toEqual({
+        ResourceId: 'ALPHA',
+        Description: 'Alpha crew',
+        ResourceParentSeq: expect.any(Number),
+      });
+      expect(result.ResourceSeq).toBe(2600);
+    });
+
+    it('should DELETE a crew by its ResourceSeq with its ETag', async () => {
+      (ifsAuth.ifsDelete as jest.Mock).mockResolvedValueOnce(undefined);
+
+      await deleteCrewInIFS(2589, 'W/"3"');
+
+      expect(ifsAuth.ifsDelete).toHaveBeenCalledWith(expect.stringMatching(/ResourceSet\(ResourceSeq=2589\)$/), 'W/"3"');
+    });
+  });
+
+  describe('5) applyCrewSyncOperation', () => {
+    it('should return the new ResourceMemberSeq for a created membership', async () => {
+      (ifsAuth.ifsPost as jest.Mock).mockResolvedValueOnce({ ResourceMemberSeq: 7002 });
+
+      const result = await applyCrewSyncOperation({
+        id: 'assign-1:createMember',
+        itemId: 'assign-1',
+        crewSeq: 2589,
+        kind: 'createMember',
+        resourceId: 'TECH1',
+        start: '2026-01-01T00:00:00Z',
+        end: '2026-01-31T00:00:00Z',
+      });
+
+      expect(result).toEqual({
+        id: 'assign-1:createMember',
+        itemId: 'assign-1',
+        kind: 'createMember',
+        success: true,
+        memberSeq: 7002,
+      });
+    });
+
+    it('should return the new ResourceSeq for a created crew', async () => {
+      (ifsAuth.ifsPost as jest.Mock).mockResolvedValueOnce({
+        ResourceSeq: 2600,
+        ResourceId: 'ALPHA',
+        Description: 'Alpha crew',
+        '@odata.etag': 'W/"1"',
+      });
+
+      const result = await applyCrewSyncOperation({
+        id: 'team-1:createCrew',
+        itemId: 'team-1',
+        kind: 'createCrew',
+        resourceId: 'ALPHA',
+        description: 'Alpha crew',
+      });
+
+      expect(result).toEqual({
+        id: 'team-1:createCrew',
+        itemId: 'team-1',
+        kind: 'createCrew',
+        success: true,
+        crewSeq: 2600,
+        etag: 'W/"1"',
+      });
+    });
+
+    it('should write period dates as midnight in the site time zone', async () => {
+      const { siteTimeZone } = ifsCloudConfig;
+      ifsCloudConfig.siteTimeZone = 'Europe/Oslo';
+      (ifsAuth.ifsPatch as jest.Mock).mockResolvedValueOnce(null);
+
+      try {
+        await applyCrewSyncOperation({
+          id: 'assign-4:updateMember',
+          itemId: 'assign-4',
+          crewSeq: 2589,
+          kind: 'updateMember',
+          memberSeq: 7001,
+          etag: 'W/"1"',
+          start: '2026-03-20T00:00:00.000Z',
+          end: '2026-04-03T00:00:00.000Z', // After the change to summer time
+        });
+      } finally {
+        ifsCloudConfig.siteTimeZone = siteTimeZone;
+      }
+
+      const [, body] = (ifsAuth.ifsPatch as jest.Mock).mock.calls[0];
+      expect(body).toEqual({ PeriodStart: '2026-03-19T23:00:00Z', PeriodEnd: '2026-04-02T22:00:00Z' });
+    });
+
+    it('should report an update as failed when IFS gives no new ETag for the row', async () => {
+      (ifsAuth.ifsPatch as jest.Mock).mockResolvedValueOnce(undefined);
+      (ifsAuth.ifsGet as jest.Mock).mockResolvedValueOnce({ ResourceSeq: 2589, ResourceCrewLeaderSeq: 6001 });
+
+      const result = await applyCrewSyncOperation({
+        id: 'leader-1:updateLeader',
+        itemId: 'leader-1',
+        crewSeq: 2589,
+        kind: 'updateLeader',
+        leaderSeq: 6001,
+        etag: 'W/"1"',
+        start: '2026-01-01T00:00:00Z',
+        end: '2026-01-31T00:00:00Z',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.etag).toBeUndefined();
+      expect(result.error).toContain('returned no ETag');
+    });
+
+    it('should report failures instead of throwing', async () => {
+      (ifsAuth.ifsDelete as jest.Mock).mockRejectedValueOnce(new Error('IFS API DELETE failed: 403 - Forbidden'));
+
+      const result = await applyCrewSyncOperation({
+        id: 'assign-2:deleteMember',
+        itemId: 'assign-2',
+        crewSeq: 2589,
+        kind: 'deleteMember',
+        memberSeq: 7001,
+        etag: 'W/"1"',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('403');
+    });
+
+    it('should report a conflict with the current IFS version on 412', async () => {
+      (ifsAuth.ifsPatch as jest.Mock).mockRejectedValueOnce(
+        new ifsAuth.IFSApiError('IFS API PATCH failed: 412 - Precondition Failed', 412)
+      );
+      (ifsAuth.ifsGet as jest.Mock).mockResolvedValueOnce({
+        ResourceSeq: 2589,
+        ResourceMemberSeq: 7001,
+        PeriodStart: '2026-01-05T00:00:00Z',
+        PeriodEnd: '2026-02-05T00:00:00Z',
+        '@odata.etag': 'W/"2"',
+      });
+
+      const result = await applyCrewSyncOperation({
+        id: 'assign-3:updateMember',
+        itemId: 'assign-3',
+        crewSeq: 2589,
+        kind: 'updateMember',
+        memberSeq: 7001,
+        etag: 'W/"1"',
+        start: '2026-01-01T00:00:00Z',
+        end: '2026-01-31T00:00:00Z',
+      });
+
+      expect(ifsAuth.ifsPatch).toHaveBeenCalledWith(expect.any(String), expect.any(Object), 'W/"1"');
+      expect(result.success).toBe(false);
+      expect(result.conflict).toEqual({
+        serverVersion: { start: '2026-01-05T00:00:00Z', end: '2026-02-05T00:00:00Z', etag: 'W/"2"' },
+      });
+    });
+  });
+
+  describe('6) getAllCrewDetailsFromIFS', () => {
+    const crews = [2001, 2002, 2003, 2004, 2005].map((seq) => ({
+      ResourceSeq: seq,
+      ResourceId: `CREW${seq}`,
+      Description: `Crew ${seq}`,
+    }));
+
+    it('should load every crew with a bounded number of requests in flight', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      (ifsAuth.ifsGet as jest.Mock).mockImplementation(async (url: string) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight--;
+        const seq = Number(/ResourceSeq=(\d+)/.exec(url)![1]);
+        return url.includes('ResourceCrewMembersArray')
+          ? { value: [{ ResourceSeq: seq, ResourceMemberSeq: 1, ResourceId: 'TECH1', PeriodStart: '2024-01-01T00:00:00Z', PeriodEnd: '2024-12-31T00:00:00Z' }] }
+          : { value: [] };
+      });
+      const loaded: number[] = [];
+
+      const details = await getAllCrewDetailsFromIFS(crews, (_, index) => loaded.push(index), 2);
+
+      // Two crews at a time, memberships and leaders in parallel per crew
+      expect(maxInFlight).toBe(4);
+      expect(ifsAuth.ifsGet).toHaveBeenCalledTimes(10);
+      expect(loaded.sort()).toEqual([0, 1, 2, 3, 4]);
+      expect(details.map((d) => d.crew.ResourceSeq)).toEqual([2001, 2002, 2003, 2004, 2005]);
+      expect(details[2].members[0].ResourceSeq).toBe(2003);
+    });
+
+    it('should report a crew that fails instead of throwing', async () => {
+      jest.spyOn(console, 'warn').mockImplementation();
+      (ifsAuth.ifsGet as jest.Mock).mockImplementation(async (url: string) => {
+        if (url.includes('ResourceSeq=2002)/ResourceCrewMembersArray')) throw new Error('IFS API GET failed: 500');
+        if (url.includes('ResourceSeq=2003)/ResourceCrewLeadersArray')) throw new Error('IFS API GET failed: 403');
+        return { value: [{ ResourceSeq: 1, ResourceMemberSeq: 1, ResourceCrewLeaderSeq: 1, ResourceId: 'TECH1' }] };
+      });
+
+      const details = await getAllCrewDetailsFromIFS(crews.slice(0, 3));
+
+      expect(details[0].error).toBeUndefined();
+      expect(details[1]).toMatchObject({ members: [], leaders: [], error: expect.stringContaining('Memberships could not be loaded') });
+      expect(details[2]).toMatchObject({ leaders: [], error: expect.stringContaining('Leaders could not be loaded') });
+      expect(details[2].members).toHaveLength(1);
+    });
+  });
 });
@@ -0,0 +1,86 @@
+import { IFSRowLimitError, ifsGetAll } from '../ifs-paging';
+import * as ifsAuth from '../ifs-auth';
+
+// Mock the ifs-auth module
+jest.mock('../ifs-auth', () => ({
+  ifsGet: jest.fn(),
+}));
+
+jest.spyOn(console, 'debug').mockImplementation();
+const mockConsoleWarn = jest.spyOn(console, 'warn').mockImplementation();
+
+const baseUrl = 'https://example.ifs.cloud/main/ifsapplications/projection/v1/ResourceCrewHandling.svc/ResourceSet';
+
+describe('IFS Cloud Paging', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('ifsGetAll', () => {
+    it('should return the rows of a single page', async () => {
+      (ifsAuth.ifsGet as jest.Mock).mockResolvedValueOnce({ '@odata.count': 2, value: [{ id: 1 }, { id: 2 }] });
+
+      const rows = await ifsGetAll(`${baseUrl}?$count=true`);
+
+      expect(rows).toEqual([{ id: 1 }, { id: 2 }]);
+      expect(ifsAuth.ifsGet).toHaveBeenCalledTimes(1);
+      expect(mockConsoleWarn).not.toHaveBeenCalled();
+    });
+
+    it('should follow @odata.nextLink and combine the pages', async () => {
+      (ifsAuth.ifsGet as jest.Mock)
+        .mockResolvedValueOnce({ '@odata.count': 5, '@odata.nextLink': `${baseUrl}?$count=true&$skip=2`, value: [{ id: 1 }, { id: 2 }] })
+        .mockResolvedValueOnce({ '@odata.nextLink': `${baseUrl}?$count=true&$skip=4`, value: [{ id: 3 }, { id: 4 }] })
+        .mockResolvedValueOnce({ value: [{ id: 5 }] });
+
+      const rows = await ifsGetAll<{ id: number }>(`${baseUrl}?$count=true`);
+
+      expect(rows.map((row) => row.id)).toEqual([1, 2, 3, 4, 5]);
+      expect((ifsAuth.ifsGet as jest.Mock).mock.calls.map((call) => call[0])).toEqual([
+        `${baseUrl}?$count=true`,
+        `${baseUrl}?$count=true&$skip=2`,
+        `${baseUrl}?$count=true&$skip=4`,
+      ]);
+      expect(mockConsoleWarn).not.toHaveBeenCalled();
+    });
+
+    it('should resolve a relative next link against the request URL', async () => {
+      (ifsAuth.ifsGet as jest.Mock)
+        .mockResolvedValueOnce({ '@odata.nextLink': 'ResourceSet?$skiptoken=abc', value: [{ id: 1 }] })
+        .mockResolvedValueOnce({ value: [{ id: 2 }] });
+
+      await ifsGetAll(`${baseUrl}?$count=true`);
+
+      expect((ifsAuth.ifsGet as jest.Mock).mock.calls[1][0]).toBe(`${baseUrl}?$skiptoken=abc`);
+    });
+
+    it('should refuse a collection with more than maxRows rows instead of cutting it off', async () => {
+      (ifsAuth.ifsGet as jest.Mock)
+        .mockResolvedValueOnce({ '@odata.count': 6, '@odata.nextLink': `${baseUrl}?$skip=2`, value: [{ id: 1 }, { id: 2 }] })
+        .mockResolvedValueOnce({ '@odata.nextLink': `${baseUrl}?$skip=4`, value: [{ id: 3 }, { id: 4 }] });
+
+      const result = ifsGetAll(baseUrl, { maxRows: 3 });
+
+      await expect(result).rejects.toThrow(new IFSRowLimitError(baseUrl, 3));
+      await expect(result).rejects.toThrow('More than 3 rows in');
+      expect(ifsAuth.ifsGet).toHaveBeenCalledTimes(2);
+    });
+
+    it('should return a collection of exactly maxRows rows', async () => {
+      (ifsAuth.ifsGet as jest.Mock)
+        .mockResolvedValueOnce({ '@odata.nextLink': `${baseUrl}?$skip=2`, value: [{ id: 1 }, { id: 2 }] })
+        .mockResolvedValueOnce({ value: [{ id: 3 }] });
+
+      expect(await ifsGetAll(baseUrl, { maxRows: 3 })).toHaveLength(3);
+    });
+
+    it('should warn when @odata.count does not match the rows collected', async () => {
+      (ifsAuth.ifsGet as jest.Mock).mockResolvedValueOnce({ '@odata.count': 250, value: [{ id: 1 }, { id: 2 }] });
+
+      const rows = await ifsGetAll(`${baseUrl}?$count=true`);
+
+      expect(rows).toHaveLength(2);
+      expect(mockConsoleWarn).toHaveBeenCalledWith(expect.stringContaining('IFS reported 250 rows but 2 were returned'));
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { ifsCloudConfig, getIFSAuthUrl } from '../ifs-config';
+import {
+  IFSProfilesError,
+  parseIFSProfiles,
+  runWithIFSProfile,
+  toIFSProfileSummary,
+} from '../ifs-profiles';
+
+describe('IFS Cloud connection profiles', () => {
+  const env = { IFS_PROD_CLIENT_SECRET: 'prod-secret' };
+
+  const profiles = parseIFSProfiles([
+    { id: 'test', name: 'Test', environmentId: 'test1', resourceGroupSeqCrews: 2000 },
+    {
+      id: 'prod',
+      name: 'Production Oslo',
+      production: true,
+      baseUrl: 'ifs.example.com',
+      environmentId: 'prod1',
+      clientSecret: '${IFS_PROD_CLIENT_SECRET}',
+      serviceOrganizationId: '3100',
+    },
+  ], env);
+
+  describe('parseIFSProfiles', () => {
+    it('should keep the settings of each profile and read ${NAME} from the environment', () => {
+      expect(profiles).toEqual([
+        { id: 'test', name: 'Test', production: false, settings: { environmentId: 'test1', resourceGroupSeqCrews: 2000 } },
+        {
+          id: 'prod',
+          name: 'Production Oslo',
+          production: true,
+          settings: { baseUrl: 'ifs.example.com', environmentId: 'prod1', clientSecret: 'prod-secret', serviceOrganizationId: '3100' },
+        },
+      ]);
+    });
+
+    it('should name the setting that is wrong', () => {
+      const parse = (json: unknown) => () => parseIFSProfiles(json, env);
+
+      expect(parse([])).toThrow(new IFSProfilesError('Profiles: Expected at least one profile'));
+      expect(parse([{ id: 'a', name: 'A', resourceGroupSeqCrews: '1938' }])).toThrow('0.resourceGroupSeqCrews: Expected number');
+      expect(parse([{ id: 'a', name: 'A', grantType: 'implicit' }])).toThrow('0.grantType');
+      expect(parse([{ id: 'a', name: 'A', realm: 'x' }])).toThrow("Unrecognized key(s) in object: 'realm'");
+      expect(parse([{ id: 'a', name: 'A' }, { id: 'a', name: 'B' }])).toThrow('Profile ids must be unique');
+      expect(parse([{ id: 'a', name: 'A', password: '${IFS_A_PASSWORD}' }])).toThrow('0.password: IFS_A_PASSWORD is not set');
+    });
+  });
+
+  describe('runWithIFSProfile', () => {
+    it('should read the settings of the profile inside the handler and the environment outside it', async () => {
+      const defaults = { baseUrl: ifsCloudConfig.baseUrl, environmentId: ifsCloudConfig.environmentId };
+
+      const inside = await runWithIFSProfile(profiles[1], async () => {
+        await Promise.resolve();
+        return { authUrl: getIFSAuthUrl(), clientId: ifsCloudConfig.clientId, org: ifsCloudConfig.serviceOrganizationId };
+      });
+
+      expect(inside).toEqual({
+        authUrl: 'https://ifs.example.com/auth/realms/prod1/protocol/openid-connect/token',
+        clientId: ifsCloudConfig.clientId,
+        org: '3100',
+      });
+      expect({ baseUrl: ifsCloudConfig.baseUrl, environmentId: ifsCloudConfig.environmentId }).toEqual(defaults);
+    });
+
+    it('should tell the browser where a profile connects to, without its credentials', () => {
+      const summary = toIFSProfileSummary(profiles[1]);
+
+      expect(summary).toMatchObject({ id: 'prod', production: true, environmentId: 'prod1', serviceOrganizationId: '3100' });
+      expect(summary.resourceGroupSeqCrews).toBe(ifsCloudConfig.resourceGroupSeqCrews);
+      expect(JSON.stringify(summary)).not.toContain('prod-secret');
+    });
+  });
+});
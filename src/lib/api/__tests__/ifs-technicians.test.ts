@@ -53,10 +53,10 @@ describe('IFS Cloud Technicians API', () => {
       // Verify URL contains correct endpoint and parameters
       const calledUrl = (ifsAuth.ifsGet as jest.Mock).mock.calls[0][0];
       expect(calledUrl).toContain('ServiceResourceDetailsHandling.svc/ResourceSet');
-      // Note: URLSearchParams encodes special chars like $ to %24
-      expect(calledUrl).toContain('%24count=true'); // $count encoded
+      // The query string is built by hand, so the OData options keep their literal $
+      expect(calledUrl).toContain('$count=true');
       expect(calledUrl).toContain('ResourceSeq');
-      expect(calledUrl).toContain('%24filter='); // $filter encoded
+      expect(calledUrl).toContain('$filter=');
       expect(calledUrl).toContain('ResourceParentSeq');
       expect(calledUrl).toContain('ServiceOrganizationId');
 
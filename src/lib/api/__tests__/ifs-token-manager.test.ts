@@ -0,0 +1,206 @@
+import {
+  AUTH_BACKOFF_BASE_MS,
+  IFSAuthError,
+  IFSTokenManager,
+  type IFSIdentity,
+} from '../ifs-token-manager';
+
+// Mock fetch globally
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+jest.spyOn(console, 'debug').mockImplementation();
+
+const identity: IFSIdentity = {
+  authUrl: 'https://ifs.example.com/auth/realms/env/protocol/openid-connect/token',
+  grantType: 'password',
+  clientId: 'Postman-API',
+  clientSecret: 'secret',
+  username: 'planner',
+  password: 'password',
+};
+
+// Token response whose access and refresh tokens end with the given suffix
+const tokenResponse = (suffix: string | number) => ({
+  ok: true,
+  status: 200,
+  json: async () => ({
+    access_token: `access-${suffix}`,
+    expires_in: 300,
+    refresh_expires_in: 1800,
+    refresh_token: `refresh-${suffix}`,
+    token_type: 'Bearer',
+  }),
+});
+
+const unauthorized = {
+  ok: false,
+  status: 401,
+  text: async () => '{"error":"invalid_grant","error_description":"Invalid user credentials"}',
+};
+
+const grantOf = (call: number) => new URLSearchParams(mockFetch.mock.calls[call][1].body).get('grant_type');
+
+describe('IFS Cloud token manager', () => {
+  let manager: IFSTokenManager;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-03-02T08:00:00Z') });
+    manager = new IFSTokenManager();
+    mockFetch.mockReset();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should cache a token per identity', async () => {
+    mockFetch.mockResolvedValueOnce(tokenResponse(1)).mockResolvedValueOnce(tokenResponse(2));
+
+    expect(await manager.getToken(identity)).toBe('Bearer access-1');
+    expect(await manager.getToken(identity)).toBe('Bearer access-1');
+    expect(await manager.getToken({ ...identity, username: 'other' })).toBe('Bearer access-2');
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(manager.isAuthenticated(identity)).toBe(true);
+    expect(manager.isAuthenticated({ ...identity, clientId: 'other' })).toBe(false);
+  });
+
+  it('should share one login between concurrent requests', async () => {
+    mockFetch.mockResolvedValueOnce(tokenResponse(1));
+
+    const tokens = await Promise.all([manager.getToken(identity), manager.getToken(identity), manager.getToken(identity)]);
+
+    expect(tokens).toEqual(['Bearer access-1', 'Bearer access-1', 'Bearer access-1']);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(grantOf(0)).toBe('password');
+  });
+
+  it('should renew with the refresh token one minute before the access token expires', async () => {
+    mockFetch.mockResolvedValueOnce(tokenResponse(1)).mockResolvedValueOnce(tokenResponse(2));
+    await manager.getToken(identity);
+
+    jest.advanceTimersByTime(230 * 1000);
+    expect(await manager.getToken(identity)).toBe('Bearer access-1');
+
+    jest.advanceTimersByTime(10 * 1000);
+    expect(manager.isAuthenticated(identity)).toBe(false);
+    expect(await manager.getToken(identity)).toBe('Bearer access-2');
+
+    expect(grantOf(1)).toBe('refresh_token');
+    expect(new URLSearchParams(mockFetch.mock.calls[1][1].body).get('refresh_token')).toBe('refresh-1');
+  });
+
+  it('should sign in again when the refresh token is refused or has expired', async () => {
+    mockFetch
+      .mockResolvedValueOnce(tokenResponse(1))
+      .mockResolvedValueOnce({ ok: false, status: 400, text: async () => 'Token is not active' })
+      .mockResolvedValueOnce(tokenResponse(2))
+      .mockResolvedValueOnce(tokenResponse(3));
+    await manager.getToken(identity);
+
+    jest.advanceTimersByTime(300 * 1000);
+    expect(await manager.getToken(identity)).toBe('Bearer access-2');
+    expect([grantOf(1), grantOf(2)]).toEqual(['refresh_token', 'password']);
+
+    jest.advanceTimersByTime(1800 * 1000);
+    expect(await manager.getToken(identity)).toBe('Bearer access-3');
+    expect(grantOf(3)).toBe('password');
+  });
+
+  it('should drop a token IFS rejects, and ignore reports of tokens it no longer holds', async () => {
+    mockFetch.mockResolvedValueOnce(tokenResponse(1)).mockResolvedValueOnce(tokenResponse(2));
+    await manager.getToken(identity);
+
+    manager.reportResponse('Bearer access-1', 401);
+    expect(manager.isAuthenticated(identity)).toBe(false);
+    expect(await manager.getToken(identity)).toBe('Bearer access-2');
+    expect(grantOf(1)).toBe('password');
+
+    manager.reportResponse('Bearer access-1', 401);
+    expect(await manager.getToken(identity)).toBe('Bearer access-2');
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should back off with a doubling wait after repeated 401s', async () => {
+    mockFetch.mockResolvedValue(unauthorized);
+
+    // The first 401 may be retried right away
+    await expect(manager.getToken(identity)).rejects.toThrow('Authentication failed: 401');
+    await expect(manager.getToken(identity)).rejects.toThrow('Authentication failed: 401');
+    await expect(manager.getToken(identity)).rejects.toThrow('answered 401 2 times in a row; not signing in again for 1s');
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+
+    jest.advanceTimersByTime(AUTH_BACKOFF_BASE_MS);
+    await expect(manager.getToken(identity)).rejects.toThrow('Authentication failed: 401');
+    await expect(manager.getToken(identity)).rejects.toThrow('not signing in again for 2s');
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+
+    // Other identities are not held back
+    mockFetch.mockResolvedValueOnce(tokenResponse(1));
+    expect(await manager.getToken({ ...identity, username: 'other' })).toBe('Bearer access-1');
+  });
+
+  it('should end the backoff once IFS accepts a token', async () => {
+    mockFetch
+      .mockResolvedValueOnce(tokenResponse(1))
+      .mockResolvedValueOnce(tokenResponse(2))
+      .mockResolvedValueOnce(tokenResponse(3))
+      .mockResolvedValueOnce(tokenResponse(4));
+    await manager.getToken(identity);
+
+    manager.reportResponse('Bearer access-1', 401);
+    await manager.getToken(identity);
+    manager.reportResponse('Bearer access-2', 401);
+    await expect(manager.getToken(identity)).rejects.toThrow('not signing in again');
+
+    jest.advanceTimersByTime(AUTH_BACKOFF_BASE_MS);
+    await manager.getToken(identity);
+    manager.reportResponse('Bearer access-3', 200);
+    manager.reportResponse('Bearer access-3', 401);
+    expect(await manager.getToken(identity)).toBe('Bearer access-4');
+  });
+
+  it('should sign in with the client alone for the client_credentials grant', async () => {
+    mockFetch.mockResolvedValueOnce(tokenResponse(1));
+
+    const token = await manager.getToken({ ...identity, grantType: 'client_credentials', username: '', password: '' });
+
+    expect(token).toBe('Bearer access-1');
+    const form = new URLSearchParams(mockFetch.mock.calls[0][1].body);
+    expect(form.get('grant_type')).toBe('client_credentials');
+    expect(form.get('client_secret')).toBe('secret');
+    expect(form.has('username')).toBe(false);
+  });
+
+  it('should say which settings to check when the token endpoint refuses the login', async () => {
+    const refuse = (status: number, body: string) => ({ ok: false, status, text: async () => body });
+    const failure = async (grant: IFSIdentity['grantType'] = 'password') => {
+      manager.clear();
+      return manager.getToken({ ...identity, grantType: grant }).then(
+        () => { throw new Error('Expected the login to be refused'); },
+        (error: IFSAuthError) => error
+      );
+    };
+
+    mockFetch.mockResolvedValueOnce(unauthorized);
+    const wrongPassword = await failure();
+    expect(wrongPassword).toBeInstanceOf(IFSAuthError);
+    expect(wrongPassword).toMatchObject({ status: 401, code: 'invalid_grant' });
+    expect(wrongPassword.message).toBe('Authentication failed: 401 - Invalid user credentials (invalid_grant). Check IFS_USERNAME and IFS_PASSWORD');
+
+    mockFetch.mockResolvedValueOnce(refuse(401, '{"error":"unauthorized_client","error_description":"Invalid client or Invalid client credentials"}'));
+    expect((await failure()).message).toContain('Check IFS_CLIENT_ID and IFS_CLIENT_SECRET');
+
+    mockFetch.mockResolvedValueOnce(refuse(400, '{"error":"unauthorized_client","error_description":"Client not allowed for direct access grants"}'));
+    expect((await failure()).message).toContain('may not use the password grant here; set IFS_GRANT_TYPE=client_credentials');
+
+    mockFetch.mockResolvedValueOnce(refuse(401, '{"error":"unauthorized_client","error_description":"Client not enabled to retrieve service account"}'));
+    expect((await failure('client_credentials')).message).toContain('enable its service account or set IFS_GRANT_TYPE=password');
+
+    mockFetch.mockResolvedValueOnce(refuse(404, '<html>Not Found</html>'));
+    expect((await failure()).message).toBe(
+      `Authentication failed: 404 - <html>Not Found</html>. No Keycloak realm at ${identity.authUrl}; check NEXT_PUBLIC_IFS_BASE_URL and NEXT_PUBLIC_IFS_ENVIRONMENT_ID`
+    );
+  });
+});
@@ -2,18 +2,62 @@
 // Facade for IFS Cloud REST API
 // Supports both mock data (development) and live IFS Cloud API
 
+import { format } from 'date-fns';
 import type {
   Resource,
   Team,
   Assignment,
+  LeaderPeriod,
   CreateAssignmentInput,
   UpdateAssignmentInput,
+  CreateLeaderPeriodInput,
+  UpdateLeaderPeriodInput,
   TeamComposition,
 } from '@/domain/types';
+import { findTeamLeaderGaps } from '@/domain/teamLeaderValidation';
+import { periodsOverlap } from '@/domain/overlap';
+import type { WorkingCalendar } from '@/domain/workingCalendar';
+import {
+  ScheduleValidationError,
+  hasErrors,
+  validateSchedule,
+  type ScheduleChange,
+  type ScheduleViolation,
+} from '@/domain/scheduleValidation';
+import { createTeamSchema, type CreateTeamInput } from '@/domain/validation';
+import {
+  buildCrewCreateOperations,
+  buildCrewSyncOperations,
+  type CrewSyncOperation,
+  type CrewSyncOperationResult,
+  type SyncConflict,
+  type SyncItemResult,
+  type SyncPreviewGroup,
+  type SyncPreviewVersion,
+  type SyncReport,
+  type SyncSelection,
+} from './crew-sync';
+import { fromIFSDateTime, ifsCloudConfig } from './ifs-config';
+import type { IFSCrewDetails } from './ifs-crews';
+import type { IFSProfileList, IFSProfileSummary } from './ifs-profiles';
+import type { IFSUser } from './ifs-session';
+import type { ScheduleExportData } from '@/lib/spreadsheet/schedule-export';
+import { previewScheduleImport, type ImportPreview, type ImportRow } from '@/lib/spreadsheet/schedule-import';
+import { readCrewLoadEvents, type CrewLoadProgress } from './crew-load';
+import { selectGapCalendar, useUIStore } from '@/lib/store/ui-store';
+import {
+  clearDraft,
+  countDraftChanges,
+  isSameTarget,
+  loadDraft,
+  saveDraft,
+  type DraftTarget,
+  type WorkingStateDraft,
+} from './draft-store';
 // Note: IFS Cloud calls are now handled by server-side API routes
 // See app/api/technicians/route.ts
 // Note: Crews API calls are handled via server-side API routes
-// See app/api/crews/route.ts, app/api/crews/[resourceSeq]/members/route.ts, etc.
+// See app/api/crews/details/route.ts (all crews with memberships and leaders), app/api/crews/sync/route.ts, etc.
 
 // ============================================================================
 // API MODE CONFIGURATION
@@ -28,6 +72,9 @@ console.log(`[API Client] USE_IFS_CLOUD = ${USE_IFS_CLOUD} (env: ${process.env.N
 // Cache for IFS technicians (to avoid repeated API calls)
 let cachedIFSTechnicians: Resource[] | null = null;
 
+// Connection profiles, loaded once per page; switching profile reloads the page
+let profilesRequest: Promise<IFSProfileList> | null = null;
+
 // ============================================================================
 // MOCK DATA - Default/fallback data
 // ============================================================================
@@ -49,12 +96,18 @@ const mockTeams: Team[] = [
 ];
 
 const mockAssignments: Assignment[] = [
-  { id: 'assign-001', resourceId: 'tech-001', teamId: 'team-1', start: '2026-01-20T00:00:00Z', end: '2026-02-05T00:00:00Z', isTeamLeader: false },
-  { id: 'assign-001b', resourceId: 'tech-001', teamId: 'team-1', start: '2026-02-15T00:00:00Z', end: '2026-02-28T00:00:00Z', isTeamLeader: false }, // James Wilson second period
-  { id: 'assign-002', resourceId: 'tech-003', teamId: 'team-1', start: '2026-01-22T00:00:00Z', end: '2026-02-10T00:00:00Z', isTeamLeader: false },
-  { id: 'assign-003', resourceId: 'tech-005', teamId: 'team-1', start: '2026-01-18T00:00:00Z', end: '2026-02-28T00:00:00Z', isTeamLeader: true },
-  { id: 'assign-004', resourceId: 'tech-002', teamId: 'team-2', start: '2026-01-25T00:00:00Z', end: '2026-02-20T00:00:00Z', isTeamLeader: true },
-  { id: 'assign-005', resourceId: 'tech-006', teamId: 'team-2', start: '2026-01-15T00:00:00Z', end: '2026-03-01T00:00:00Z', isTeamLeader: false },
+  { id: 'assign-001', resourceId: 'tech-001', teamId: 'team-1', start: '2026-01-20T00:00:00Z', end: '2026-02-05T00:00:00Z' },
+  { id: 'assign-001b', resourceId: 'tech-001', teamId: 'team-1', start: '2026-02-15T00:00:00Z', end: '2026-02-28T00:00:00Z' }, // James Wilson second period
+  { id: 'assign-002', resourceId: 'tech-003', teamId: 'team-1', start: '2026-01-22T00:00:00Z', end: '2026-02-10T00:00:00Z' },
+  { id: 'assign-003', resourceId: 'tech-005', teamId: 'team-1', start: '2026-01-18T00:00:00Z', end: '2026-02-28T00:00:00Z' },
+  { id: 'assign-004', resourceId: 'tech-002', teamId: 'team-2', start: '2026-01-25T00:00:00Z', end: '2026-02-20T00:00:00Z' },
+  { id: 'assign-005', resourceId: 'tech-006', teamId: 'team-2', start: '2026-01-15T00:00:00Z', end: '2026-03-01T00:00:00Z' },
+];
+
+const mockLeaderPeriods: LeaderPeriod[] = [
+  { id: 'leader-001', resourceId: 'tech-005', teamId: 'team-1', start: '2026-01-18T00:00:00Z', end: '2026-02-28T00:00:00Z' },
+  { id: 'leader-002', resourceId: 'tech-002', teamId: 'team-2', start: '2026-01-25T00:00:00Z', end: '2026-02-10T00:00:00Z' },
+  { id: 'leader-003', resourceId: 'tech-006', teamId: 'team-2', start: '2026-02-10T00:00:00Z', end: '2026-03-01T00:00:00Z' }, // Charlotte Taylor takes over
 ];
 
 // ============================================================================
@@ -63,9 +116,12 @@ const mockAssignments: Assignment[] = [
 // ============================================================================
 
 // Working state variables - initialized from API or mock data
-let workingTeams: Team[] = [...mockTeams];
-let workingAssignments: Assignment[] = [...mockAssignments];
+// With IFS Cloud they stay empty until the crews are loaded, so mock crews can never be pushed there
+let workingTeams: Team[] = USE_IFS_CLOUD ? [] : [...mockTeams];
+let workingAssignments: Assignment[] = USE_IFS_CLOUD ? [] : [...mockAssignments];
+let workingLeaderPeriods: LeaderPeriod[] = USE_IFS_CLOUD ? [] : [...mockLeaderPeriods];
 let isWorkingStateInitialized = false; // Track if we've loaded data from IFS Cloud
+let crewLoadProgress: CrewLoadProgress | null = null; // Set while crews are streaming in from IFS Cloud
 
 // ============================================================================
 // CHANGE TRACKING - Track what has been modified for future IFS Cloud sync
@@ -74,13 +130,42 @@ let isWorkingStateInitialized = false; // Track if we've loaded data from IFS Cl
 // Original state from IFS Cloud (snapshot when initialized)
 let originalTeams: Team[] = [];
 let originalAssignments: Assignment[] = [];
+let originalLeaderPeriods: LeaderPeriod[] = [];
 
 // Change tracking - IDs of entities that have been modified
 let changedAssignments = new Set<string>(); // IDs of assignments that were created or updated
 let changedTeams = new Set<string>(); // IDs of teams that were created or updated
 let deletedAssignments = new Set<string>(); // IDs of assignments that were deleted
+let changedLeaderPeriods = new Set<string>(); // IDs of leader periods that were created or updated
+let deletedLeaderPeriods = new Set<string>(); // IDs of leader periods that were deleted
 let deletedTeams = new Set<string>(); // IDs of teams that were deleted
 
+// ============================================================================
+// DRAFT PERSISTENCE - Working state and change tracking saved to IndexedDB
+// ============================================================================
+
+// Nothing is saved, and no edit is accepted, until the user has resumed or discarded
+// a stored draft, so loading from IFS Cloud never overwrites a draft that is still pending
+let isDraftDecisionPending = true;
+let draftSaveTimer: ReturnType<typeof setTimeout> | null = null;
+const DRAFT_SAVE_DELAY_MS = 500;
+
+// ============================================================================
+// UNDO / REDO - Snapshots of the working state taken before each mutation
+// ============================================================================
+
+// Working state and change tracking, without the draft metadata
+type WorkingStateSnapshot = Omit<WorkingStateDraft, 'target' | 'savedAt'>;
+
+interface HistoryEntry {
+  label: string; // Describes the mutation that followed the snapshot
+  state: WorkingStateSnapshot;
+}
+
+const MAX_HISTORY = 100;
+let undoStack: HistoryEntry[] = [];
+let redoStack: HistoryEntry[] = [];
+
 // ============================================================================
 // API HELPERS
 // ============================================================================
@@ -88,43 +173,392 @@ let deletedTeams = new Set<string>(); // IDs of teams that were deleted
 // Simulate network delay (remove when connecting to real API)
 const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
-// Check if two date ranges overlap
-function rangesOverlap(start1: Date, end1: Date, start2: Date, end2: Date): boolean {
-  return start1 < end2 && start2 < end1;
+// Check if any change is tracked
+function hasTrackedChanges(): boolean {
+  return changedAssignments.size > 0 ||
+         changedTeams.size > 0 ||
+         deletedAssignments.size > 0 ||
+         deletedTeams.size > 0 ||
+         changedLeaderPeriods.size > 0 ||
+         deletedLeaderPeriods.size > 0;
+}
+
+// IFS tenant the working state belongs to
+function getDraftTarget(): DraftTarget {
+  return {
+    baseUrl: USE_IFS_CLOUD ? ifsCloudConfig.baseUrl : 'mock',
+    environmentId: ifsCloudConfig.environmentId,
+    resourceGroupSeqCrews: ifsCloudConfig.resourceGroupSeqCrews,
+  };
+}
+
+// Copy the working state and change tracking (entities are replaced, never mutated, so shallow copies suffice)
+function snapshotWorkingState(): WorkingStateSnapshot {
+  return {
+    workingTeams: [...workingTeams],
+    workingAssignments: [...workingAssignments],
+    workingLeaderPeriods: [...workingLeaderPeriods],
+    originalTeams: [...originalTeams],
+    originalAssignments: [...originalAssignments],
+    originalLeaderPeriods: [...originalLeaderPeriods],
+    changedTeams: Array.from(changedTeams),
+    deletedTeams: Array.from(deletedTeams),
+    changedAssignments: Array.from(changedAssignments),
+    deletedAssignments: Array.from(deletedAssignments),
+    changedLeaderPeriods: Array.from(changedLeaderPeriods),
+    deletedLeaderPeriods: Array.from(deletedLeaderPeriods),
+  };
+}
+
+// Save the working state as a draft shortly after the last change.
+// Without tracked changes there is nothing to resume, so the draft is removed.
+function persistWorkingState(): void {
+  if (isDraftDecisionPending) return;
+  if (draftSaveTimer) {
+    clearTimeout(draftSaveTimer);
+  }
+  draftSaveTimer = setTimeout(() => {
+    draftSaveTimer = null;
+    void writeDraft();
+  }, DRAFT_SAVE_DELAY_MS);
+}
+
+// Resuming a draft replaces the working state, so edits made while the user has not yet
+// resumed or discarded it would be lost; they are refused until the user has decided
+function assertDraftDecided(): void {
+  if (isDraftDecisionPending) {
+    throw new Error('Resume or discard your saved draft before making changes');
+  }
+}
+
+function writeDraft(): Promise<void> {
+  return hasTrackedChanges()
+    ? saveDraft({ target: getDraftTarget(), savedAt: new Date().toISOString(), ...snapshotWorkingState() })
+    : clearDraft(getDraftTarget());
+}
+
+// Write a draft that is still waiting for its delay right away
+async function flushDraft(): Promise<void> {
+  if (!draftSaveTimer) return;
+  clearTimeout(draftSaveTimer);
+  draftSaveTimer = null;
+  await writeDraft();
+}
+
+// Message of a failed API route response: its details, and for authentication failures what to check
+async function readErrorResponse(response: Response, fallback: string): Promise<string> {
+  const body = await response.json().catch(() => null);
+  const reason = body?.details || body?.error || `${fallback}: ${response.status}`;
+  return body?.suggestion ? `${reason}. ${body.suggestion}` : reason;
+}
+
+// Use the settings of the profile the server works with for this browser instead of the build-time
+// ones: drafts, IFS date conversion and the IFS calendar depend on them
+async function loadProfiles(): Promise<IFSProfileList> {
+  if (!USE_IFS_CLOUD) {
+    return { profiles: [], activeId: null };
+  }
+
+  const response = await fetch('/api/profiles');
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    console.error('[API] Could not load the connection profiles:', body?.details || response.status);
+    return { profiles: [], activeId: null };
+  }
+
+  const list: IFSProfileList = await response.json();
+  const active = list.profiles.find((profile) => profile.id === list.activeId);
+  if (active) {
+    const { id, name, production, ...settings } = active;
+    Object.assign(ifsCloudConfig, settings);
+    console.log(`[API] Connection profile: ${name} (${id}${production ? ', production' : ''})`);
+  }
+  return list;
+}
+
+function restoreWorkingState(state: WorkingStateSnapshot): void {
+  workingTeams = [...state.workingTeams];
+  workingAssignments = [...state.workingAssignments];
+  workingLeaderPeriods = [...state.workingLeaderPeriods];
+  originalTeams = [...state.originalTeams];
+  originalAssignments = [...state.originalAssignments];
+  originalLeaderPeriods = [...state.originalLeaderPeriods];
+  changedTeams = new Set(state.changedTeams);
+  deletedTeams = new Set(state.deletedTeams);
+  changedAssignments = new Set(state.changedAssignments);
+  deletedAssignments = new Set(state.deletedAssignments);
+  changedLeaderPeriods = new Set(state.changedLeaderPeriods);
+  deletedLeaderPeriods = new Set(state.deletedLeaderPeriods);
+}
+
+// Record the state before a mutation so it can be undone; a new mutation clears the redo stack
+function recordHistory(label: string, state: WorkingStateSnapshot = snapshotWorkingState()): void {
+  undoStack.push({ label, state });
+  if (undoStack.length > MAX_HISTORY) {
+    undoStack.shift();
+  }
+  redoStack = [];
+}
+
+// Forget the history when the IFS baseline changes (push, conflicts, reload):
+// undoing past it would resurrect rows that IFS no longer has
+function clearHistory(): void {
+  undoStack = [];
+  redoStack = [];
+}
+
+// Find resources in the current resource list (from IFS or mock)
+function getKnownResources(): Resource[] {
+  return USE_IFS_CLOUD ? cachedIFSTechnicians ?? [] : mockTechnicians;
+}
+
+// Run a change through the schedule rules against the working state.
+// Throws ScheduleValidationError on errors; warnings are returned (and logged)
+function assertValidChange(change: ScheduleChange): ScheduleViolation[] {
+  const violations = validateSchedule({
+    teams: workingTeams,
+    assignments: workingAssignments,
+    leaderPeriods: workingLeaderPeriods,
+    resources: getKnownResources(),
+    // The calendar the board checks the same change against, so both report the same problems
+    calendar: selectGapCalendar(useUIStore.getState()),
+  }, change);
+  if (hasErrors(violations)) {
+    console.error(`[API] ${change.kind} rejected:`, violations.map((v) => `${v.ruleId}: ${v.message}`));
+    throw new ScheduleValidationError(violations);
+  }
+  violations.forEach((v) => console.warn(`[API] ${change.kind}: ${v.message}`));
+  return violations;
+}
+
+// Accept the working version of an assignment as the new IFS baseline
+function commitAssignmentSync(id: string): void {
+  const working = workingAssignments.find((a) => a.id === id);
+  originalAssignments = originalAssignments.filter((a) => a.id !== id);
+  if (working) {
+    originalAssignments.push({ ...working });
+  }
+  changedAssignments.delete(id);
+  deletedAssignments.delete(id);
+}
+
+// Accept the working version of a leader period as the new IFS baseline
+function commitLeaderPeriodSync(id: string): void {
+  const working = workingLeaderPeriods.find((l) => l.id === id);
+  originalLeaderPeriods = originalLeaderPeriods.filter((l) => l.id !== id);
+  if (working) {
+    originalLeaderPeriods.push({ ...working });
+  }
+  changedLeaderPeriods.delete(id);
+  deletedLeaderPeriods.delete(id);
+}
+
+// Remove a leader period from working state and track the deletion
+function removeLeaderPeriod(id: string): void {
+  workingLeaderPeriods = workingLeaderPeriods.filter((l) => l.id !== id);
+  if (originalLeaderPeriods.some((l) => l.id === id)) {
+    deletedLeaderPeriods.add(id);
+  }
+  changedLeaderPeriods.delete(id);
+}
+
+// Add a leader period to working state and track it as created
+function addLeaderPeriod(input: CreateLeaderPeriodInput, id = `leader-${Date.now()}`): LeaderPeriod {
+  const newLeaderPeriod: LeaderPeriod = {
+    ...input,
+    id,
+  };
+  workingLeaderPeriods.push(newLeaderPeriod);
+  changedLeaderPeriods.add(newLeaderPeriod.id);
+  console.log(`[API] Created leader period ${newLeaderPeriod.id} for resource ${newLeaderPeriod.resourceId} in team ${newLeaderPeriod.teamId}`);
+  return newLeaderPeriod;
+}
+
+// Accept the working version of a team as the new IFS baseline
+function commitTeamSync(id: string): void {
+  const working = workingTeams.find((t) => t.id === id);
+  originalTeams = originalTeams.filter((t) => t.id !== id);
+  if (working) {
+    originalTeams.push({ ...working });
+  }
+  changedTeams.delete(id);
+  deletedTeams.delete(id);
+}
+
+// Copy the ResourceSeq and ETag assigned by IFS Cloud onto a newly created crew
+function applyTeamCreateResult(teamId: string, result: CrewSyncOperationResult): void {
+  const index = workingTeams.findIndex((t) => t.id === teamId);
+  if (index !== -1) {
+    workingTeams[index] = { ...workingTeams[index], ResourceSeq: result.crewSeq, etag: result.etag };
+  }
+}
+
+// Send crew sync operations to the server route; a failed request is reported as requestError
+async function postCrewSyncOperations(
+  operations: CrewSyncOperation[]
+): Promise<{ results: CrewSyncOperationResult[]; requestError: string | null }> {
+  if (operations.length === 0) {
+    return { results: [], requestError: null };
+  }
+  try {
+    const response = await fetch('/api/crews/sync', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ operations }),
+    });
+    if (!response.ok) {
+      return { results: [], requestError: await readErrorResponse(response, 'Sync failed') };
+    }
+    const payload = await response.json();
+    return { results: payload.results, requestError: null };
+  } catch (error) {
+    return { results: [], requestError: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// Describe an assignment or leader period for sync reporting
+function describeAssignment(assignment: Pick<Assignment, 'resourceId' | 'teamId'>): string {
+  const resourceName = getKnownResources().find((r) => r.id === assignment.resourceId)?.description || assignment.resourceId;
+  const teamName = [...workingTeams, ...originalTeams].find((t) => t.id === assignment.teamId)?.name || assignment.teamId;
+  return `${resourceName} in ${teamName}`;
+}
+
+// Apply the successful membership operations of a push to the IFS baseline of an assignment.
+// Returns the assignment as it now exists in IFS (null if it no longer does), so that
+// a partially synced assignment is never written twice. The new row key and ETag
+// are copied onto the working assignment.
+function applyAssignmentSyncResults(assignmentId: string, results: CrewSyncOperationResult[]): Assignment | null {
+  const working = workingAssignments.find((a) => a.id === assignmentId);
+  let baseline: Assignment | null = originalAssignments.find((a) => a.id === assignmentId) || null;
+
+  for (const result of results) {
+    if (!result.success) continue;
+    switch (result.kind) {
+      case 'deleteMember':
+        baseline = null;
+        break;
+      case 'updateMember':
+        if (baseline && working) {
+          baseline = { ...baseline, start: working.start, end: working.end, etag: result.etag };
+        }
+        break;
+      case 'createMember':
+        if (working) {
+          baseline = { ...working, ResourceMemberSeq: result.memberSeq, etag: result.etag };
+        }
+        break;
+    }
+  }
+
+  const index = workingAssignments.findIndex((a) => a.id === assignmentId);
+  if (index !== -1) {
+    workingAssignments[index] = {
+      ...workingAssignments[index],
+      ResourceMemberSeq: baseline?.ResourceMemberSeq,
+      etag: baseline?.etag,
+    };
+  }
+
+  return baseline;
+}
+
+// Same as applyAssignmentSyncResults, for the leader row of a leader period
+function applyLeaderPeriodSyncResults(leaderPeriodId: string, results: CrewSyncOperationResult[]): LeaderPeriod | null {
+  const working = workingLeaderPeriods.find((l) => l.id === leaderPeriodId);
+  let baseline: LeaderPeriod | null = originalLeaderPeriods.find((l) => l.id === leaderPeriodId) || null;
+
+  for (const result of results) {
+    if (!result.success) continue;
+    switch (result.kind) {
+      case 'deleteLeader':
+        baseline = null;
+        break;
+      case 'updateLeader':
+        if (baseline && working) {
+          baseline = { ...baseline, start: working.start, end: working.end, etag: result.etag };
+        }
+        break;
+      case 'createLeader':
+        if (working) {
+          baseline = { ...working, ResourceCrewLeaderSeq: result.leaderSeq, etag: result.etag };
+        }
+        break;
+    }
+  }
+
+  const index = workingLeaderPeriods.findIndex((l) => l.id === leaderPeriodId);
+  if (index !== -1) {
+    workingLeaderPeriods[index] = {
+      ...workingLeaderPeriods[index],
+      ResourceCrewLeaderSeq: baseline?.ResourceCrewLeaderSeq,
+      etag: baseline?.etag,
+    };
+  }
+
+  return baseline;
+}
+
+// Replace the IFS baseline of an assignment without touching change tracking
+function setAssignmentBaseline(assignmentId: string, baseline: Assignment | null): void {
+  originalAssignments = originalAssignments.filter((a) => a.id !== assignmentId);
+  if (baseline) {
+    originalAssignments.push(baseline);
+  }
+}
+
+// Replace the IFS baseline of a leader period without touching change tracking
+function setLeaderPeriodBaseline(leaderPeriodId: string, baseline: LeaderPeriod | null): void {
+  originalLeaderPeriods = originalLeaderPeriods.filter((l) => l.id !== leaderPeriodId);
+  if (baseline) {
+    originalLeaderPeriods.push(baseline);
+  }
 }
 
-// Check if a membership period overlaps with a leader period
-function isLeaderForPeriod(
-  resourceId: string,
-  membershipStart: Date,
-  membershipEnd: Date,
-  leaders: Array<{ ResourceId: string; ValidFrom: string; ValidTo: string }>
-): boolean {
-  return leaders.some((leader) => {
-    if (leader.ResourceId !== resourceId) return false;
-    const leaderStart = new Date(leader.ValidFrom);
-    const leaderEnd = new Date(leader.ValidTo);
-    return rangesOverlap(membershipStart, membershipEnd, leaderStart, leaderEnd);
-  });
+// Apply a conflict resolution to a working list and its change tracking sets.
+// Keeping the local version rebases it on the IFS row key and ETag (see rebase), so a
+// row deleted in IFS is re-created and a changed row is overwritten on the next push.
+function resolveConflictIn<T extends Assignment | LeaderPeriod>(
+  working: T[],
+  id: string,
+  server: T | null,
+  keep: 'local' | 'server',
+  changed: Set<string>,
+  deleted: Set<string>,
+  rebase: (local: T, server: T | null) => T
+): T[] {
+  const index = working.findIndex((item) => item.id === id);
+  const next = [...working];
+
+  if (keep === 'server') {
+    if (server && index === -1) {
+      next.push({ ...server });
+    } else if (server) {
+      next[index] = { ...server };
+    } else if (index !== -1) {
+      next.splice(index, 1);
+    }
+    changed.delete(id);
+    deleted.delete(id);
+    return next;
+  }
+
+  if (index !== -1) {
+    next[index] = rebase(next[index], server);
+    changed.add(id);
+  } else if (!server) {
+    // Deleted on both sides: nothing left to push
+    deleted.delete(id);
+  }
+  return next;
 }
 
-// Find conflicting team leader assignments
-// Uses workingAssignments (current state) instead of mockAssignments
-function findConflictingTeamLeader(
-  teamId: string,
-  start: Date,
-  end: Date,
-  excludeAssignmentId?: string
-): Assignment | undefined {
-  return workingAssignments.find((a) => {
-    if (a.teamId !== teamId) return false;
-    if (!a.isTeamLeader) return false;
-    if (excludeAssignmentId && a.id === excludeAssignmentId) return false;
-    
-    const aStart = new Date(a.start);
-    const aEnd = new Date(a.end);
-    return rangesOverlap(start, end, aStart, aEnd);
-  });
+// Build the IFS version of an item from a 412 conflict result (null if the row was deleted in IFS)
+function buildServerVersion<T extends Assignment | LeaderPeriod>(original: T, result: CrewSyncOperationResult): T | null {
+  const serverVersion = result.conflict?.serverVersion ?? null;
+  if (!serverVersion) {
+    return null;
+  }
+  return { ...original, start: fromIFSDateTime(serverVersion.start), end: fromIFSDateTime(serverVersion.end), etag: serverVersion.etag };
 }
 
 // ============================================================================
@@ -141,29 +575,24 @@ export const api = {
     console.log('[API Client] getTechnicians called, USE_IFS_CLOUD:', USE_IFS_CLOUD);
     
     if (USE_IFS_CLOUD) {
-      try {
-        console.log('[API Client] Fetching from /api/technicians...');
-        
-        // Use cache if available
-        if (cachedIFSTechnicians) {
-          console.log('[API Client] Returning cached technicians:', cachedIFSTechnicians.length);
-          return [...cachedIFSTechnicians];
-        }
-        
-        // Fetch from server-side API route (handles IFS Cloud auth securely)
-        const response = await fetch('/api/technicians');
-        if (!response.ok) {
-          throw new Error(`Failed to fetch technicians: ${response.status}`);
-        }
-        
-        cachedIFSTechnicians = await response.json();
-        console.log('[API Client] Fetched technicians:', cachedIFSTechnicians?.length);
-        return [...(cachedIFSTechnicians || [])];
-      } catch (error) {
-        console.error('[API Client] Failed to fetch technicians:', error);
-        // Fallback to mock data on error
-        return [...mockTechnicians];
+      // Use cache if available
+      if (cachedIFSTechnicians) {
+        console.log('[API Client] Returning cached technicians:', cachedIFSTechnicians.length);
+        return [...cachedIFSTechnicians];
       }
+      
+      // Fetch from server-side API route (handles IFS Cloud auth securely)
+      // A failure is thrown, so the board shows what to check instead of mock technicians
+      console.log('[API Client] Fetching from /api/technicians...');
+      const response = await fetch('/api/technicians');
+      if (!response.ok) {
+        throw new Error(await readErrorResponse(response, 'Failed to fetch technicians'));
+      }
+      
+      const technicians: Resource[] = await response.json();
+      cachedIFSTechnicians = technicians;
+      console.log('[API Client] Fetched technicians:', technicians.length);
+      return [...technicians];
     }
     
     // Use mock data
@@ -204,7 +633,12 @@ export const api = {
         resourceSurname,
         startDate: assignment.start,
         endDate: assignment.end,
-        isTeamLeader: assignment.isTeamLeader,
+        isTeamLeader: mockLeaderPeriods.some(
+          (l) =>
+            l.teamId === teamId &&
+            l.resourceId === assignment.resourceId &&
+            periodsOverlap(l, assignment)
+        ),
       };
     });
 
@@ -234,31 +668,44 @@ export const api = {
   },
 
   /**
-   * Validate if a team leader assignment is allowed
+   * Get all leader periods
+   */
+  async getLeaderPeriods(): Promise<LeaderPeriod[]> {
+    await delay(200);
+    return [...workingLeaderPeriods];
+  },
+
+  /**
+   * Validate if a leader period is allowed: the team must not have another leader
+   * in the same period, and the resource must be a member of the team for all of it
    */
   async validateTeamLeader(
     teamId: string,
+    resourceId: string,
     start: string,
     end: string,
-    excludeAssignmentId?: string
-  ): Promise<{ valid: boolean; conflictingAssignment?: Assignment; message?: string }> {
+    excludeLeaderPeriodId?: string
+  ): Promise<{ valid: boolean; conflictingLeaderPeriod?: LeaderPeriod; message?: string }> {
     await delay(100);
-    
-    const startDate = new Date(start);
-    const endDate = new Date(end);
-    
-    const conflict = findConflictingTeamLeader(teamId, startDate, endDate, excludeAssignmentId);
-    
-    if (conflict) {
-      // Try to find resource in working technicians (from IFS or mock)
-      const allResources = USE_IFS_CLOUD && cachedIFSTechnicians 
-        ? cachedIFSTechnicians 
-        : mockTechnicians;
-      const conflictTech = allResources.find((t) => t.id === conflict.resourceId);
+
+    const violations = validateSchedule(
+      {
+        teams: workingTeams,
+        assignments: workingAssignments,
+        leaderPeriods: workingLeaderPeriods,
+        resources: getKnownResources(),
+      },
+      excludeLeaderPeriodId
+        ? { kind: 'updateLeaderPeriod', input: { id: excludeLeaderPeriodId, start, end } }
+        : { kind: 'createLeaderPeriod', input: { resourceId, teamId, start, end } }
+    );
+    const error = violations.find((v) => v.severity === 'error');
+    if (error) {
+      const conflictId = error.ruleId === 'leader-overlap' ? error.entities.leaderPeriodIds[1] : undefined;
       return {
         valid: false,
-        conflictingAssignment: conflict,
-        message: `${conflictTech?.description || conflict.resourceId || 'Unknown'} is already Team Leader during this period`,
+        conflictingLeaderPeriod: workingLeaderPeriods.find((l) => l.id === conflictId),
+        message: error.message,
       };
     }
     
@@ -267,17 +714,14 @@ export const api = {
 
   /**
    * Create a new assignment (add technician to team)
+   * With isTeamLeader, a leader period for the same dates is created as well
    */
   async createAssignment(input: CreateAssignmentInput): Promise<Assignment> {
+    assertDraftDecided();
     await delay(300);
     
-    // Validate team leader if setting as leader
-    if (input.isTeamLeader) {
-      const validation = await this.validateTeamLeader(input.teamId, input.start, input.end);
-      if (!validation.valid) {
-        throw new Error(validation.message || 'Team leader conflict');
-      }
-    }
+    // Checks the leader period as well, so a rejected leader leaves no membership behind
+    assertValidChange({ kind: 'createAssignment', input });
     
     const newAssignment: Assignment = {
       resourceId: input.resourceId,
@@ -285,14 +729,25 @@ export const api = {
       start: input.start,
       end: input.end,
       role: input.role,
-      isTeamLeader: input.isTeamLeader || false,
       id: `assign-${Date.now()}`,
     };
+    recordHistory(`Add ${describeAssignment(newAssignment)}`);
     // Add to working state (not mock)
     workingAssignments.push(newAssignment);
     // Track as changed (new assignment)
     changedAssignments.add(newAssignment.id);
     console.log(`[API] Created assignment ${newAssignment.id} for resource ${newAssignment.resourceId} in team ${newAssignment.teamId}`);
+
+    // Part of the same undo step as the membership
+    if (input.isTeamLeader) {
+      addLeaderPeriod({
+        resourceId: input.resourceId,
+        teamId: input.teamId,
+        start: input.start,
+        end: input.end,
+      });
+    }
+    persistWorkingState();
     return newAssignment;
   },
 
@@ -300,6 +755,7 @@ export const api = {
    * Update an existing assignment (change dates or team)
    */
   async updateAssignment(input: UpdateAssignmentInput): Promise<Assignment> {
+    assertDraftDecided();
     await delay(300);
     
     console.log('[API] updateAssignment called with input:', input);
@@ -312,51 +768,27 @@ export const api = {
       throw new Error(`Assignment not found: ${input.id}`);
     }
     
+    assertValidChange({ kind: 'updateAssignment', input });
+
     const existing = workingAssignments[index];
     console.log('[API] Found existing assignment:', {
       id: existing.id,
       start: existing.start,
       end: existing.end,
-      isTeamLeader: existing.isTeamLeader,
-    });
-    
-    const newStart = input.start || existing.start;
-    const newEnd = input.end || existing.end;
-    const newIsLeader = input.isTeamLeader !== undefined ? input.isTeamLeader : existing.isTeamLeader;
-    
-    console.log('[API] Calculated new values:', {
-      newStart,
-      newEnd,
-      newIsLeader,
     });
     
-    // Validate team leader if setting as leader or changing dates while being leader
-    if (newIsLeader) {
-      const validation = await this.validateTeamLeader(
-        input.teamId || existing.teamId,
-        newStart,
-        newEnd,
-        input.id
-      );
-      if (!validation.valid) {
-        console.error('[API] Team leader validation failed:', validation.message);
-        throw new Error(validation.message || 'Team leader conflict');
-      }
-    }
-    
     const updated: Assignment = {
       ...existing,
       ...input,
-      isTeamLeader: newIsLeader,
     };
     
     console.log('[API] Updated assignment object:', {
       id: updated.id,
       start: updated.start,
       end: updated.end,
-      isTeamLeader: updated.isTeamLeader,
     });
     
+    recordHistory(`Change ${describeAssignment(updated)}`);
     // Update working state (not mock)
     workingAssignments[index] = updated;
     // Track as changed (updated assignment)
@@ -365,6 +797,7 @@ export const api = {
     deletedAssignments.delete(updated.id);
     console.log(`[API] Updated assignment ${updated.id} in workingAssignments array`);
     console.log('[API] Updated workingAssignments count:', workingAssignments.length);
+    persistWorkingState();
     
     return updated;
   },
@@ -373,9 +806,14 @@ export const api = {
    * Delete an assignment (remove technician from team)
    */
   async deleteAssignment(id: string): Promise<void> {
+    assertDraftDecided();
     await delay(200);
+    assertValidChange({ kind: 'deleteAssignment', id });
     const beforeCount = workingAssignments.length;
     const assignment = workingAssignments.find(a => a.id === id);
+    if (assignment) {
+      recordHistory(`Remove ${describeAssignment(assignment)}`);
+    }
     
     // Check if this assignment existed in original state (from IFS Cloud)
     const wasInOriginal = originalAssignments.some(a => a.id === id);
@@ -388,37 +826,125 @@ export const api = {
     }
     // Remove from changed if it was tracked as changed
     changedAssignments.delete(id);
+
+    // A resource can only lead while being a member: drop its leader periods within the removed membership
+    if (assignment) {
+      workingLeaderPeriods
+        .filter((l) =>
+          l.teamId === assignment.teamId &&
+          l.resourceId === assignment.resourceId &&
+          periodsOverlap(l, assignment)
+        )
+        .forEach((l) => removeLeaderPeriod(l.id));
+    }
     
     console.log(`[API] Deleted assignment ${id} (${beforeCount} -> ${workingAssignments.length} assignments)`);
+    persistWorkingState();
+  },
+
+  /**
+   * Create a new leader period for a member of a team
+   */
+  async createLeaderPeriod(input: CreateLeaderPeriodInput): Promise<LeaderPeriod> {
+    assertDraftDecided();
+    await delay(200);
+
+    assertValidChange({ kind: 'createLeaderPeriod', input });
+
+    recordHistory(`Add Team Leader ${describeAssignment(input)}`);
+    const newLeaderPeriod = addLeaderPeriod(input);
+    persistWorkingState();
+    return newLeaderPeriod;
+  },
+
+  /**
+   * Update an existing leader period (change leader or dates)
+   */
+  async updateLeaderPeriod(input: UpdateLeaderPeriodInput): Promise<LeaderPeriod> {
+    assertDraftDecided();
+    await delay(200);
+
+    const index = workingLeaderPeriods.findIndex((l) => l.id === input.id);
+    if (index === -1) {
+      throw new Error(`Leader period not found: ${input.id}`);
+    }
+
+    assertValidChange({ kind: 'updateLeaderPeriod', input });
+    const updated: LeaderPeriod = { ...workingLeaderPeriods[index], ...input };
+
+    recordHistory(`Change Team Leader ${describeAssignment(updated)}`);
+    workingLeaderPeriods[index] = updated;
+    changedLeaderPeriods.add(updated.id);
+    deletedLeaderPeriods.delete(updated.id);
+    console.log(`[API] Updated leader period ${updated.id}`);
+    persistWorkingState();
+    return updated;
+  },
+
+  /**
+   * Delete a leader period
+   */
+  async deleteLeaderPeriod(id: string): Promise<void> {
+    assertDraftDecided();
+    await delay(200);
+    assertValidChange({ kind: 'deleteLeaderPeriod', id });
+    const leaderPeriod = workingLeaderPeriods.find((l) => l.id === id);
+    if (leaderPeriod) {
+      recordHistory(`Remove Team Leader ${describeAssignment(leaderPeriod)}`);
+    }
+    removeLeaderPeriod(id);
+    console.log(`[API] Deleted leader period ${id}`);
+    persistWorkingState();
   },
 
   /**
    * Create a new team
+   * The name becomes the crew's ResourceId in IFS Cloud, so it must follow IFS naming rules
+   * and be unique; the crew itself is created on the next push
    */
-  async createTeam(input: Omit<Team, 'id' | 'createdAt'>): Promise<Team> {
+  async createTeam(input: CreateTeamInput): Promise<Team> {
+    assertDraftDecided();
     await delay(300);
+
+    const parsed = createTeamSchema.safeParse(input);
+    if (!parsed.success) {
+      throw new Error(parsed.error.issues[0]?.message || 'Invalid team');
+    }
+    if (workingTeams.some((t) => t.name.toUpperCase() === parsed.data.name)) {
+      throw new Error(`A crew with ID ${parsed.data.name} already exists`);
+    }
+
     const newTeam: Team = {
-      ...input,
+      ...parsed.data,
       id: `team-${Date.now()}`,
       createdAt: new Date().toISOString(),
     };
+    recordHistory(`Create team ${newTeam.name}`);
     // Add to working state (not mock)
     workingTeams.push(newTeam);
     // Track as changed (new team)
     changedTeams.add(newTeam.id);
     console.log(`[API] Created team ${newTeam.id} (${newTeam.name})`);
+    persistWorkingState();
     return newTeam;
   },
 
   /**
-   * Delete a team and all its assignments
+   * Delete a team and all its assignments and leader periods
+   * A team that already exists in IFS Cloud is tracked as deleted and removed on the next push
    */
   async deleteTeam(id: string): Promise<void> {
+    assertDraftDecided();
     await delay(200);
     const index = workingTeams.findIndex((t) => t.id === id);
     if (index !== -1) {
       const team = workingTeams[index];
+      // Memberships that did not load would stay behind in IFS Cloud
+      if (team.loadError) {
+        throw new Error(`${team.name} cannot be deleted because it could not be loaded completely from IFS Cloud: ${team.loadError}`);
+      }
       const wasInOriginal = originalTeams.some(t => t.id === id);
+      recordHistory(`Delete team ${team.name}`);
       
       workingTeams.splice(index, 1);
       
@@ -433,6 +959,10 @@ export const api = {
       });
       
       workingAssignments = workingAssignments.filter((a) => a.teamId !== id);
+
+      workingLeaderPeriods
+        .filter((l) => l.teamId === id)
+        .forEach((l) => removeLeaderPeriod(l.id));
       
       if (wasInOriginal) {
         // Was in original state, so mark as deleted for sync
@@ -442,6 +972,7 @@ export const api = {
       changedTeams.delete(id);
       
       console.log(`[API] Deleted team ${id} and its assignments`);
+      persistWorkingState();
     }
   },
 
@@ -452,22 +983,54 @@ export const api = {
   async getCrewsDataFromIFS(): Promise<{
     teams: Team[];
     assignments: Assignment[];
+    leaderPeriods: LeaderPeriod[];
   }> {
     console.log('[API] Fetching crews data from IFS Cloud via API routes...');
     
-    // 1) Get all crews from server-side API route
-    const crewsResponse = await fetch('/api/crews');
-    if (!crewsResponse.ok) {
-      throw new Error(`Failed to fetch crews: ${crewsResponse.status} ${crewsResponse.statusText}`);
+    // 1) Get all crews with their memberships and leaders from a single streaming API route
+    crewLoadProgress = { total: null, completed: 0, lastCrew: null };
+    const response = await fetch('/api/crews/details');
+    if (!response.ok || !response.body) {
+      crewLoadProgress = null;
+      throw new Error(await readErrorResponse(response, 'Failed to fetch crews'));
+    }
+    
+    const crewDetails: IFSCrewDetails[] = [];
+    let isComplete = false;
+    try {
+      await readCrewLoadEvents(response.body, (event) => {
+        switch (event.type) {
+          case 'crews':
+            console.log(`[API] Retrieved ${event.total} crews from IFS Cloud`);
+            crewLoadProgress = { total: event.total, completed: 0, lastCrew: null };
+            break;
+          case 'crew':
+            crewDetails[event.index] = event.details;
+            crewLoadProgress = { total: event.total, completed: event.completed, lastCrew: event.details.crew.ResourceId };
+            if (event.details.error) {
+              console.error(`[API] Crew ${event.details.crew.ResourceId} (${event.details.crew.ResourceSeq}): ${event.details.error}`);
+            }
+            break;
+          case 'done':
+            isComplete = true;
+            break;
+          case 'error':
+            throw new Error(`${event.error}: ${event.details ?? 'unknown error'}`);
+        }
+      });
+    } finally {
+      crewLoadProgress = null;
+    }
+    if (!isComplete) {
+      throw new Error('Crew data stream ended before all crews were loaded');
     }
-    const crews: Array<{ ResourceSeq: number; ResourceId: string; Description: string }> = await crewsResponse.json();
-    console.log(`[API] Retrieved ${crews.length} crews from IFS Cloud`);
     
     const teams: Team[] = [];
     const assignments: Assignment[] = [];
+    const leaderPeriods: LeaderPeriod[] = [];
     
-    // 2) For each crew, fetch memberships and leaders from server-side API routes
-    for (const crew of crews) {
+    // 2) Map each crew to a team (also when its rows failed to load, as a read-only team), in the order IFS returned the crews
+    for (const { crew, members, leaders, error } of crewDetails) {
       const teamId = `crew-${crew.ResourceSeq}`;
       
       // Map crew to team
@@ -477,88 +1040,40 @@ export const api = {
         description: crew.Description,
         color: '#3B82F6', // Default color (could be enhanced later)
         createdAt: new Date().toISOString(), // IFS doesn't provide this, use current date
+        ResourceSeq: crew.ResourceSeq,
+        etag: crew['@odata.etag'],
+        ...(error && { loadError: error }),
       };
       teams.push(team);
       
-      try {
-        // Fetch memberships for this crew from server-side API route
-        const membershipsUrl = `/api/crews/${crew.ResourceSeq}/members`;
-        console.log(`[API] Fetching memberships for crew ${crew.ResourceId} (${crew.ResourceSeq}) from ${membershipsUrl}`);
-        const membershipsResponse = await fetch(membershipsUrl);
-        
-        if (!membershipsResponse.ok) {
-          const errorText = await membershipsResponse.text();
-          console.error(`[API] Failed to fetch memberships for crew ${crew.ResourceId} (${crew.ResourceSeq}): ${membershipsResponse.status} ${membershipsResponse.statusText}`);
-          console.error(`[API] Error response: ${errorText}`);
-          // Don't continue - still create the team, just without members
-        } else {
-          const memberships: Array<{
-            ResourceSeq: number;
-            ResourceMemberSeq: number;
-            ResourceId: string;
-            PeriodStart: string;
-            PeriodEnd: string;
-          }> = await membershipsResponse.json();
-          console.log(`[API] Crew ${crew.ResourceId} (${crew.ResourceSeq}): ${memberships.length} memberships found`);
-          
-          if (memberships.length > 0) {
-            console.log(`[API] Sample membership ResourceIds:`, memberships.slice(0, 3).map(m => m.ResourceId));
-          }
-          
-          // Fetch leaders for this crew from server-side API route
-          const leadersUrl = `/api/crews/${crew.ResourceSeq}/leaders`;
-          console.log(`[API] Fetching leaders for crew ${crew.ResourceId} (${crew.ResourceSeq}) from ${leadersUrl}`);
-          const leadersResponse = await fetch(leadersUrl);
-          
-          let leaders: Array<{
-            ResourceSeq: number;
-            ResourceCrewLeaderSeq: number;
-            ResourceId: string;
-            ValidFrom: string;
-            ValidTo: string;
-          }> = [];
-          
-          if (!leadersResponse.ok) {
-            const errorText = await leadersResponse.text();
-            console.warn(`[API] Failed to fetch leaders for crew ${crew.ResourceId} (${crew.ResourceSeq}): ${leadersResponse.status} ${leadersResponse.statusText}`);
-            console.warn(`[API] Error response: ${errorText}`);
-          } else {
-            leaders = await leadersResponse.json();
-            console.log(`[API] Crew ${crew.ResourceId} (${crew.ResourceSeq}): ${leaders.length} leaders found`);
-          }
-          
-          // Map memberships to assignments
-          for (const membership of memberships) {
-            const membershipStart = new Date(membership.PeriodStart);
-            const membershipEnd = new Date(membership.PeriodEnd);
-            
-            // Check if this membership is also a leader
-            const isTeamLeader = isLeaderForPeriod(
-              membership.ResourceId,
-              membershipStart,
-              membershipEnd,
-              leaders
-            );
-            
-            const assignment: Assignment = {
-              id: `assign-${crew.ResourceSeq}-${membership.ResourceMemberSeq}`,
-              resourceId: membership.ResourceId, // This should match a Resource.id
-              teamId: teamId,
-              start: membership.PeriodStart,
-              end: membership.PeriodEnd,
-              isTeamLeader,
-            };
-            assignments.push(assignment);
-            console.debug(`[API] Created assignment for resource ${membership.ResourceId} in team ${teamId} (${crew.ResourceId})`);
-          }
-        }
-      } catch (error) {
-        console.error(`[API] Error fetching data for crew ${crew.ResourceId} (${crew.ResourceSeq}):`, error);
-        // Continue with other crews even if one fails, but still create the team
+      // Map memberships to assignments
+      for (const membership of members) {
+        assignments.push({
+          id: `assign-${crew.ResourceSeq}-${membership.ResourceMemberSeq}`,
+          resourceId: membership.ResourceId, // This should match a Resource.id
+          teamId: teamId,
+          start: fromIFSDateTime(membership.PeriodStart),
+          end: fromIFSDateTime(membership.PeriodEnd),
+          ResourceMemberSeq: membership.ResourceMemberSeq,
+          etag: membership['@odata.etag'],
+        });
+      }
+
+      // Map leader rows to leader periods (kept separate from memberships, as in IFS)
+      for (const leader of leaders) {
+        leaderPeriods.push({
+          id: `leader-${crew.ResourceSeq}-${leader.ResourceCrewLeaderSeq}`,
+          resourceId: leader.ResourceId,
+          teamId: teamId,
+          start: fromIFSDateTime(leader.ValidFrom),
+          end: fromIFSDateTime(leader.ValidTo),
+          ResourceCrewLeaderSeq: leader.ResourceCrewLeaderSeq,
+          etag: leader['@odata.etag'],
+        });
       }
     }
     
-    console.log(`[API] Mapped ${teams.length} teams and ${assignments.length} assignments from IFS Cloud`);
+    console.log(`[API] Mapped ${teams.length} teams, ${assignments.length} assignments and ${leaderPeriods.length} leader periods from IFS Cloud`);
     
     // Diagnostic: Log assignments per team
     const assignmentsByTeam = new Map<string, number>();
@@ -573,7 +1088,14 @@ export const api = {
     }).join(', '));
     console.log(`[API] Unique resourceIds in assignments: ${resourceIdsInAssignments.size}`, Array.from(resourceIdsInAssignments).slice(0, 10));
     
-    return { teams, assignments };
+    return { teams, assignments, leaderPeriods };
+  },
+
+  /**
+   * Progress of the crew load from IFS Cloud, or null when no load is running
+   */
+  getCrewLoadProgress(): CrewLoadProgress | null {
+    return crewLoadProgress;
   },
 
   /**
@@ -587,19 +1109,21 @@ export const api = {
     changedTeams.clear();
     deletedAssignments.clear();
     deletedTeams.clear();
+    changedLeaderPeriods.clear();
+    deletedLeaderPeriods.clear();
     originalTeams = [];
     originalAssignments = [];
+    originalLeaderPeriods = [];
+    clearHistory();
     console.log('[API] Working state reset - will re-initialize on next getSchedulerData call');
+    persistWorkingState();
   },
 
   /**
    * Check if there are any unsaved changes
    */
   hasUnsavedChanges(): boolean {
-    return changedAssignments.size > 0 || 
-           changedTeams.size > 0 || 
-           deletedAssignments.size > 0 || 
-           deletedTeams.size > 0;
+    return hasTrackedChanges();
   },
 
   /**
@@ -609,48 +1133,477 @@ export const api = {
     createdAssignments: Assignment[];
     updatedAssignments: Assignment[];
     deletedAssignments: Assignment[];
+    createdLeaderPeriods: LeaderPeriod[];
+    updatedLeaderPeriods: LeaderPeriod[];
+    deletedLeaderPeriods: LeaderPeriod[];
     createdTeams: Team[];
     updatedTeams: Team[];
     deletedTeams: Team[];
   } {
     const createdAssignments = workingAssignments
-      .filter(a => changedAssignments.has(a.id) && !originalAssignments.some(oa => oa.id === a.id))
-      .map(id => workingAssignments.find(a => a.id === id)!)
-      .filter(Boolean);
+      .filter(a => changedAssignments.has(a.id) && !originalAssignments.some(oa => oa.id === a.id));
     
     const updatedAssignments = workingAssignments
-      .filter(a => changedAssignments.has(a.id) && originalAssignments.some(oa => oa.id === a.id))
-      .map(id => workingAssignments.find(a => a.id === id)!)
-      .filter(Boolean);
+      .filter(a => changedAssignments.has(a.id) && originalAssignments.some(oa => oa.id === a.id));
     
-    const deletedAssignments = Array.from(deletedAssignments)
+    const removedAssignments = Array.from(deletedAssignments)
       .map(id => originalAssignments.find(a => a.id === id))
       .filter(Boolean) as Assignment[];
+
+    const createdLeaderPeriods = workingLeaderPeriods
+      .filter(l => changedLeaderPeriods.has(l.id) && !originalLeaderPeriods.some(ol => ol.id === l.id));
+
+    const updatedLeaderPeriods = workingLeaderPeriods
+      .filter(l => changedLeaderPeriods.has(l.id) && originalLeaderPeriods.some(ol => ol.id === l.id));
+
+    const removedLeaderPeriods = Array.from(deletedLeaderPeriods)
+      .map(id => originalLeaderPeriods.find(l => l.id === id))
+      .filter(Boolean) as LeaderPeriod[];
     
     const createdTeams = workingTeams
-      .filter(t => changedTeams.has(t.id) && !originalTeams.some(ot => ot.id === t.id))
-      .map(id => workingTeams.find(t => t.id === id)!)
-      .filter(Boolean);
+      .filter(t => changedTeams.has(t.id) && !originalTeams.some(ot => ot.id === t.id));
     
     const updatedTeams = workingTeams
-      .filter(t => changedTeams.has(t.id) && originalTeams.some(ot => ot.id === t.id))
-      .map(id => workingTeams.find(t => t.id === id)!)
-      .filter(Boolean);
+      .filter(t => changedTeams.has(t.id) && originalTeams.some(ot => ot.id === t.id));
     
-    const deletedTeams = Array.from(deletedTeams)
+    const removedTeams = Array.from(deletedTeams)
       .map(id => originalTeams.find(t => t.id === id))
       .filter(Boolean) as Team[];
     
     return {
       createdAssignments,
       updatedAssignments,
-      deletedAssignments,
+      deletedAssignments: removedAssignments,
+      createdLeaderPeriods,
+      updatedLeaderPeriods,
+      deletedLeaderPeriods: removedLeaderPeriods,
       createdTeams,
       updatedTeams,
-      deletedTeams,
+      deletedTeams: removedTeams,
+    };
+  },
+
+  /**
+   * Working state with its resources and tracked changes, for a spreadsheet export
+   */
+  async getExportData(): Promise<ScheduleExportData> {
+    const { resources, teams, assignments, leaderPeriods } = await this.getSchedulerData();
+    return { resources, teams, assignments, leaderPeriods, changes: this.getChangeSummary() };
+  },
+
+  /**
+   * Sort spreadsheet rows into accepted, conflicting and unmatched rows against the working state
+   */
+  async previewImport(fileName: string, rows: ImportRow[]): Promise<ImportPreview> {
+    const { resources, teams, assignments, leaderPeriods } = await this.getSchedulerData();
+    return previewScheduleImport(fileName, rows, { resources, teams, assignments, leaderPeriods });
+  },
+
+  /**
+   * Add the accepted rows of an import as new memberships (and leader periods), in one undo step
+   * Every row is checked again against the working state; if one fails, none are added
+   */
+  async importAssignments(inputs: CreateAssignmentInput[]): Promise<Assignment[]> {
+    assertDraftDecided();
+    await delay(300);
+
+    const before = snapshotWorkingState();
+    const created: Assignment[] = [];
+    const batch = Date.now();
+    try {
+      inputs.forEach((input, index) => {
+        assertValidChange({ kind: 'createAssignment', input });
+        const newAssignment: Assignment = {
+          resourceId: input.resourceId,
+          teamId: input.teamId,
+          start: input.start,
+          end: input.end,
+          role: input.role,
+          id: `assign-${batch}-${index}`,
+        };
+        workingAssignments.push(newAssignment);
+        changedAssignments.add(newAssignment.id);
+        if (input.isTeamLeader) {
+          const { resourceId, teamId, start, end } = input;
+          addLeaderPeriod({ resourceId, teamId, start, end }, `leader-${batch}-${index}`);
+        }
+        created.push(newAssignment);
+      });
+    } catch (error) {
+      restoreWorkingState(before);
+      throw error;
+    }
+
+    recordHistory(`Import ${created.length} membership${created.length === 1 ? '' : 's'}`, before);
+    console.log(`[API] Imported ${created.length} assignments`);
+    persistWorkingState();
+    return created;
+  },
+
+  /**
+   * Get the tracked changes grouped by crew, with the IFS baseline and working
+   * version of each item side by side (used by the sync preview dialog)
+   */
+  getSyncPreview(): SyncPreviewGroup[] {
+    const summary = this.getChangeSummary();
+    const groups = new Map<string, SyncPreviewGroup>();
+
+    const teamName = (teamId: string) =>
+      [...workingTeams, ...originalTeams].find((t) => t.id === teamId)?.name || teamId;
+    const groupFor = (teamId: string) => {
+      let group = groups.get(teamId);
+      if (!group) {
+        group = { teamId, teamName: teamName(teamId), changes: [] };
+        groups.set(teamId, group);
+      }
+      return group;
+    };
+    const versionOf = (item: Assignment | LeaderPeriod | undefined): SyncPreviewVersion | null =>
+      item ? { teamName: teamName(item.teamId), start: item.start, end: item.end } : null;
+
+    const assignmentChanges: Array<{ assignment: Assignment; action: SyncItemResult['action'] }> = [
+      ...summary.createdAssignments.map((assignment) => ({ assignment, action: 'create' as const })),
+      ...summary.updatedAssignments.map((assignment) => ({ assignment, action: 'update' as const })),
+      ...summary.deletedAssignments.map((assignment) => ({ assignment, action: 'delete' as const })),
+    ];
+    assignmentChanges.forEach(({ assignment, action }) => {
+      groupFor(assignment.teamId).changes.push({
+        entity: 'assignment',
+        id: assignment.id,
+        label: describeAssignment(assignment),
+        action,
+        before: action === 'create' ? null : versionOf(originalAssignments.find((a) => a.id === assignment.id)),
+        after: action === 'delete' ? null : versionOf(assignment),
+      });
+    });
+
+    const leaderChanges: Array<{ leader: LeaderPeriod; action: SyncItemResult['action'] }> = [
+      ...summary.createdLeaderPeriods.map((leader) => ({ leader, action: 'create' as const })),
+      ...summary.updatedLeaderPeriods.map((leader) => ({ leader, action: 'update' as const })),
+      ...summary.deletedLeaderPeriods.map((leader) => ({ leader, action: 'delete' as const })),
+    ];
+    leaderChanges.forEach(({ leader, action }) => {
+      groupFor(leader.teamId).changes.push({
+        entity: 'leaderPeriod',
+        id: leader.id,
+        label: describeAssignment(leader),
+        action,
+        before: action === 'create' ? null : versionOf(originalLeaderPeriods.find((l) => l.id === leader.id)),
+        after: action === 'delete' ? null : versionOf(leader),
+      });
+    });
+
+    const teamChanges: Array<{ team: Team; action: SyncItemResult['action'] }> = [
+      ...summary.createdTeams.map((team) => ({ team, action: 'create' as const })),
+      ...summary.updatedTeams.map((team) => ({ team, action: 'update' as const })),
+      ...summary.deletedTeams.map((team) => ({ team, action: 'delete' as const })),
+    ];
+    teamChanges.forEach(({ team, action }) => {
+      const original = originalTeams.find((t) => t.id === team.id);
+      groupFor(team.id).changes.unshift({
+        entity: 'team',
+        id: team.id,
+        label: team.name,
+        action,
+        before: action === 'create' || !original ? null : { teamName: original.name },
+        after: action === 'delete' ? null : { teamName: team.name },
+      });
+    });
+
+    return Array.from(groups.values()).sort((a, b) => a.teamName.localeCompare(b.teamName));
+  },
+
+  /**
+   * Push tracked changes to IFS Cloud
+   * Crews, memberships and leader periods are written through POST /api/crews/sync; each item
+   * reports its own outcome and only the items that succeeded are cleared from tracking.
+   * New crews are created in a first request, so their rows can use the ResourceSeq IFS assigns.
+   * When a selection is given, only the selected items are pushed and the rest stay tracked.
+   */
+  async pushChangesToIFS(selection?: SyncSelection): Promise<SyncReport> {
+    const summary = this.getChangeSummary();
+    const items: SyncItemResult[] = [];
+
+    const isSelected = (ids: string[] | undefined, id: string) => !ids || ids.includes(id);
+    const assignmentItems: Array<{ assignment: Assignment; action: SyncItemResult['action'] }> = [
+      ...summary.createdAssignments.map((assignment) => ({ assignment, action: 'create' as const })),
+      ...summary.updatedAssignments.map((assignment) => ({ assignment, action: 'update' as const })),
+      ...summary.deletedAssignments.map((assignment) => ({ assignment, action: 'delete' as const })),
+    ].filter(({ assignment }) => isSelected(selection?.assignmentIds, assignment.id));
+    const leaderItems: Array<{ leader: LeaderPeriod; action: SyncItemResult['action'] }> = [
+      ...summary.createdLeaderPeriods.map((leader) => ({ leader, action: 'create' as const })),
+      ...summary.updatedLeaderPeriods.map((leader) => ({ leader, action: 'update' as const })),
+      ...summary.deletedLeaderPeriods.map((leader) => ({ leader, action: 'delete' as const })),
+    ].filter(({ leader }) => isSelected(selection?.leaderPeriodIds, leader.id));
+    const teamItems: Array<{ team: Team; action: SyncItemResult['action'] }> = [
+      ...summary.createdTeams.map((team) => ({ team, action: 'create' as const })),
+      ...summary.updatedTeams.map((team) => ({ team, action: 'update' as const })),
+      ...summary.deletedTeams.map((team) => ({ team, action: 'delete' as const })),
+    ].filter(({ team }) => isSelected(selection?.teamIds, team.id));
+
+    if (!USE_IFS_CLOUD) {
+      // Mock mode: nothing to write, accept every change as synced
+      await delay(500);
+      assignmentItems.forEach(({ assignment, action }) => {
+        commitAssignmentSync(assignment.id);
+        items.push({ entity: 'assignment', id: assignment.id, label: describeAssignment(assignment), action, success: true });
+      });
+      leaderItems.forEach(({ leader, action }) => {
+        commitLeaderPeriodSync(leader.id);
+        items.push({ entity: 'leaderPeriod', id: leader.id, label: describeAssignment(leader), action, success: true });
+      });
+      teamItems.forEach(({ team, action }) => {
+        commitTeamSync(team.id);
+        items.push({ entity: 'team', id: team.id, label: team.name, action, success: true });
+      });
+    } else {
+      const pickAssignments = (action: SyncItemResult['action']) =>
+        assignmentItems.filter((item) => item.action === action).map((item) => item.assignment);
+      const pickLeaders = (action: SyncItemResult['action']) =>
+        leaderItems.filter((item) => item.action === action).map((item) => item.leader);
+      const pickTeams = (action: SyncItemResult['action']) =>
+        teamItems.filter((item) => item.action === action).map((item) => item.team);
+
+      // 1) Create new crews first
+      const crewSync = await postCrewSyncOperations(buildCrewCreateOperations(pickTeams('create')));
+      for (const team of pickTeams('create')) {
+        const result = crewSync.results.find((r) => r.itemId === team.id);
+        let error: string | undefined;
+        if (crewSync.requestError) {
+          error = crewSync.requestError;
+        } else if (!result?.success) {
+          error = result?.error || 'IFS Cloud rejected the change';
+        }
+
+        if (!error && result) {
+          applyTeamCreateResult(team.id, result);
+          commitTeamSync(team.id);
+        }
+        items.push({ entity: 'team', id: team.id, label: team.name, action: 'create', success: !error, error });
+      }
+
+      // 2) Write memberships and leader periods, then delete removed crews
+      const { operations, rejected } = buildCrewSyncOperations({
+        createdAssignments: pickAssignments('create'),
+        updatedAssignments: pickAssignments('update'),
+        deletedAssignments: pickAssignments('delete'),
+        originalAssignments,
+        createdLeaderPeriods: pickLeaders('create'),
+        updatedLeaderPeriods: pickLeaders('update'),
+        deletedLeaderPeriods: pickLeaders('delete'),
+        originalLeaderPeriods,
+        deletedTeams: pickTeams('delete'),
+        teams: [...workingTeams, ...originalTeams],
+      });
+      const { results, requestError } = await postCrewSyncOperations(operations);
+
+      // Outcome of one item: its own results, and the reason it failed (if any)
+      const outcomeOf = (itemId: string) => {
+        const rejection = rejected.find((r) => r.itemId === itemId);
+        const ownResults = results.filter((r) => r.itemId === itemId);
+        const failure = ownResults.find((r) => !r.success);
+        const hasOperations = operations.some((op) => op.itemId === itemId);
+
+        let error: string | undefined;
+        if (rejection) {
+          error = rejection.error;
+        } else if (requestError && hasOperations) {
+          error = requestError;
+        } else if (failure) {
+          error = failure.error || 'IFS Cloud rejected the change';
+        }
+        return { ownResults, failure, error };
+      };
+
+      for (const { assignment, action } of assignmentItems) {
+        const { ownResults, failure, error } = outcomeOf(assignment.id);
+        const original = originalAssignments.find((a) => a.id === assignment.id);
+        const conflict: SyncConflict | undefined = failure?.conflict && original
+          ? {
+              entity: 'assignment',
+              id: assignment.id,
+              local: workingAssignments.find((a) => a.id === assignment.id) || null,
+              server: buildServerVersion(original, failure),
+            }
+          : undefined;
+
+        const baseline = applyAssignmentSyncResults(assignment.id, ownResults);
+        if (!error) {
+          commitAssignmentSync(assignment.id);
+        } else {
+          // Keep the item tracked, but record what already reached IFS
+          setAssignmentBaseline(assignment.id, baseline);
+        }
+        items.push({
+          entity: 'assignment',
+          id: assignment.id,
+          label: describeAssignment(assignment),
+          action,
+          success: !error,
+          error,
+          conflict,
+        });
+      }
+
+      for (const { leader, action } of leaderItems) {
+        const { ownResults, failure, error } = outcomeOf(leader.id);
+        const original = originalLeaderPeriods.find((l) => l.id === leader.id);
+        const conflict: SyncConflict | undefined = failure?.conflict && original
+          ? {
+              entity: 'leaderPeriod',
+              id: leader.id,
+              local: workingLeaderPeriods.find((l) => l.id === leader.id) || null,
+              server: buildServerVersion(original, failure),
+            }
+          : undefined;
+
+        const baseline = applyLeaderPeriodSyncResults(leader.id, ownResults);
+        if (!error) {
+          commitLeaderPeriodSync(leader.id);
+        } else {
+          setLeaderPeriodBaseline(leader.id, baseline);
+        }
+        items.push({
+          entity: 'leaderPeriod',
+          id: leader.id,
+          label: describeAssignment(leader),
+          action,
+          success: !error,
+          error,
+          conflict,
+        });
+      }
+
+      for (const team of pickTeams('delete')) {
+        const { error } = outcomeOf(team.id);
+        if (!error) {
+          commitTeamSync(team.id);
+        }
+        items.push({ entity: 'team', id: team.id, label: team.name, action: 'delete', success: !error, error });
+      }
+
+      // Renaming a crew is not written to IFS Cloud yet
+      pickTeams('update').forEach((team) => {
+        items.push({
+          entity: 'team',
+          id: team.id,
+          label: team.name,
+          action: 'update',
+          success: false,
+          error: 'Crew update is not supported by IFS Cloud sync yet',
+        });
+      });
+    }
+
+    const succeeded = items.filter((i) => i.success).length;
+    console.log(`[API] Push to IFS Cloud: ${succeeded}/${items.length} changes synced`);
+    clearHistory();
+    persistWorkingState();
+
+    return { items, succeeded, failed: items.length - succeeded };
+  },
+
+  /**
+   * Resolve a sync conflict reported by pushChangesToIFS
+   * - 'server': discard the local change and adopt the IFS version
+   * - 'local': keep the local change, rebased on the IFS version so the next push overwrites it
+   */
+  resolveSyncConflict(conflict: SyncConflict, keep: 'local' | 'server'): void {
+    if (conflict.entity === 'assignment') {
+      workingAssignments = resolveConflictIn(
+        workingAssignments, conflict.id, conflict.server, keep, changedAssignments, deletedAssignments,
+        (local, server) => ({ ...local, ResourceMemberSeq: server?.ResourceMemberSeq, etag: server?.etag })
+      );
+      setAssignmentBaseline(conflict.id, conflict.server ? { ...conflict.server } : null);
+    } else {
+      workingLeaderPeriods = resolveConflictIn(
+        workingLeaderPeriods, conflict.id, conflict.server, keep, changedLeaderPeriods, deletedLeaderPeriods,
+        (local, server) => ({ ...local, ResourceCrewLeaderSeq: server?.ResourceCrewLeaderSeq, etag: server?.etag })
+      );
+      setLeaderPeriodBaseline(conflict.id, conflict.server ? { ...conflict.server } : null);
+    }
+    console.log(`[API] Conflict on ${conflict.id} resolved with the ${keep === 'server' ? 'IFS' : 'local'} version`);
+    clearHistory();
+    persistWorkingState();
+  },
+
+  /**
+   * Labels of the mutations that undo() and redo() would revert or reapply (null if none)
+   */
+  getHistory(): { undo: string | null; redo: string | null } {
+    return {
+      undo: undoStack[undoStack.length - 1]?.label ?? null,
+      redo: redoStack[redoStack.length - 1]?.label ?? null,
     };
   },
 
+  /**
+   * Revert the last mutation, including its change tracking
+   * Returns the label of the undone mutation, or null when there is nothing to undo
+   */
+  undo(): string | null {
+    const entry = undoStack.pop();
+    if (!entry) return null;
+    redoStack.push({ label: entry.label, state: snapshotWorkingState() });
+    restoreWorkingState(entry.state);
+    console.log(`[API] Undo: ${entry.label}`);
+    persistWorkingState();
+    return entry.label;
+  },
+
+  /**
+   * Reapply the last undone mutation
+   * Returns its label, or null when there is nothing to redo
+   */
+  redo(): string | null {
+    const entry = redoStack.pop();
+    if (!entry) return null;
+    undoStack.push({ label: entry.label, state: snapshotWorkingState() });
+    restoreWorkingState(entry.state);
+    console.log(`[API] Redo: ${entry.label}`);
+    persistWorkingState();
+    return entry.label;
+  },
+
+  /**
+   * Look up a draft saved for the current IFS environment and crew group
+   * Returns null (and starts accepting edits and saving drafts) when there is nothing to resume
+   */
+  async findDraft(): Promise<WorkingStateDraft | null> {
+    await this.getProfiles();
+    const draft = await loadDraft(getDraftTarget());
+    if (!draft || countDraftChanges(draft) === 0) {
+      isDraftDecisionPending = false;
+      return null;
+    }
+    return draft;
+  },
+
+  /**
+   * Replace the working state and change tracking with a saved draft
+   */
+  resumeDraft(draft: WorkingStateDraft): void {
+    if (!isSameTarget(draft.target, getDraftTarget())) {
+      throw new Error(`Draft was made against ${draft.target.baseUrl} (crew group ${draft.target.resourceGroupSeqCrews})`);
+    }
+
+    restoreWorkingState(draft);
+    clearHistory();
+    isWorkingStateInitialized = true;
+    isDraftDecisionPending = false;
+    console.log(`[API] Resumed draft saved at ${draft.savedAt}`);
+  },
+
+  /**
+   * Throw away the saved draft and reload the working state from IFS Cloud
+   */
+  async discardDraft(): Promise<void> {
+    await clearDraft(getDraftTarget());
+    isDraftDecisionPending = false;
+    this.resetWorkingState();
+    console.log('[API] Discarded saved draft');
+  },
+
   /**
    * Clear change tracking (called after successful sync to IFS Cloud)
    */
@@ -658,12 +1611,17 @@ export const api = {
     // Update original state to current state (new baseline)
     originalTeams = [...workingTeams];
     originalAssignments = [...workingAssignments];
+    originalLeaderPeriods = [...workingLeaderPeriods];
     // Clear change tracking
     changedAssignments.clear();
     changedTeams.clear();
     deletedAssignments.clear();
     deletedTeams.clear();
+    changedLeaderPeriods.clear();
+    deletedLeaderPeriods.clear();
     console.log('[API] Change tracking cleared after successful sync');
+    clearHistory();
+    persistWorkingState();
   },
 
   /**
@@ -674,6 +1632,7 @@ export const api = {
     resources: Resource[];
     teams: Team[];
     assignments: Assignment[];
+    leaderPeriods: LeaderPeriod[];
   }> {
     await delay(300);
     
@@ -686,41 +1645,50 @@ export const api = {
     if (USE_IFS_CLOUD && !isWorkingStateInitialized) {
       try {
         console.log('[API] Initializing working state from IFS Cloud...');
-        const { teams, assignments } = await this.getCrewsDataFromIFS();
+        await this.getProfiles();
+        const { teams, assignments, leaderPeriods } = await this.getCrewsDataFromIFS();
+
+        // A draft may have been resumed while the crews were loading
+        if (isWorkingStateInitialized) {
+          return this.getSchedulerData();
+        }
         
         // Initialize working state with IFS Cloud data
         workingTeams = [...teams];
         workingAssignments = [...assignments];
+        workingLeaderPeriods = [...leaderPeriods];
         
         // Store original state for change tracking
         originalTeams = [...teams];
         originalAssignments = [...assignments];
+        originalLeaderPeriods = [...leaderPeriods];
         
         // Clear any previous change tracking
         changedAssignments.clear();
         changedTeams.clear();
         deletedAssignments.clear();
         deletedTeams.clear();
+        changedLeaderPeriods.clear();
+        deletedLeaderPeriods.clear();
         
         isWorkingStateInitialized = true;
         
-        console.log(`[API] Working state initialized: ${workingTeams.length} teams, ${workingAssignments.length} assignments`);
+        console.log(`[API] Working state initialized: ${workingTeams.length} teams, ${workingAssignments.length} assignments, ${workingLeaderPeriods.length} leader periods`);
         console.log(`[API] Original state stored for change tracking`);
       } catch (error) {
-        console.error('[API] Error fetching crews data from IFS Cloud, using mock data:', error);
-        // Fall back to mock data if IFS Cloud fails
-        workingTeams = [...mockTeams];
-        workingAssignments = [...mockAssignments];
-        originalTeams = [...mockTeams];
-        originalAssignments = [...mockAssignments];
-        isWorkingStateInitialized = true;
+        // Mock crews would be edited and pushed to the real environment, so the board shows the error
+        // instead, and the working state is loaded again on the next call
+        console.error('[API] Error fetching crews data from IFS Cloud:', error);
+        throw error;
       }
     } else if (!USE_IFS_CLOUD && !isWorkingStateInitialized) {
       // Initialize with mock data when IFS Cloud is disabled
       workingTeams = [...mockTeams];
       workingAssignments = [...mockAssignments];
+      workingLeaderPeriods = [...mockLeaderPeriods];
       originalTeams = [...mockTeams];
       originalAssignments = [...mockAssignments];
+      originalLeaderPeriods = [...mockLeaderPeriods];
       isWorkingStateInitialized = true;
       console.log('[API] Working state initialized with mock data');
     }
@@ -730,9 +1698,85 @@ export const api = {
       resources,
       teams: [...workingTeams],
       assignments: [...workingAssignments],
+      leaderPeriods: [...workingLeaderPeriods],
     };
   },
 
+  /**
+   * Whether a working calendar can be loaded from IFS Cloud
+   */
+  hasIFSCalendar(): boolean {
+    return USE_IFS_CLOUD && ifsCloudConfig.calendarId !== '';
+  },
+
+  /**
+   * GET /calendar
+   * Load the configured IFS work time calendar for the days from..to
+   */
+  async getIFSWorkingCalendar(from: Date, to: Date): Promise<WorkingCalendar> {
+    const query = `from=${format(from, 'yyyy-MM-dd')}&to=${format(to, 'yyyy-MM-dd')}`;
+    const response = await fetch(`/api/calendar?${query}`);
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.details || body?.error || `Failed to fetch the calendar: ${response.status}`);
+    }
+    return response.json();
+  },
+
+  /**
+   * GET /profiles
+   * The IFS connection profiles and the one this browser works with
+   */
+  getProfiles(): Promise<IFSProfileList> {
+    profilesRequest ??= loadProfiles();
+    return profilesRequest;
+  },
+
+  /**
+   * POST /profiles
+   * Switch to another connection profile; unsaved changes stay behind as a draft of the current one
+   * The page must be reloaded afterwards, so nothing loaded for the old profile is kept
+   */
+  async switchProfile(id: string): Promise<IFSProfileSummary> {
+    await flushDraft();
+    const response = await fetch('/api/profiles', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ id }),
+    });
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.details || body?.error || `Failed to switch the connection profile: ${response.status}`);
+    }
+    const { profile } = await response.json();
+    return profile;
+  },
+
+  /**
+   * GET /auth/session
+   * Whether per-user login is on, and who is signed in
+   */
+  async getSession(): Promise<{ userLogin: boolean; user: IFSUser | null }> {
+    const response = await fetch('/api/auth/session');
+    if (!response.ok) {
+      return { userLogin: false, user: null };
+    }
+    return response.json();
+  },
+
+  /**
+   * POST /auth/logout
+   * End the session; returns the Keycloak URL that signs the user out of IFS Cloud as well
+   */
+  async signOut(): Promise<string> {
+    const response = await fetch('/api/auth/logout', { method: 'POST' });
+    if (!response.ok) {
+      throw new Error(`Failed to sign out: ${response.status}`);
+    }
+    const { logoutUrl } = await response.json();
+    return logoutUrl;
+  },
+
   /**
    * Check for periods without a team leader
    */
@@ -742,49 +1786,9 @@ export const api = {
     viewEnd: string
   ): Promise<{ start: Date; end: Date }[]> {
     await delay(100);
-    
-    const teamAssignments = mockAssignments
-      .filter((a) => a.teamId === teamId && a.isTeamLeader)
-      .map((a) => ({ start: new Date(a.start), end: new Date(a.end) }))
-      .sort((a, b) => a.start.getTime() - b.start.getTime());
-    
-    const viewStartDate = new Date(viewStart);
-    const viewEndDate = new Date(viewEnd);
-    const gaps: { start: Date; end: Date }[] = [];
-    
-    // If no leaders at all, the entire range is a gap
-    if (teamAssignments.length === 0) {
-      gaps.push({ start: viewStartDate, end: viewEndDate });
-      return gaps;
-    }
-    
-    // Check gap at the beginning
-    if (teamAssignments[0].start > viewStartDate) {
-      const gapEnd = teamAssignments[0].start < viewEndDate ? teamAssignments[0].start : viewEndDate;
-      gaps.push({ start: viewStartDate, end: gapEnd });
-    }
-    
-    // Check gaps between leader assignments
-    for (let i = 0; i < teamAssignments.length - 1; i++) {
-      const currentEnd = teamAssignments[i].end;
-      const nextStart = teamAssignments[i + 1].start;
-      
-      if (currentEnd < nextStart) {
-        const gapStart = currentEnd > viewStartDate ? currentEnd : viewStartDate;
-        const gapEnd = nextStart < viewEndDate ? nextStart : viewEndDate;
-        if (gapStart < gapEnd) {
-          gaps.push({ start: gapStart, end: gapEnd });
-        }
-      }
-    }
-    
-    // Check gap at the end
-    const lastEnd = teamAssignments[teamAssignments.length - 1].end;
-    if (lastEnd < viewEndDate) {
-      const gapStart = lastEnd > viewStartDate ? lastEnd : viewStartDate;
-      gaps.push({ start: gapStart, end: viewEndDate });
-    }
-    
-    return gaps;
+    return findTeamLeaderGaps(teamId, workingAssignments, workingLeaderPeriods, {
+      start: new Date(viewStart),
+      end: new Date(viewEnd),
+    });
   },
 };
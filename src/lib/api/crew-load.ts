@@ -0,0 +1,51 @@
+// Crew Load - shared between the API client and the /api/crews/details route
+// The route streams one NDJSON line per crew as soon as its memberships and leaders are in,
+// so the loading screen can show per-crew progress while the client makes a single request
+
+import type { IFSCrewDetails } from './ifs-crews';
+
+export type CrewLoadEvent =
+  | { type: 'crews'; total: number }
+  | { type: 'crew'; index: number; details: IFSCrewDetails; completed: number; total: number } // index: position in the crew list
+  | { type: 'done' }
+  | { type: 'error'; error: string; details?: string };
+
+// Progress shown while the crews are loading
+export interface CrewLoadProgress {
+  total: number | null; // Unknown until the crew list is in
+  completed: number;
+  lastCrew: string | null; // ResourceId of the crew loaded last
+}
+
+export function encodeCrewLoadEvent(event: CrewLoadEvent): string {
+  return `${JSON.stringify(event)}\n`;
+}
+
+/**
+ * Read an NDJSON crew load stream, calling onEvent for every line as it arrives
+ */
+export async function readCrewLoadEvents(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: CrewLoadEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const flush = (final: boolean) => {
+    const lines = buffer.split('\n');
+    buffer = final ? '' : lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.trim()) onEvent(JSON.parse(line) as CrewLoadEvent);
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    flush(false);
+  }
+  buffer += decoder.decode();
+  flush(true);
+}
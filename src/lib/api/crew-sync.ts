@@ -0,0 +1,419 @@
+// Crew Sync - shared between the API client and the /api/crews/sync route
+// Translates tracked crew, assignment and leader period changes into IFS Cloud ResourceCrewHandling writes
+
+import { z } from 'zod';
+import type { Assignment, LeaderPeriod, Team } from '@/domain/types';
+
+// ============================================================================
+// OPERATION SCHEMA - validated by the server route before touching IFS Cloud
+// ============================================================================
+
+const baseOperation = {
+  // Client-side operation ID, echoed back in the result
+  id: z.string().min(1),
+  // Team, assignment or leader period the operation belongs to (one item can produce several operations)
+  itemId: z.string().min(1),
+  // ResourceSeq of the crew in IFS Cloud
+  crewSeq: z.number().int(),
+};
+
+// @odata.etag of the row, sent as If-Match: without it IFS changes to the row would be overwritten
+const rowVersion = z.string().min(1, 'ETag is required');
+
+export const crewSyncOperationSchema = z.discriminatedUnion('kind', [
+  z.object({
+    // The crew does not have a ResourceSeq yet: IFS assigns it
+    id: baseOperation.id,
+    itemId: baseOperation.itemId,
+    kind: z.literal('createCrew'),
+    resourceId: z.string().min(1),
+    description: z.string().min(1),
+  }),
+  z.object({
+    ...baseOperation,
+    kind: z.literal('deleteCrew'),
+    etag: rowVersion,
+  }),
+  z.object({
+    ...baseOperation,
+    kind: z.literal('createMember'),
+    resourceId: z.string().min(1),
+    start: z.string().min(1),
+    end: z.string().min(1),
+  }),
+  z.object({
+    ...baseOperation,
+    kind: z.literal('updateMember'),
+    memberSeq: z.number().int(),
+    etag: rowVersion,
+    start: z.string().min(1),
+    end: z.string().min(1),
+  }),
+  z.object({
+    ...baseOperation,
+    kind: z.literal('deleteMember'),
+    memberSeq: z.number().int(),
+    etag: rowVersion,
+  }),
+  z.object({
+    ...baseOperation,
+    kind: z.literal('createLeader'),
+    resourceId: z.string().min(1),
+    start: z.string().min(1),
+    end: z.string().min(1),
+  }),
+  z.object({
+    ...baseOperation,
+    kind: z.literal('updateLeader'),
+    leaderSeq: z.number().int(),
+    etag: rowVersion,
+    start: z.string().min(1),
+    end: z.string().min(1),
+  }),
+  z.object({
+    ...baseOperation,
+    kind: z.literal('deleteLeader'),
+    leaderSeq: z.number().int(),
+    etag: rowVersion,
+  }),
+]);
+
+export const crewSyncRequestSchema = z.object({
+  operations: z.array(crewSyncOperationSchema),
+});
+
+export type CrewSyncOperation = z.infer<typeof crewSyncOperationSchema>;
+
+// Current IFS version of a row that rejected a write with 412 Precondition Failed
+export interface CrewSyncServerVersion {
+  start: string;
+  end: string;
+  etag?: string;
+}
+
+// Result of a single operation, as returned by POST /api/crews/sync
+export interface CrewSyncOperationResult {
+  id: string;
+  itemId: string;
+  kind: CrewSyncOperation['kind'];
+  success: boolean;
+  error?: string;
+  // Keys assigned by IFS Cloud for newly created rows
+  crewSeq?: number;
+  memberSeq?: number;
+  leaderSeq?: number;
+  // New row version after a successful create or update
+  etag?: string;
+  // Set when the row changed in IFS since it was loaded (serverVersion is null if it was deleted)
+  conflict?: { serverVersion: CrewSyncServerVersion | null };
+}
+
+// ============================================================================
+// SYNC REPORT - per-item outcome shown to the user after a push
+// ============================================================================
+
+// Local and IFS versions of an item that was changed in IFS since it was loaded
+// (local is null when the item was deleted locally, server when the row was deleted in IFS)
+export type SyncConflict =
+  | { entity: 'assignment'; id: string; local: Assignment | null; server: Assignment | null }
+  | { entity: 'leaderPeriod'; id: string; local: LeaderPeriod | null; server: LeaderPeriod | null };
+
+export type SyncEntity = 'assignment' | 'leaderPeriod' | 'team';
+
+export interface SyncItemResult {
+  entity: SyncEntity;
+  id: string;
+  label: string; // Human-readable description of the item
+  action: 'create' | 'update' | 'delete';
+  success: boolean;
+  error?: string;
+  conflict?: SyncConflict;
+}
+
+export interface SyncReport {
+  items: SyncItemResult[];
+  succeeded: number;
+  failed: number;
+}
+
+// ============================================================================
+// SYNC PREVIEW - tracked changes reviewed by the user before a push
+// ============================================================================
+
+// State of an item on one side of a change (dates only apply to assignments and leader periods)
+export interface SyncPreviewVersion {
+  teamName: string;
+  start?: string;
+  end?: string;
+}
+
+export interface SyncPreviewChange {
+  entity: SyncEntity;
+  id: string;
+  label: string;
+  action: 'create' | 'update' | 'delete';
+  before: SyncPreviewVersion | null; // IFS baseline (null for creates)
+  after: SyncPreviewVersion | null;  // Working version (null for deletes)
+}
+
+// Changes grouped by the crew they end up in (deleted items stay under their original crew)
+export interface SyncPreviewGroup {
+  teamId: string;
+  teamName: string;
+  changes: SyncPreviewChange[];
+}
+
+// Items to include in a push; everything else stays tracked
+export interface SyncSelection {
+  assignmentIds: string[];
+  leaderPeriodIds: string[];
+  teamIds: string[];
+}
+
+// ============================================================================
+// OPERATION BUILDER
+// ============================================================================
+
+export interface CrewSyncPlan {
+  operations: CrewSyncOperation[];
+  // Items that cannot be written to IFS Cloud, with the reason
+  rejected: { itemId: string; error: string }[];
+}
+
+interface BuildCrewSyncInput {
+  createdAssignments: Assignment[];
+  updatedAssignments: Assignment[];
+  deletedAssignments: Assignment[];
+  originalAssignments: Assignment[];
+  createdLeaderPeriods: LeaderPeriod[];
+  updatedLeaderPeriods: LeaderPeriod[];
+  deletedLeaderPeriods: LeaderPeriod[];
+  originalLeaderPeriods: LeaderPeriod[];
+  deletedTeams: Team[];
+  // Working and original teams, used to resolve the crew ResourceSeq
+  teams: Team[];
+}
+
+/**
+ * Build the operations that create new crews in IFS Cloud.
+ *
+ * These are pushed on their own before everything else: memberships and leader
+ * periods in a new crew can only be written once IFS has assigned its ResourceSeq.
+ */
+export function buildCrewCreateOperations(createdTeams: Team[]): CrewSyncOperation[] {
+  return createdTeams.map((team) => ({
+    id: `${team.id}:createCrew`,
+    itemId: team.id,
+    kind: 'createCrew' as const,
+    resourceId: team.name,
+    description: team.description || team.name,
+  }));
+}
+
+// Rows are only updated or deleted with the version they were loaded at
+const UNKNOWN_VERSION = 'The IFS Cloud version (ETag) of this row is not known; reload the data from IFS Cloud';
+
+/**
+ * Build the IFS Cloud write operations for a set of tracked changes.
+ *
+ * IFS keeps memberships (ResourceCrewMembersArray) and leaders (ResourceCrewLeadersArray)
+ * as separate rows, which map one-to-one to assignments and leader periods. Moving an
+ * assignment to another crew is a delete in the old crew followed by a create in the
+ * new one, since rows cannot change parent.
+ */
+export function buildCrewSyncOperations(input: BuildCrewSyncInput): CrewSyncPlan {
+  const operations: CrewSyncOperation[] = [];
+  const rejected: CrewSyncPlan['rejected'] = [];
+
+  const crewSeqOf = (teamId: string): number | undefined =>
+    input.teams.find((t) => t.id === teamId)?.ResourceSeq;
+
+  const opId = (itemId: string, kind: CrewSyncOperation['kind']) => `${itemId}:${kind}`;
+
+  const pushCreateMember = (assignment: Assignment, crewSeq: number) => {
+    operations.push({
+      id: opId(assignment.id, 'createMember'),
+      itemId: assignment.id,
+      crewSeq,
+      kind: 'createMember',
+      resourceId: assignment.resourceId,
+      start: assignment.start,
+      end: assignment.end,
+    });
+  };
+
+  const pushDeleteMember = (assignment: Assignment & { ResourceMemberSeq: number; etag: string }, crewSeq: number) => {
+    operations.push({
+      id: opId(assignment.id, 'deleteMember'),
+      itemId: assignment.id,
+      crewSeq,
+      kind: 'deleteMember',
+      memberSeq: assignment.ResourceMemberSeq,
+      etag: assignment.etag,
+    });
+  };
+
+  for (const assignment of input.createdAssignments) {
+    const crewSeq = crewSeqOf(assignment.teamId);
+    if (crewSeq === undefined) {
+      rejected.push({ itemId: assignment.id, error: 'Crew does not exist in IFS Cloud yet' });
+      continue;
+    }
+    pushCreateMember(assignment, crewSeq);
+  }
+
+  for (const assignment of input.updatedAssignments) {
+    const original = input.originalAssignments.find((a) => a.id === assignment.id);
+    const crewSeq = crewSeqOf(assignment.teamId);
+    const originalCrewSeq = original ? crewSeqOf(original.teamId) : undefined;
+
+    if (!original || originalCrewSeq === undefined || original.ResourceMemberSeq === undefined) {
+      rejected.push({ itemId: assignment.id, error: 'Membership is not linked to an IFS Cloud row' });
+      continue;
+    }
+    if (!original.etag) {
+      rejected.push({ itemId: assignment.id, error: UNKNOWN_VERSION });
+      continue;
+    }
+    if (crewSeq === undefined) {
+      rejected.push({ itemId: assignment.id, error: 'Crew does not exist in IFS Cloud yet' });
+      continue;
+    }
+
+    // Moved to another crew: recreate the row under the new parent
+    if (original.teamId !== assignment.teamId) {
+      pushDeleteMember({ ...original, ResourceMemberSeq: original.ResourceMemberSeq, etag: original.etag }, originalCrewSeq);
+      pushCreateMember(assignment, crewSeq);
+      continue;
+    }
+
+    if (original.start !== assignment.start || original.end !== assignment.end) {
+      operations.push({
+        id: opId(assignment.id, 'updateMember'),
+        itemId: assignment.id,
+        crewSeq,
+        kind: 'updateMember',
+        memberSeq: original.ResourceMemberSeq,
+        etag: original.etag,
+        start: assignment.start,
+        end: assignment.end,
+      });
+    }
+  }
+
+  for (const assignment of input.deletedAssignments) {
+    const crewSeq = crewSeqOf(assignment.teamId);
+    if (crewSeq === undefined || assignment.ResourceMemberSeq === undefined) {
+      rejected.push({ itemId: assignment.id, error: 'Membership is not linked to an IFS Cloud row' });
+      continue;
+    }
+    if (!assignment.etag) {
+      rejected.push({ itemId: assignment.id, error: UNKNOWN_VERSION });
+      continue;
+    }
+    pushDeleteMember({ ...assignment, ResourceMemberSeq: assignment.ResourceMemberSeq, etag: assignment.etag }, crewSeq);
+  }
+
+  for (const leader of input.createdLeaderPeriods) {
+    const crewSeq = crewSeqOf(leader.teamId);
+    if (crewSeq === undefined) {
+      rejected.push({ itemId: leader.id, error: 'Crew does not exist in IFS Cloud yet' });
+      continue;
+    }
+    operations.push({
+      id: opId(leader.id, 'createLeader'),
+      itemId: leader.id,
+      crewSeq,
+      kind: 'createLeader',
+      resourceId: leader.resourceId,
+      start: leader.start,
+      end: leader.end,
+    });
+  }
+
+  for (const leader of input.updatedLeaderPeriods) {
+    const original = input.originalLeaderPeriods.find((l) => l.id === leader.id);
+    const crewSeq = crewSeqOf(leader.teamId);
+    if (!original || crewSeq === undefined || original.ResourceCrewLeaderSeq === undefined) {
+      rejected.push({ itemId: leader.id, error: 'Leader period is not linked to an IFS Cloud row' });
+      continue;
+    }
+    if (original.start === leader.start && original.end === leader.end) continue;
+    if (!original.etag) {
+      rejected.push({ itemId: leader.id, error: UNKNOWN_VERSION });
+      continue;
+    }
+    operations.push({
+      id: opId(leader.id, 'updateLeader'),
+      itemId: leader.id,
+      crewSeq,
+      kind: 'updateLeader',
+      leaderSeq: original.ResourceCrewLeaderSeq,
+      etag: original.etag,
+      start: leader.start,
+      end: leader.end,
+    });
+  }
+
+  for (const leader of input.deletedLeaderPeriods) {
+    const crewSeq = crewSeqOf(leader.teamId);
+    if (crewSeq === undefined || leader.ResourceCrewLeaderSeq === undefined) {
+      rejected.push({ itemId: leader.id, error: 'Leader period is not linked to an IFS Cloud row' });
+      continue;
+    }
+    if (!leader.etag) {
+      rejected.push({ itemId: leader.id, error: UNKNOWN_VERSION });
+      continue;
+    }
+    operations.push({
+      id: opId(leader.id, 'deleteLeader'),
+      itemId: leader.id,
+      crewSeq,
+      kind: 'deleteLeader',
+      leaderSeq: leader.ResourceCrewLeaderSeq,
+      etag: leader.etag,
+    });
+  }
+
+  for (const team of input.deletedTeams) {
+    if (team.ResourceSeq === undefined) {
+      rejected.push({ itemId: team.id, error: 'Crew is not linked to an IFS Cloud row' });
+      continue;
+    }
+    if (!team.etag) {
+      rejected.push({ itemId: team.id, error: UNKNOWN_VERSION });
+      continue;
+    }
+    operations.push({
+      id: opId(team.id, 'deleteCrew'),
+      itemId: team.id,
+      crewSeq: team.ResourceSeq,
+      kind: 'deleteCrew',
+      etag: team.etag,
+    });
+  }
+
+  return { operations, rejected };
+}
+
+// Leader rows are removed before and added after the memberships they belong to,
+// and crews are created before and deleted after the rows they contain
+const OPERATION_ORDER: CrewSyncOperation['kind'][] = [
+  'createCrew',
+  'deleteLeader',
+  'deleteMember',
+  'updateMember',
+  'updateLeader',
+  'createMember',
+  'createLeader',
+  'deleteCrew',
+];
+
+/**
+ * Order operations so IFS Cloud never sees a transient overlap:
+ * deletes first, then updates, then creates. Crews wrap around their rows.
+ */
+export function sortCrewSyncOperations(operations: CrewSyncOperation[]): CrewSyncOperation[] {
+  const rank = (op: CrewSyncOperation) => OPERATION_ORDER.indexOf(op.kind);
+  return [...operations].sort((a, b) => rank(a) - rank(b));
+}
@@ -0,0 +1,124 @@
+// Draft Store - keeps the working state in IndexedDB so edits survive a page reload
+// Drafts are keyed by the IFS environment and crew group they were made against,
+// so a draft is never offered for (or applied to) another tenant
+
+import type { Assignment, LeaderPeriod, Team } from '@/domain/types';
+
+const DB_NAME = 'teams-viewer';
+const DB_VERSION = 1;
+const STORE_NAME = 'drafts';
+
+// IFS tenant a draft belongs to
+export interface DraftTarget {
+  baseUrl: string;        // IFS Cloud host, or 'mock' when running on mock data
+  environmentId: string;
+  resourceGroupSeqCrews: number;
+}
+
+export interface WorkingStateDraft {
+  target: DraftTarget;
+  savedAt: string; // ISO string
+  workingTeams: Team[];
+  workingAssignments: Assignment[];
+  workingLeaderPeriods: LeaderPeriod[];
+  originalTeams: Team[];
+  originalAssignments: Assignment[];
+  originalLeaderPeriods: LeaderPeriod[];
+  changedTeams: string[];
+  deletedTeams: string[];
+  changedAssignments: string[];
+  deletedAssignments: string[];
+  changedLeaderPeriods: string[];
+  deletedLeaderPeriods: string[];
+}
+
+// Number of tracked changes in a draft
+export function countDraftChanges(draft: WorkingStateDraft): number {
+  return draft.changedTeams.length + draft.deletedTeams.length +
+    draft.changedAssignments.length + draft.deletedAssignments.length +
+    draft.changedLeaderPeriods.length + draft.deletedLeaderPeriods.length;
+}
+
+export function draftKey(target: DraftTarget): string {
+  return `${target.baseUrl}/${target.environmentId}/${target.resourceGroupSeqCrews}`;
+}
+
+export function isSameTarget(a: DraftTarget, b: DraftTarget): boolean {
+  return draftKey(a) === draftKey(b);
+}
+
+// IndexedDB is only available in the browser
+function isAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Run a single request against the drafts store and close the connection afterwards
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = run(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Load the draft saved for a target, or null when there is none
+ */
+export async function loadDraft(target: DraftTarget): Promise<WorkingStateDraft | null> {
+  if (!isAvailable()) return null;
+  try {
+    const draft = await withStore<WorkingStateDraft | undefined>('readonly', (store) => store.get(draftKey(target)));
+    // Guard against a draft stored under the wrong key
+    return draft && isSameTarget(draft.target, target) ? draft : null;
+  } catch (error) {
+    console.error('[Draft] Failed to load draft:', error);
+    return null;
+  }
+}
+
+/**
+ * Save (replace) the draft for its target
+ */
+export async function saveDraft(draft: WorkingStateDraft): Promise<void> {
+  if (!isAvailable()) return;
+  try {
+    await withStore('readwrite', (store) => store.put(draft, draftKey(draft.target)));
+  } catch (error) {
+    console.error('[Draft] Failed to save draft:', error);
+  }
+}
+
+/**
+ * Remove the draft for a target
+ */
+export async function clearDraft(target: DraftTarget): Promise<void> {
+  if (!isAvailable()) return;
+  try {
+    await withStore('readwrite', (store) => store.delete(draftKey(target)));
+  } catch (error) {
+    console.error('[Draft] Failed to clear draft:', error);
+  }
+}
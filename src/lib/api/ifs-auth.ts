@@ -1,106 +1,83 @@
 // IFS Cloud Authentication Module
-// Handles OAuth2 password grant flow for IFS Cloud API
+// Handles the OAuth2 password or client_credentials grant for IFS Cloud API, with tokens cached
+// per identity by the token manager. With per-user login or a reverse proxy token, requests run
+// as that user instead (see runAsIFSUser)
 
+import { AsyncLocalStorage } from 'node:async_hooks';
 import { ifsCloudConfig, getIFSAuthUrl } from './ifs-config';
+import { IFSTokenManager, type IFSIdentity } from './ifs-token-manager';
 
-// Global token storage
-let bearerToken: string | null = null;
-let tokenExpiresAt: number = 0;
-
-interface TokenResponse {
-  access_token: string;
-  expires_in: number;
-  refresh_expires_in: number;
-  refresh_token: string;
-  token_type: string;
-  id_token: string;
-  'not-before-policy': number;
-  session_state: string;
-  scope: string;
+const tokenManager = new IFSTokenManager();
+
+// Bearer token of the signed-in user a request is handled for, across its awaits
+const userToken = new AsyncLocalStorage<string>();
+
+/**
+ * Error raised for a non-2xx IFS Cloud API response.
+ * Carries the HTTP status so callers can react to 404/412 without parsing the message.
+ */
+export class IFSApiError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'IFSApiError';
+  }
+}
+
+// Identity of the shared account, read from the configuration on every request
+// With the proxy grant there is none: each request brings its own token
+function configuredIdentity(): IFSIdentity {
+  return {
+    authUrl: getIFSAuthUrl(),
+    grantType: ifsCloudConfig.grantType === 'client_credentials' ? 'client_credentials' : 'password',
+    clientId: ifsCloudConfig.clientId,
+    clientSecret: ifsCloudConfig.clientSecret,
+    username: ifsCloudConfig.username,
+    password: ifsCloudConfig.password,
+  };
 }
 
 /**
  * Authenticate with IFS Cloud and get bearer token
- * Uses OAuth2 password grant flow
+ * Uses the configured OAuth2 grant; a cached or refreshed token is returned while there is one
  */
 export async function authenticateIFSCloud(): Promise<string> {
-  // Check if we have a valid cached token
-  if (bearerToken && Date.now() < tokenExpiresAt) {
-    return bearerToken;
+  // A signed-in user is already authenticated
+  const currentUserToken = userToken.getStore();
+  if (currentUserToken) {
+    return currentUserToken;
   }
 
-  const authUrl = getIFSAuthUrl();
-  
-  // Prepare form data (urlencoded)
-  const formData = new URLSearchParams();
-  formData.append('client_id', ifsCloudConfig.clientId);
-  formData.append('client_secret', ifsCloudConfig.clientSecret);
-  formData.append('resource', ifsCloudConfig.clientId);
-  formData.append('scope', 'openid microprofile-jwt');
-  formData.append('username', ifsCloudConfig.username);
-  formData.append('password', ifsCloudConfig.password);
-  formData.append('grant_type', 'password');
-  formData.append('response_type', 'id_token token');
-
   try {
-    const response = await fetch(authUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: formData.toString(),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Authentication failed: ${response.status} - ${errorText}`);
-    }
-
-    const tokenData: TokenResponse = await response.json();
-
-    // Use access_token for API authorization (standard for IFS Cloud Projections)
-    // Note: User previously requested id_token, but Crews API returns 401 with id_token
-    if (!tokenData.access_token) {
-      throw new Error('No access_token in authentication response');
+    if (ifsCloudConfig.grantType === 'proxy') {
+      throw new Error(`No IFS token from the reverse proxy in the ${ifsCloudConfig.proxyTokenHeader} header of this request`);
     }
-
-    // Set global bearer token
-    bearerToken = `Bearer ${tokenData.access_token}`;
-    
-    // Calculate expiration (use expires_in with 1 minute buffer)
-    const expiresInMs = (tokenData.expires_in - 60) * 1000;
-    tokenExpiresAt = Date.now() + expiresInMs;
-
-    // Print connected message to debug console
-    console.debug('✓ Connected to IFS Cloud');
-    console.debug(`  Base URL: ${ifsCloudConfig.baseUrl}`);
-    console.debug(`  Environment: ${ifsCloudConfig.environmentId}`);
-    console.debug(`  User: ${ifsCloudConfig.username}`);
-    console.debug(`  Token expires in: ${tokenData.expires_in}s`);
-
-    return bearerToken;
+    return await tokenManager.getToken(configuredIdentity());
   } catch (error) {
     console.error('IFS Cloud authentication error:', error);
     throw error;
   }
 }
 
+/**
+ * Run a request handler on behalf of a signed-in user: every IFS call made while
+ * it runs uses the user's access token instead of the shared account's
+ */
+export function runAsIFSUser<T>(accessToken: string, handler: () => T): T {
+  return userToken.run(`Bearer ${accessToken}`, handler);
+}
+
 /**
  * Get the current bearer token (or authenticate if needed)
  */
 export async function getIFSBearerToken(): Promise<string> {
-  if (!bearerToken || Date.now() >= tokenExpiresAt) {
-    return authenticateIFSCloud();
-  }
-  return bearerToken;
+  return authenticateIFSCloud();
 }
 
 /**
- * Clear the cached token (for logout or error recovery)
+ * Clear the cached tokens of every identity (for logout or error recovery)
  */
 export function clearIFSToken(): void {
-  bearerToken = null;
-  tokenExpiresAt = 0;
+  tokenManager.clear();
   console.debug('IFS Cloud token cleared');
 }
 
@@ -108,13 +85,14 @@ export function clearIFSToken(): void {
  * Check if currently authenticated
  */
 export function isIFSAuthenticated(): boolean {
-  return bearerToken !== null && Date.now() < tokenExpiresAt;
+  if (userToken.getStore()) return true;
+  return ifsCloudConfig.grantType !== 'proxy' && tokenManager.isAuthenticated(configuredIdentity());
 }
 
 /**
  * Get default headers for IFS Cloud API requests
  */
-export async function getIFSRequestHeaders(): Promise<HeadersInit> {
+export async function getIFSRequestHeaders(): Promise<Record<string, string>> {
   const token = await getIFSBearerToken();
   
   // Debug: Log that we're using the token
@@ -136,7 +114,8 @@ export async function ifsGet<T>(endpoint: string, retryOn401: boolean = true): P
   
   // Debug: Log request details
   console.debug('[IFS GET] URL:', endpoint);
-  console.debug('[IFS GET] Headers:', JSON.stringify(headers, null, 2));
+  // The bearer token stays out of the logs
+  console.debug('[IFS GET] Headers:', JSON.stringify({ ...headers, Authorization: '[redacted]' }, null, 2));
   
   const response = await fetch(endpoint, {
     method: 'GET',
@@ -144,6 +123,7 @@ export async function ifsGet<T>(endpoint: string, retryOn401: boolean = true): P
   });
 
   console.debug('[IFS GET] Response status:', response.status);
+  tokenManager.reportResponse(headers['Authorization'], response.status);
 
   if (!response.ok) {
     const errorBody = await response.text();
@@ -156,22 +136,34 @@ export async function ifsGet<T>(endpoint: string, retryOn401: boolean = true): P
     const authHeader = headers['Authorization'];
     console.error(`[IFS GET] Authorization header present: ${!!authHeader}, length: ${authHeader?.length || 0}`);
     
-    // If 401 and we haven't retried yet, clear token and retry once
-    if (response.status === 401 && retryOn401) {
-      console.debug('[IFS GET] 401 error detected, clearing token and retrying with fresh authentication...');
-      clearIFSToken();
+    // If 401 and we haven't retried yet, retry once: the token manager has dropped the token
+    // A user's token cannot be renewed here: the user has to sign in again
+    if (response.status === 401 && retryOn401 && !userToken.getStore()) {
+      console.debug('[IFS GET] 401 error detected, retrying with fresh authentication...');
       
       // Retry with fresh authentication (only once)
       console.debug('[IFS GET] Retrying request...');
       return ifsGet<T>(endpoint, false);
     }
     
-    throw new Error(`IFS API GET failed: ${response.status} - ${errorText}`);
+    throw new IFSApiError(`IFS API GET failed: ${response.status} - ${errorText}`, response.status);
   }
 
   return response.json();
 }
 
+/**
+ * Build a descriptive error for a failed IFS Cloud write request.
+ * IFS returns an OData error body that explains why a row was rejected,
+ * so include it in the message for per-item sync reporting.
+ */
+async function ifsWriteError(method: string, response: Response): Promise<IFSApiError> {
+  const errorBody = await response.text();
+  const errorText = errorBody || `No error body (status: ${response.status})`;
+  console.error(`[IFS ${method}] Request failed: ${response.status} - ${errorText}`);
+  return new IFSApiError(`IFS API ${method} failed: ${response.status} - ${errorText}`, response.status);
+}
+
 /**
  * Make an authenticated POST request to IFS Cloud API
  */
@@ -183,26 +175,49 @@ export async function ifsPost<T>(endpoint: string, body: unknown): Promise<T> {
     body: JSON.stringify(body),
   });
 
+  tokenManager.reportResponse(headers['Authorization'], response.status);
+
   if (!response.ok) {
-    throw new Error(`IFS API POST failed: ${response.status}`);
+    throw await ifsWriteError('POST', response);
   }
 
   return response.json();
 }
 
+// A write without the row's ETag would overwrite whatever IFS has now, so it is refused instead
+function requireETag(method: string, endpoint: string, etag: string | undefined): string {
+  if (!etag) {
+    throw new Error(`IFS API ${method} refused: the version (ETag) of ${endpoint} is not known; reload the data from IFS Cloud`);
+  }
+  return etag;
+}
+
 /**
  * Make an authenticated PATCH request to IFS Cloud API
+ * Sends If-Match with the row's OData ETag; a stale ETag fails with 412, and a missing one is refused.
+ * IFS may answer 204 No Content, in which case undefined is returned
  */
-export async function ifsPatch<T>(endpoint: string, body: unknown): Promise<T> {
+export async function ifsPatch<T>(endpoint: string, body: unknown, etag: string | undefined): Promise<T | undefined> {
+  const ifMatch = requireETag('PATCH', endpoint, etag);
   const headers = await getIFSRequestHeaders();
   const response = await fetch(endpoint, {
     method: 'PATCH',
-    headers,
+    headers: {
+      ...headers,
+      'If-Match': ifMatch,
+      'Prefer': 'return=representation',
+    },
     body: JSON.stringify(body),
   });
 
+  tokenManager.reportResponse(headers['Authorization'], response.status);
+
   if (!response.ok) {
-    throw new Error(`IFS API PATCH failed: ${response.status}`);
+    throw await ifsWriteError('PATCH', response);
+  }
+
+  if (response.status === 204) {
+    return undefined;
   }
 
   return response.json();
@@ -210,15 +225,22 @@ export async function ifsPatch<T>(endpoint: string, body: unknown): Promise<T> {
 
 /**
  * Make an authenticated DELETE request to IFS Cloud API
+ * Sends If-Match with the row's OData ETag; a stale ETag fails with 412, and a missing one is refused.
  */
-export async function ifsDelete(endpoint: string): Promise<void> {
+export async function ifsDelete(endpoint: string, etag: string | undefined): Promise<void> {
+  const ifMatch = requireETag('DELETE', endpoint, etag);
   const headers = await getIFSRequestHeaders();
   const response = await fetch(endpoint, {
     method: 'DELETE',
-    headers,
+    headers: {
+      ...headers,
+      'If-Match': ifMatch,
+    },
   });
 
+  tokenManager.reportResponse(headers['Authorization'], response.status);
+
   if (!response.ok) {
-    throw new Error(`IFS API DELETE failed: ${response.status}`);
+    throw await ifsWriteError('DELETE', response);
   }
 }
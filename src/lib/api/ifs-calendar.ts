@@ -0,0 +1,68 @@
+// IFS Cloud Work Time Calendar API
+// Reads the generated days of a work time calendar and turns them into a WorkingCalendar
+
+import { getDay, parse } from 'date-fns';
+import { ifsGetAll } from './ifs-paging';
+import { getIFSApiBaseUrl, ifsCloudConfig } from './ifs-config';
+import { DEFAULT_WORKING_CALENDAR, type Holiday, type WorkingCalendar } from '@/domain/workingCalendar';
+
+// IFS Cloud API response types: one row per day of the calendar
+interface IFSWorkTimeDay {
+  CalendarId: string;
+  WorkDay: string;     // yyyy-MM-dd
+  WorkingTime: number; // Hours worked that day, 0 on non-working days
+  DayType: string;
+}
+
+/**
+ * Build a working calendar from the days of an IFS work time calendar.
+ * A weekday is part of the working week when it has working time on at least half
+ * of the days read; other days without working time become holidays. Weekdays read
+ * less than twice keep the default pattern, a single holiday says nothing about them.
+ */
+function toWorkingCalendar(calendarId: string, days: IFSWorkTimeDay[]): WorkingCalendar {
+  const weekdayOf = (day: IFSWorkTimeDay) => getDay(parse(day.WorkDay, 'yyyy-MM-dd', new Date()));
+
+  const workingWeekdays = [0, 1, 2, 3, 4, 5, 6].filter((weekday) => {
+    const rows = days.filter((day) => weekdayOf(day) === weekday);
+    if (rows.length < 2) return DEFAULT_WORKING_CALENDAR.workingWeekdays.includes(weekday);
+    return rows.filter((day) => day.WorkingTime > 0).length * 2 >= rows.length;
+  });
+
+  const holidays: Holiday[] = days
+    .filter((day) => day.WorkingTime <= 0 && workingWeekdays.includes(weekdayOf(day)))
+    .map((day) => ({ date: day.WorkDay, name: day.DayType || 'Non-working day' }));
+
+  return {
+    name: `IFS calendar ${calendarId}`,
+    workingWeekdays,
+    holidays,
+    shutdowns: [],
+    region: null,
+  };
+}
+
+/**
+ * Get the configured work time calendar from IFS Cloud for the days from..to (yyyy-MM-dd, included)
+ *
+ * Endpoint: WorkTimeCalendarHandling.svc/WorkTimeCounterSet
+ * Filters by CalendarId from config
+ */
+export async function getWorkingCalendarFromIFS(from: string, to: string): Promise<WorkingCalendar> {
+  const baseUrl = getIFSApiBaseUrl();
+  const { calendarId } = ifsCloudConfig;
+
+  // Build URL manually to avoid encoding $ to %24
+  const filter = encodeURIComponent(`(CalendarId eq '${calendarId}') and (WorkDay ge ${from}) and (WorkDay le ${to})`);
+  const select = 'CalendarId,WorkDay,WorkingTime,DayType';
+
+  const url = `${baseUrl}/WorkTimeCalendarHandling.svc/WorkTimeCounterSet?$count=true&$select=${select}&$filter=${filter}`;
+
+  console.debug(`Fetching work time calendar ${calendarId} from IFS Cloud...`);
+
+  const days = await ifsGetAll<IFSWorkTimeDay>(url);
+
+  console.debug(`✓ Retrieved ${days.length} calendar days from IFS Cloud`);
+
+  return toWorkingCalendar(calendarId, days);
+}
@@ -1,8 +1,17 @@
 // IFS Cloud API Configuration
 // These values should be set via environment variables in production
 
+import { fromDateOnly, normalizeDateTime, toDateOnly } from '@/domain/dateOnly';
+
+// How the server gets its IFS token: the password grant with the user credentials, the
+// client_credentials grant with the client's service account, or a token a reverse proxy
+// passes in with each request
+export type IFSGrantType = 'password' | 'client_credentials' | 'proxy';
+
+export const IFS_GRANT_TYPES: IFSGrantType[] = ['password', 'client_credentials', 'proxy'];
+
 export interface IFSCloudConfig {
-  // Base URL for IFS Cloud instance
+  // Base URL for IFS Cloud instance (host only for https, or a full http(s):// origin such as the mock server)
   baseUrl: string;
   
   // Authentication realm/environment
@@ -12,18 +21,49 @@ export interface IFSCloudConfig {
   clientId: string;
   clientSecret: string;
   
+  // Grant used for the shared account (not with per-user login)
+  grantType: IFSGrantType;
+
   // User credentials for password grant
   username: string;
   password: string;
+
+  // Request header in which the reverse proxy passes the user's access token (grant type proxy)
+  proxyTokenHeader: string;
+
+  // Sign every user in through the browser (authorization code + PKCE) and call IFS as that user,
+  // instead of the shared password grant account
+  userLogin: boolean;
+
+  // Callback URL registered with the Keycloak client; empty to derive it from the request origin
+  redirectUri: string;
   
   // Resource group configuration
   resourceGroupSeq: number;
   resourceGroupSeqCrews: number;
   serviceOrganizationId: string;
+
+  // Work time calendar to read non-working days from; empty when the calendar comes from a file only
+  calendarId: string;
+
+  // IANA time zone of the site, in which IFS period timestamps start at midnight
+  siteTimeZone: string;
+
+  // Upper limit on rows collected across pages by a single collection read
+  maxRows: number;
 }
 
+// Settings a connection profile may set instead of the environment variables (see ifs-profiles.ts);
+// the rest stays the same for every profile of a server
+export const IFS_PROFILE_SETTINGS = [
+  'baseUrl', 'environmentId', 'clientId', 'clientSecret', 'grantType', 'username', 'password',
+  'resourceGroupSeq', 'resourceGroupSeqCrews', 'serviceOrganizationId', 'calendarId', 'siteTimeZone',
+] as const;
+
+export type IFSProfileSettings = Partial<Pick<IFSCloudConfig, typeof IFS_PROFILE_SETTINGS[number]>>;
+
 // Default configuration - OVERRIDE with environment variables
-export const ifsCloudConfig: IFSCloudConfig = {
+const envConfig: IFSCloudConfig = {
   // IFS Cloud instance URL (without protocol)
   baseUrl: process.env.NEXT_PUBLIC_IFS_BASE_URL || 'ifspsc2-d09.demo.ifs.cloud',
   
@@ -34,21 +74,113 @@ export const ifsCloudConfig: IFSCloudConfig = {
   clientId: process.env.IFS_CLIENT_ID || 'Postman-API',
   clientSecret: process.env.IFS_CLIENT_SECRET || '',
   
+  // password, client_credentials or proxy; checked by getIFSAuthConfigError()
+  grantType: (process.env.IFS_GRANT_TYPE || 'password') as IFSGrantType,
+
   // User credentials (for development only - use proper auth flow in production)
   username: process.env.IFS_USERNAME || '',
   password: process.env.IFS_PASSWORD || '',
+
+  // e.g. X-Forwarded-Access-Token (oauth2-proxy) or Authorization
+  proxyTokenHeader: process.env.IFS_PROXY_TOKEN_HEADER || 'X-Forwarded-Access-Token',
+
+  // Per-user login (server-side sessions, see ifs-session.ts)
+  userLogin: process.env.IFS_USER_LOGIN === 'true',
+  redirectUri: process.env.IFS_REDIRECT_URI || '',
   
   // Resource configuration for crew/technician queries
   resourceGroupSeq: parseInt(process.env.NEXT_PUBLIC_IFS_RESOURCE_GROUP_SEQ || '1937', 10),
   resourceGroupSeqCrews: parseInt(process.env.NEXT_PUBLIC_IFS_RESOURCE_GROUP_SEQ_CREWS || '1938', 10),
   serviceOrganizationId: process.env.NEXT_PUBLIC_IFS_SERVICE_ORG_ID || '2501',
+
+  // Working calendar (WorkTimeCalendarHandling)
+  calendarId: process.env.NEXT_PUBLIC_IFS_CALENDAR_ID || '',
+
+  // Site time zone for PeriodStart/PeriodEnd and ValidFrom/ValidTo, e.g. Europe/Oslo
+  siteTimeZone: process.env.NEXT_PUBLIC_IFS_SITE_TIME_ZONE || 'UTC',
+
+  // Paging: stop following @odata.nextLink after this many rows
+  maxRows: parseInt(process.env.IFS_MAX_ROWS || '10000', 10),
 };
 
+let activeProfileSettings: () => IFSProfileSettings | undefined = () => undefined;
+
+/**
+ * Install the lookup of the connection profile the current request runs with
+ * Called once by ifs-profiles.ts on the server; in the browser the active profile is copied
+ * into the configuration instead
+ */
+export function setIFSProfileResolver(resolver: () => IFSProfileSettings | undefined): void {
+  activeProfileSettings = resolver;
+}
+
+// Reads take a setting from the active profile when it has one, else from the environment;
+// writes (tests, the browser) change the environment defaults
+export const ifsCloudConfig: IFSCloudConfig = new Proxy(envConfig, {
+  get(target, key) {
+    const settings = activeProfileSettings();
+    return settings && Object.prototype.hasOwnProperty.call(settings, key)
+      ? Reflect.get(settings, key)
+      : Reflect.get(target, key);
+  },
+});
+
+/**
+ * What is missing or contradictory in the authentication settings, or null when they are usable
+ * Names the environment variables to fix, so the API routes can report it as is
+ */
+export function getIFSAuthConfigError(): string | null {
+  const { grantType, userLogin, clientId, clientSecret, username, password } = ifsCloudConfig;
+
+  if (!IFS_GRANT_TYPES.includes(grantType)) {
+    return `IFS_GRANT_TYPE must be ${IFS_GRANT_TYPES.join(', ')}, not "${grantType}"`;
+  }
+  if (userLogin) {
+    if (grantType === 'proxy') {
+      return 'IFS_USER_LOGIN=true cannot be combined with IFS_GRANT_TYPE=proxy: sign users in either here or at the reverse proxy';
+    }
+    return clientId ? null : 'Per-user login needs IFS_CLIENT_ID';
+  }
+
+  // The proxy grant needs nothing here: the token comes with each request
+  const required: [string, string][] =
+    grantType === 'password' ? [['IFS_CLIENT_ID', clientId], ['IFS_USERNAME', username], ['IFS_PASSWORD', password]]
+    : grantType === 'client_credentials' ? [['IFS_CLIENT_ID', clientId], ['IFS_CLIENT_SECRET', clientSecret]]
+    : [];
+  const missing = required.filter(([, value]) => !value).map(([name]) => name);
+  return missing.length > 0 ? `The ${grantType} grant needs ${missing.join(', ')}` : null;
+}
+
 // Helper to get full URLs
+// A bare host is served over https; an explicit origin (e.g. http://localhost:4010) is used as is
+export function getIFSOrigin(): string {
+  const { baseUrl } = ifsCloudConfig;
+  return /^https?:\/\//.test(baseUrl) ? baseUrl.replace(/\/+$/, '') : `https://${baseUrl}`;
+}
+
 export function getIFSAuthUrl(): string {
-  return `https://${ifsCloudConfig.baseUrl}/auth/realms/${ifsCloudConfig.environmentId}/protocol/openid-connect/token`;
+  return `${getIFSOrigin()}/auth/realms/${ifsCloudConfig.environmentId}/protocol/openid-connect/token`;
+}
+
+// Keycloak login page of the authorization code flow
+export function getIFSAuthorizationUrl(): string {
+  return `${getIFSOrigin()}/auth/realms/${ifsCloudConfig.environmentId}/protocol/openid-connect/auth`;
+}
+
+// Keycloak end-session endpoint, which also signs the user out of IFS in the browser
+export function getIFSEndSessionUrl(): string {
+  return `${getIFSOrigin()}/auth/realms/${ifsCloudConfig.environmentId}/protocol/openid-connect/logout`;
 }
 
 export function getIFSApiBaseUrl(): string {
-  return `https://${ifsCloudConfig.baseUrl}/main/ifsapplications/projection/v1`;
+  return `${getIFSOrigin()}/main/ifsapplications/projection/v1`;
+}
+
+// Period timestamps: IFS holds midnight in the site time zone, the app stores midnight UTC of the same date
+export function fromIFSDateTime(value: string): string {
+  return normalizeDateTime(value, ifsCloudConfig.siteTimeZone);
+}
+
+export function toIFSDateTime(value: string): string {
+  return fromDateOnly(toDateOnly(value), ifsCloudConfig.siteTimeZone).replace('.000Z', 'Z');
 }
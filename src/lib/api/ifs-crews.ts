@@ -1,24 +1,24 @@
 // IFS Cloud Crews API
 // Based on "10 - GetCrews", "20 - GetCrewMembership", and "30 - GetCrewLeaders" Postman requests
+// Write operations use the same ResourceCrewHandling entity sets
 
-import { ifsGet } from './ifs-auth';
-import { getIFSApiBaseUrl, ifsCloudConfig } from './ifs-config';
+import { ifsGet, ifsPost, ifsPatch, ifsDelete, IFSApiError } from './ifs-auth';
+import { getIFSApiBaseUrl, ifsCloudConfig, toIFSDateTime } from './ifs-config';
+import { ifsGetAll } from './ifs-paging';
+import { IFSAuthError } from './ifs-token-manager';
+import type { CrewSyncOperation, CrewSyncOperationResult, CrewSyncServerVersion } from './crew-sync';
 
 // IFS Cloud API response types for Crews
-interface IFSCrewItem {
+export interface IFSCrewItem {
+  '@odata.etag'?: string; // Row version, sent back as If-Match on delete
   ResourceSeq: number;
   ResourceId: string;
   Description: string;
 }
 
-interface IFSCrewResponse {
-  '@odata.context'?: string;
-  '@odata.count'?: number;
-  value: IFSCrewItem[];
-}
-
 // IFS Cloud API response types for Crew Memberships
-interface IFSCrewMemberItem {
+export interface IFSCrewMemberItem {
+  '@odata.etag'?: string; // Row version, sent back as If-Match on writes
   ResourceSeq: number;
   ResourceMemberSeq: number;
   ResourceId: string;
@@ -26,14 +26,9 @@ interface IFSCrewMemberItem {
   PeriodEnd: string;
 }
 
-interface IFSCrewMemberResponse {
-  '@odata.context'?: string;
-  '@odata.count'?: number;
-  value: IFSCrewMemberItem[];
-}
-
 // IFS Cloud API response types for Crew Leaders
-interface IFSCrewLeaderItem {
+export interface IFSCrewLeaderItem {
+  '@odata.etag'?: string; // Row version, sent back as If-Match on writes
   ResourceSeq: number;
   ResourceCrewLeaderSeq: number;
   ResourceId: string;
@@ -41,12 +36,6 @@ interface IFSCrewLeaderItem {
   ValidTo: string;
 }
 
-interface IFSCrewLeaderResponse {
-  '@odata.context'?: string;
-  '@odata.count'?: number;
-  value: IFSCrewLeaderItem[];
-}
-
 /**
  * 1) Get crews from IFS Cloud
  * Endpoint: ResourceCrewHandling.svc/ResourceSet
@@ -79,11 +68,15 @@ export async function getCrewsFromIFS(): Promise<IFSCrewItem[]> {
   console.debug(`[IFS Crews] Full URL: ${url}`);
 
   try {
-    const response = await ifsGet<IFSCrewResponse>(url);
-    console.debug(`[IFS Crews] Successfully retrieved ${response.value.length} crews`);
-    return response.value;
+    const crews = await ifsGetAll<IFSCrewItem>(url);
+    console.debug(`[IFS Crews] Successfully retrieved ${crews.length} crews`);
+    return crews;
   } catch (error) {
     console.error('[IFS Crews] Error in getCrewsFromIFS:', error);
+    // Authentication errors keep their type, so the API routes can say what to check
+    if (error instanceof IFSAuthError || (error instanceof IFSApiError && error.status === 401)) {
+      throw error;
+    }
     // Re-throw with more context
     throw new Error(`Failed to fetch crews: ${error instanceof Error ? error.message : String(error)}`);
   }
@@ -100,8 +93,7 @@ export async function getCrewMembershipsFromIFS(resourceSeq: number): Promise<IF
   const url = `${baseUrl}/ResourceCrewHandling.svc/ResourceSet(ResourceSeq=${resourceSeq})/ResourceCrewMembersArray?$count=true&$select=${select}`;
 
   console.debug(`Fetching crew memberships for ResourceSeq ${resourceSeq} from IFS Cloud...`);
-  const response = await ifsGet<IFSCrewMemberResponse>(url);
-  return response.value;
+  return ifsGetAll<IFSCrewMemberItem>(url);
 }
 
 /**
@@ -115,6 +107,343 @@ export async function getCrewLeadersFromIFS(resourceSeq: number): Promise<IFSCre
   const url = `${baseUrl}/ResourceCrewHandling.svc/ResourceCrewSet(ResourceSeq=${resourceSeq})/ResourceCrewLeadersArray?$count=true&$select=${select}`;
 
   console.debug(`Fetching crew leaders for ResourceSeq ${resourceSeq} from IFS Cloud...`);
-  const response = await ifsGet<IFSCrewLeaderResponse>(url);
-  return response.value;
+  return ifsGetAll<IFSCrewLeaderItem>(url);
+}
+
+// Memberships and leaders of one crew, as loaded for the scheduler
+export interface IFSCrewDetails {
+  crew: IFSCrewItem;
+  members: IFSCrewMemberItem[];
+  leaders: IFSCrewLeaderItem[];
+  error?: string; // Set when the crew could not be loaded completely
+}
+
+// Number of crews loaded at the same time
+export const CREW_DETAILS_CONCURRENCY = 6;
+
+async function getCrewDetailsFromIFS(crew: IFSCrewItem): Promise<IFSCrewDetails> {
+  const [members, leaders] = await Promise.allSettled([
+    getCrewMembershipsFromIFS(crew.ResourceSeq),
+    getCrewLeadersFromIFS(crew.ResourceSeq),
+  ]);
+
+  // Leaders without their memberships would only show up as validation errors
+  if (members.status === 'rejected') {
+    const error = members.reason instanceof Error ? members.reason.message : String(members.reason);
+    console.error(`[IFS Crews] Failed to fetch memberships for crew ${crew.ResourceId} (${crew.ResourceSeq}):`, error);
+    return { crew, members: [], leaders: [], error: `Memberships could not be loaded: ${error}` };
+  }
+  if (leaders.status === 'rejected') {
+    const error = leaders.reason instanceof Error ? leaders.reason.message : String(leaders.reason);
+    console.warn(`[IFS Crews] Failed to fetch leaders for crew ${crew.ResourceId} (${crew.ResourceSeq}):`, error);
+    return { crew, members: members.value, leaders: [], error: `Leaders could not be loaded: ${error}` };
+  }
+  return { crew, members: members.value, leaders: leaders.value };
+}
+
+/**
+ * Get memberships and leaders for a list of crews.
+ * At most `concurrency` crews are in flight at once, each loading its
+ * memberships and leaders in parallel. Never throws: a crew that fails is
+ * returned with an error and whatever could be loaded. onCrewLoaded is called
+ * as each crew completes (in completion order); the result keeps crew order.
+ */
+export async function getAllCrewDetailsFromIFS(
+  crews: IFSCrewItem[],
+  onCrewLoaded?: (details: IFSCrewDetails, index: number) => void,
+  concurrency: number = CREW_DETAILS_CONCURRENCY
+): Promise<IFSCrewDetails[]> {
+  const results: IFSCrewDetails[] = new Array(crews.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < crews.length) {
+      const index = nextIndex++;
+      results[index] = await getCrewDetailsFromIFS(crews[index]);
+      onCrewLoaded?.(results[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(concurrency, 1), crews.length) }, worker));
+  return results;
+}
+
+// ============================================================================
+// WRITE OPERATIONS
+// ============================================================================
+
+function crewsUrl(): string {
+  return `${getIFSApiBaseUrl()}/ResourceCrewHandling.svc/ResourceSet`;
+}
+
+function crewUrl(resourceSeq: number): string {
+  return `${crewsUrl()}(ResourceSeq=${resourceSeq})`;
+}
+
+function crewMembersUrl(resourceSeq: number): string {
+  return `${getIFSApiBaseUrl()}/ResourceCrewHandling.svc/ResourceSet(ResourceSeq=${resourceSeq})/ResourceCrewMembersArray`;
+}
+
+function crewLeadersUrl(resourceSeq: number): string {
+  return `${getIFSApiBaseUrl()}/ResourceCrewHandling.svc/ResourceCrewSet(ResourceSeq=${resourceSeq})/ResourceCrewLeadersArray`;
+}
+
+function crewMemberUrl(resourceSeq: number, memberSeq: number): string {
+  return `${crewMembersUrl(resourceSeq)}(ResourceSeq=${resourceSeq},ResourceMemberSeq=${memberSeq})`;
+}
+
+function crewLeaderUrl(resourceSeq: number, leaderSeq: number): string {
+  return `${crewLeadersUrl(resourceSeq)}(ResourceSeq=${resourceSeq},ResourceCrewLeaderSeq=${leaderSeq})`;
+}
+
+/**
+ * 4) Create a Crew Membership row
+ * Endpoint: POST ResourceSet(ResourceSeq={resourceSeq})/ResourceCrewMembersArray
+ */
+export async function createCrewMemberInIFS(
+  resourceSeq: number,
+  member: { ResourceId: string; PeriodStart: string; PeriodEnd: string }
+): Promise<IFSCrewMemberItem> {
+  console.debug(`[IFS Crews] Creating membership for ${member.ResourceId} in crew ${resourceSeq}`);
+  return ifsPost<IFSCrewMemberItem>(crewMembersUrl(resourceSeq), {
+    ResourceSeq: resourceSeq,
+    ...member,
+  });
+}
+
+/**
+ * 5) Update the period of a Crew Membership row
+ * Endpoint: PATCH ResourceSet(ResourceSeq={resourceSeq})/ResourceCrewMembersArray(ResourceSeq={resourceSeq},ResourceMemberSeq={memberSeq})
+ * When IFS answers without the row, it is read again for its new ETag
+ */
+export async function updateCrewMemberInIFS(
+  resourceSeq: number,
+  memberSeq: number,
+  period: { PeriodStart: string; PeriodEnd: string },
+  etag: string | undefined
+): Promise<IFSCrewMemberItem> {
+  console.debug(`[IFS Crews] Updating membership ${memberSeq} in crew ${resourceSeq}`);
+  const url = crewMemberUrl(resourceSeq, memberSeq);
+  return (await ifsPatch<IFSCrewMemberItem>(url, period, etag)) ?? ifsGet<IFSCrewMemberItem>(url);
+}
+
+/**
+ * 6) Delete a Crew Membership row
+ * Endpoint: DELETE ResourceSet(ResourceSeq={resourceSeq})/ResourceCrewMembersArray(ResourceSeq={resourceSeq},ResourceMemberSeq={memberSeq})
+ */
+export async function deleteCrewMemberInIFS(resourceSeq: number, memberSeq: number, etag: string | undefined): Promise<void> {
+  console.debug(`[IFS Crews] Deleting membership ${memberSeq} in crew ${resourceSeq}`);
+  await ifsDelete(crewMemberUrl(resourceSeq, memberSeq), etag);
+}
+
+/**
+ * 7) Create a Crew Leader row
+ * Endpoint: POST ResourceCrewSet(ResourceSeq={resourceSeq})/ResourceCrewLeadersArray
+ */
+export async function createCrewLeaderInIFS(
+  resourceSeq: number,
+  leader: { ResourceId: string; ValidFrom: string; ValidTo: string }
+): Promise<IFSCrewLeaderItem> {
+  console.debug(`[IFS Crews] Creating leader period for ${leader.ResourceId} in crew ${resourceSeq}`);
+  return ifsPost<IFSCrewLeaderItem>(crewLeadersUrl(resourceSeq), {
+    ResourceSeq: resourceSeq,
+    ...leader,
+  });
+}
+
+/**
+ * 8) Update the validity of a Crew Leader row
+ * Endpoint: PATCH ResourceCrewSet(ResourceSeq={resourceSeq})/ResourceCrewLeadersArray(ResourceSeq={resourceSeq},ResourceCrewLeaderSeq={leaderSeq})
+ * When IFS answers without the row, it is read again for its new ETag
+ */
+export async function updateCrewLeaderInIFS(
+  resourceSeq: number,
+  leaderSeq: number,
+  validity: { ValidFrom: string; ValidTo: string },
+  etag: string | undefined
+): Promise<IFSCrewLeaderItem> {
+  console.debug(`[IFS Crews] Updating leader period ${leaderSeq} in crew ${resourceSeq}`);
+  const url = crewLeaderUrl(resourceSeq, leaderSeq);
+  return (await ifsPatch<IFSCrewLeaderItem>(url, validity, etag)) ?? ifsGet<IFSCrewLeaderItem>(url);
+}
+
+/**
+ * 9) Delete a Crew Leader row
+ * Endpoint: DELETE ResourceCrewSet(ResourceSeq={resourceSeq})/ResourceCrewLeadersArray(ResourceSeq={resourceSeq},ResourceCrewLeaderSeq={leaderSeq})
+ */
+export async function deleteCrewLeaderInIFS(resourceSeq: number, leaderSeq: number, etag: string | undefined): Promise<void> {
+  console.debug(`[IFS Crews] Deleting leader period ${leaderSeq} in crew ${resourceSeq}`);
+  await ifsDelete(crewLeaderUrl(resourceSeq, leaderSeq), etag);
+}
+
+/**
+ * 10) Create a Crew under the configured crews resource group
+ * Endpoint: POST ResourceSet
+ */
+export async function createCrewInIFS(crew: { ResourceId: string; Description: string }): Promise<IFSCrewItem> {
+  const { resourceGroupSeqCrews } = ifsCloudConfig;
+  if (!resourceGroupSeqCrews || isNaN(resourceGroupSeqCrews)) {
+    throw new Error(`Invalid resourceGroupSeqCrews: ${resourceGroupSeqCrews}. Check NEXT_PUBLIC_IFS_RESOURCE_GROUP_SEQ_CREWS in .env.local`);
+  }
+
+  console.debug(`[IFS Crews] Creating crew ${crew.ResourceId} under resource group ${resourceGroupSeqCrews}`);
+  return ifsPost<IFSCrewItem>(crewsUrl(), {
+    ...crew,
+    ResourceParentSeq: resourceGroupSeqCrews,
+  });
+}
+
+/**
+ * 11) Delete a Crew
+ * Endpoint: DELETE ResourceSet(ResourceSeq={resourceSeq})
+ */
+export async function deleteCrewInIFS(resourceSeq: number, etag: string | undefined): Promise<void> {
+  console.debug(`[IFS Crews] Deleting crew ${resourceSeq}`);
+  await ifsDelete(crewUrl(resourceSeq), etag);
+}
+
+/**
+ * Get a single Crew Membership row, or null when it no longer exists
+ * Used to show the current IFS version when a write is rejected with 412
+ */
+export async function getCrewMemberFromIFS(resourceSeq: number, memberSeq: number): Promise<IFSCrewMemberItem | null> {
+  try {
+    return await ifsGet<IFSCrewMemberItem>(crewMemberUrl(resourceSeq, memberSeq));
+  } catch (error) {
+    if (error instanceof IFSApiError && error.status === 404) return null;
+    throw error;
+  }
+}
+
+/**
+ * Get a single Crew Leader row, or null when it no longer exists
+ */
+export async function getCrewLeaderFromIFS(resourceSeq: number, leaderSeq: number): Promise<IFSCrewLeaderItem | null> {
+  try {
+    return await ifsGet<IFSCrewLeaderItem>(crewLeaderUrl(resourceSeq, leaderSeq));
+  } catch (error) {
+    if (error instanceof IFSApiError && error.status === 404) return null;
+    throw error;
+  }
+}
+
+/**
+ * Fetch the current IFS version of the row targeted by an operation
+ * Returns null when the row has been deleted in IFS
+ */
+async function getServerVersion(operation: CrewSyncOperation): Promise<CrewSyncServerVersion | null> {
+  switch (operation.kind) {
+    case 'updateMember':
+    case 'deleteMember': {
+      const row = await getCrewMemberFromIFS(operation.crewSeq, operation.memberSeq);
+      return row && { start: row.PeriodStart, end: row.PeriodEnd, etag: row['@odata.etag'] };
+    }
+    case 'updateLeader':
+    case 'deleteLeader': {
+      const row = await getCrewLeaderFromIFS(operation.crewSeq, operation.leaderSeq);
+      return row && { start: row.ValidFrom, end: row.ValidTo, etag: row['@odata.etag'] };
+    }
+    default:
+      return null;
+  }
+}
+
+// New ETag of an updated row. Without it the next write of the row could not be checked
+// against changes made in IFS, so the update is reported as failed; the stale ETag the
+// client keeps then surfaces as a conflict on the next push.
+function requireUpdatedETag(row: { '@odata.etag'?: string } | undefined, operationId: string): string {
+  const etag = row?.['@odata.etag'];
+  if (!etag) {
+    throw new Error(`IFS saved ${operationId} but returned no ETag for the row; reload the data from IFS Cloud`);
+  }
+  return etag;
+}
+
+/**
+ * Apply a single sync operation against IFS Cloud.
+ * Never throws: failures are reported in the result so the caller can
+ * continue with the remaining operations. A 412 (stale ETag) is reported
+ * as a conflict together with the current IFS version of the row.
+ */
+export async function applyCrewSyncOperation(operation: CrewSyncOperation): Promise<CrewSyncOperationResult> {
+  const result: CrewSyncOperationResult = {
+    id: operation.id,
+    itemId: operation.itemId,
+    kind: operation.kind,
+    success: true,
+  };
+
+  try {
+    switch (operation.kind) {
+      case 'createCrew': {
+        const created = await createCrewInIFS({
+          ResourceId: operation.resourceId,
+          Description: operation.description,
+        });
+        result.crewSeq = created.ResourceSeq;
+        result.etag = created['@odata.etag'];
+        break;
+      }
+      case 'deleteCrew':
+        await deleteCrewInIFS(operation.crewSeq, operation.etag);
+        break;
+      case 'createMember': {
+        const created = await createCrewMemberInIFS(operation.crewSeq, {
+          ResourceId: operation.resourceId,
+          PeriodStart: toIFSDateTime(operation.start),
+          PeriodEnd: toIFSDateTime(operation.end),
+        });
+        result.memberSeq = created.ResourceMemberSeq;
+        result.etag = created['@odata.etag'];
+        break;
+      }
+      case 'updateMember': {
+        const updated = await updateCrewMemberInIFS(operation.crewSeq, operation.memberSeq, {
+          PeriodStart: toIFSDateTime(operation.start),
+          PeriodEnd: toIFSDateTime(operation.end),
+        }, operation.etag);
+        result.etag = requireUpdatedETag(updated, operation.id);
+        break;
+      }
+      case 'deleteMember':
+        await deleteCrewMemberInIFS(operation.crewSeq, operation.memberSeq, operation.etag);
+        break;
+      case 'createLeader': {
+        const created = await createCrewLeaderInIFS(operation.crewSeq, {
+          ResourceId: operation.resourceId,
+          ValidFrom: toIFSDateTime(operation.start),
+          ValidTo: toIFSDateTime(operation.end),
+        });
+        result.leaderSeq = created.ResourceCrewLeaderSeq;
+        result.etag = created['@odata.etag'];
+        break;
+      }
+      case 'updateLeader': {
+        const updated = await updateCrewLeaderInIFS(operation.crewSeq, operation.leaderSeq, {
+          ValidFrom: toIFSDateTime(operation.start),
+          ValidTo: toIFSDateTime(operation.end),
+        }, operation.etag);
+        result.etag = requireUpdatedETag(updated, operation.id);
+        break;
+      }
+      case 'deleteLeader':
+        await deleteCrewLeaderInIFS(operation.crewSeq, operation.leaderSeq, operation.etag);
+        break;
+    }
+  } catch (error) {
+    result.success = false;
+    result.error = error instanceof Error ? error.message : String(error);
+
+    if (error instanceof IFSApiError && error.status === 412) {
+      result.error = 'Changed in IFS since you loaded it';
+      try {
+        result.conflict = { serverVersion: await getServerVersion(operation) };
+      } catch (lookupError) {
+        console.error(`[IFS Crews] Could not load IFS version for ${operation.id}:`, lookupError);
+      }
+    }
+    console.error(`[IFS Crews] Sync operation ${operation.id} failed:`, result.error);
+  }
+
+  return result;
 }
@@ -0,0 +1,70 @@
+// IFS Cloud Paging
+// IFS Cloud projections page large collections server-side: a response holds one page of
+// rows plus an @odata.nextLink to the next one. ifsGetAll follows those links so callers
+// get every row instead of silently losing everything past the first page.
+
+import { ifsGet } from './ifs-auth';
+import { ifsCloudConfig } from './ifs-config';
+
+// One page of an OData collection response
+export interface IFSPage<T> {
+  '@odata.context'?: string;
+  '@odata.count'?: number;
+  '@odata.nextLink'?: string;
+  value: T[];
+}
+
+export interface IFSGetAllOptions {
+  // Refuse collections with more rows than this (defaults to ifsCloudConfig.maxRows)
+  maxRows?: number;
+}
+
+/**
+ * Thrown when a collection has more rows than maxRows: working with part of
+ * the rows would look like a complete result (e.g. a crew without some of its members)
+ */
+export class IFSRowLimitError extends Error {
+  constructor(public readonly endpoint: string, public readonly maxRows: number) {
+    super(`More than ${maxRows} rows in ${endpoint}; raise IFS_MAX_ROWS to load them all`);
+    this.name = 'IFSRowLimitError';
+  }
+}
+
+/**
+ * GET every page of an OData collection and return the combined rows.
+ * Follows @odata.nextLink (relative links are resolved against the request URL)
+ * until the last page. Throws an IFSRowLimitError as soon as more than maxRows
+ * rows are found, and warns when the @odata.count of the first page (requested
+ * with $count=true) does not match the number of rows collected.
+ */
+export async function ifsGetAll<T>(endpoint: string, options: IFSGetAllOptions = {}): Promise<T[]> {
+  const maxRows = options.maxRows ?? ifsCloudConfig.maxRows;
+  const rows: T[] = [];
+  let expectedCount: number | undefined;
+  let nextUrl: string | undefined = endpoint;
+  let pageCount = 0;
+
+  while (nextUrl) {
+    const page: IFSPage<T> = await ifsGet<IFSPage<T>>(nextUrl);
+    pageCount++;
+    if (pageCount === 1) {
+      expectedCount = page['@odata.count'];
+    }
+    rows.push(...page.value);
+
+    if (rows.length > maxRows || (rows.length === maxRows && page['@odata.nextLink'])) {
+      throw new IFSRowLimitError(endpoint, maxRows);
+    }
+
+    nextUrl = page['@odata.nextLink'] && new URL(page['@odata.nextLink'], nextUrl).toString();
+  }
+
+  if (pageCount > 1) {
+    console.debug(`[IFS Paging] Collected ${rows.length} rows in ${pageCount} pages from ${endpoint}`);
+  }
+  if (expectedCount !== undefined && expectedCount !== rows.length) {
+    console.warn(`[IFS Paging] IFS reported ${expectedCount} rows but ${rows.length} were returned for ${endpoint}`);
+  }
+
+  return rows;
+}
@@ -0,0 +1,190 @@
+// IFS Cloud Connection Profiles
+// Named sets of IFS settings (environment, service organisation, crew groups) a planner can switch
+// between at runtime. Profiles are read from the JSON file IFS_PROFILES_FILE; without it there is
+// one profile made of the environment variables. The browser picks its profile with a cookie and
+// every API request runs with that profile's settings (see runWithIFSProfile).
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { readFileSync } from 'node:fs';
+import { z } from 'zod';
+import type { NextRequest } from 'next/server';
+import { IFS_GRANT_TYPES, ifsCloudConfig, setIFSProfileResolver, type IFSGrantType, type IFSProfileSettings } from './ifs-config';
+
+export const PROFILE_COOKIE = 'ifs_profile';
+
+// Id of the profile made of the environment variables when there is no profiles file
+export const DEFAULT_PROFILE_ID = 'default';
+
+export interface IFSConnectionProfile {
+  id: string;
+  name: string;
+  production: boolean;
+  settings: IFSProfileSettings; // Settings that differ from the environment variables
+}
+
+/**
+ * What the browser is told about a profile: where it connects to, without credentials
+ */
+export interface IFSProfileSummary {
+  id: string;
+  name: string;
+  production: boolean;
+  baseUrl: string;
+  environmentId: string;
+  resourceGroupSeq: number;
+  resourceGroupSeqCrews: number;
+  serviceOrganizationId: string;
+  calendarId: string;
+  siteTimeZone: string;
+}
+
+// Answer of GET /api/profiles
+export interface IFSProfileList {
+  profiles: IFSProfileSummary[];
+  activeId: string | null;
+}
+
+export class IFSProfilesError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IFSProfilesError';
+  }
+}
+
+const text = z.string().min(1);
+
+const profileSchema = z.object({
+  id: z.string().regex(/^[A-Za-z0-9._-]+$/, 'Use letters, digits, ".", "_" and "-"'),
+  name: text,
+  production: z.boolean().default(false),
+  baseUrl: text.optional(),
+  environmentId: text.optional(),
+  clientId: text.optional(),
+  clientSecret: z.string().optional(),
+  grantType: z.enum(IFS_GRANT_TYPES as [IFSGrantType, ...IFSGrantType[]]).optional(),
+  username: z.string().optional(),
+  password: z.string().optional(),
+  resourceGroupSeq: z.number().int().optional(),
+  resourceGroupSeqCrews: z.number().int().optional(),
+  serviceOrganizationId: text.optional(),
+  calendarId: z.string().optional(),
+  siteTimeZone: text.optional(),
+}).strict();
+
+const profilesSchema = z
+  .array(profileSchema)
+  .min(1, 'Expected at least one profile')
+  .refine((profiles) => new Set(profiles.map((p) => p.id)).size === profiles.length, { message: 'Profile ids must be unique' });
+
+// "${NAME}" in a string is replaced by the environment variable NAME, so secrets can stay out of the file
+function expandEnvironment(value: unknown, path: string, env: Record<string, string | undefined>): unknown {
+  if (typeof value === 'string') {
+    return value.replace(/\$\{(\w+)\}/g, (_, name: string) => {
+      const resolved = env[name];
+      if (resolved === undefined) {
+        throw new IFSProfilesError(`${path}: ${name} is not set`);
+      }
+      return resolved;
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => expandEnvironment(item, `${path}.${index}`, env));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, expandEnvironment(item, path ? `${path}.${key}` : key, env)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Read profiles from the JSON of a profiles file:
+ * [{ id, name, production, baseUrl, environmentId, resourceGroupSeqCrews, ... }, ...]
+ * Settings that are left out come from the environment variables
+ */
+export function parseIFSProfiles(json: unknown, env: Record<string, string | undefined> = process.env): IFSConnectionProfile[] {
+  const result = profilesSchema.safeParse(expandEnvironment(json, '', env));
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new IFSProfilesError(`${issue.path.join('.') || 'Profiles'}: ${issue.message}`);
+  }
+
+  return result.data.map(({ id, name, production, ...settings }) => ({
+    id,
+    name,
+    production,
+    settings,
+  }));
+}
+
+let loadedProfiles: IFSConnectionProfile[] | null = null;
+
+/**
+ * The configured profiles, the first of which is the default
+ * Throws an IFSProfilesError when the profiles file cannot be used
+ */
+export function getIFSProfiles(): IFSConnectionProfile[] {
+  if (loadedProfiles) return loadedProfiles;
+
+  const file = process.env.IFS_PROFILES_FILE;
+  if (!file) {
+    loadedProfiles = [{ id: DEFAULT_PROFILE_ID, name: ifsCloudConfig.environmentId, production: false, settings: {} }];
+    return loadedProfiles;
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(readFileSync(file, 'utf8'));
+  } catch (error) {
+    throw new IFSProfilesError(`Cannot read IFS_PROFILES_FILE ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+  loadedProfiles = parseIFSProfiles(json);
+  console.debug(`✓ ${loadedProfiles.length} IFS connection profiles from ${file}`);
+  return loadedProfiles;
+}
+
+/**
+ * The profile with an id, or the default profile when the id is unknown or missing
+ */
+export function getIFSProfile(id: string | undefined): IFSConnectionProfile {
+  const profiles = getIFSProfiles();
+  return profiles.find((profile) => profile.id === id) ?? profiles[0];
+}
+
+/**
+ * The profile a request has picked with the profile cookie
+ */
+export function getRequestIFSProfile(request: NextRequest): IFSConnectionProfile {
+  return getIFSProfile(request.cookies.get(PROFILE_COOKIE)?.value);
+}
+
+// Profile of the request being handled, across its awaits
+const activeProfile = new AsyncLocalStorage<IFSConnectionProfile>();
+setIFSProfileResolver(() => activeProfile.getStore()?.settings);
+
+/**
+ * Run a handler with the settings of a profile: ifsCloudConfig reads the profile's settings
+ * wherever the handler reads it, so tokens, URLs and crew groups all follow the profile
+ */
+export function runWithIFSProfile<T>(profile: IFSConnectionProfile, handler: () => T): T {
+  return activeProfile.run(profile, handler);
+}
+
+/**
+ * Summary of a profile for the browser, with the settings it takes from the environment filled in
+ */
+export function toIFSProfileSummary(profile: IFSConnectionProfile): IFSProfileSummary {
+  return runWithIFSProfile(profile, () => ({
+    id: profile.id,
+    name: profile.name,
+    production: profile.production,
+    baseUrl: ifsCloudConfig.baseUrl,
+    environmentId: ifsCloudConfig.environmentId,
+    resourceGroupSeq: ifsCloudConfig.resourceGroupSeq,
+    resourceGroupSeqCrews: ifsCloudConfig.resourceGroupSeqCrews,
+    serviceOrganizationId: ifsCloudConfig.serviceOrganizationId,
+    calendarId: ifsCloudConfig.calendarId,
+    siteTimeZone: ifsCloudConfig.siteTimeZone,
+  }));
+}
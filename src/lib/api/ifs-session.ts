@@ -0,0 +1,320 @@
+// IFS Cloud User Sessions
+// Per-user login against the IFS Keycloak realm with the authorization code flow and PKCE.
+// Tokens stay on the server: the browser only holds an opaque session id in an httpOnly cookie.
+
+import { createHash, randomBytes } from 'node:crypto';
+import { NextResponse, type NextRequest } from 'next/server';
+import { getIFSAuthConfigError, getIFSAuthorizationUrl, getIFSAuthUrl, getIFSEndSessionUrl, ifsCloudConfig } from './ifs-config';
+import { IFSApiError, runAsIFSUser } from './ifs-auth';
+import { IFSAuthError } from './ifs-token-manager';
+import { DEFAULT_PROFILE_ID, IFSProfilesError, getRequestIFSProfile, runWithIFSProfile, type IFSConnectionProfile } from './ifs-profiles';
+
+export const SESSION_COOKIE = 'ifs_session';
+export const LOGIN_STATE_COOKIE = 'ifs_login_state';
+
+// How long the Keycloak login page may take before its state is forgotten
+export const LOGIN_TIMEOUT_MS = 10 * 60 * 1000;
+
+export interface IFSUser {
+  username: string;
+  name: string;
+  email?: string;
+}
+
+export interface IFSUserSession {
+  id: string;
+  user: IFSUser;
+  authUrl: string; // Token endpoint of the realm the user signed in to
+  accessToken: string;
+  accessTokenExpiresAt: number;
+  refreshToken?: string;
+  idToken?: string;
+}
+
+// A login started on this server, waiting for Keycloak to redirect back
+interface PendingLogin {
+  codeVerifier: string;
+  redirectUri: string;
+  returnTo: string;
+  expiresAt: number;
+}
+
+interface CodeTokenResponse {
+  access_token: string;
+  expires_in: number;
+  refresh_token?: string;
+  id_token?: string;
+}
+
+// Kept on globalThis so every route bundle of the server shares the same sessions
+const store = globalThis as typeof globalThis & {
+  ifsSessions?: Map<string, IFSUserSession>;
+  ifsPendingLogins?: Map<string, PendingLogin>;
+  ifsSessionRefreshes?: Map<string, Promise<IFSUserSession | null>>;
+};
+const sessions = (store.ifsSessions ??= new Map());
+const pendingLogins = (store.ifsPendingLogins ??= new Map());
+const refreshes = (store.ifsSessionRefreshes ??= new Map());
+
+function base64Url(data: Buffer): string {
+  return data.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function randomToken(): string {
+  return base64Url(randomBytes(32));
+}
+
+/**
+ * PKCE code verifier and its S256 challenge (RFC 7636)
+ */
+export function createPkcePair(): { verifier: string; challenge: string } {
+  const verifier = randomToken();
+  return { verifier, challenge: base64Url(createHash('sha256').update(verifier).digest()) };
+}
+
+// Claims of a JWT, without checking its signature. Only used on tokens received directly
+// from the token endpoint over TLS, which OpenID Connect allows in place of validation.
+function readJwtClaims(token: string | undefined): Record<string, unknown> {
+  try {
+    return JSON.parse(Buffer.from((token ?? '').split('.')[1] ?? '', 'base64url').toString('utf8'));
+  } catch {
+    return {};
+  }
+}
+
+function readUser(tokens: CodeTokenResponse): IFSUser {
+  const claims = { ...readJwtClaims(tokens.access_token), ...readJwtClaims(tokens.id_token) };
+  const text = (value: unknown) => (typeof value === 'string' && value ? value : undefined);
+  const username = text(claims.preferred_username) ?? text(claims.upn) ?? text(claims.sub) ?? 'unknown';
+  return { username, name: text(claims.name) ?? username, email: text(claims.email) };
+}
+
+// Token endpoint call with the client credentials added
+async function requestTokens(grant: Record<string, string>): Promise<CodeTokenResponse> {
+  const formData = new URLSearchParams(grant);
+  formData.append('client_id', ifsCloudConfig.clientId);
+  if (ifsCloudConfig.clientSecret) {
+    formData.append('client_secret', ifsCloudConfig.clientSecret);
+  }
+
+  const response = await fetch(getIFSAuthUrl(), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: formData.toString(),
+  });
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Authentication failed: ${response.status} - ${errorText}`);
+  }
+
+  const tokens: CodeTokenResponse = await response.json();
+  if (!tokens.access_token) {
+    throw new Error('No access_token in authentication response');
+  }
+  return tokens;
+}
+
+function readTokens(tokens: CodeTokenResponse): Omit<IFSUserSession, 'id' | 'user' | 'authUrl'> {
+  return {
+    accessToken: tokens.access_token,
+    // Same one minute margin as the shared account's token
+    accessTokenExpiresAt: Date.now() + (tokens.expires_in - 60) * 1000,
+    refreshToken: tokens.refresh_token,
+    idToken: tokens.id_token,
+  };
+}
+
+// Only paths on this site, so the login cannot be used to redirect elsewhere
+function safeReturnTo(returnTo: string | null | undefined): string {
+  return returnTo && returnTo.startsWith('/') && !returnTo.startsWith('//') ? returnTo : '/';
+}
+
+/**
+ * Callback URL of the login, from the configuration or the origin of the request
+ */
+export function getRedirectUri(request: NextRequest): string {
+  return ifsCloudConfig.redirectUri || `${request.nextUrl.origin}/api/auth/callback`;
+}
+
+/**
+ * Start a login: returns the Keycloak URL to send the browser to and the state that
+ * the callback must come back with
+ */
+export function beginIFSLogin(redirectUri: string, returnTo?: string | null): { state: string; url: string } {
+  const now = Date.now();
+  pendingLogins.forEach((login, key) => {
+    if (login.expiresAt <= now) pendingLogins.delete(key);
+  });
+
+  const state = randomToken();
+  const { verifier, challenge } = createPkcePair();
+  pendingLogins.set(state, { codeVerifier: verifier, redirectUri, returnTo: safeReturnTo(returnTo), expiresAt: now + LOGIN_TIMEOUT_MS });
+
+  const params = new URLSearchParams({
+    client_id: ifsCloudConfig.clientId,
+    response_type: 'code',
+    scope: 'openid microprofile-jwt',
+    redirect_uri: redirectUri,
+    state,
+    code_challenge: challenge,
+    code_challenge_method: 'S256',
+  });
+  return { state, url: `${getIFSAuthorizationUrl()}?${params.toString()}` };
+}
+
+/**
+ * Finish a login: exchange the authorization code for the user's tokens and open a session
+ * Throws when the state is unknown or expired, or when Keycloak rejects the code
+ */
+export async function completeIFSLogin(code: string, state: string): Promise<{ session: IFSUserSession; returnTo: string }> {
+  const login = pendingLogins.get(state);
+  pendingLogins.delete(state);
+  if (!login || login.expiresAt <= Date.now()) {
+    throw new Error('The sign-in has expired or was not started here, please sign in again');
+  }
+
+  const tokens = await requestTokens({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: login.redirectUri,
+    code_verifier: login.codeVerifier,
+  });
+  const session: IFSUserSession = { id: randomToken(), user: readUser(tokens), authUrl: getIFSAuthUrl(), ...readTokens(tokens) };
+  sessions.set(session.id, session);
+  console.debug(`✓ ${session.user.username} signed in to IFS Cloud`);
+  return { session, returnTo: login.returnTo };
+}
+
+async function refreshSession(session: IFSUserSession): Promise<IFSUserSession | null> {
+  try {
+    if (!session.refreshToken) throw new Error('No refresh token');
+    const tokens = await requestTokens({ grant_type: 'refresh_token', refresh_token: session.refreshToken });
+    // Keycloak may not rotate the refresh or ID token; keep the ones we have then
+    const { refreshToken = session.refreshToken, idToken = session.idToken, ...rest } = readTokens(tokens);
+    Object.assign(session, rest, { refreshToken, idToken });
+    return session;
+  } catch (error) {
+    console.debug(`IFS session of ${session.user.username} ended:`, error instanceof Error ? error.message : error);
+    sessions.delete(session.id);
+    return null;
+  }
+}
+
+/**
+ * The session of a session cookie, or null when there is none or it can no longer be used
+ * An expired access token is renewed with the refresh token; when Keycloak refuses, the session ends.
+ * A session of another realm than the active profile's is not used, as IFS would refuse its token.
+ */
+export async function getIFSSession(sessionId: string | undefined): Promise<IFSUserSession | null> {
+  const session = sessionId ? sessions.get(sessionId) : undefined;
+  if (!session || session.authUrl !== getIFSAuthUrl()) return null;
+  if (Date.now() < session.accessTokenExpiresAt) return session;
+
+  // Requests arriving together share one refresh, as a refresh token may only be usable once
+  let refresh = refreshes.get(session.id);
+  if (!refresh) {
+    refresh = refreshSession(session).finally(() => refreshes.delete(session.id));
+    refreshes.set(session.id, refresh);
+  }
+  return refresh;
+}
+
+/**
+ * Sign a user out of this app; returns the Keycloak URL that ends the IFS session in the browser
+ */
+export function endIFSSession(sessionId: string | undefined, postLogoutRedirectUri: string): string {
+  const session = sessionId ? sessions.get(sessionId) : undefined;
+  if (sessionId) sessions.delete(sessionId);
+
+  const params = new URLSearchParams({ client_id: ifsCloudConfig.clientId, post_logout_redirect_uri: postLogoutRedirectUri });
+  if (session?.idToken) {
+    params.set('id_token_hint', session.idToken);
+  }
+  return `${getIFSEndSessionUrl()}?${params.toString()}`;
+}
+
+// Access token the reverse proxy passed in, with or without the Bearer prefix
+function readProxyToken(request: NextRequest): string | null {
+  const value = request.headers.get(ifsCloudConfig.proxyTokenHeader)?.trim();
+  return value ? value.replace(/^Bearer\s+/i, '') || null : null;
+}
+
+/**
+ * Run an API route handler with the connection profile and IFS identity of its request
+ * Settings that cannot work answer 500 with what to fix. With per-user login the handler runs
+ * as the signed-in user, with the proxy grant on the token the reverse proxy passed in; without
+ * a session or token the route answers 401 and IFS is not called.
+ */
+export async function withIFSSession(request: NextRequest, handler: () => Promise<Response>): Promise<Response> {
+  let profile: IFSConnectionProfile;
+  try {
+    profile = getRequestIFSProfile(request);
+  } catch (error) {
+    if (!(error instanceof IFSProfilesError)) throw error;
+    return NextResponse.json({ error: 'The IFS connection profiles are not valid', details: error.message }, { status: 500 });
+  }
+  return runWithIFSProfile(profile, async () => {
+    const configError = process.env.NEXT_PUBLIC_USE_IFS_CLOUD === 'true' ? getIFSAuthConfigError() : null;
+    if (configError) {
+      return NextResponse.json({
+        error: 'IFS Cloud authentication is not configured correctly',
+        details: profile.id === DEFAULT_PROFILE_ID ? configError : `${profile.name}: ${configError}`,
+      }, { status: 500 });
+    }
+    return runAsIdentity(request, handler);
+  });
+}
+
+// Run the handler as the user of the request, when IFS is called per user
+async function runAsIdentity(request: NextRequest, handler: () => Promise<Response>): Promise<Response> {
+  if (ifsCloudConfig.userLogin) {
+    const session = await getIFSSession(request.cookies.get(SESSION_COOKIE)?.value);
+    if (!session) {
+      return NextResponse.json({
+        error: 'Not signed in',
+        details: 'Sign in to IFS Cloud to load and change crews',
+      }, { status: 401 });
+    }
+    return runAsIFSUser(session.accessToken, handler);
+  }
+
+  if (ifsCloudConfig.grantType === 'proxy') {
+    const token = readProxyToken(request);
+    if (!token) {
+      return NextResponse.json({
+        error: 'Not signed in',
+        details: `The reverse proxy passed no IFS access token in the ${ifsCloudConfig.proxyTokenHeader} header (IFS_GRANT_TYPE=proxy)`,
+      }, { status: 401 });
+    }
+    return runAsIFSUser(token, handler);
+  }
+
+  return handler();
+}
+
+/**
+ * 401 response saying what to check when IFS did not let the request in, or null for other errors
+ */
+export function ifsAuthErrorResponse(error: unknown): NextResponse | null {
+  if (error instanceof IFSAuthError) {
+    return NextResponse.json({
+      error: 'IFS Cloud authentication failed',
+      details: error.message,
+    }, { status: 401 });
+  }
+  if (error instanceof IFSApiError && error.status === 401) {
+    const { userLogin, grantType, environmentId } = ifsCloudConfig;
+    return NextResponse.json({
+      error: 'IFS Cloud did not accept the access token',
+      details: error.message,
+      suggestion: userLogin
+        ? 'Sign in to IFS Cloud again'
+        : grantType === 'proxy'
+          ? `The reverse proxy must pass an access token issued by the ${environmentId} realm`
+          : `Check that NEXT_PUBLIC_IFS_BASE_URL and NEXT_PUBLIC_IFS_ENVIRONMENT_ID (${environmentId}) belong to the same IFS environment`,
+    }, { status: 401 });
+  }
+  return null;
+}
@@ -2,6 +2,7 @@
 // Based on "40 - GetTechnicians" Postman request
 
 import { ifsGet } from './ifs-auth';
+import { ifsGetAll } from './ifs-paging';
 import { getIFSApiBaseUrl, ifsCloudConfig } from './ifs-config';
 import type { Resource } from '@/domain/types';
 
@@ -40,12 +41,12 @@ export async function getTechniciansFromIFS(): Promise<Resource[]> {
   console.debug('Fetching technicians from IFS Cloud...');
   console.debug(`URL: ${url}`);
 
-  const response = await ifsGet<IFSResourceResponse>(url);
+  const items = await ifsGetAll<IFSResourceItem>(url);
 
-  console.debug(`✓ Retrieved ${response.value.length} technicians from IFS Cloud`);
+  console.debug(`✓ Retrieved ${items.length} technicians from IFS Cloud`);
 
   // Map IFS Cloud response to our Resource type
-  return response.value.map((item): Resource => ({
+  return items.map((item): Resource => ({
     id: item.ResourceId,
     description: item.Description,
     ResourceSeq: item.ResourceSeq,
@@ -0,0 +1,245 @@
+// IFS Cloud Token Manager
+// Caches access tokens per identity (token endpoint, grant, client and user), so a token is never used
+// for another identity than the one it was issued to. Renews tokens with the refresh_token grant
+// before they expire, lets concurrent requests share one login, and backs off when IFS keeps
+// answering 401.
+
+import type { IFSGrantType } from './ifs-config';
+
+export interface IFSIdentity {
+  authUrl: string;
+  grantType: Exclude<IFSGrantType, 'proxy'>;
+  clientId: string;
+  clientSecret: string;
+  username: string; // Empty for the client_credentials grant
+  password: string;
+}
+
+/**
+ * Error raised when the token endpoint refuses a login
+ * The message ends with what to check, for the API routes to pass on
+ */
+export class IFSAuthError extends Error {
+  constructor(message: string, public readonly status: number, public readonly code?: string) {
+    super(message);
+    this.name = 'IFSAuthError';
+  }
+}
+
+interface TokenResponse {
+  access_token: string;
+  expires_in: number;
+  refresh_expires_in?: number;
+  refresh_token?: string;
+  token_type: string;
+  id_token?: string;
+  'not-before-policy'?: number;
+  session_state?: string;
+  scope?: string;
+}
+
+interface CachedToken {
+  bearer: string;
+  expiresAt: number;        // Renew from this time on (ms)
+  refreshToken?: string;
+  refreshExpiresAt: number; // Infinity when Keycloak gives no refresh token lifetime
+}
+
+interface IdentityState {
+  token: CachedToken | null;
+  pending: Promise<CachedToken> | null; // Login or refresh in progress, shared by concurrent requests
+  failures: number;                     // 401s in a row, from the token endpoint or from IFS
+  retryAt: number;                      // No new login before this time (ms)
+}
+
+// Tokens are renewed this long before they expire
+export const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+// Wait after the second 401 in a row, doubled for each one after it, up to the maximum
+export const AUTH_BACKOFF_BASE_MS = 1000;
+export const AUTH_BACKOFF_MAX_MS = 60 * 1000;
+
+function identityKey(identity: IFSIdentity): string {
+  return `${identity.authUrl} ${identity.grantType} ${identity.clientId} ${identity.username}`;
+}
+
+// Which settings to check for an error from the token endpoint (RFC 6749 section 5.2)
+function describeTokenError(identity: IFSIdentity, grantType: string, status: number, code?: string, description?: string): string | null {
+  if (grantType === 'refresh_token') return null;
+  if (status === 404) {
+    return `No Keycloak realm at ${identity.authUrl}; check NEXT_PUBLIC_IFS_BASE_URL and NEXT_PUBLIC_IFS_ENVIRONMENT_ID`;
+  }
+  if (code === 'invalid_client' || (code === 'unauthorized_client' && /credentials/i.test(description ?? ''))) {
+    return 'Check IFS_CLIENT_ID and IFS_CLIENT_SECRET';
+  }
+  if (code === 'unauthorized_client' || code === 'unsupported_grant_type') {
+    return grantType === 'password'
+      ? `The client ${identity.clientId} may not use the password grant here; set IFS_GRANT_TYPE=client_credentials or enable direct access grants for the client`
+      : `The client ${identity.clientId} may not use the client_credentials grant here; enable its service account or set IFS_GRANT_TYPE=password`;
+  }
+  if (code === 'invalid_grant' && grantType === 'password') {
+    return 'Check IFS_USERNAME and IFS_PASSWORD';
+  }
+  return null;
+}
+
+export class IFSTokenManager {
+  private identities = new Map<string, IdentityState>();
+
+  /**
+   * Bearer token of an identity: the cached one while it is valid, else a refreshed one,
+   * else one from a new login with the identity's grant
+   * Throws while backing off after repeated 401s, or when the login fails
+   */
+  async getToken(identity: IFSIdentity): Promise<string> {
+    const state = this.getState(identity);
+    if (state.token && Date.now() < state.token.expiresAt) {
+      return state.token.bearer;
+    }
+
+    if (!state.pending) {
+      state.pending = this.renew(identity, state).finally(() => {
+        state.pending = null;
+      });
+    }
+    return (await state.pending).bearer;
+  }
+
+  /**
+   * Whether an identity has a token that does not need renewing yet
+   */
+  isAuthenticated(identity: IFSIdentity): boolean {
+    const token = this.identities.get(identityKey(identity))?.token;
+    return !!token && Date.now() < token.expiresAt;
+  }
+
+  /**
+   * Tell the manager how IFS answered a request made with a token
+   * A 401 drops the token and counts towards the backoff; any success ends the backoff.
+   * Tokens that are no longer cached (already renewed, or not issued here) are ignored.
+   */
+  reportResponse(bearer: string, status: number): void {
+    const state = Array.from(this.identities.values()).find((s) => s.token?.bearer === bearer);
+    if (!state) return;
+
+    if (status === 401) {
+      state.token = null;
+      this.recordUnauthorized(state);
+    } else if (status < 400) {
+      state.failures = 0;
+      state.retryAt = 0;
+    }
+  }
+
+  /**
+   * Forget every token and backoff
+   */
+  clear(): void {
+    this.identities.clear();
+  }
+
+  private getState(identity: IFSIdentity): IdentityState {
+    const key = identityKey(identity);
+    let state = this.identities.get(key);
+    if (!state) {
+      state = { token: null, pending: null, failures: 0, retryAt: 0 };
+      this.identities.set(key, state);
+    }
+    return state;
+  }
+
+  // The first 401 may be retried right away; every further one doubles the wait
+  private recordUnauthorized(state: IdentityState): void {
+    state.failures += 1;
+    state.retryAt = state.failures < 2
+      ? 0
+      : Date.now() + Math.min(AUTH_BACKOFF_BASE_MS * 2 ** (state.failures - 2), AUTH_BACKOFF_MAX_MS);
+  }
+
+  private async renew(identity: IFSIdentity, state: IdentityState): Promise<CachedToken> {
+    const refreshToken = state.token?.refreshToken;
+    if (refreshToken && Date.now() < (state.token?.refreshExpiresAt ?? 0)) {
+      try {
+        state.token = await this.requestToken(identity, state, { grant_type: 'refresh_token', refresh_token: refreshToken });
+        console.debug('✓ IFS Cloud token refreshed');
+        return state.token;
+      } catch (error) {
+        console.debug('IFS Cloud token refresh failed, signing in again:', error instanceof Error ? error.message : error);
+      }
+    }
+
+    if (Date.now() < state.retryAt) {
+      const seconds = Math.ceil((state.retryAt - Date.now()) / 1000);
+      throw new IFSAuthError(`Authentication failed: IFS Cloud answered 401 ${state.failures} times in a row; not signing in again for ${seconds}s`, 401);
+    }
+
+    state.token = await this.requestToken(identity, state, identity.grantType === 'password'
+      ? {
+        resource: identity.clientId,
+        scope: 'openid microprofile-jwt',
+        username: identity.username,
+        password: identity.password,
+        grant_type: 'password',
+        response_type: 'id_token token',
+      }
+      : { scope: 'openid microprofile-jwt', grant_type: 'client_credentials' });
+
+    // Print connected message to debug console
+    console.debug('✓ Connected to IFS Cloud');
+    console.debug(`  Token endpoint: ${identity.authUrl}`);
+    console.debug(`  ${identity.grantType === 'password' ? `User: ${identity.username}` : `Client: ${identity.clientId}`}`);
+    return state.token;
+  }
+
+  private async requestToken(identity: IFSIdentity, state: IdentityState, grant: Record<string, string>): Promise<CachedToken> {
+    const formData = new URLSearchParams();
+    formData.append('client_id', identity.clientId);
+    formData.append('client_secret', identity.clientSecret);
+    Object.keys(grant).forEach((name) => formData.append(name, grant[name]));
+
+    const response = await fetch(identity.authUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: formData.toString(),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      // A refresh token being refused only means a new login is needed
+      if (response.status === 401 && grant.grant_type !== 'refresh_token') {
+        this.recordUnauthorized(state);
+      }
+
+      let body: { error?: string; error_description?: string } = {};
+      try {
+        body = JSON.parse(errorText);
+      } catch {
+        // Not an OAuth error body, e.g. an HTML page of a proxy
+      }
+      const reason = body.error ? `${body.error_description || body.error} (${body.error})` : errorText;
+      const hint = describeTokenError(identity, grant.grant_type, response.status, body.error, body.error_description);
+      throw new IFSAuthError(`Authentication failed: ${response.status} - ${reason}${hint ? `. ${hint}` : ''}`, response.status, body.error);
+    }
+
+    const tokenData: TokenResponse = await response.json();
+
+    // Use access_token for API authorization (standard for IFS Cloud Projections)
+    // Note: User previously requested id_token, but Crews API returns 401 with id_token
+    if (!tokenData.access_token) {
+      throw new Error('No access_token in authentication response');
+    }
+
+    const now = Date.now();
+    return {
+      bearer: `Bearer ${tokenData.access_token}`,
+      expiresAt: now + tokenData.expires_in * 1000 - TOKEN_EXPIRY_MARGIN_MS,
+      // Keycloak does not always rotate the refresh token; keep using the current one then
+      refreshToken: tokenData.refresh_token ?? state.token?.refreshToken,
+      refreshExpiresAt: tokenData.refresh_expires_in
+        ? now + tokenData.refresh_expires_in * 1000 - TOKEN_EXPIRY_MARGIN_MS
+        : Number.POSITIVE_INFINITY,
+    };
+  }
+}
@@ -3,7 +3,17 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { api } from '@/lib/api/client';
 import { queryKeys } from './keys';
-import type { CreateAssignmentInput, UpdateAssignmentInput, Assignment } from '@/domain/types';
+import type {
+  CreateAssignmentInput,
+  UpdateAssignmentInput,
+  Assignment,
+  CreateLeaderPeriodInput,
+  UpdateLeaderPeriodInput,
+  LeaderPeriod,
+} from '@/domain/types';
+import type { CreateTeamInput } from '@/domain/validation';
+
+type SchedulerData = Awaited<ReturnType<typeof api.getSchedulerData>>;
 
 // Technicians (Resources)
 export function useTechnicians() {
@@ -63,10 +73,11 @@ export function useCreateAssignment() {
       const previousData = queryClient.getQueryData(queryKeys.scheduler.all);
 
       // Optimistically update
-      queryClient.setQueryData(queryKeys.scheduler.all, (old: Awaited<ReturnType<typeof api.getSchedulerData>> | undefined) => {
+      queryClient.setQueryData(queryKeys.scheduler.all, (old: SchedulerData | undefined) => {
         if (!old) return old;
+        const { isTeamLeader: _isTeamLeader, ...membership } = newAssignment;
         const optimisticAssignment: Assignment = {
-          ...newAssignment,
+          ...membership,
           id: `temp-${Date.now()}`,
         };
         return {
@@ -104,7 +115,7 @@ export function useUpdateAssignment() {
 
       const previousData = queryClient.getQueryData(queryKeys.scheduler.all);
 
-      queryClient.setQueryData(queryKeys.scheduler.all, (old: Awaited<ReturnType<typeof api.getSchedulerData>> | undefined) => {
+      queryClient.setQueryData(queryKeys.scheduler.all, (old: SchedulerData | undefined) => {
         if (!old) {
           console.warn('[Mutation] No existing data to update');
           return old;
@@ -160,7 +171,7 @@ export function useDeleteAssignment() {
 
       const previousData = queryClient.getQueryData(queryKeys.scheduler.all);
 
-      queryClient.setQueryData(queryKeys.scheduler.all, (old: Awaited<ReturnType<typeof api.getSchedulerData>> | undefined) => {
+      queryClient.setQueryData(queryKeys.scheduler.all, (old: SchedulerData | undefined) => {
         if (!old) return old;
         return {
           ...old,
@@ -186,7 +197,7 @@ export function useCreateTeam() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: (input: { name: string; description?: string; color: string }) => 
+    mutationFn: (input: CreateTeamInput) => 
       api.createTeam(input),
     onSettled: () => {
       queryClient.invalidateQueries({ queryKey: queryKeys.scheduler.all });
@@ -194,3 +205,141 @@ export function useCreateTeam() {
     },
   });
 }
+
+// Delete team (with its assignments and leader periods) with optimistic update
+export function useDeleteTeam() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => api.deleteTeam(id),
+    onMutate: async (deletedId) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.scheduler.all });
+
+      const previousData = queryClient.getQueryData(queryKeys.scheduler.all);
+
+      queryClient.setQueryData(queryKeys.scheduler.all, (old: SchedulerData | undefined) => {
+        if (!old) return old;
+        return {
+          ...old,
+          teams: old.teams.filter((t) => t.id !== deletedId),
+          assignments: old.assignments.filter((a) => a.teamId !== deletedId),
+          leaderPeriods: old.leaderPeriods.filter((l) => l.teamId !== deletedId),
+        };
+      });
+
+      return { previousData };
+    },
+    onError: (_err, _deletedId, context) => {
+      if (context?.previousData) {
+        queryClient.setQueryData(queryKeys.scheduler.all, context.previousData);
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.scheduler.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.teams.all });
+    },
+  });
+}
+
+// Create leader period with optimistic update
+export function useCreateLeaderPeriod() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: CreateLeaderPeriodInput) => api.createLeaderPeriod(input),
+    onMutate: async (newLeaderPeriod) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.scheduler.all });
+
+      const previousData = queryClient.getQueryData(queryKeys.scheduler.all);
+
+      queryClient.setQueryData(queryKeys.scheduler.all, (old: SchedulerData | undefined) => {
+        if (!old) return old;
+        const optimisticLeaderPeriod: LeaderPeriod = {
+          ...newLeaderPeriod,
+          id: `temp-${Date.now()}`,
+        };
+        return {
+          ...old,
+          leaderPeriods: [...old.leaderPeriods, optimisticLeaderPeriod],
+        };
+      });
+
+      return { previousData };
+    },
+    onError: (_err, _newLeaderPeriod, context) => {
+      if (context?.previousData) {
+        queryClient.setQueryData(queryKeys.scheduler.all, context.previousData);
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.scheduler.all });
+    },
+  });
+}
+
+// Update leader period with optimistic update
+export function useUpdateLeaderPeriod() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: UpdateLeaderPeriodInput) => api.updateLeaderPeriod(input),
+    onMutate: async (updatedLeaderPeriod) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.scheduler.all });
+
+      const previousData = queryClient.getQueryData(queryKeys.scheduler.all);
+
+      queryClient.setQueryData(queryKeys.scheduler.all, (old: SchedulerData | undefined) => {
+        if (!old) return old;
+        return {
+          ...old,
+          leaderPeriods: old.leaderPeriods.map((l) =>
+            l.id === updatedLeaderPeriod.id ? { ...l, ...updatedLeaderPeriod } : l
+          ),
+        };
+      });
+
+      return { previousData };
+    },
+    onError: (err, _updatedLeaderPeriod, context) => {
+      console.error('[Mutation] updateLeaderPeriod failed:', err);
+      if (context?.previousData) {
+        queryClient.setQueryData(queryKeys.scheduler.all, context.previousData);
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.scheduler.all });
+    },
+  });
+}
+
+// Delete leader period
+export function useDeleteLeaderPeriod() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => api.deleteLeaderPeriod(id),
+    onMutate: async (deletedId) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.scheduler.all });
+
+      const previousData = queryClient.getQueryData(queryKeys.scheduler.all);
+
+      queryClient.setQueryData(queryKeys.scheduler.all, (old: SchedulerData | undefined) => {
+        if (!old) return old;
+        return {
+          ...old,
+          leaderPeriods: old.leaderPeriods.filter((l) => l.id !== deletedId),
+        };
+      });
+
+      return { previousData };
+    },
+    onError: (_err, _deletedId, context) => {
+      if (context?.previousData) {
+        queryClient.setQueryData(queryKeys.scheduler.all, context.previousData);
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.scheduler.all });
+    },
+  });
+}
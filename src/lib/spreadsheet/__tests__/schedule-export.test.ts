@@ -0,0 +1,133 @@
+import { fromDateOnly } from '@/domain/dateOnly';
+import type { Assignment, LeaderPeriod, Resource, Team } from '@/domain/types';
+import {
+  buildScheduleExport,
+  buildScheduleSheets,
+  getExportFileName,
+  type ExportChanges,
+  type ScheduleExportData,
+} from '../schedule-export';
+import { toCsv } from '../csv';
+import { buildXlsx, columnName, toSheetNames } from '../xlsx';
+
+const resources: Resource[] = [
+  { id: 'res-1', description: 'Zoe Smith', ResourceSeq: 101, role: 'Technician', skills: [] },
+  { id: 'res-2', description: 'Adam Jones', ResourceSeq: 102, role: 'Technician', skills: [] },
+];
+
+const teams: Team[] = [
+  { id: 'team-1', name: 'North', description: 'North, "A" shift', color: '#000', createdAt: '2026-01-01T00:00:00.000Z', ResourceSeq: 501 },
+  { id: 'team-2', name: 'South/West', color: '#fff', createdAt: '2026-01-01T00:00:00.000Z' },
+];
+
+const assignment = (id: string, resourceId: string, teamId: string, start: string, end: string): Assignment => ({
+  id,
+  resourceId,
+  teamId,
+  start: fromDateOnly(start),
+  end: fromDateOnly(end),
+});
+
+const assignments = [
+  assignment('a-1', 'res-1', 'team-1', '2026-03-02', '2026-03-16'),
+  assignment('a-2', 'res-2', 'team-1', '2026-04-01', '2026-04-15'),
+  assignment('a-3', 'res-2', 'team-2', '2026-03-10', '2026-03-20'),
+];
+
+const leaderPeriods: LeaderPeriod[] = [
+  { id: 'l-1', resourceId: 'res-1', teamId: 'team-1', start: fromDateOnly('2026-03-05'), end: fromDateOnly('2026-03-09') },
+];
+
+const noChanges: ExportChanges = {
+  createdAssignments: [],
+  updatedAssignments: [],
+  createdLeaderPeriods: [],
+  updatedLeaderPeriods: [],
+  deletedLeaderPeriods: [],
+};
+
+const data = (changes: Partial<ExportChanges> = {}): ScheduleExportData => ({
+  resources,
+  teams,
+  assignments,
+  leaderPeriods,
+  changes: { ...noChanges, ...changes },
+});
+
+describe('schedule export', () => {
+  it('should build a flat sheet and one sheet per team, sorted by resource name', () => {
+    const [flat, north, south] = buildScheduleSheets(data(), null);
+
+    expect(flat.name).toBe('All teams');
+    expect(flat.rows[0]).toEqual([
+      'Team', 'Team Description', 'Crew ResourceSeq', 'Resource ID', 'Resource', 'ResourceSeq',
+      'Start', 'End', 'Team Leader', 'Role', 'Unsaved Change',
+    ]);
+    expect(flat.rows.slice(1)).toEqual([
+      ['North', 'North, "A" shift', 501, 'res-2', 'Adam Jones', 102, { date: '2026-04-01' }, { date: '2026-04-15' }, 'No', '', ''],
+      ['North', 'North, "A" shift', 501, 'res-1', 'Zoe Smith', 101, { date: '2026-03-02' }, { date: '2026-03-16' }, 'Yes', '', ''],
+      ['South/West', '', null, 'res-2', 'Adam Jones', 102, { date: '2026-03-10' }, { date: '2026-03-20' }, 'No', '', ''],
+    ]);
+
+    expect(north.name).toBe('North');
+    expect(north.rows[0][0]).toBe('Resource ID');
+    expect(north.rows).toHaveLength(3);
+    expect(south.rows).toEqual([
+      ['Resource ID', 'Resource', 'ResourceSeq', 'Start', 'End', 'Team Leader', 'Role', 'Unsaved Change'],
+      ['res-2', 'Adam Jones', 102, { date: '2026-03-10' }, { date: '2026-03-20' }, 'No', '', ''],
+    ]);
+  });
+
+  it('should only export memberships overlapping the view range, keeping empty teams', () => {
+    const range = { start: new Date(2026, 2, 1), end: new Date(2026, 2, 9) };
+    const [flat, north, south] = buildScheduleSheets(data(), range);
+
+    expect(flat.rows.slice(1).map((row) => row[3])).toEqual(['res-1']);
+    expect(north.rows).toHaveLength(2);
+    expect(south.rows).toHaveLength(1);
+  });
+
+  it('should flag memberships with changes not yet pushed to IFS', () => {
+    const changes = {
+      createdAssignments: [assignments[0]],
+      updatedAssignments: [assignments[2]],
+    };
+    const flags = buildScheduleSheets(data(changes), null)[0].rows.slice(1).map((row) => [row[3], row.at(-1)]);
+    expect(flags).toEqual([['res-2', ''], ['res-1', 'New'], ['res-2', 'Changed']]);
+
+    // A deleted leader period marks the membership it was part of
+    const deleted = { deletedLeaderPeriods: [{ ...leaderPeriods[0], id: 'l-2', resourceId: 'res-2', start: fromDateOnly('2026-04-10'), end: fromDateOnly('2026-04-12') }] };
+    expect(buildScheduleSheets(data(deleted), null)[0].rows[1].at(-1)).toBe('Changed');
+  });
+
+  it('should write CSV with quoted fields, ISO dates and a file name for the range', () => {
+    const csv = buildScheduleExport(data(), null, 'csv') as string;
+    const lines = csv.split('\r\n');
+
+    expect(lines[1]).toBe('North,"North, ""A"" shift",501,res-2,Adam Jones,102,2026-04-01,2026-04-15,No,,');
+    expect(lines.at(-1)).toBe('');
+    expect(toCsv([['a\nb', null, 3]])).toBe('"a\nb",,3\r\n');
+
+    expect(getExportFileName('csv', null, new Date(2026, 9, 19))).toBe('crew-schedule-2026-10-19.csv');
+    expect(getExportFileName('xlsx', { start: new Date(2026, 2, 1), end: new Date(2026, 2, 31) }))
+      .toBe('crew-schedule-2026-03-01_2026-03-31.xlsx');
+  });
+
+  it('should write an xlsx zip with a worksheet per sheet and valid sheet names', () => {
+    const workbook = buildScheduleExport(data(), null, 'xlsx') as Uint8Array;
+    const text = new TextDecoder().decode(workbook);
+
+    expect(String.fromCharCode(workbook[0], workbook[1])).toBe('PK');
+    for (const name of ['[Content_Types].xml', 'xl/workbook.xml', 'xl/styles.xml', 'xl/worksheets/sheet3.xml']) {
+      expect(text).toContain(name);
+    }
+    expect(text).toContain('<sheet name="South West" sheetId="3" r:id="rId3"/>');
+    // 2 March 2026 is day 46083 of the 1900 date system
+    expect(text).toContain('<c r="G3" s="2"><v>46083</v></c>');
+    expect(text).toContain('North, &quot;A&quot; shift');
+
+    expect(toSheetNames(['Crew', 'crew', 'a'.repeat(40), '[]'])).toEqual(['Crew', 'crew (2)', 'a'.repeat(31), 'Sheet']);
+    expect([columnName(0), columnName(25), columnName(26), columnName(701)]).toEqual(['A', 'Z', 'AA', 'ZZ']);
+    expect(buildXlsx([{ name: 'Empty', rows: [] }]).length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,160 @@
+import { fromDateOnly } from '@/domain/dateOnly';
+import type { Assignment, LeaderPeriod, Resource, Team } from '@/domain/types';
+import type { ScheduleState } from '@/domain/scheduleValidation';
+import { parseCsv } from '../csv';
+import { buildXlsx, readXlsx } from '../xlsx';
+import { createZip } from '../zip';
+import { buildScheduleExport } from '../schedule-export';
+import { parseImportDate, previewScheduleImport, readImportRows } from '../schedule-import';
+
+const resources: Resource[] = [
+  { id: 'res-1', description: 'Zoe Smith', ResourceSeq: 101, role: 'Technician', skills: [] },
+  { id: 'res-2', description: 'Adam Jones', ResourceSeq: 102, role: 'Technician', skills: [] },
+  { id: 'res-3', description: 'Sam Lee', ResourceSeq: 103, role: 'Technician', skills: [] },
+  { id: 'res-4', description: 'Sam Lee', ResourceSeq: 104, role: 'Technician', skills: [] },
+];
+
+const teams: Team[] = [
+  { id: 'team-1', name: 'North', color: '#000', createdAt: '2026-01-01T00:00:00.000Z' },
+  { id: 'team-2', name: 'South', color: '#fff', createdAt: '2026-01-01T00:00:00.000Z' },
+];
+
+const assignments: Assignment[] = [
+  { id: 'a-1', resourceId: 'res-1', teamId: 'team-1', start: fromDateOnly('2026-03-02'), end: fromDateOnly('2026-03-16') },
+];
+
+const leaderPeriods: LeaderPeriod[] = [
+  { id: 'l-1', resourceId: 'res-1', teamId: 'team-1', start: fromDateOnly('2026-03-02'), end: fromDateOnly('2026-03-16') },
+];
+
+const state: ScheduleState = { resources, teams, assignments, leaderPeriods };
+
+const HEADER = ['Resource ID', 'Resource', 'Team', 'Start', 'End', 'Team Leader', 'Role'];
+
+const preview = (rows: (string | number | null)[][]) =>
+  previewScheduleImport('plan.csv', readImportRows([HEADER, ...rows]), state).rows;
+
+describe('schedule import', () => {
+  it('should parse CSV with quotes, line breaks, a BOM and semicolons', () => {
+    expect(parseCsv('\uFEFFa,"b,""c"""\r\n"multi\nline",d\n\n')).toEqual([['a', 'b,"c"'], ['multi\nline', 'd']]);
+    expect(parseCsv('Team;Start;End\nNorth;2026-03-01;"2026-03-05"')).toEqual([
+      ['Team', 'Start', 'End'],
+      ['North', '2026-03-01', '2026-03-05'],
+    ]);
+  });
+
+  it('should read back a workbook written by the export', async () => {
+    const [sheet] = await readXlsx(buildXlsx([{ name: 'Plan', rows: [['Name', 'Count', 'Start'], ['A & B', 3, { date: '2026-03-02' }]] }]));
+    expect(sheet.name).toBe('Plan');
+    expect(sheet.rows).toEqual([['Name', 'Count', 'Start'], ['A & B', 3, { date: '2026-03-02' }]]);
+  });
+
+  it('should read shared strings, custom date formats and gaps as Excel writes them', async () => {
+    const encoder = new TextEncoder();
+    const workbook = createZip([
+      { name: 'xl/workbook.xml', data: encoder.encode('<workbook><sheets><sheet name="Crew &amp; plan" sheetId="1" r:id="rId3"/></sheets></workbook>') },
+      { name: 'xl/_rels/workbook.xml.rels', data: encoder.encode('<Relationships><Relationship Id="rId3" Target="/xl/worksheets/data.xml"/></Relationships>') },
+      { name: 'xl/sharedStrings.xml', data: encoder.encode('<sst><si><t>Team</t></si><si><r><t>Nor</t></r><r><t>th</t></r><rPh><t>x</t></rPh></si></sst>') },
+      {
+        name: 'xl/styles.xml',
+        data: encoder.encode('<styleSheet><numFmts><numFmt numFmtId="164" formatCode="dd/mm/yyyy"/><numFmt numFmtId="165" formatCode="0.0&quot;d&quot;"/></numFmts><cellXfs><xf numFmtId="0"/><xf numFmtId="164"/><xf numFmtId="165"/></cellXfs></styleSheet>'),
+      },
+      {
+        name: 'xl/worksheets/data.xml',
+        data: encoder.encode('<worksheet><sheetData><row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="inlineStr"><is><t>Start</t></is></c></row><row r="3"><c r="A3" t="s"><v>1</v></c><c r="B3" s="2"><v>1.5</v></c><c r="C3" s="1"><v>46083</v></c><c r="D3" t="b"><v>1</v></c></row></sheetData></worksheet>'),
+      },
+    ]);
+
+    const [sheet] = await readXlsx(workbook);
+    expect(sheet.name).toBe('Crew & plan');
+    expect(sheet.rows).toEqual([
+      ['Team', null, 'Start'],
+      [],
+      ['North', 1.5, { date: '2026-03-02' }, 'TRUE'],
+    ]);
+  });
+
+  it('should require the team, date and resource columns', () => {
+    expect(() => readImportRows([['Resource', 'Team']])).toThrow('Missing columns: Start, End');
+    expect(() => readImportRows([['Crew', 'From', 'To']])).toThrow('Missing column: Resource ID or Resource');
+    expect(readImportRows([['Technician', 'Crew', 'From', 'To'], [], ['Adam Jones', 'North', '2026-04-01', '2026-04-05']]))
+      .toEqual([{ rowNumber: 3, values: { resourceId: null, resource: 'Adam Jones', team: 'North', start: '2026-04-01', end: '2026-04-05', leader: null, role: null } }]);
+  });
+
+  it('should parse date cells, Excel serial numbers and yyyy-MM-dd text', () => {
+    expect(parseImportDate({ date: '2026-03-02' })).toBe('2026-03-02');
+    expect(parseImportDate(46083)).toBe('2026-03-02');
+    expect(parseImportDate('2026-03-02T00:00:00Z')).toBe('2026-03-02');
+    expect(parseImportDate('2026-02-30')).toBeNull();
+    expect(parseImportDate('02/03/2026')).toBeNull();
+    expect(parseImportDate(46083.5)).toBeNull();
+  });
+
+  it('should accept matching rows as new memberships, with leader periods when flagged', () => {
+    const [byId, byName] = preview([
+      ['res-2', '', 'north', '2026-04-01', '2026-04-15', 'Yes', 'Welder'],
+      ['', 'adam jones', 'South', '2026-05-01', '2026-05-15', '', ''],
+    ]);
+
+    expect(byId).toMatchObject({
+      status: 'accepted',
+      resourceLabel: 'Adam Jones',
+      teamLabel: 'North',
+      isTeamLeader: true,
+      input: {
+        resourceId: 'res-2',
+        teamId: 'team-1',
+        start: '2026-04-01T00:00:00.000Z',
+        end: '2026-04-15T00:00:00.000Z',
+        role: 'Welder',
+        isTeamLeader: true,
+      },
+    });
+    // South has no leader for the new membership, which is a warning only
+    expect(byName.status).toBe('accepted');
+    expect(byName.input?.isTeamLeader).toBeUndefined();
+    expect(byName.messages).toEqual([expect.stringContaining('South has no Team Leader')]);
+  });
+
+  it('should report rows whose resource, team or dates cannot be matched', () => {
+    const rows = preview([
+      ['res-9', '', 'North', '2026-04-01', '2026-04-15', '', ''],
+      ['', 'Sam Lee', 'North', '2026-04-01', '2026-04-15', '', ''],
+      ['res-2', '', 'West', 'soon', '2026-04-15', '', ''],
+    ]);
+
+    expect(rows.map((row) => row.status)).toEqual(['unmatched', 'unmatched', 'unmatched']);
+    expect(rows[0].messages).toEqual(['Unknown resource res-9']);
+    expect(rows[1].messages).toEqual(['2 resources are named Sam Lee; give the resource ID']);
+    expect(rows[2].messages).toEqual(['Unknown team West', 'Invalid start date soon']);
+  });
+
+  it('should report rows that break the schedule rules, including against earlier rows', () => {
+    const rows = preview([
+      ['res-1', '', 'South', '2026-03-10', '2026-03-20', '', ''],
+      ['res-2', '', 'North', '2026-03-05', '2026-03-10', 'Yes', ''],
+      ['res-3', '', 'South', '2026-04-01', '2026-04-10', 'Yes', ''],
+      ['res-3', '', 'North', '2026-04-05', '2026-04-12', '', ''],
+      ['res-2', '', 'North', '2026-04-10', '2026-04-01', '', ''],
+    ]);
+
+    expect(rows.map((row) => row.status)).toEqual(['conflict', 'conflict', 'accepted', 'conflict', 'conflict']);
+    expect(rows[0].messages[0]).toContain('Zoe Smith');
+    expect(rows[1].messages[0]).toContain('Team Leader');
+    expect(rows[3].messages[0]).toContain('Sam Lee');
+    expect(rows[4].messages).toEqual(['Start date must be before end date']);
+  });
+
+  it('should mark rows of an exported schedule as already planned', async () => {
+    const exported = buildScheduleExport(
+      { ...state, changes: { createdAssignments: [], updatedAssignments: [], createdLeaderPeriods: [], updatedLeaderPeriods: [], deletedLeaderPeriods: [] } },
+      null,
+      'xlsx'
+    ) as Uint8Array<ArrayBuffer>;
+    const [sheet] = await readXlsx(exported);
+
+    const rows = previewScheduleImport('export.xlsx', readImportRows(sheet.rows), state).rows;
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ status: 'conflict', messages: ['Already in the schedule'] });
+  });
+});
@@ -0,0 +1,73 @@
+// CSV - comma separated values as Excel and most tools read them (RFC 4180)
+
+import { isDateCell, type CellValue } from './xlsx';
+
+export const CSV_MIME_TYPE = 'text/csv;charset=utf-8';
+
+// Byte order mark, without which Excel reads UTF-8 files as the local code page
+export const CSV_BOM = '\uFEFF';
+
+function csvField(value: CellValue): string {
+  if (value === null) return '';
+  const text = isDateCell(value) ? value.date : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Rows as CSV text with CRLF line endings; dates are written as yyyy-MM-dd
+ */
+export function toCsv(rows: CellValue[][]): string {
+  return rows.map((row) => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+// Excel writes CSV with semicolons where the comma is the decimal separator
+function detectDelimiter(text: string): ',' | ';' {
+  const firstLine = text.replace(/"[^"]*"/g, '').split(/\r?\n/, 1)[0];
+  return (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+}
+
+/**
+ * Parse CSV text into rows of strings. Quoted fields may hold delimiters, quotes and line breaks;
+ * the delimiter is a comma or, if the header has more of them, a semicolon. Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.startsWith(CSV_BOM) ? text.slice(1) : text;
+  const delimiter = detectDelimiter(input);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) endRow();
+  return rows;
+}
@@ -0,0 +1,123 @@
+// Schedule Export - the working state as spreadsheet rows: a flat sheet with every
+// membership plus one sheet per team. Rows with changes not yet pushed to IFS are flagged.
+
+import type { Assignment, LeaderPeriod, Resource, Team, TimeRange } from '@/domain/types';
+import { periodsOverlap, rangesOverlap } from '@/domain/overlap';
+import { fromLocalDate, toDateOnly, toLocalDay } from '@/domain/dateOnly';
+import { toCsv } from './csv';
+import { buildXlsx, type CellValue, type Sheet } from './xlsx';
+
+// Tracked changes of the working state, as returned by api.getChangeSummary()
+export interface ExportChanges {
+  createdAssignments: Assignment[];
+  updatedAssignments: Assignment[];
+  createdLeaderPeriods: LeaderPeriod[];
+  updatedLeaderPeriods: LeaderPeriod[];
+  deletedLeaderPeriods: LeaderPeriod[];
+}
+
+export interface ScheduleExportData {
+  resources: Resource[];
+  teams: Team[];
+  assignments: Assignment[];
+  leaderPeriods: LeaderPeriod[];
+  changes: ExportChanges;
+}
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export const FLAT_SHEET_NAME = 'All teams';
+
+// Flat sheet columns; the team sheets leave out the three team columns
+export const EXPORT_COLUMNS = [
+  'Team',
+  'Team Description',
+  'Crew ResourceSeq',
+  'Resource ID',
+  'Resource',
+  'ResourceSeq',
+  'Start',
+  'End',
+  'Team Leader',
+  'Role',
+  'Unsaved Change',
+] as const;
+
+const TEAM_COLUMN_COUNT = 3;
+
+type UnsavedChange = 'New' | 'Changed' | '';
+
+/**
+ * Whether the membership itself or a leader period of the resource in the team during it
+ * has changes that are not in IFS yet
+ */
+function getUnsavedChange(assignment: Assignment, changes: ExportChanges): UnsavedChange {
+  if (changes.createdAssignments.some((a) => a.id === assignment.id)) return 'New';
+  if (changes.updatedAssignments.some((a) => a.id === assignment.id)) return 'Changed';
+  const leaderChanged = [...changes.createdLeaderPeriods, ...changes.updatedLeaderPeriods, ...changes.deletedLeaderPeriods]
+    .some((l) => l.teamId === assignment.teamId && l.resourceId === assignment.resourceId && periodsOverlap(l, assignment));
+  return leaderChanged ? 'Changed' : '';
+}
+
+function assignmentRow(assignment: Assignment, team: Team, data: ScheduleExportData): CellValue[] {
+  const resource = data.resources.find((r) => r.id === assignment.resourceId);
+  const isLeader = data.leaderPeriods.some(
+    (l) => l.teamId === assignment.teamId && l.resourceId === assignment.resourceId && periodsOverlap(l, assignment)
+  );
+  return [
+    team.name,
+    team.description ?? '',
+    team.ResourceSeq ?? null,
+    assignment.resourceId,
+    resource?.description ?? '',
+    resource?.ResourceSeq ?? null,
+    { date: toDateOnly(assignment.start) },
+    { date: toDateOnly(assignment.end) },
+    isLeader ? 'Yes' : 'No',
+    assignment.role ?? '',
+    getUnsavedChange(assignment, data.changes),
+  ];
+}
+
+/**
+ * The export sheets: the flat sheet first, then one per team in board order.
+ * With a range only memberships overlapping it are included; teams are kept even when empty.
+ */
+export function buildScheduleSheets(data: ScheduleExportData, range: TimeRange | null): Sheet[] {
+  const inRange = (a: Assignment) => !range || rangesOverlap(toLocalDay(a.start), toLocalDay(a.end), range.start, range.end);
+  const resourceName = (a: Assignment) => data.resources.find((r) => r.id === a.resourceId)?.description ?? a.resourceId;
+  const byResourceAndStart = (a: Assignment, b: Assignment) =>
+    resourceName(a).localeCompare(resourceName(b)) || a.start.localeCompare(b.start);
+
+  const teamRows = data.teams.map((team) => ({
+    team,
+    rows: data.assignments
+      .filter((a) => a.teamId === team.id && inRange(a))
+      .sort(byResourceAndStart)
+      .map((a) => assignmentRow(a, team, data)),
+  }));
+
+  return [
+    { name: FLAT_SHEET_NAME, rows: [[...EXPORT_COLUMNS], ...teamRows.flatMap(({ rows }) => rows)] },
+    ...teamRows.map(({ team, rows }) => ({
+      name: team.name,
+      rows: [EXPORT_COLUMNS.slice(TEAM_COLUMN_COUNT), ...rows.map((row) => row.slice(TEAM_COLUMN_COUNT))],
+    })),
+  ];
+}
+
+/**
+ * File name for an export, with the date range when only part of the schedule is exported
+ */
+export function getExportFileName(format: ExportFormat, range: TimeRange | null, today = new Date()): string {
+  const period = range ? `${fromLocalDate(range.start)}_${fromLocalDate(range.end)}` : fromLocalDate(today);
+  return `crew-schedule-${period}.${format}`;
+}
+
+/**
+ * The export as file contents: CSV holds the flat sheet only, XLSX every sheet
+ */
+export function buildScheduleExport(data: ScheduleExportData, range: TimeRange | null, format: ExportFormat): string | Uint8Array<ArrayBuffer> {
+  const sheets = buildScheduleSheets(data, range);
+  return format === 'csv' ? toCsv(sheets[0].rows) : buildXlsx(sheets);
+}
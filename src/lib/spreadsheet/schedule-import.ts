@@ -0,0 +1,220 @@
+// Schedule Import - crew plans from a spreadsheet as new memberships
+// Rows are matched to loaded resources and teams and run through the schedule rules one after
+// the other, so rows of the same file that conflict with each other are caught as well.
+
+import type { Assignment, CreateAssignmentInput, LeaderPeriod, Resource, Team } from '@/domain/types';
+import { hasErrors, validateSchedule, type ScheduleState } from '@/domain/scheduleValidation';
+import { addDaysToDate, fromDateOnly, isDateOnly, toDateOnly, type DateOnly } from '@/domain/dateOnly';
+import { parseCsv } from './csv';
+import { isDateCell, readXlsx, type CellValue } from './xlsx';
+
+export type ImportColumn = 'resourceId' | 'resource' | 'team' | 'start' | 'end' | 'leader' | 'role';
+
+// Accepted header names per column, compared ignoring case and extra spaces
+// The export headers are among them, so an exported file can be imported again
+const COLUMN_HEADERS: Record<ImportColumn, string[]> = {
+  resourceId: ['resource id', 'resourceid', 'technician id'],
+  resource: ['resource', 'technician', 'resource name', 'name'],
+  team: ['team', 'crew', 'team name'],
+  start: ['start', 'start date', 'from'],
+  end: ['end', 'end date', 'to'],
+  leader: ['team leader', 'leader'],
+  role: ['role'],
+};
+
+const LEADER_VALUES = ['yes', 'y', 'true', 'x', '1'];
+
+// Day 0 of the 1900 date system, for dates typed into cells without a date format
+const EXCEL_EPOCH = '1899-12-30';
+
+export interface ImportRow {
+  rowNumber: number; // Row in the file, the header being row 1
+  values: Record<ImportColumn, CellValue>;
+}
+
+export type ImportRowStatus = 'accepted' | 'conflict' | 'unmatched';
+
+export interface ImportRowResult {
+  rowNumber: number;
+  status: ImportRowStatus;
+  resourceLabel: string; // Resource as in the file, or its name when matched
+  teamLabel: string;
+  start: DateOnly | null;
+  end: DateOnly | null;
+  isTeamLeader: boolean;
+  input?: CreateAssignmentInput; // The membership to create, for accepted rows
+  messages: string[]; // Why a row is not accepted, or the warnings of an accepted row
+}
+
+export interface ImportPreview {
+  fileName: string;
+  rows: ImportRowResult[];
+}
+
+// ============================================================================
+// Reading files
+// ============================================================================
+
+function normalizeHeader(value: CellValue): string {
+  return typeof value === 'string' ? value.trim().toLowerCase().replace(/\s+/g, ' ') : '';
+}
+
+/**
+ * Map spreadsheet rows to import rows by their header
+ * Throws when a required column is missing: team, start, end and a resource ID or name
+ */
+export function readImportRows(rows: CellValue[][]): ImportRow[] {
+  const header = (rows[0] ?? []).map(normalizeHeader);
+  const columns = {} as Record<ImportColumn, number>;
+  (Object.keys(COLUMN_HEADERS) as ImportColumn[]).forEach((column) => {
+    columns[column] = header.findIndex((name) => COLUMN_HEADERS[column].includes(name));
+  });
+
+  const missing = [
+    columns.resourceId === -1 && columns.resource === -1 ? 'Resource ID or Resource' : null,
+    columns.team === -1 ? 'Team' : null,
+    columns.start === -1 ? 'Start' : null,
+    columns.end === -1 ? 'End' : null,
+  ].filter((name): name is string => name !== null);
+  if (missing.length > 0) {
+    throw new Error(`Missing column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}`);
+  }
+
+  return rows.slice(1)
+    .map((row, index) => {
+      const values = {} as Record<ImportColumn, CellValue>;
+      (Object.keys(columns) as ImportColumn[]).forEach((column) => {
+        values[column] = columns[column] === -1 ? null : row[columns[column]] ?? null;
+      });
+      return { rowNumber: index + 2, values };
+    })
+    .filter(({ values }) => Object.values(values).some((value) => value !== null && String(value).trim() !== ''));
+}
+
+/**
+ * Read the import rows of a CSV file or of the first sheet of an .xlsx workbook
+ */
+export async function readImportFile(file: File): Promise<ImportRow[]> {
+  if (/\.xlsx$/i.test(file.name)) {
+    const [sheet] = await readXlsx(new Uint8Array(await file.arrayBuffer()));
+    return readImportRows(sheet?.rows ?? []);
+  }
+  if (/\.csv$/i.test(file.name)) {
+    return readImportRows(parseCsv(await file.text()));
+  }
+  throw new Error('Choose a .csv or .xlsx file');
+}
+
+// ============================================================================
+// Matching and validation
+// ============================================================================
+
+function cellText(value: CellValue): string {
+  if (value === null) return '';
+  return isDateCell(value) ? value.date : String(value).trim();
+}
+
+/**
+ * A date cell, an Excel serial number or a yyyy-MM-dd text (a time part is ignored)
+ */
+export function parseImportDate(value: CellValue): DateOnly | null {
+  if (value === null) return null;
+  if (isDateCell(value)) return value.date;
+  if (typeof value === 'number') return Number.isInteger(value) && value > 0 ? addDaysToDate(EXCEL_EPOCH, value) : null;
+  const date = value.trim().slice(0, 10);
+  // Day and month must exist: 2026-02-30 does not come back the same
+  return isDateOnly(date) && toDateOnly(fromDateOnly(date)) === date ? date : null;
+}
+
+// Resource by ID, then by name; a name shared by several resources matches none
+function matchResource(row: ImportRow, resources: Resource[]): { resource?: Resource; message?: string } {
+  const id = cellText(row.values.resourceId);
+  const name = cellText(row.values.resource);
+  if (!id && !name) return { message: 'No resource given' };
+
+  const byId = resources.find((r) => r.id === id || (!id && r.id === name));
+  if (byId) return { resource: byId };
+
+  const byName = name ? resources.filter((r) => r.description.toLowerCase() === name.toLowerCase()) : [];
+  if (byName.length === 1) return { resource: byName[0] };
+  if (byName.length > 1) return { message: `${byName.length} resources are named ${name}; give the resource ID` };
+  return { message: `Unknown resource ${id || name}` };
+}
+
+function previewRow(row: ImportRow, state: ScheduleState, accepted: Assignment[], acceptedLeaders: LeaderPeriod[]): ImportRowResult {
+  const { resource, message: resourceMessage } = matchResource(row, state.resources);
+  const teamText = cellText(row.values.team);
+  const team: Team | undefined = state.teams.find((t) => t.name.toLowerCase() === teamText.toLowerCase());
+  const start = parseImportDate(row.values.start);
+  const end = parseImportDate(row.values.end);
+  const isTeamLeader = LEADER_VALUES.includes(cellText(row.values.leader).toLowerCase());
+  const role = cellText(row.values.role) || undefined;
+
+  const result: ImportRowResult = {
+    rowNumber: row.rowNumber,
+    status: 'unmatched',
+    resourceLabel: resource?.description ?? (cellText(row.values.resourceId) || cellText(row.values.resource)),
+    teamLabel: team?.name ?? teamText,
+    start,
+    end,
+    isTeamLeader,
+    messages: [],
+  };
+
+  if (resourceMessage) result.messages.push(resourceMessage);
+  if (!team) result.messages.push(teamText ? `Unknown team ${teamText}` : 'No team given');
+  if (!start) result.messages.push(`Invalid start date ${cellText(row.values.start)}`.trim());
+  if (!end) result.messages.push(`Invalid end date ${cellText(row.values.end)}`.trim());
+  if (!resource || !team || !start || !end) return result;
+
+  const input: CreateAssignmentInput = {
+    resourceId: resource.id,
+    teamId: team.id,
+    start: fromDateOnly(start),
+    end: fromDateOnly(end),
+    role,
+    isTeamLeader: isTeamLeader || undefined,
+  };
+  const assignments = [...state.assignments, ...accepted];
+  const isDuplicate = assignments.some((a) =>
+    a.resourceId === input.resourceId && a.teamId === input.teamId &&
+    toDateOnly(a.start) === start && toDateOnly(a.end) === end
+  );
+  if (isDuplicate) {
+    return { ...result, status: 'conflict', messages: ['Already in the schedule'] };
+  }
+
+  const violations = validateSchedule(
+    { ...state, assignments, leaderPeriods: [...state.leaderPeriods, ...acceptedLeaders] },
+    { kind: 'createAssignment', input }
+  );
+  if (hasErrors(violations)) {
+    return { ...result, status: 'conflict', messages: violations.filter((v) => v.severity === 'error').map((v) => v.message) };
+  }
+  return { ...result, status: 'accepted', input, messages: violations.map((v) => v.message) };
+}
+
+/**
+ * Sort import rows into accepted, conflicting and unmatched rows
+ * Each row is checked against the schedule plus the rows accepted before it. Leader gaps are
+ * warnings and do not stop a row, just as when a membership is added on the board.
+ */
+export function previewScheduleImport(fileName: string, rows: ImportRow[], state: ScheduleState): ImportPreview {
+  const accepted: Assignment[] = [];
+  const acceptedLeaders: LeaderPeriod[] = [];
+
+  const results = rows.map((row) => {
+    const result = previewRow(row, state, accepted, acceptedLeaders);
+    if (result.input) {
+      const { isTeamLeader, ...membership } = result.input;
+      accepted.push({ ...membership, id: `import-${row.rowNumber}` });
+      if (isTeamLeader) {
+        const { resourceId, teamId, start, end } = membership;
+        acceptedLeaders.push({ id: `import-leader-${row.rowNumber}`, resourceId, teamId, start, end });
+      }
+    }
+    return result;
+  });
+
+  return { fileName, rows: results };
+}
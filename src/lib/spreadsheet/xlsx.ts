@@ -0,0 +1,278 @@
+// XLSX - writes Office Open XML workbooks with one worksheet per sheet, and reads them back
+// Strings are written inline and dates as date-formatted serial numbers, so no shared string table is needed
+
+import { addDaysToDate, daysBetween, type DateOnly } from '@/domain/dateOnly';
+import { createZip, readZip } from './zip';
+
+// A date cell, shown with the reader's short date format
+export interface DateCell {
+  date: DateOnly;
+}
+
+export type CellValue = string | number | DateCell | null;
+
+export interface Sheet {
+  name: string;
+  rows: CellValue[][]; // The first row is the header, shown in bold
+}
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Excel rules for sheet names
+const SHEET_NAME_MAX_LENGTH = 31;
+const SHEET_NAME_INVALID = /[\][:*?/\\]/g;
+
+// Day 0 of the 1900 date system, as Excel counts it
+const EXCEL_EPOCH = '1899-12-30';
+
+const STYLE_HEADER = 1;
+const STYLE_DATE = 2;
+
+export function isDateCell(value: CellValue): value is DateCell {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Column letters of a zero-based index: 0 → A, 25 → Z, 26 → AA
+ */
+export function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function escapeXml(value: string): string {
+  return value
+    // Control characters are not allowed in XML 1.0
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Sheet names that Excel accepts: no []:*?/\, at most 31 characters, unique ignoring case
+ */
+export function toSheetNames(names: string[]): string[] {
+  const used = new Set<string>();
+  return names.map((name) => {
+    const base = name.replace(SHEET_NAME_INVALID, ' ').trim().slice(0, SHEET_NAME_MAX_LENGTH) || 'Sheet';
+    let unique = base;
+    for (let n = 2; used.has(unique.toLowerCase()); n++) {
+      const suffix = ` (${n})`;
+      unique = base.slice(0, SHEET_NAME_MAX_LENGTH - suffix.length) + suffix;
+    }
+    used.add(unique.toLowerCase());
+    return unique;
+  });
+}
+
+function cellXml(value: CellValue, ref: string, isHeader: boolean): string {
+  if (value === null || value === '') return '';
+  const style = isHeader ? ` s="${STYLE_HEADER}"` : '';
+  if (typeof value === 'number') return `<c r="${ref}"${style}><v>${value}</v></c>`;
+  if (isDateCell(value)) {
+    return `<c r="${ref}" s="${STYLE_DATE}"><v>${daysBetween(EXCEL_EPOCH, value.date)}</v></c>`;
+  }
+  return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+}
+
+function worksheetXml(sheet: Sheet): string {
+  const rows = sheet.rows.map((row, rowIndex) => {
+    const cells = row.map((value, columnIndex) => cellXml(value, `${columnName(columnIndex)}${rowIndex + 1}`, rowIndex === 0));
+    return `<row r="${rowIndex + 1}">${cells.join('')}</row>`;
+  });
+  // Keep the header row in view while scrolling
+  const frozenHeader = sheet.rows.length > 1
+    ? '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+    : '';
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">${frozenHeader}<sheetData>${rows.join('')}</sheetData></worksheet>`;
+}
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="3"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/><xf numFmtId="14" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/></cellXfs>
+</styleSheet>`;
+
+/**
+ * Build an .xlsx workbook. Sheet names are made valid and unique first.
+ */
+export function buildXlsx(sheets: Sheet[]): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const names = toSheetNames(sheets.map((sheet) => sheet.name));
+
+  const contentTypes = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+${sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('\n')}
+</Types>`;
+
+  const rootRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`;
+
+  const workbook = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets>${names.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')}</sheets>
+</workbook>`;
+
+  const workbookRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+${sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('\n')}
+<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+  return createZip([
+    { name: '[Content_Types].xml', data: encoder.encode(contentTypes) },
+    { name: '_rels/.rels', data: encoder.encode(rootRels) },
+    { name: 'xl/workbook.xml', data: encoder.encode(workbook) },
+    { name: 'xl/_rels/workbook.xml.rels', data: encoder.encode(workbookRels) },
+    { name: 'xl/styles.xml', data: encoder.encode(STYLES_XML) },
+    ...sheets.map((sheet, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, data: encoder.encode(worksheetXml(sheet)) })),
+  ]);
+}
+
+// ============================================================================
+// Reading
+// ============================================================================
+
+// Built-in number formats that show a date (ECMA-376 18.8.30)
+const BUILT_IN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+function unescapeXml(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_, entity: string) => {
+    switch (entity.toLowerCase()) {
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'amp': return '&';
+      case 'quot': return '"';
+      case 'apos': return "'";
+    }
+    return String.fromCodePoint(entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+  });
+}
+
+function getAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}="([^"]*)"`));
+  return match ? unescapeXml(match[1]) : undefined;
+}
+
+// The text of a string item: all its runs, without phonetic hints
+function textContent(xml: string): string {
+  return Array.from(xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '').matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g))
+    .map((match) => unescapeXml(match[1]))
+    .join('');
+}
+
+// Zero-based column index of a cell reference: B7 → 1
+function columnIndex(ref: string): number {
+  let index = 0;
+  for (const letter of ref.replace(/\d+$/, '')) index = index * 26 + letter.charCodeAt(0) - 64;
+  return index - 1;
+}
+
+// Indexes of the cell styles whose number format shows a date
+function findDateStyles(stylesXml: string): Set<number> {
+  const dateFormats = new Set(BUILT_IN_DATE_FORMATS);
+  for (const [tag] of Array.from(stylesXml.matchAll(/<numFmt\b[^>]*>/g))) {
+    // Date formats use d, m or y outside of quoted text and [color]/[$-locale] sections
+    const code = (getAttribute(tag, 'formatCode') ?? '').replace(/"[^"]*"|\[[^\]]*\]|\\./g, '');
+    if (/[dmy]/i.test(code)) dateFormats.add(Number(getAttribute(tag, 'numFmtId')));
+  }
+  const cellXfs = stylesXml.match(/<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/)?.[1] ?? '';
+  const styles = new Set<number>();
+  Array.from(cellXfs.matchAll(/<xf\b[^>]*>/g)).forEach(([tag], index) => {
+    if (dateFormats.has(Number(getAttribute(tag, 'numFmtId') ?? 0))) styles.add(index);
+  });
+  return styles;
+}
+
+function readCell(cellXml: string, sharedStrings: string[], dateStyles: Set<number>): CellValue {
+  const tag = cellXml.match(/^<c\b[^>]*>/)?.[0] ?? cellXml;
+  const type = getAttribute(tag, 't') ?? 'n';
+  if (type === 'inlineStr') return textContent(cellXml.match(/<is>([\s\S]*?)<\/is>/)?.[1] ?? '');
+
+  const raw = cellXml.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+  if (raw === undefined) return null;
+  const value = unescapeXml(raw);
+  switch (type) {
+    case 's': return sharedStrings[Number(value)] ?? null;
+    case 'b': return value === '1' ? 'TRUE' : 'FALSE';
+    case 'e': return null;
+    case 'str':
+    case 'd': return value;
+  }
+  const number = Number(value);
+  if (dateStyles.has(Number(getAttribute(tag, 's') ?? 0))) {
+    return { date: addDaysToDate(EXCEL_EPOCH, Math.floor(number)) };
+  }
+  return number;
+}
+
+function readWorksheet(xml: string, sharedStrings: string[], dateStyles: Set<number>): CellValue[][] {
+  const rows: CellValue[][] = [];
+  for (const [rowXml] of Array.from(xml.matchAll(/<row\b[^>]*?(?:\/>|>[\s\S]*?<\/row>)/g))) {
+    const rowNumber = Number(getAttribute(rowXml.match(/^<row\b[^>]*>/)?.[0] ?? '', 'r') ?? rows.length + 1);
+    const row: CellValue[] = [];
+    for (const [cellXml] of Array.from(rowXml.matchAll(/<c\b[^>]*?(?:\/>|>[\s\S]*?<\/c>)/g))) {
+      const ref = getAttribute(cellXml.match(/^<c\b[^>]*>/)?.[0] ?? '', 'r');
+      const index = ref ? columnIndex(ref) : row.length;
+      while (row.length < index) row.push(null);
+      row[index] = readCell(cellXml, sharedStrings, dateStyles);
+    }
+    // Rows without cells are left out of the file
+    while (rows.length < rowNumber - 1) rows.push([]);
+    rows[rowNumber - 1] = row;
+  }
+  return rows;
+}
+
+/**
+ * Read the sheets of an .xlsx workbook in workbook order. Cells hold strings, numbers and dates
+ * (numbers with a date format); formulas give their cached value and errors are empty.
+ */
+export async function readXlsx(data: Uint8Array<ArrayBuffer>): Promise<Sheet[]> {
+  const decoder = new TextDecoder();
+  const files = new Map((await readZip(data)).map((entry) => [entry.name.replace(/^\//, ''), entry.data]));
+  const readFile = (name: string) => {
+    const file = files.get(name);
+    return file ? decoder.decode(file) : undefined;
+  };
+
+  const workbook = readFile('xl/workbook.xml');
+  if (!workbook) {
+    throw new Error('Not an Excel workbook');
+  }
+
+  const sharedStrings = Array.from((readFile('xl/sharedStrings.xml') ?? '').matchAll(/<si>([\s\S]*?)<\/si>/g))
+    .map((match) => textContent(match[1]));
+  const dateStyles = findDateStyles(readFile('xl/styles.xml') ?? '');
+
+  // Sheets refer to their worksheet file through the workbook relationships
+  const targets = new Map<string, string>();
+  for (const [tag] of Array.from((readFile('xl/_rels/workbook.xml.rels') ?? '').matchAll(/<Relationship\b[^>]*>/g))) {
+    const target = getAttribute(tag, 'Target') ?? '';
+    targets.set(getAttribute(tag, 'Id') ?? '', target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+  }
+
+  return Array.from(workbook.matchAll(/<sheet\b[^>]*>/g)).map(([tag]) => {
+    const worksheet = readFile(targets.get(getAttribute(tag, 'r:id') ?? '') ?? '');
+    return {
+      name: getAttribute(tag, 'name') ?? '',
+      rows: worksheet ? readWorksheet(worksheet, sharedStrings, dateStyles) : [],
+    };
+  });
+}
@@ -0,0 +1,43 @@
+// Calendar Storage - keeps the working calendar in localStorage, so a loaded
+// holiday file or IFS calendar is still in use after a page reload
+
+import type { WorkingCalendar } from '@/domain/workingCalendar';
+
+const STORAGE_KEY = 'teams-viewer.working-calendar';
+
+// Where the working calendar came from
+export type CalendarSource = 'default' | 'file' | 'ifs';
+
+export interface CalendarSettings {
+  calendar: WorkingCalendar;
+  source: CalendarSource;
+  ignoreNonWorkingGaps: boolean;
+}
+
+// localStorage is only available in the browser
+function isAvailable(): boolean {
+  return typeof localStorage !== 'undefined';
+}
+
+/**
+ * The settings saved by an earlier session, or null when there are none (or they are unreadable)
+ */
+export function loadCalendarSettings(): CalendarSettings | null {
+  if (!isAvailable()) return null;
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as CalendarSettings) : null;
+  } catch (error) {
+    console.warn('[Calendar] Could not read the saved working calendar:', error);
+    return null;
+  }
+}
+
+export function saveCalendarSettings(settings: CalendarSettings): void {
+  if (!isAvailable()) return;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('[Calendar] Could not save the working calendar:', error);
+  }
+}
@@ -1,17 +1,40 @@
 import { create } from 'zustand';
-import type { TimeRange, Assignment } from '@/domain/types';
+import type { TimeRange, Assignment, LeaderPeriod } from '@/domain/types';
+import {
+  getCustomRange,
+  getFitZoomIndex,
+  getPresetRange,
+  shiftViewRange,
+  type ViewPreset,
+} from '@/domain/viewRange';
+import { DEFAULT_WORKING_CALENDAR, type WorkingCalendar } from '@/domain/workingCalendar';
+import { toLocalDay } from '@/domain/dateOnly';
+import { loadCalendarSettings, saveCalendarSettings, type CalendarSource } from './calendar-storage';
 import { startOfWeek, endOfWeek, addWeeks } from 'date-fns';
 
-// Zoom levels: dayWidth in pixels
-export const ZOOM_LEVELS = [24, 32, 48, 64, 80, 96] as const;
+// Zoom levels: dayWidth in pixels. Below 24px the header shows week and month bands.
+export const ZOOM_LEVELS = [8, 12, 16, 24, 32, 48, 64, 80, 96] as const;
 export type ZoomLevel = typeof ZOOM_LEVELS[number];
-const DEFAULT_ZOOM_INDEX = 2; // 48px (middle)
+const DEFAULT_ZOOM_INDEX = 5; // 48px
+
+// 'teams': one section per team with its members, 'resources': one row per technician
+export type BoardMode = 'teams' | 'resources';
+
+// Place on the board to scroll to, e.g. a problem picked in the problems panel
+export interface FocusTarget {
+  teamId: string;
+  date: string; // Stored period timestamp (midnight UTC of the day)
+  bar: { kind: 'assignment' | 'leaderPeriod'; id: string } | null;
+  requestedAt: number; // Focusing the same target again scrolls again
+}
 
 interface UIState {
   // Selected items
   selectedTeamId: string | null;
   selectedResourceId: string | null;
   selectedAssignmentId: string | null;
+  selectedLeaderPeriodId: string | null;
+  focusTarget: FocusTarget | null;
 
   // Modal states
   isAssignmentDialogOpen: boolean;
@@ -21,9 +44,22 @@ interface UIState {
     teamId: string;
   } | null;
   editingAssignment: Assignment | null;
+  isLeaderPeriodDialogOpen: boolean;
+  leaderPeriodTeamId: string | null;
+  editingLeaderPeriod: LeaderPeriod | null;
 
   // View range
   viewRange: TimeRange;
+  viewPreset: ViewPreset;
+  timelineWidth: number; // Width of the board's day columns on screen, to fit the zoom to the range
+
+  // Board layout
+  boardMode: BoardMode;
+
+  // Working calendar: shades non-working days and counts working days
+  workingCalendar: WorkingCalendar;
+  calendarSource: CalendarSource;
+  ignoreNonWorkingGaps: boolean; // Leader gaps on non-working days only are not warned about
 
   // Zoom
   zoomIndex: number;
@@ -41,11 +77,23 @@ interface UIState {
   setSelectedTeam: (id: string | null) => void;
   setSelectedResource: (id: string | null) => void;
   setSelectedAssignment: (id: string | null) => void;
+  focusOn: (target: Omit<FocusTarget, 'requestedAt'>) => void;
   openAssignmentDialog: (resourceId: string, teamId: string) => void;
   openEditAssignmentDialog: (assignment: Assignment) => void;
   closeAssignmentDialog: () => void;
+  openLeaderPeriodDialog: (teamId: string) => void;
+  openEditLeaderPeriodDialog: (leaderPeriod: LeaderPeriod) => void;
+  closeLeaderPeriodDialog: () => void;
   setViewRange: (range: TimeRange) => void;
-  navigateWeeks: (direction: 'prev' | 'next') => void;
+  setViewPreset: (preset: Exclude<ViewPreset, 'custom'>) => void;
+  setCustomRange: (from: Date, to: Date) => void;
+  navigateRange: (direction: 'prev' | 'next') => void;
+  goToToday: () => void;
+  setTimelineWidth: (width: number) => void;
+  setBoardMode: (mode: BoardMode) => void;
+  setWorkingCalendar: (calendar: WorkingCalendar, source: CalendarSource) => void;
+  setIgnoreNonWorkingGaps: (ignore: boolean) => void;
+  restoreWorkingCalendar: () => void;
   zoomIn: () => void;
   zoomOut: () => void;
   resetZoom: () => void;
@@ -61,15 +109,37 @@ const defaultRange: TimeRange = {
   end: endOfWeek(addWeeks(today, 5), { weekStartsOn: 1 }),
 };
 
+// Zoom at which a newly picked range fills the board
+function fitZoom(range: TimeRange, timelineWidth: number): Pick<UIState, 'zoomIndex' | 'dayWidth'> {
+  const zoomIndex = getFitZoomIndex(ZOOM_LEVELS, range, timelineWidth);
+  return { zoomIndex, dayWidth: ZOOM_LEVELS[zoomIndex] };
+}
+
+// Calendar leader gaps are checked against: days off are left out everywhere when the user chose to ignore them
+export function selectGapCalendar(state: Pick<UIState, 'workingCalendar' | 'ignoreNonWorkingGaps'>): WorkingCalendar | null {
+  return state.ignoreNonWorkingGaps ? state.workingCalendar : null;
+}
+
 export const useUIStore = create<UIState>((set) => ({
   selectedTeamId: null,
   selectedResourceId: null,
   selectedAssignmentId: null,
+  selectedLeaderPeriodId: null,
+  focusTarget: null,
   isAssignmentDialogOpen: false,
   dialogMode: 'create',
   pendingAssignment: null,
   editingAssignment: null,
+  isLeaderPeriodDialogOpen: false,
+  leaderPeriodTeamId: null,
+  editingLeaderPeriod: null,
   viewRange: defaultRange,
+  viewPreset: 'custom',
+  timelineWidth: 1200,
+  boardMode: 'teams',
+  workingCalendar: DEFAULT_WORKING_CALENDAR,
+  calendarSource: 'default',
+  ignoreNonWorkingGaps: false,
   zoomIndex: DEFAULT_ZOOM_INDEX,
   dayWidth: ZOOM_LEVELS[DEFAULT_ZOOM_INDEX],
   hasUnsavedChanges: false,
@@ -81,6 +151,28 @@ export const useUIStore = create<UIState>((set) => ({
   setSelectedResource: (id) => set({ selectedResourceId: id }),
   setSelectedAssignment: (id) => set({ selectedAssignmentId: id }),
 
+  // Select the bar and move the view range to the date if it is not on screen.
+  // Only membership bars are on the resource board, anything else switches to the team board.
+  focusOn: (target) =>
+    set((state) => {
+      const date = toLocalDay(target.date);
+      const isVisible = date >= state.viewRange.start && date < state.viewRange.end;
+      const start = startOfWeek(date, { weekStartsOn: 1 });
+      const { viewPreset } = state;
+      return {
+        focusTarget: { ...target, requestedAt: Date.now() },
+        selectedTeamId: target.teamId,
+        selectedAssignmentId: target.bar?.kind === 'assignment' ? target.bar.id : null,
+        selectedLeaderPeriodId: target.bar?.kind === 'leaderPeriod' ? target.bar.id : null,
+        boardMode: target.bar?.kind === 'assignment' ? state.boardMode : 'teams',
+        viewRange: isVisible
+          ? state.viewRange
+          : viewPreset !== 'custom'
+            ? getPresetRange(viewPreset, date)
+            : { start, end: new Date(start.getTime() + (state.viewRange.end.getTime() - state.viewRange.start.getTime())) },
+      };
+    }),
+
   openAssignmentDialog: (resourceId, teamId) =>
     set({
       isAssignmentDialogOpen: true,
@@ -104,19 +196,84 @@ export const useUIStore = create<UIState>((set) => ({
       editingAssignment: null,
     }),
 
+  openLeaderPeriodDialog: (teamId) =>
+    set({
+      isLeaderPeriodDialogOpen: true,
+      leaderPeriodTeamId: teamId,
+      editingLeaderPeriod: null,
+    }),
+
+  openEditLeaderPeriodDialog: (leaderPeriod) =>
+    set({
+      isLeaderPeriodDialogOpen: true,
+      leaderPeriodTeamId: leaderPeriod.teamId,
+      editingLeaderPeriod: leaderPeriod,
+    }),
+
+  closeLeaderPeriodDialog: () =>
+    set({
+      isLeaderPeriodDialogOpen: false,
+      leaderPeriodTeamId: null,
+      editingLeaderPeriod: null,
+    }),
+
   setViewRange: (range) => set({ viewRange: range }),
 
-  navigateWeeks: (direction) =>
+  // The preset range containing the start of the current view
+  setViewPreset: (preset) =>
     set((state) => {
-      const weeks = direction === 'next' ? 1 : -1;
-      return {
-        viewRange: {
-          start: addWeeks(state.viewRange.start, weeks),
-          end: addWeeks(state.viewRange.end, weeks),
-        },
-      };
+      const viewRange = getPresetRange(preset, state.viewRange.start);
+      return { viewPreset: preset, viewRange, ...fitZoom(viewRange, state.timelineWidth) };
+    }),
+
+  setCustomRange: (from, to) =>
+    set((state) => {
+      const viewRange = getCustomRange(from, to);
+      return { viewPreset: 'custom', viewRange, ...fitZoom(viewRange, state.timelineWidth) };
+    }),
+
+  navigateRange: (direction) =>
+    set((state) => ({ viewRange: shiftViewRange(state.viewRange, state.viewPreset, direction) })),
+
+  // Same preset around today; a custom range keeps its length (and zoom) and starts this week
+  goToToday: () =>
+    set((state) => {
+      const now = new Date();
+      const start = startOfWeek(now, { weekStartsOn: 1 });
+      const viewRange = state.viewPreset !== 'custom'
+        ? getPresetRange(state.viewPreset, now)
+        : { start, end: new Date(start.getTime() + (state.viewRange.end.getTime() - state.viewRange.start.getTime())) };
+      return { viewRange };
+    }),
+
+  setTimelineWidth: (width) => set({ timelineWidth: width }),
+
+  setBoardMode: (mode) => set({ boardMode: mode }),
+
+  setWorkingCalendar: (calendar, source) =>
+    set((state) => {
+      saveCalendarSettings({ calendar, source, ignoreNonWorkingGaps: state.ignoreNonWorkingGaps });
+      return { workingCalendar: calendar, calendarSource: source };
     }),
 
+  setIgnoreNonWorkingGaps: (ignore) =>
+    set((state) => {
+      saveCalendarSettings({ calendar: state.workingCalendar, source: state.calendarSource, ignoreNonWorkingGaps: ignore });
+      return { ignoreNonWorkingGaps: ignore };
+    }),
+
+  // Read once on the client; the server render always starts from the default calendar
+  restoreWorkingCalendar: () => {
+    const settings = loadCalendarSettings();
+    if (settings) {
+      set({
+        workingCalendar: settings.calendar,
+        calendarSource: settings.source,
+        ignoreNonWorkingGaps: settings.ignoreNonWorkingGaps,
+      });
+    }
+  },
+
   zoomIn: () =>
     set((state) => {
       const newIndex = Math.min(state.zoomIndex + 1, ZOOM_LEVELS.length - 1);